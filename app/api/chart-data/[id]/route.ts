@@ -1,98 +1,121 @@
-import { NextRequest, NextResponse } from 'next/server';
-
-// Mock data (in real app, this would be in a database)
-let mockChartData = [
-  {
-    _id: '1',
-    portfolio: 'portfolio1',
-    date: '2024-01-15T10:00:00.000Z',
-    dateOnly: '2024-01-15',
-    portfolioValue: 150000,
-    cashRemaining: 25000,
-    compareIndexValue: 18500,
-    compareIndexPriceSource: 'closing' as const,
-    usedClosingPrices: true,
-    dataVerified: true,
-    dataQualityIssues: []
-  }
-];
+// app\api\chart-data\[id]\route.ts
+import { NextResponse } from "next/server";
+import { fetchWithToken, API_BASE_URL } from "@/lib/auth";
+import { authenticateRequest } from "@/lib/route-auth";
 
 export async function GET(
-  request: NextRequest,
+  req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const accessToken = await authenticateRequest(req);
+
+    if (!accessToken) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
     const { id } = await params;
-    const entry = mockChartData.find(item => item._id === id);
-    
-    if (!entry) {
-      return NextResponse.json(
-        { success: false, error: 'Price log not found' },
-        { status: 404 }
-      );
+
+    const response = await fetchWithToken(`${API_BASE_URL}/api/chart-data/${id}`, accessToken);
+
+    if (!response.ok) {
+      const error = await response.json();
+      return new NextResponse(JSON.stringify(error), {
+        status: response.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
 
-    return NextResponse.json(entry);
+    const data = await response.json();
+    return NextResponse.json(data);
   } catch (error) {
-    console.error('Error in GET /api/chart-data/[id]:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to fetch price log' },
-      { status: 500 }
-    );
+    console.error("[CHART_DATA_ENTRY_GET]", error);
+    return new NextResponse("Internal Error", { status: 500 });
   }
 }
 
 export async function PUT(
-  request: NextRequest,
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return updateEntry(req, params, "PUT");
+}
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return updateEntry(req, params, "PATCH");
+}
+
+export async function DELETE(
+  req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const accessToken = await authenticateRequest(req);
+
+    if (!accessToken) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
     const { id } = await params;
-    const body = await request.json();
-    
-    const entryIndex = mockChartData.findIndex(item => item._id === id);
-    if (entryIndex === -1) {
-      return NextResponse.json(
-        { success: false, error: 'Price log not found' },
-        { status: 404 }
-      );
+
+    const response = await fetchWithToken(`${API_BASE_URL}/api/chart-data/${id}`, accessToken, {
+      method: "DELETE",
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      return new NextResponse(JSON.stringify(error), {
+        status: response.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
 
-    mockChartData[entryIndex] = { ...mockChartData[entryIndex], ...body };
-    
-    return NextResponse.json(mockChartData[entryIndex]);
+    const data = await response.json().catch(() => ({ success: true }));
+    return NextResponse.json(data);
   } catch (error) {
-    console.error('Error in PUT /api/chart-data/[id]:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to update price log' },
-      { status: 500 }
-    );
+    console.error("[CHART_DATA_ENTRY_DELETE]", error);
+    return new NextResponse("Internal Error", { status: 500 });
   }
 }
 
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
+async function updateEntry(
+  req: Request,
+  params: Promise<{ id: string }>,
+  method: "PUT" | "PATCH"
 ) {
   try {
+    const accessToken = await authenticateRequest(req);
+
+    if (!accessToken) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
     const { id } = await params;
-    const entryIndex = mockChartData.findIndex(item => item._id === id);
-    
-    if (entryIndex === -1) {
-      return NextResponse.json(
-        { success: false, error: 'Price log not found' },
-        { status: 404 }
-      );
+    const body = await req.json();
+
+    const response = await fetchWithToken(`${API_BASE_URL}/api/chart-data/${id}`, accessToken, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      return new NextResponse(JSON.stringify(error), {
+        status: response.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
 
-    mockChartData.splice(entryIndex, 1);
-    
-    return NextResponse.json({ success: true, message: 'Price log deleted' });
+    const data = await response.json();
+    return NextResponse.json(data);
   } catch (error) {
-    console.error('Error in DELETE /api/chart-data/[id]:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to delete price log' },
-      { status: 500 }
-    );
+    console.error(`[CHART_DATA_ENTRY_${method}]`, error);
+    return new NextResponse("Internal Error", { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -1,21 +1,75 @@
-import { NextRequest, NextResponse } from 'next/server';
+// app\api\chart-data\cleanup-duplicates\route.ts
+import { NextResponse } from "next/server";
+import {
+  deleteChartData,
+  fetchAllChartData,
+  findDuplicateChartData,
+  getChartPointId,
+  type CleanupDuplicatesResponse,
+} from "@/lib/api-chart-data";
+import { authenticateRequest } from "@/lib/route-auth";
 
-export async function POST(request: NextRequest) {
+export async function POST(req: Request) {
   try {
-    // Mock cleanup operation
-    const deletedCount = Math.floor(Math.random() * 5); // Random number for demo
-    
-    return NextResponse.json({
-      success: true,
-      message: 'Cleanup completed successfully',
+    const accessToken = await authenticateRequest(req);
+
+    if (!accessToken) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    // The body is optional: without a portfolioId every portfolio is cleaned
+    const body = await req.json().catch(() => ({}));
+    const portfolioId: string | undefined = body?.portfolioId || undefined;
+    const dryRun = body?.dryRun === true;
+
+    const points = await fetchAllChartData(portfolioId, undefined, undefined, undefined, accessToken);
+    const groups = findDuplicateChartData(points);
+
+    let deletedCount = 0;
+    let failedCount = 0;
+    const duplicates: CleanupDuplicatesResponse["duplicates"] = [];
+
+    // Deleted one at a time so a single failure does not abort the cleanup
+    for (const group of groups) {
+      const deleted: string[] = [];
+      for (const point of group.remove) {
+        const id = getChartPointId(point);
+        if (!id) continue;
+        if (dryRun) {
+          deleted.push(id);
+          continue;
+        }
+        try {
+          await deleteChartData(id, accessToken);
+          deleted.push(id);
+          deletedCount++;
+        } catch (error) {
+          console.error(`[CHART_DATA_CLEANUP] Failed to delete ${id}`, error);
+          failedCount++;
+        }
+      }
+      duplicates.push({
+        portfolio: group.portfolio,
+        dateOnly: group.dateOnly,
+        kept: getChartPointId(group.keep) || "",
+        deleted,
+      });
+    }
+
+    const result: CleanupDuplicatesResponse = {
+      success: failedCount === 0,
+      message: dryRun ? "Dry run completed" : "Cleanup completed",
       deletedCount,
-      details: `Removed ${deletedCount} duplicate price logs`
-    });
+      failedCount,
+      details: dryRun
+        ? `Found ${duplicates.reduce((sum, d) => sum + d.deleted.length, 0)} duplicate price logs across ${groups.length} dates`
+        : `Removed ${deletedCount} duplicate price logs across ${groups.length} dates${failedCount ? `, ${failedCount} could not be removed` : ""}`,
+      duplicates,
+    };
+
+    return NextResponse.json(result);
   } catch (error) {
-    console.error('Error in POST /api/chart-data/cleanup-duplicates:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to cleanup duplicates' },
-      { status: 500 }
-    );
+    console.error("[CHART_DATA_CLEANUP]", error);
+    return new NextResponse("Internal Error", { status: 500 });
   }
-}
\ No newline at end of file
+}
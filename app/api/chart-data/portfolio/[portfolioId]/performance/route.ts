@@ -1,38 +1,47 @@
-import { NextRequest, NextResponse } from 'next/server';
+// app\api\chart-data\portfolio\[portfolioId]\performance\route.ts
+import { NextResponse } from "next/server";
+import { fetchAllChartData } from "@/lib/api-chart-data";
+import { computePortfolioAnalytics } from "@/lib/portfolio-analytics";
+import { authenticateRequest } from "@/lib/route-auth";
 
 export async function GET(
-  request: NextRequest, 
+  req: Request,
   { params }: { params: Promise<{ portfolioId: string }> }
 ) {
   try {
+    const accessToken = await authenticateRequest(req);
+
+    if (!accessToken) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
     const { portfolioId } = await params;
-    const { searchParams } = new URL(request.url);
-    const startDate = searchParams.get('startDate');
-    const endDate = searchParams.get('endDate');
+    const { searchParams } = new URL(req.url);
+    const startDate = searchParams.get("startDate") || undefined;
+    const endDate = searchParams.get("endDate") || undefined;
+
+    const points = await fetchAllChartData(portfolioId, startDate, endDate, undefined, accessToken);
 
-    // Mock performance data based on API specification
-    const mockPerformance = {
+    const riskFreeRate = Number(searchParams.get("riskFreeRate"));
+    const analytics = computePortfolioAnalytics(points, {
+      riskFreeRate: Number.isFinite(riskFreeRate) && searchParams.has("riskFreeRate") ? riskFreeRate : undefined,
+    });
+
+    if (!analytics) {
+      return NextResponse.json(
+        { success: false, message: "No chart data found for this portfolio in the selected range" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
       success: true,
       portfolioId,
-      totalReturn: 12.5,
-      currentValue: 112500,
-      benchmarkReturn: 8.3,
-      startValue: 100000,
-      startDate: startDate || '2024-01-01',
-      endDate: endDate || new Date().toISOString().split('T')[0],
-      volatility: 15.2,
-      sharpeRatio: 0.85,
-      maxDrawdown: -8.5,
-      alpha: 4.2,
-      beta: 1.1
-    };
-
-    return NextResponse.json(mockPerformance);
+      ...analytics,
+      maxDrawdown: analytics.drawdown.maxDrawdown,
+    });
   } catch (error) {
-    console.error('Error in GET /api/chart-data/portfolio/[portfolioId]/performance:', error);
-    return NextResponse.json(
-      { success: false, error: 'Portfolio not found' },
-      { status: 404 }
-    );
+    console.error("[CHART_DATA_PERFORMANCE_GET]", error);
+    return new NextResponse("Internal Error", { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -1,108 +1,74 @@
-import { NextRequest, NextResponse } from 'next/server';
+// app\api\chart-data\route.ts
+import { NextResponse } from "next/server";
+import { fetchWithToken, API_BASE_URL } from "@/lib/auth";
+import { authenticateRequest } from "@/lib/route-auth";
 
-// Mock data for demonstration
-let mockChartData = [
-  {
-    _id: '1',
-    portfolio: 'portfolio1',
-    date: '2024-01-15T10:00:00.000Z',
-    dateOnly: '2024-01-15',
-    portfolioValue: 150000,
-    cashRemaining: 25000,
-    compareIndexValue: 18500,
-    compareIndexPriceSource: 'closing' as const,
-    usedClosingPrices: true,
-    dataVerified: true,
-    dataQualityIssues: []
-  },
-  {
-    _id: '2',
-    portfolio: 'portfolio1',
-    date: '2024-01-16T10:00:00.000Z',
-    dateOnly: '2024-01-16',
-    portfolioValue: 152000,
-    cashRemaining: 23000,
-    compareIndexValue: 18600,
-    compareIndexPriceSource: 'closing' as const,
-    usedClosingPrices: true,
-    dataVerified: true,
-    dataQualityIssues: []
-  }
-];
+const FORWARDED_QUERY_PARAMS = ["portfolioId", "startDate", "endDate", "limit", "page"];
 
-export async function GET(request: NextRequest) {
+export async function GET(req: Request) {
   try {
-    const { searchParams } = new URL(request.url);
-    const portfolioId = searchParams.get('portfolioId');
-    const startDate = searchParams.get('startDate');
-    const endDate = searchParams.get('endDate');
-    const limit = parseInt(searchParams.get('limit') || '100');
-    const page = parseInt(searchParams.get('page') || '1');
-
-    let filteredData = [...mockChartData];
+    const accessToken = await authenticateRequest(req);
 
-    // Filter by portfolio
-    if (portfolioId) {
-      filteredData = filteredData.filter(item => item.portfolio === portfolioId);
+    if (!accessToken) {
+      return new NextResponse("Unauthorized", { status: 401 });
     }
 
-    // Filter by date range
-    if (startDate) {
-      filteredData = filteredData.filter(item => new Date(item.dateOnly) >= new Date(startDate));
-    }
-    if (endDate) {
-      filteredData = filteredData.filter(item => new Date(item.dateOnly) <= new Date(endDate));
-    }
+    // Only forward the filters the backend understands
+    const { searchParams } = new URL(req.url);
+    const params = new URLSearchParams();
+    FORWARDED_QUERY_PARAMS.forEach((key) => {
+      const value = searchParams.get(key);
+      if (value) params.set(key, value);
+    });
 
-    // Pagination
-    const total = filteredData.length;
-    const startIndex = (page - 1) * limit;
-    const endIndex = startIndex + limit;
-    const paginatedData = filteredData.slice(startIndex, endIndex);
+    const response = await fetchWithToken(`${API_BASE_URL}/api/chart-data?${params.toString()}`, accessToken);
 
-    return NextResponse.json({
-      success: true,
-      count: paginatedData.length,
-      total,
-      pagination: {
-        page,
-        limit,
-        totalPages: Math.ceil(total / limit)
-      },
-      data: paginatedData
-    });
+    if (!response.ok) {
+      const error = await response.json();
+      return new NextResponse(JSON.stringify(error), {
+        status: response.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
   } catch (error) {
-    console.error('Error in GET /api/chart-data:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to fetch chart data' },
-      { status: 500 }
-    );
+    console.error("[CHART_DATA_GET]", error);
+    return new NextResponse("Internal Error", { status: 500 });
   }
 }
 
-export async function POST(request: NextRequest) {
+export async function POST(req: Request) {
   try {
-    const body = await request.json();
-    
-    const newEntry = {
-      _id: Date.now().toString(),
-      ...body,
-      date: body.date || new Date().toISOString(),
-      dateOnly: body.dateOnly || new Date().toISOString().split('T')[0],
-      compareIndexPriceSource: body.compareIndexPriceSource || 'closing',
-      usedClosingPrices: body.usedClosingPrices ?? true,
-      dataVerified: body.dataVerified ?? true,
-      dataQualityIssues: body.dataQualityIssues || []
-    };
+    const accessToken = await authenticateRequest(req);
 
-    mockChartData.push(newEntry);
+    if (!accessToken) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const body = await req.json();
+
+    const response = await fetchWithToken(`${API_BASE_URL}/api/chart-data`, accessToken, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      return new NextResponse(JSON.stringify(error), {
+        status: response.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-    return NextResponse.json(newEntry, { status: 201 });
+    const data = await response.json();
+    return NextResponse.json(data, { status: 201 });
   } catch (error) {
-    console.error('Error in POST /api/chart-data:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to create chart data' },
-      { status: 400 }
-    );
+    console.error("[CHART_DATA_POST]", error);
+    return new NextResponse("Internal Error", { status: 500 });
   }
-}
\ No newline at end of file
+}
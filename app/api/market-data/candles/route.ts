@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPriceProvider } from "@/lib/market-data";
+import {
+  PRICE_PROVIDER_ERROR_STATUS,
+  PriceProviderError,
+  parseInstrumentKey,
+  type CandleInterval,
+} from "@/lib/price-provider";
+import { authenticateRequest } from "@/lib/route-auth";
+
+const INTERVALS: CandleInterval[] = ["minute", "5minute", "15minute", "30minute", "60minute", "day"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Historical candles for one instrument between two YYYY-MM-DD dates
+export async function GET(req: NextRequest) {
+  try {
+    // Check authentication
+    if (!(await authenticateRequest(req))) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const params = req.nextUrl.searchParams;
+    const instrument = params.get("instrument");
+    const interval = (params.get("interval") || "day") as CandleInterval;
+    const from = params.get("from") || "";
+    const to = params.get("to") || "";
+    if (!instrument) {
+      return NextResponse.json({ message: "Instrument is required" }, { status: 400 });
+    }
+    if (!INTERVALS.includes(interval)) {
+      return NextResponse.json({ message: `Interval must be one of ${INTERVALS.join(", ")}` }, { status: 400 });
+    }
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+      return NextResponse.json({ message: "From and to must be YYYY-MM-DD dates, from first" }, { status: 400 });
+    }
+
+    const provider = getPriceProvider();
+    const candles = await provider.getHistoricalCandles(parseInstrumentKey(instrument), interval, from, to);
+
+    return NextResponse.json({ provider: provider.name, candles });
+  } catch (error) {
+    console.error("Error fetching provider candles:", error);
+    if (error instanceof PriceProviderError) {
+      return NextResponse.json({ message: error.message }, { status: PRICE_PROVIDER_ERROR_STATUS[error.kind] });
+    }
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
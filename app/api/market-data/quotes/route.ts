@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPriceProvider } from "@/lib/market-data";
+import { PRICE_PROVIDER_ERROR_STATUS, PriceProviderError, parseInstrumentKey } from "@/lib/price-provider";
+import { authenticateRequest } from "@/lib/route-auth";
+
+// Prices from the configured provider for a comma-separated list of
+// instruments ("NSE:RELIANCE,TCS"). `mode` picks quote (default), ltp or ohlc
+export async function GET(req: NextRequest) {
+  try {
+    // Check authentication
+    if (!(await authenticateRequest(req))) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const instruments = (req.nextUrl.searchParams.get("instruments") || "")
+      .split(",")
+      .filter((key) => key.trim())
+      .map(parseInstrumentKey);
+    if (instruments.length === 0) {
+      return NextResponse.json({ message: "At least one instrument is required" }, { status: 400 });
+    }
+
+    const provider = getPriceProvider();
+    const mode = req.nextUrl.searchParams.get("mode");
+    const prices =
+      mode === "ltp"
+        ? await provider.getLtp(instruments)
+        : mode === "ohlc"
+          ? await provider.getOhlc(instruments)
+          : await provider.getQuotes(instruments);
+
+    return NextResponse.json({ provider: provider.name, prices });
+  } catch (error) {
+    console.error("Error fetching provider quotes:", error);
+    if (error instanceof PriceProviderError) {
+      return NextResponse.json({ message: error.message }, { status: PRICE_PROVIDER_ERROR_STATUS[error.kind] });
+    }
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { applyProviderPrices } from "@/lib/market-data";
+import { PRICE_PROVIDER_ERROR_STATUS, PriceProviderError } from "@/lib/price-provider";
+import { authenticateRequest } from "@/lib/route-auth";
+
+// Updates every stock symbol's price from the provider; the fallback for
+// when the backend's own price job fails
+export async function POST(req: NextRequest) {
+  try {
+    // Check authentication
+    const accessToken = await authenticateRequest(req);
+    if (!accessToken) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Prices are written as the caller, not with the server's token
+    return NextResponse.json(await applyProviderPrices(accessToken));
+  } catch (error) {
+    console.error("Error updating prices from provider:", error);
+    if (error instanceof PriceProviderError) {
+      return NextResponse.json({ message: error.message }, { status: PRICE_PROVIDER_ERROR_STATUS[error.kind] });
+    }
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateBackendPrices } from "@/lib/market-data";
+import { PRICE_PROVIDER_ERROR_STATUS, PriceProviderError } from "@/lib/price-provider";
+import { authenticateRequest } from "@/lib/route-auth";
+
+// Backend prices that differ from the provider's by more than `tolerance` percent
+export async function GET(req: NextRequest) {
+  try {
+    // Check authentication
+    const accessToken = await authenticateRequest(req);
+    if (!accessToken) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const tolerance = Number(req.nextUrl.searchParams.get("tolerance"));
+    return NextResponse.json(await validateBackendPrices(tolerance > 0 ? tolerance : undefined, accessToken));
+  } catch (error) {
+    console.error("Error validating prices:", error);
+    if (error instanceof PriceProviderError) {
+      return NextResponse.json({ message: error.message }, { status: PRICE_PROVIDER_ERROR_STATUS[error.kind] });
+    }
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clampPollInterval, subscribeToMarketData, type MarketDataEvent } from "@/lib/market-data-hub";
+import { authenticateRequest } from "@/lib/route-auth";
+
+// The stream stays open for as long as the client is connected
+export const dynamic = "force-dynamic";
+
+// Comment lines keep proxies from closing an idle connection between polls
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// Streams stock price changes as Server-Sent Events. Every open tab shares
+// the hub's single polling loop; `interval` is how often this client wants
+// fresh prices, in milliseconds, between 5 seconds and 5 minutes
+export async function GET(req: NextRequest) {
+  // Check authentication
+  if (!(await authenticateRequest(req))) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const interval = clampPollInterval(Number(req.nextUrl.searchParams.get("interval")) || undefined);
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client went away between events
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToMarketData(
+        (event: MarketDataEvent) => write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+        interval
+      );
+      const heartbeat = setInterval(() => write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        cleanup = () => {};
+      };
+      req.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
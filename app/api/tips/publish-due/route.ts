@@ -0,0 +1,39 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { fetchAllTips } from "@/lib/api-tips";
+import { authenticateRequest } from "@/lib/route-auth";
+import { publishDueTips } from "@/lib/tip-schedule";
+
+// An external cron has no admin login, so it sends CRON_SECRET as a bearer token
+const isCronRequest = (req: NextRequest): boolean => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(req.headers.get("authorization") || "");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+};
+
+// Publishes due scheduled tips on demand, for an external cron when the
+// in-process scheduler is not running
+export async function POST(req: NextRequest) {
+  try {
+    if (!isCronRequest(req) && !(await authenticateRequest(req))) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { published, notified, failed, notificationFailed } = await publishDueTips(await fetchAllTips());
+
+    return NextResponse.json({
+      published: published.map((tip) => tip.id),
+      notified,
+      failed: failed.map(({ tip, error }) => ({ id: tip.id, title: tip.title, error })),
+      notificationFailed: notificationFailed.map(({ tip, error }) => ({ id: tip.id, title: tip.title, error })),
+    });
+  } catch (error) {
+    console.error("Error publishing due tips:", error);
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
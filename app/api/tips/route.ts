@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { isAuthenticated } from "@/lib/auth";
-import { validateTipData } from "@/lib/api-tips";
+import { TipApiError, fetchAllTips, validateTipData } from "@/lib/api-tips";
+import { authenticateRequest } from "@/lib/route-auth";
+import { parseTipQuery, queryTips } from "@/lib/tip-query";
+import { parsePriceLevelText, parseTipPriceLevels } from "@/lib/tip-price-levels";
+
+// Free-text price level that must parse as a value or an increasing range
+const priceLevel = z.string().optional().superRefine((value, ctx) => {
+  const { error } = parsePriceLevelText(value);
+  if (error) ctx.addIssue({ code: "custom", message: error });
+});
 
 // Validation schema for creating a tip
 const createTipSchema = z.object({
@@ -17,28 +25,36 @@ const createTipSchema = z.object({
   description: z.string().min(1, "Description is required"),
   status: z.enum(["Active", "Closed"]).optional(),
   action: z.string().optional(),
-  buyRange: z.string().optional(),
-  targetPrice: z.string().optional(),
-  targetPercentage: z.string().optional(),
-  addMoreAt: z.string().optional(),
+  buyRange: priceLevel,
+  targetPrice: priceLevel,
+  targetPercentage: priceLevel,
+  addMoreAt: priceLevel,
+  stopLoss: priceLevel,
   tipUrl: z.string().url("Must be a valid URL").optional().or(z.literal("")),
-  exitPrice: z.string().optional(),
+  exitPrice: priceLevel,
   exitStatus: z.string().optional(),
   exitStatusPercentage: z.string().optional(),
   horizon: z.string().optional(),
   analysistConfidence: z.number().optional(),
+  publishState: z.enum(["draft", "scheduled", "published"]).optional(),
+  publishAt: z.string().datetime("Publish time must be an ISO timestamp").optional(),
   downloadLinks: z.array(
     z.object({
       name: z.string().min(1, "Name is required"),
       url: z.string().url("Must be a valid URL"),
     })
   ).optional(),
+}).superRefine((data, ctx) => {
+  // Cross-field rules: buy range spread, target and stop-loss against the entry
+  parseTipPriceLevels(data).issues.forEach(({ field, message }) =>
+    ctx.addIssue({ code: "custom", path: [field], message })
+  );
 });
 
 export async function POST(req: NextRequest) {
   try {
     // Check authentication
-    if (!isAuthenticated()) {
+    if (!(await authenticateRequest(req))) {
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
     }
 
@@ -90,6 +106,7 @@ export async function POST(req: NextRequest) {
     const processedTipData = {
       ...tipData,
       status: tipData.status || "Active",
+      publishState: tipData.publishState || "published",
       horizon: tipData.horizon || "Long Term",
       // Handle both spellings of the confidence field
       analysistConfidence: tipData.analysistConfidence || 5,
@@ -112,21 +129,29 @@ export async function POST(req: NextRequest) {
   }
 }
 
+// Lists tips for the admin table: filters, full-text search, sort and
+// paging from the query string, applied to the backend's full tip list
 export async function GET(req: NextRequest) {
   try {
-    // Check authentication
-    if (!isAuthenticated()) {
+    // Check authentication; the backend is then asked as the caller, so
+    // unpublished tips only reach signed-in admins
+    const accessToken = await authenticateRequest(req);
+    if (!accessToken) {
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
     }
 
-    // TODO: Fetch tips from database
-    // For now, return empty array
-    return NextResponse.json([]);
+    const query = parseTipQuery(req.nextUrl.searchParams);
+    const tips = await fetchAllTips(accessToken);
+
+    return NextResponse.json(queryTips(tips, query));
   } catch (error) {
     console.error("Error fetching tips:", error);
+    if (error instanceof TipApiError && error.status) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
     return NextResponse.json(
       { message: "Internal server error" },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
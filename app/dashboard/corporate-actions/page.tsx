@@ -0,0 +1,360 @@
+// app/dashboard/corporate-actions/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { Eye, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CorporateActionDialog } from "@/components/corporate-action-dialog";
+import { DeleteConfirmationDialog } from "@/components/delete-confirmation-dialog";
+import { StockSearch } from "@/components/stock-search";
+import { useToast } from "@/hooks/use-toast";
+import {
+  createCorporateAction,
+  deleteCorporateAction,
+  fetchCorporateActions,
+  type CorporateAction,
+  type CorporateActionType,
+} from "@/lib/api-corporate-actions";
+import { CORPORATE_ACTION_TYPE_LABELS, describeCorporateAction, validateCorporateAction } from "@/lib/corporate-actions";
+
+interface ActionFormState {
+  symbol: string;
+  exchange: string;
+  type: CorporateActionType;
+  exDate: string;
+  ratioFrom: string;
+  ratioTo: string;
+  dividendPerShare: string;
+  rightsPrice: string;
+  note: string;
+}
+
+const EMPTY_FORM: ActionFormState = {
+  symbol: "",
+  exchange: "NSE",
+  type: "split",
+  exDate: "",
+  ratioFrom: "1",
+  ratioTo: "",
+  dividendPerShare: "",
+  rightsPrice: "",
+  note: "",
+};
+
+const RATIO_LABELS: Record<Exclude<CorporateActionType, "dividend">, [string, string]> = {
+  split: ["Old shares", "New shares"],
+  bonus: ["Shares held", "Bonus shares"],
+  rights: ["Shares held", "Shares offered"],
+};
+
+const toNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+export default function CorporateActionsPage() {
+  const [actions, setActions] = useState<CorporateAction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<ActionFormState>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [previewAction, setPreviewAction] = useState<CorporateAction | null>(null);
+  const [deletingAction, setDeletingAction] = useState<CorporateAction | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { toast } = useToast();
+
+  const loadActions = async () => {
+    try {
+      setLoading(true);
+      setActions(await fetchCorporateActions());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load corporate actions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadActions();
+  }, []);
+
+  const request = {
+    symbol: form.symbol,
+    exchange: form.exchange,
+    type: form.type,
+    exDate: form.exDate,
+    ...(form.type === "dividend"
+      ? { dividendPerShare: toNumber(form.dividendPerShare) }
+      : { ratioFrom: toNumber(form.ratioFrom), ratioTo: toNumber(form.ratioTo) }),
+    ...(form.type === "rights" ? { rightsPrice: toNumber(form.rightsPrice) } : {}),
+    note: form.note.trim() || undefined,
+  };
+  const errors = validateCorporateAction(request);
+
+  const handleRecord = async () => {
+    if (errors.length > 0) {
+      toast({ title: "Check the action", description: errors.join(". "), variant: "destructive" });
+      return;
+    }
+    try {
+      setIsSaving(true);
+      const created = await createCorporateAction(request);
+      toast({ title: "Corporate action recorded", description: `${created.symbol} ${describeCorporateAction(created)}` });
+      setForm(EMPTY_FORM);
+      await loadActions();
+      setPreviewAction(created);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record corporate action",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingAction) return;
+    try {
+      setIsDeleting(true);
+      await deleteCorporateAction(deletingAction._id);
+      toast({ title: "Success", description: "Corporate action deleted" });
+      setDeletingAction(null);
+      loadActions();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete corporate action",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // The open dialog keeps its own copy so the per-adjustment results stay on screen
+  const handleApplied = (updated: CorporateAction) =>
+    setActions((current) => current.map((action) => (action._id === updated._id ? { ...action, ...updated } : action)));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Corporate Actions</h1>
+          <p className="text-muted-foreground">
+            Record splits, bonuses, dividends and rights issues and adjust holdings, tips and price history
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadActions} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Record an Action</CardTitle>
+          <CardDescription>Nothing is adjusted until you review and apply the action.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <Label>Stock</Label>
+              <StockSearch
+                value={form.symbol}
+                onSelect={(symbol, stock) => setForm({ ...form, symbol, exchange: stock.exchange || "NSE" })}
+                onClear={() => setForm({ ...form, symbol: "" })}
+                placeholder="Search for the stock..."
+                showDetails={false}
+              />
+            </div>
+            <div>
+              <Label htmlFor="action-type">Type</Label>
+              <Select value={form.type} onValueChange={(value: CorporateActionType) => setForm({ ...form, type: value })}>
+                <SelectTrigger id="action-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CORPORATE_ACTION_TYPE_LABELS) as CorporateActionType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {CORPORATE_ACTION_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="ex-date">Ex-date</Label>
+              <Input id="ex-date" type="date" value={form.exDate} onChange={(e) => setForm({ ...form, exDate: e.target.value })} />
+            </div>
+            {form.type === "dividend" ? (
+              <div>
+                <Label htmlFor="dividend">Dividend per share (₹)</Label>
+                <Input
+                  id="dividend"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.dividendPerShare}
+                  onChange={(e) => setForm({ ...form, dividendPerShare: e.target.value })}
+                />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <Label htmlFor="ratio-from">{RATIO_LABELS[form.type][0]}</Label>
+                  <Input
+                    id="ratio-from"
+                    type="number"
+                    min="1"
+                    value={form.ratioFrom}
+                    onChange={(e) => setForm({ ...form, ratioFrom: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="ratio-to">{RATIO_LABELS[form.type][1]}</Label>
+                  <Input
+                    id="ratio-to"
+                    type="number"
+                    min="1"
+                    value={form.ratioTo}
+                    onChange={(e) => setForm({ ...form, ratioTo: e.target.value })}
+                  />
+                </div>
+              </>
+            )}
+            {form.type === "rights" && (
+              <div>
+                <Label htmlFor="rights-price">Issue price (₹)</Label>
+                <Input
+                  id="rights-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.rightsPrice}
+                  onChange={(e) => setForm({ ...form, rightsPrice: e.target.value })}
+                />
+              </div>
+            )}
+            <div className="md:col-span-3">
+              <Label htmlFor="action-note">Note</Label>
+              <Input
+                id="action-note"
+                value={form.note}
+                placeholder="Announcement reference, record date..."
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {form.symbol && errors.length === 0 ? `${form.symbol} ${describeCorporateAction(request)}` : errors[0]}
+            </p>
+            <Button onClick={handleRecord} disabled={isSaving || errors.length > 0}>
+              {isSaving ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Record Action
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recorded Actions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stock</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Ex-date</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : actions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No corporate actions recorded
+                  </TableCell>
+                </TableRow>
+              ) : (
+                actions.map((action) => (
+                  <TableRow key={action._id}>
+                    <TableCell className="font-mono font-medium">
+                      {action.symbol}
+                      <span className="ml-1 text-xs text-muted-foreground">{action.exchange}</span>
+                    </TableCell>
+                    <TableCell>{describeCorporateAction(action)}</TableCell>
+                    <TableCell>{action.exDate}</TableCell>
+                    <TableCell>
+                      {action.appliedAt ? (
+                        <Badge title={`By ${action.appliedBy || "unknown"}`}>
+                          Applied {new Date(action.appliedAt).toLocaleDateString("en-IN")}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline">Pending</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-[200px] truncate text-muted-foreground">{action.note}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setPreviewAction(action)}>
+                          <Eye className="mr-2 h-4 w-4" />
+                          {action.appliedAt ? "Review" : "Preview & Apply"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setDeletingAction(action)}
+                          disabled={!!action.appliedAt}
+                          title={action.appliedAt ? "Applied actions are kept for the audit trail" : undefined}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <CorporateActionDialog
+        open={!!previewAction}
+        onOpenChange={(open) => !open && setPreviewAction(null)}
+        action={previewAction}
+        onApplied={handleApplied}
+      />
+
+      <DeleteConfirmationDialog
+        open={!!deletingAction}
+        onOpenChange={(open) => !open && setDeletingAction(null)}
+        title="Delete Corporate Action"
+        description="This removes the recorded action. Nothing has been adjusted for it yet."
+        resourceName={deletingAction ? `${deletingAction.symbol} ${describeCorporateAction(deletingAction)}` : undefined}
+        resourceType="corporate action"
+        onConfirm={handleDelete}
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+}
@@ -1,15 +1,143 @@
-// app\dashboard\page.tsx  
+// app\dashboard\page.tsx
 "use client"
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Users, Briefcase, CreditCard, ArrowUpRight, ArrowDownRight, Lightbulb } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart"
+import {
+  Users,
+  Briefcase,
+  CreditCard,
+  ArrowUpRight,
+  ArrowDownRight,
+  Lightbulb,
+  IndianRupee,
+  UserMinus,
+  RefreshCw,
+  AlertCircle,
+  Download,
+} from "lucide-react"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
 import { useCache } from "@/components/cache-provider"
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { fetchPaymentHistory, fetchPortfolios, fetchSubscriptions } from "@/lib/api"
+import { fetchAllTips } from "@/lib/api-tips"
+import { fetchUsers } from "@/lib/api-users"
+import { downloadData } from "@/lib/download-utils"
+import {
+  buildMonthlyReport,
+  buildPortfolioSubscriptionStats,
+  computeDashboardKpis,
+  type ComparisonWindow,
+  type DashboardData,
+  type MetricDelta,
+} from "@/lib/dashboard-metrics"
+
+const EMPTY_DATA: DashboardData = { users: [], portfolios: [], subscriptions: [], payments: [], tips: [] }
+
+const SOURCE_LABELS: Record<keyof DashboardData, string> = {
+  users: "users",
+  portfolios: "portfolios",
+  subscriptions: "subscriptions",
+  payments: "payment history",
+  tips: "tips",
+}
+
+const revenueChartConfig = {
+  revenue: { label: "Revenue", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig
+
+const growthChartConfig = {
+  newSubscriptions: { label: "New", color: "hsl(var(--chart-2))" },
+  churnedSubscriptions: { label: "Churned", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(value)
+
+const formatNumber = (value: number) => new Intl.NumberFormat("en-IN").format(Math.round(value))
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-IN", { month: "short", year: "2-digit", timeZone: "UTC" })
+
+const formatRelativeDate = (value: string) => {
+  const days = Math.floor((Date.now() - new Date(value).getTime()) / (24 * 60 * 60 * 1000))
+  if (Number.isNaN(days)) return "Unknown date"
+  if (days <= 0) return "Added today"
+  if (days === 1) return "Added yesterday"
+  return `Added ${days} days ago`
+}
+
+function DeltaLabel({
+  delta,
+  mode = "percent",
+  invert = false,
+  suffix,
+}: {
+  delta: MetricDelta
+  mode?: "percent" | "absolute" | "points"
+  invert?: boolean
+  suffix: string
+}) {
+  const value = mode === "percent" ? delta.changePercent : delta.change
+  if (value === null) {
+    return <p className="text-xs text-muted-foreground">No data for the previous period</p>
+  }
+
+  // For metrics such as churn a decrease is the good direction
+  const isUp = value >= 0
+  const isGood = invert ? !isUp : isUp
+  const Icon = isUp ? ArrowUpRight : ArrowDownRight
+  const color = value === 0 ? "text-muted-foreground" : isGood ? "text-green-500" : "text-red-500"
+  const sign = value > 0 ? "+" : ""
+  const formatted =
+    mode === "percent" ? `${sign}${value.toFixed(1)}%` : mode === "points" ? `${sign}${value.toFixed(1)} pts` : `${sign}${formatNumber(value)}`
+
+  return (
+    <p className="text-xs text-muted-foreground flex items-center">
+      <Icon className={`mr-1 h-3 w-3 ${color}`} />
+      <span className={`${color} font-medium mr-1`}>{formatted}</span> {suffix}
+    </p>
+  )
+}
+
+function StatCard({
+  title,
+  icon: Icon,
+  value,
+  children,
+}: {
+  title: string
+  icon: React.ComponentType<{ className?: string }>
+  value: string
+  children: React.ReactNode
+}) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-xl sm:text-2xl font-bold">{value}</div>
+        {children}
+      </CardContent>
+    </Card>
+  )
+}
 
 export default function DashboardPage() {
   const { saveActiveTab, getActiveTab } = useCache()
   const [activeTab, setActiveTab] = useState("overview")
+  const [windowDays, setWindowDays] = useState<ComparisonWindow>(30)
+  const [data, setData] = useState<DashboardData>(EMPTY_DATA)
+  const [failedSources, setFailedSources] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
 
   // Load active tab from cache on mount
   useEffect(() => {
@@ -24,13 +152,114 @@ export default function DashboardPage() {
     saveActiveTab("dashboard", value)
   }
 
+  const loadData = useCallback(async () => {
+    setIsLoading(true)
+    // Each source is loaded independently so one failing endpoint does not blank the whole dashboard
+    const [users, portfolios, subscriptions, payments, tips] = await Promise.allSettled([
+      fetchUsers(),
+      fetchPortfolios(),
+      fetchSubscriptions(),
+      fetchPaymentHistory(),
+      fetchAllTips(),
+    ])
+
+    const failed: string[] = []
+    const valueOf = <T,>(result: PromiseSettledResult<T[]>, key: keyof DashboardData): T[] => {
+      if (result.status === "fulfilled" && Array.isArray(result.value)) return result.value
+      if (result.status === "rejected") console.error(`Error loading ${key}:`, result.reason)
+      failed.push(SOURCE_LABELS[key])
+      return []
+    }
+
+    const nextData: DashboardData = {
+      users: valueOf(users, "users"),
+      portfolios: valueOf(portfolios, "portfolios"),
+      subscriptions: valueOf(subscriptions, "subscriptions"),
+      payments: valueOf(payments, "payments"),
+      tips: valueOf(tips, "tips"),
+    }
+
+    setData(nextData)
+    setFailedSources(failed)
+    setLastUpdated(new Date())
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  const kpis = useMemo(() => computeDashboardKpis(data, windowDays), [data, windowDays])
+  const monthlyReport = useMemo(() => buildMonthlyReport(data, 12), [data])
+  const portfolioStats = useMemo(() => buildPortfolioSubscriptionStats(data), [data])
+  const recentTips = useMemo(
+    () =>
+      [...data.tips]
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, 5),
+    [data.tips]
+  )
+  const chartRows = useMemo(
+    () => monthlyReport.map((row) => ({ ...row, label: formatMonth(row.month) })),
+    [monthlyReport]
+  )
+
+  const periodLabel = `vs previous ${windowDays} days`
+  const display = (value: string) => (isLoading ? "…" : value)
+
+  const handleExportReport = () => {
+    downloadData(monthlyReport, {
+      filename: `dashboard-report-${new Date().toISOString().split("T")[0]}`,
+      customHeaders: {
+        month: "Month",
+        newUsers: "New Users",
+        newSubscriptions: "New Subscriptions",
+        churnedSubscriptions: "Churned Subscriptions",
+        revenue: "Revenue (INR)",
+        payments: "Payments",
+        newTips: "New Tips",
+        closedTips: "Closed Tips",
+      },
+    })
+  }
+
   return (
     <div className="space-y-4 sm:space-y-6">
-      <div className="space-y-2">
-        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Dashboard</h1>
-        <p className="text-sm sm:text-base text-muted-foreground">Welcome to Ranga One Wealth admin dashboard.</p>
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div className="space-y-2">
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Dashboard</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Welcome to Ranga One Wealth admin dashboard.
+            {lastUpdated && <span className="ml-1">Updated {lastUpdated.toLocaleTimeString()}.</span>}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={String(windowDays)} onValueChange={(value) => setWindowDays(Number(value) as ComparisonWindow)}>
+            <SelectTrigger className="w-full sm:w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={loadData} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
       </div>
 
+      {failedSources.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Some data could not be loaded</AlertTitle>
+          <AlertDescription>
+            Failed to load {failedSources.join(", ")}. Figures depending on them are incomplete.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Tabs value={activeTab} onValueChange={handleTabChange} className="space-y-4">
         <TabsList className="grid w-full grid-cols-3 sm:w-auto sm:grid-cols-none sm:inline-flex">
           <TabsTrigger value="overview" className="text-xs sm:text-sm">Overview</TabsTrigger>
@@ -40,71 +269,37 @@ export default function DashboardPage() {
         <TabsContent value="overview" className="space-y-4">
           {/* Stats Cards - Mobile: 1 column, SM: 2 columns, LG: 4 columns */}
           <div className="grid gap-3 sm:gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Total Users</CardTitle>
-                <Users className="h-4 w-4 text-muted-foreground" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-xl sm:text-2xl font-bold">1,248</div>
-                <p className="text-xs text-muted-foreground flex items-center">
-                  <ArrowUpRight className="mr-1 h-3 w-3 text-green-500" />
-                  <span className="text-green-500 font-medium">+12%</span> from last month
-                </p>
-              </CardContent>
-            </Card>
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Active Portfolios</CardTitle>
-                <Briefcase className="h-4 w-4 text-muted-foreground" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-xl sm:text-2xl font-bold">24</div>
-                <p className="text-xs text-muted-foreground flex items-center">
-                  <ArrowUpRight className="mr-1 h-3 w-3 text-green-500" />
-                  <span className="text-green-500 font-medium">+3</span> new this month
-                </p>
-              </CardContent>
-            </Card>
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Active Subscriptions</CardTitle>
-                <CreditCard className="h-4 w-4 text-muted-foreground" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-xl sm:text-2xl font-bold">842</div>
-                <p className="text-xs text-muted-foreground flex items-center">
-                  <ArrowDownRight className="mr-1 h-3 w-3 text-red-500" />
-                  <span className="text-red-500 font-medium">-2%</span> from last month
-                </p>
-              </CardContent>
-            </Card>
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Active Tips</CardTitle>
-                <Lightbulb className="h-4 w-4 text-muted-foreground" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-xl sm:text-2xl font-bold">76</div>
-                <p className="text-xs text-muted-foreground flex items-center">
-                  <ArrowUpRight className="mr-1 h-3 w-3 text-green-500" />
-                  <span className="text-green-500 font-medium">+18</span> new this month
-                </p>
-              </CardContent>
-            </Card>
+            <StatCard title="Total Users" icon={Users} value={display(formatNumber(kpis.totalUsers.current))}>
+              <DeltaLabel delta={kpis.totalUsers} suffix={periodLabel} />
+            </StatCard>
+            <StatCard title="Active Portfolios" icon={Briefcase} value={display(formatNumber(kpis.activePortfolios.current))}>
+              <DeltaLabel delta={kpis.activePortfolios} mode="absolute" suffix={`new in ${windowDays} days`} />
+            </StatCard>
+            <StatCard title="Active Subscriptions" icon={CreditCard} value={display(formatNumber(kpis.activeSubscriptions.current))}>
+              <DeltaLabel delta={kpis.activeSubscriptions} suffix={periodLabel} />
+            </StatCard>
+            <StatCard title="Active Tips" icon={Lightbulb} value={display(formatNumber(kpis.activeTips.current))}>
+              <DeltaLabel delta={kpis.activeTips} mode="absolute" suffix={periodLabel} />
+            </StatCard>
           </div>
-          
+
           {/* Charts Grid - Mobile: stacked, MD: side by side with responsive columns */}
           <div className="grid gap-4 grid-cols-1 lg:grid-cols-7">
             <Card className="lg:col-span-4">
               <CardHeader>
-                <CardTitle className="text-lg sm:text-xl">Portfolio Performance</CardTitle>
-                <CardDescription className="text-sm">Monthly performance of top portfolios</CardDescription>
+                <CardTitle className="text-lg sm:text-xl">Revenue</CardTitle>
+                <CardDescription className="text-sm">Successful payments per month</CardDescription>
               </CardHeader>
               <CardContent className="pl-2">
-                <div className="h-[250px] sm:h-[300px] flex items-center justify-center bg-muted/20 rounded-md">
-                  <p className="text-sm text-muted-foreground text-center px-4">Portfolio performance chart will appear here</p>
-                </div>
+                <ChartContainer config={revenueChartConfig} className="h-[250px] sm:h-[300px] w-full aspect-auto">
+                  <BarChart data={chartRows}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={70} tickFormatter={(value) => formatCurrency(Number(value))} />
+                    <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />} />
+                    <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
               </CardContent>
             </Card>
             <Card className="lg:col-span-3">
@@ -114,14 +309,19 @@ export default function DashboardPage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-3 sm:space-y-4">
-                  {[1, 2, 3, 4].map((i) => (
-                    <div key={i} className="flex items-start gap-3 sm:gap-4">
+                  {recentTips.length === 0 && (
+                    <p className="text-sm text-muted-foreground">{isLoading ? "Loading tips..." : "No tips yet"}</p>
+                  )}
+                  {recentTips.map((tip) => (
+                    <div key={tip._id || tip.id} className="flex items-start gap-3 sm:gap-4">
                       <div className="rounded-full p-1.5 sm:p-2 bg-primary/10 shrink-0">
                         <Lightbulb className="h-3 w-3 sm:h-4 sm:w-4 text-primary" />
                       </div>
                       <div className="space-y-1 min-w-0">
-                        <p className="text-sm font-medium leading-tight">Consider increasing tech exposure</p>
-                        <p className="text-xs text-muted-foreground">Added 2 days ago</p>
+                        <p className="text-sm font-medium leading-tight truncate">{tip.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {tip.stockSymbol || tip.stockId} · {tip.status} · {formatRelativeDate(tip.createdAt)}
+                        </p>
                       </div>
                     </div>
                   ))}
@@ -131,27 +331,121 @@ export default function DashboardPage() {
           </div>
         </TabsContent>
         <TabsContent value="analytics" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg sm:text-xl">Analytics</CardTitle>
-              <CardDescription className="text-sm">Detailed analytics will appear here</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="h-[300px] sm:h-[400px] flex items-center justify-center bg-muted/20 rounded-md">
-                <p className="text-sm text-muted-foreground text-center px-4">Analytics content will appear here</p>
-              </div>
-            </CardContent>
-          </Card>
+          <div className="grid gap-3 sm:gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
+            <StatCard title="MRR" icon={IndianRupee} value={display(formatCurrency(kpis.mrr.current))}>
+              <DeltaLabel delta={kpis.mrr} suffix={periodLabel} />
+            </StatCard>
+            <StatCard title="Churn Rate" icon={UserMinus} value={display(`${kpis.churnRate.current.toFixed(1)}%`)}>
+              <DeltaLabel delta={kpis.churnRate} mode="points" invert suffix={periodLabel} />
+            </StatCard>
+            <StatCard title="Churned Subscriptions" icon={UserMinus} value={display(formatNumber(kpis.churnedSubscriptions.current))}>
+              <DeltaLabel delta={kpis.churnedSubscriptions} mode="absolute" invert suffix={periodLabel} />
+            </StatCard>
+            <StatCard title="New Users" icon={Users} value={display(formatNumber(kpis.newUsers.current))}>
+              <DeltaLabel delta={kpis.newUsers} suffix={periodLabel} />
+            </StatCard>
+          </div>
+
+          <div className="grid gap-4 grid-cols-1 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg sm:text-xl">Subscription Growth</CardTitle>
+                <CardDescription className="text-sm">New versus churned subscriptions per month</CardDescription>
+              </CardHeader>
+              <CardContent className="pl-2">
+                <ChartContainer config={growthChartConfig} className="h-[250px] sm:h-[300px] w-full aspect-auto">
+                  <LineChart data={chartRows}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line type="monotone" dataKey="newSubscriptions" stroke="var(--color-newSubscriptions)" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="churnedSubscriptions" stroke="var(--color-churnedSubscriptions)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg sm:text-xl">Subscriptions by Portfolio</CardTitle>
+                <CardDescription className="text-sm">Active subscribers and lifetime revenue</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Portfolio</TableHead>
+                        <TableHead className="text-right">Active</TableHead>
+                        <TableHead className="text-right">Revenue</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {portfolioStats.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={3} className="text-center text-muted-foreground">
+                            {isLoading ? "Loading..." : "No portfolios found"}
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        portfolioStats.map((stat) => (
+                          <TableRow key={stat.portfolioId}>
+                            <TableCell className="font-medium">{stat.name}</TableCell>
+                            <TableCell className="text-right">{formatNumber(stat.activeSubscriptions)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(stat.revenue)}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
         </TabsContent>
         <TabsContent value="reports" className="space-y-4">
           <Card>
-            <CardHeader>
-              <CardTitle className="text-lg sm:text-xl">Reports</CardTitle>
-              <CardDescription className="text-sm">Generated reports will appear here</CardDescription>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="text-lg sm:text-xl">Monthly Report</CardTitle>
+                <CardDescription className="text-sm">Last 12 months of users, subscriptions, revenue and tips</CardDescription>
+              </div>
+              <Button variant="outline" onClick={handleExportReport} disabled={isLoading}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
             </CardHeader>
             <CardContent>
-              <div className="h-[300px] sm:h-[400px] flex items-center justify-center bg-muted/20 rounded-md">
-                <p className="text-sm text-muted-foreground text-center px-4">Reports content will appear here</p>
+              <div className="w-full overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Month</TableHead>
+                      <TableHead className="text-right">New Users</TableHead>
+                      <TableHead className="text-right">New Subs</TableHead>
+                      <TableHead className="text-right">Churned</TableHead>
+                      <TableHead className="text-right">Payments</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                      <TableHead className="text-right">New Tips</TableHead>
+                      <TableHead className="text-right">Closed Tips</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...monthlyReport].reverse().map((row) => (
+                      <TableRow key={row.month}>
+                        <TableCell className="font-medium">{formatMonth(row.month)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(row.newUsers)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(row.newSubscriptions)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(row.churnedSubscriptions)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(row.payments)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.revenue)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(row.newTips)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(row.closedTips)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
               </div>
             </CardContent>
           </Card>
@@ -4,6 +4,7 @@
 import { ConfirmDialog } from "@/components/confirm-dialog";
 import { PortfolioTipDialog } from "@/components/portfolio-tip-dialog";
 import { TipDetailsDialog } from "@/components/tip-details-dialog";
+import { TipCloneDialog } from "@/components/tip-clone-dialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -26,12 +27,14 @@ import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import {
   fetchPortfolioById,
+  fetchPortfolios,
 } from "@/lib/api";
 import { 
   createTip, 
   updateTip, 
   deleteTip,
   fetchPortfolioTips,
+  TipApiError,
   type CreateTipRequest, 
   type Tip 
 } from "@/lib/api-tips";
@@ -49,6 +52,7 @@ import {
   Filter,
   X,
   Copy,
+  Share2,
 } from "lucide-react";
 import { useParams, useRouter } from "next/navigation";
 import { useEffect, useState, useMemo } from "react";
@@ -71,6 +75,8 @@ export default function PortfolioTipsPage({ params }: { params: Promise<{ id: st
   const [duplicateDialogOpen, setDuplicateDialogOpen] = useState(false);
   const [selectedTip, setSelectedTip] = useState<Tip | null>(null);
   const [duplicateTip, setDuplicateTip] = useState<Tip | null>(null);
+  const [cloneTip, setCloneTip] = useState<Tip | null>(null);
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   // Filter states
@@ -115,11 +121,14 @@ export default function PortfolioTipsPage({ params }: { params: Promise<{ id: st
           setTips(tipsData);
         } catch (tipsError) {
           console.error("Error loading portfolio tips:", tipsError);
-          setError(
-            tipsError instanceof Error
-              ? tipsError.message
-              : "Failed to load portfolio tips"
-          );
+          // A portfolio without tips answers 404, which is not an error to show
+          if (!(tipsError instanceof TipApiError && tipsError.kind === "not_found")) {
+            setError(
+              tipsError instanceof Error
+                ? tipsError.message
+                : "Failed to load portfolio tips"
+            );
+          }
           setTips([]);
         }
       } catch (portfolioError) {
@@ -174,6 +183,11 @@ export default function PortfolioTipsPage({ params }: { params: Promise<{ id: st
     loadData();
   }, [params]); // Change dependency to params object
 
+  // Other portfolios are only needed as copy targets, so a failure leaves the list empty
+  useEffect(() => {
+    fetchPortfolios().then(setPortfolios).catch(() => setPortfolios([]));
+  }, []);
+
   // Filter tips based on selected filters and search term
   const filteredTips = useMemo(() => {
     let filtered = tips;
@@ -275,11 +289,14 @@ export default function PortfolioTipsPage({ params }: { params: Promise<{ id: st
     try {
       console.log(`Updating tip ${selectedTip.id}:`, tipData);
       
-      await updateTip(selectedTip.id, tipData);
+      const updatedTip = await updateTip(selectedTip.id, tipData);
       toast({
         title: "Tip Updated",
         description: "Portfolio tip has been updated successfully",
       });
+      if (updatedTip.revisionError) {
+        toast({ title: "Revision not recorded", description: updatedTip.revisionError, variant: "destructive" });
+      }
       loadData();
     } catch (error) {
       console.error("Error updating tip:", error);
@@ -625,6 +642,15 @@ export default function PortfolioTipsPage({ params }: { params: Promise<{ id: st
               <Copy className="h-4 w-4" />
               <span className="sr-only">Duplicate</span>
             </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setCloneTip(tip)}
+              title="Copy to other portfolios"
+            >
+              <Share2 className="h-4 w-4" />
+              <span className="sr-only">Copy to portfolios</span>
+            </Button>
             <Button
               variant="ghost"
               size="icon"
@@ -912,6 +938,15 @@ export default function PortfolioTipsPage({ params }: { params: Promise<{ id: st
         />
       )}
 
+      {/* Copy to Portfolios Dialog */}
+      <TipCloneDialog
+        open={!!cloneTip}
+        onOpenChange={(open) => !open && setCloneTip(null)}
+        tip={cloneTip}
+        portfolios={portfolios}
+        onCloned={() => {}}
+      />
+
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
         open={deleteDialogOpen}
@@ -21,10 +21,16 @@ import {
   BarChart3,
   Trash,
   AlertCircle,
+  ShieldCheck,
+  Upload,
 } from "lucide-react";
-import { fetchPortfolios, Portfolio } from "@/lib/api";
-import { fetchChartData, createChartData, updateChartData, deleteChartData, fetchPortfolioPerformance, cleanupDuplicates, ChartDataResponse, ChartDataPoint, CreateChartDataRequest } from "@/lib/api-chart-data";
+import { fetchPortfolios, updatePortfolio, Portfolio } from "@/lib/api";
+import { computePortfolioAnalytics, toPortfolioGainsSummary, PortfolioAnalytics } from "@/lib/portfolio-analytics";
+import { fetchAllChartData, fetchChartData, createChartData, updateChartData, deleteChartData, fetchPortfolioPerformance, cleanupDuplicates, ChartDataResponse, ChartDataPoint, CreateChartDataRequest } from "@/lib/api-chart-data";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { PortfolioPerformanceChart } from "@/components/portfolio-performance-chart";
+import { ChartDataQualityDialog } from "@/components/chart-data-quality-dialog";
+import { ChartDataImportDialog } from "@/components/chart-data-import-dialog";
 
 export default function PriceHistoryPage() {
   const { toast } = useToast();
@@ -47,7 +53,13 @@ export default function PriceHistoryPage() {
   const [showCalculateDialog, setShowCalculateDialog] = useState(false);
   const [calculateStartDate, setCalculateStartDate] = useState<string>("");
   const [calculateEndDate, setCalculateEndDate] = useState<string>("");
-  const [calculationResult, setCalculationResult] = useState<any>(null);
+  const [calculationResult, setCalculationResult] = useState<PortfolioAnalytics | null>(null);
+  const [isCalculating, setIsCalculating] = useState(false);
+  const [seriesPoints, setSeriesPoints] = useState<ChartDataPoint[]>([]);
+  const [isLoadingSeries, setIsLoadingSeries] = useState(false);
+  const [isApplyingGains, setIsApplyingGains] = useState(false);
+  const [showQualityDialog, setShowQualityDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [newEntry, setNewEntry] = useState<CreateChartDataRequest>({
     portfolio: "",
     date: new Date().toISOString(),
@@ -102,12 +114,31 @@ export default function PriceHistoryPage() {
     }
   };
 
+  // The chart always shows the full history; range presets are applied inside the chart
+  const loadSeries = async () => {
+    if (!selectedPortfolio || selectedPortfolio === "all") {
+      setSeriesPoints([]);
+      return;
+    }
+
+    setIsLoadingSeries(true);
+    try {
+      setSeriesPoints(await fetchAllChartData(selectedPortfolio));
+    } catch (error) {
+      console.error("Error loading chart series:", error);
+      setSeriesPoints([]);
+    } finally {
+      setIsLoadingSeries(false);
+    }
+  };
+
   const handleCreateEntry = async () => {
     try {
       await createChartData(newEntry);
       toast({ title: "Success", description: "Chart data entry created successfully" });
       setShowCreateDialog(false);
       loadChartData();
+      loadSeries();
     } catch (error) {
       toast({ title: "Error", description: "Failed to create chart data entry", variant: "destructive" });
     }
@@ -130,6 +161,7 @@ export default function PriceHistoryPage() {
       setShowEditDialog(false);
       setEditingEntry(null);
       loadChartData();
+      loadSeries();
     } catch (error) {
       toast({ title: "Error", description: "Failed to update chart data entry", variant: "destructive" });
     }
@@ -140,6 +172,7 @@ export default function PriceHistoryPage() {
       await deleteChartData(id);
       toast({ title: "Success", description: "Chart data entry deleted successfully" });
       loadChartData();
+      loadSeries();
     } catch (error) {
       toast({ title: "Error", description: "Failed to delete chart data entry", variant: "destructive" });
     }
@@ -188,12 +221,14 @@ export default function PriceHistoryPage() {
   const handleCleanupDuplicates = async () => {
     setIsCleaningUp(true);
     try {
-      const result = await cleanupDuplicates();
+      const result = await cleanupDuplicates(selectedPortfolio && selectedPortfolio !== "all" ? selectedPortfolio : undefined);
       toast({
-        title: "Success",
-        description: `Cleanup completed. ${result.deletedCount || 0} duplicates removed.`,
+        title: result.failedCount ? "Cleanup partially completed" : "Success",
+        description: result.details,
+        variant: result.failedCount ? "destructive" : "default",
       });
       loadChartData();
+      loadSeries();
     } catch (error) {
       toast({
         title: "Error",
@@ -211,35 +246,59 @@ export default function PriceHistoryPage() {
       return;
     }
     
+    setIsCalculating(true);
     try {
-      const data = await fetchChartData(selectedPortfolio, calculateStartDate, calculateEndDate, 1000);
-      if (data.data.length >= 1) {
-        const sortedData = data.data.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-        const startEntry = sortedData.find(entry => entry.dateOnly.split('T')[0] === calculateStartDate) || sortedData[0];
-        const endEntry = sortedData.find(entry => entry.dateOnly.split('T')[0] === calculateEndDate) || sortedData[sortedData.length - 1];
-        
-        const portfolioChange = ((endEntry.portfolioValue - startEntry.portfolioValue) / startEntry.portfolioValue) * 100;
-        const indexChange = ((endEntry.compareIndexValue - startEntry.compareIndexValue) / startEntry.compareIndexValue) * 100;
-        
-        setCalculationResult({
-          portfolioChange,
-          indexChange,
-          startValue: startEntry.portfolioValue,
-          endValue: endEntry.portfolioValue,
-          startIndexValue: startEntry.compareIndexValue,
-          endIndexValue: endEntry.compareIndexValue,
-          startDate: startEntry.dateOnly.split('T')[0],
-          endDate: endEntry.dateOnly.split('T')[0]
-        });
+      const points = await fetchAllChartData(selectedPortfolio, calculateStartDate, calculateEndDate);
+      const analytics = computePortfolioAnalytics(points);
+      if (analytics && analytics.dataPoints >= 2) {
+        setCalculationResult(analytics);
       } else {
+        setCalculationResult(null);
         toast({ title: "Error", description: "Not enough data points for calculation", variant: "destructive" });
       }
     } catch (error) {
-      toast({ title: "Error", description: "Failed to calculate percentage change", variant: "destructive" });
+      toast({ title: "Error", description: "Failed to calculate performance", variant: "destructive" });
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  // Gains on the portfolio are always measured over the full history, not the dialog's range
+  const handleApplyGains = async () => {
+    if (!selectedPortfolio || selectedPortfolio === "all") return;
+
+    setIsApplyingGains(true);
+    try {
+      const analytics = computePortfolioAnalytics(await fetchAllChartData(selectedPortfolio));
+      if (!analytics) {
+        toast({ title: "Error", description: "No chart data available for this portfolio", variant: "destructive" });
+        return;
+      }
+      const gains = toPortfolioGainsSummary(analytics);
+      const updated = await updatePortfolio(selectedPortfolio, gains);
+      setPortfolios(prev => prev.map(p => (p.id || p._id) === selectedPortfolio ? { ...p, ...gains, ...(updated || {}) } : p));
+      toast({
+        title: "Success",
+        description: `Updated gains since ${analytics.startDate}: CAGR ${gains.CAGRSinceInception || "N/A"}%, 1Y ${gains.oneYearGains || "N/A"}%, 1M ${gains.monthlyGains || "N/A"}%`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update portfolio gains",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplyingGains(false);
     }
   };
 
+  const formatPercent = (value: number | null | undefined, digits = 2) => {
+    if (value === null || value === undefined || !Number.isFinite(value)) return "N/A";
+    return `${value > 0 ? "+" : ""}${value.toFixed(digits)}%`;
+  };
 
+  const percentClass = (value: number | null | undefined) =>
+    !value ? "text-gray-600" : value > 0 ? "text-green-600" : "text-red-600";
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -259,6 +318,7 @@ export default function PriceHistoryPage() {
     if (isAuthenticatedState) {
       setCurrentPage(1);
       loadChartData(1);
+      loadSeries();
       loadPortfolioPerformance();
       if (selectedPortfolio) {
         setNewEntry(prev => ({ ...prev, portfolio: selectedPortfolio }));
@@ -331,6 +391,42 @@ export default function PriceHistoryPage() {
             <Trash className={`mr-2 h-4 w-4 ${isCleaningUp ? "animate-spin" : ""}`} />
             Cleanup
           </Button>
+          <Button 
+            onClick={() => setShowQualityDialog(true)}
+            disabled={!selectedPortfolio || selectedPortfolio === "all"}
+            variant="outline"
+            className="w-full sm:w-auto"
+          >
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Data Quality
+          </Button>
+          <Button 
+            onClick={() => setShowImportDialog(true)}
+            disabled={!selectedPortfolio || selectedPortfolio === "all"}
+            variant="outline"
+            className="w-full sm:w-auto"
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <ChartDataImportDialog
+            open={showImportDialog}
+            onOpenChange={setShowImportDialog}
+            portfolio={portfolios.find((p) => (p._id || p.id) === selectedPortfolio) || null}
+            onImported={() => {
+              loadChartData();
+              loadSeries();
+            }}
+          />
+          <ChartDataQualityDialog
+            open={showQualityDialog}
+            onOpenChange={setShowQualityDialog}
+            portfolio={portfolios.find((p) => (p._id || p.id) === selectedPortfolio) || null}
+            onDataChanged={() => {
+              loadChartData();
+              loadSeries();
+            }}
+          />
           <Button 
             onClick={() => setShowCalculateDialog(true)}
             variant="outline"
@@ -472,36 +568,61 @@ export default function PriceHistoryPage() {
                     onChange={(e) => setCalculateEndDate(e.target.value)} 
                   />
                 </div>
-                <Button onClick={handleCalculateChange} className="w-full">
-                  Calculate
+                <Button onClick={handleCalculateChange} className="w-full" disabled={isCalculating}>
+                  {isCalculating ? "Calculating..." : "Calculate"}
                 </Button>
                 {calculationResult && (
                   <div className="mt-4 p-3 bg-muted rounded-lg space-y-2">
-                    <div className="text-sm font-medium">Results ({calculationResult.startDate} to {calculationResult.endDate})</div>
-                    <div className="flex justify-between text-sm">
-                      <span>Portfolio:</span>
-                      <span className={`font-medium ${
-                        calculationResult.portfolioChange > 0 ? 'text-green-600' : calculationResult.portfolioChange < 0 ? 'text-red-600' : 'text-gray-600'
-                      }`}>
-                        {calculationResult.portfolioChange > 0 ? '+' : ''}{calculationResult.portfolioChange.toFixed(2)}%
-                      </span>
+                    <div className="text-sm font-medium">
+                      Results ({calculationResult.startDate} to {calculationResult.endDate}, {calculationResult.dataPoints} points)
                     </div>
+                    {[
+                      { label: "Portfolio return", value: formatPercent(calculationResult.totalReturn), tone: calculationResult.totalReturn },
+                      { label: "Index return", value: formatPercent(calculationResult.benchmarkReturn), tone: calculationResult.benchmarkReturn },
+                      { label: "CAGR", value: formatPercent(calculationResult.cagr), tone: calculationResult.cagr },
+                      { label: "Index CAGR", value: formatPercent(calculationResult.benchmarkCagr), tone: calculationResult.benchmarkCagr },
+                      { label: "Volatility (ann.)", value: formatPercent(calculationResult.volatility).replace("+", ""), tone: null },
+                      { label: "Sharpe ratio", value: calculationResult.sharpeRatio?.toFixed(2) ?? "N/A", tone: calculationResult.sharpeRatio },
+                      { label: "Alpha (ann.)", value: formatPercent(calculationResult.alpha), tone: calculationResult.alpha },
+                      { label: "Beta", value: calculationResult.beta?.toFixed(2) ?? "N/A", tone: null },
+                      { label: "1M / 3M / 1Y", value: [calculationResult.rollingReturns["1M"], calculationResult.rollingReturns["3M"], calculationResult.rollingReturns["1Y"]].map(v => formatPercent(v)).join(" / "), tone: null },
+                    ].map(row => (
+                      <div key={row.label} className="flex justify-between text-sm">
+                        <span>{row.label}:</span>
+                        <span className={`font-medium ${percentClass(row.tone)}`}>{row.value}</span>
+                      </div>
+                    ))}
                     <div className="flex justify-between text-sm">
-                      <span>Index:</span>
-                      <span className={`font-medium ${
-                        calculationResult.indexChange > 0 ? 'text-green-600' : calculationResult.indexChange < 0 ? 'text-red-600' : 'text-gray-600'
-                      }`}>
-                        {calculationResult.indexChange > 0 ? '+' : ''}{calculationResult.indexChange.toFixed(2)}%
+                      <span>Max drawdown:</span>
+                      <span className={`font-medium text-right ${percentClass(calculationResult.drawdown.maxDrawdown)}`}>
+                        {formatPercent(calculationResult.drawdown.maxDrawdown)}
+                        {calculationResult.drawdown.peakDate && (
+                          <span className="block text-xs text-muted-foreground font-normal">
+                            {calculationResult.drawdown.peakDate} → {calculationResult.drawdown.troughDate}
+                            {calculationResult.drawdown.recoveryDate ? `, recovered ${calculationResult.drawdown.recoveryDate}` : ", not recovered"}
+                          </span>
+                        )}
                       </span>
                     </div>
                   </div>
                 )}
+                <Button
+                  onClick={handleApplyGains}
+                  variant="outline"
+                  className="w-full"
+                  disabled={isApplyingGains || !selectedPortfolio || selectedPortfolio === "all"}
+                >
+                  {isApplyingGains ? "Updating..." : "Update portfolio gains since inception"}
+                </Button>
               </div>
             </DialogContent>
           </Dialog>
           
           <Button 
-            onClick={() => loadChartData()} 
+            onClick={() => {
+              loadChartData();
+              loadSeries();
+            }} 
             disabled={isLoading}
             variant="outline"
             className="w-full sm:w-auto"
@@ -578,6 +699,27 @@ export default function PriceHistoryPage() {
         </CardContent>
       </Card>
 
+      {selectedPortfolio && selectedPortfolio !== "all" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Portfolio vs Benchmark
+            </CardTitle>
+            <CardDescription>
+              Values rebased to 100 at the start of the range. Drag the handles below the chart to zoom; red markers are unverified points or points with data quality issues.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PortfolioPerformanceChart
+              points={seriesPoints}
+              isLoading={isLoadingSeries}
+              benchmarkLabel={portfolios.find(p => (p.id || p._id) === selectedPortfolio)?.compareWith || undefined}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Performance Data Card */}
       {performanceData && (
         <Card>
@@ -588,29 +730,58 @@ export default function PriceHistoryPage() {
             </CardTitle>
             <CardDescription>
               Performance metrics for selected portfolio
+              {performanceData.startDate && performanceData.endDate && (
+                <> ({performanceData.startDate} to {performanceData.endDate}, {performanceData.dataPoints} data points)</>
+              )}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="text-center p-4 bg-blue-50 rounded-lg">
                 <div className="text-2xl font-bold text-blue-600">
-                  {performanceData.totalReturn ? `${performanceData.totalReturn.toFixed(2)}%` : 'N/A'}
+                  {performanceData.totalReturn != null ? `${performanceData.totalReturn.toFixed(2)}%` : 'N/A'}
                 </div>
                 <div className="text-sm text-muted-foreground">Total Return</div>
               </div>
               <div className="text-center p-4 bg-green-50 rounded-lg">
                 <div className="text-2xl font-bold text-green-600">
-                  {performanceData.currentValue ? formatCurrency(performanceData.currentValue) : 'N/A'}
+                  {performanceData.currentValue != null ? formatCurrency(performanceData.currentValue) : 'N/A'}
                 </div>
                 <div className="text-sm text-muted-foreground">Current Value</div>
               </div>
               <div className="text-center p-4 bg-purple-50 rounded-lg">
                 <div className="text-2xl font-bold text-purple-600">
-                  {performanceData.benchmarkReturn ? `${performanceData.benchmarkReturn.toFixed(2)}%` : 'N/A'}
+                  {performanceData.benchmarkReturn != null ? `${performanceData.benchmarkReturn.toFixed(2)}%` : 'N/A'}
                 </div>
                 <div className="text-sm text-muted-foreground">Benchmark Return</div>
               </div>
             </div>
+            {(performanceData.cagr != null || performanceData.sharpeRatio != null || performanceData.maxDrawdown != null) && (
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4 text-center">
+                <div>
+                  <div className="font-semibold">{formatPercent(performanceData.cagr)}</div>
+                  <div className="text-xs text-muted-foreground">CAGR</div>
+                </div>
+                <div>
+                  <div className="font-semibold">{formatPercent(performanceData.volatility).replace("+", "")}</div>
+                  <div className="text-xs text-muted-foreground">Volatility</div>
+                </div>
+                <div>
+                  <div className="font-semibold">{performanceData.sharpeRatio != null ? performanceData.sharpeRatio.toFixed(2) : "N/A"}</div>
+                  <div className="text-xs text-muted-foreground">Sharpe</div>
+                </div>
+                <div>
+                  <div className="font-semibold">{formatPercent(performanceData.maxDrawdown)}</div>
+                  <div className="text-xs text-muted-foreground">Max Drawdown</div>
+                </div>
+                <div>
+                  <div className="font-semibold">
+                    {formatPercent(performanceData.alpha)} / {performanceData.beta != null ? performanceData.beta.toFixed(2) : "N/A"}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Alpha / Beta</div>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -665,6 +836,15 @@ export default function PriceHistoryPage() {
                       <TableRow key={point._id || `${point.portfolio}-${point.dateOnly}`}>
                         <TableCell>
                           <div className="font-medium text-sm">{point.dateOnly.split('T')[0]}</div>
+                          {(point.dataVerified === false || point.dataQualityIssues?.length > 0) && (
+                            <div
+                              className="flex items-center gap-1 text-xs text-destructive"
+                              title={point.dataQualityIssues?.join(", ") || "Not verified"}
+                            >
+                              <AlertCircle className="h-3 w-3" />
+                              {point.dataQualityIssues?.length ? `${point.dataQualityIssues.length} issue${point.dataQualityIssues.length === 1 ? "" : "s"}` : "Unverified"}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           <div className="font-medium text-blue-600">
@@ -11,6 +11,9 @@ import {
   deleteStockSymbol,
   searchStockSymbols,
   updateStockPrices,
+  getConnectionStatus,
+  initializeRealtimeConnection,
+  subscribeToRealtimeUpdates,
   type StockSymbol,
   type CreateStockSymbolRequest,
   type StockSymbolsResponse,
@@ -25,6 +28,9 @@ import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { StockSymbolFormDialog } from "@/components/stock-symbol-form-dialog";
+import { InstrumentMasterImportDialog } from "@/components/instrument-master-import-dialog";
+import { PriceValidationDialog } from "@/components/price-validation-dialog";
+import { StockSymbolDetailDrawer } from "@/components/stock-symbol-detail-drawer";
 import { StockSearch } from "@/components/stock-search";
 import { DeleteConfirmationDialog } from "@/components/delete-confirmation-dialog";
 import type { ColumnDef } from "@tanstack/react-table";
@@ -34,6 +40,7 @@ import {
   RefreshCw,
   Search,
   Edit,
+  Eye,
   Trash2,
   TrendingUp,
   TrendingDown,
@@ -48,6 +55,8 @@ import {
   Pause,
   Play,
   Download,
+  Upload,
+  ShieldCheck,
 } from "lucide-react";
 
 // Real-time configuration
@@ -82,7 +91,10 @@ export default function StockSymbolsPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isMasterImportOpen, setIsMasterImportOpen] = useState(false);
+  const [isPriceValidationOpen, setIsPriceValidationOpen] = useState(false);
   const [selectedStockSymbol, setSelectedStockSymbol] = useState<StockSymbol | null>(null);
+  const [detailStockSymbol, setDetailStockSymbol] = useState<StockSymbol | null>(null);
   
   // Live stock search states
   const [selectedLiveStock, setSelectedLiveStock] = useState<StockSymbol | null>(null);
@@ -104,11 +116,8 @@ export default function StockSymbolsPage() {
   
   // Refs for real-time functionality
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const unsubscribeRef = useRef<null | (() => void)>(null);
   const lastUpdateRef = useRef<Date | null>(null);
-  const isFetchingRef = useRef<boolean>(false);
-  const marketStatusRef = useRef<string | null>(null);
 
   // Check authentication on component mount
   useEffect(() => {
@@ -169,32 +178,13 @@ export default function StockSymbolsPage() {
   }, [isRealTimeEnabled]);
 
   const startRealTimeUpdates = () => {
-    stopRealTimeUpdates(); // Clear any existing interval
-    
-    const interval = REFRESH_INTERVALS[refreshInterval].value;
-    // Start WebSocket realtime connection with fallback to polling
-    // No WebSocket backend: rely purely on polling (update endpoint + fetch)
+    stopRealTimeUpdates(); // Close any existing subscription
 
-    const scheduleNext = () => {
-      const base = interval;
-      const marketFactor = marketStatusRef.current && marketStatusRef.current !== 'OPEN' ? 3 : 1;
-      const jitter = 0.9 + Math.random() * 0.2; // +/-10%
-      const delay = Math.max(2000, Math.floor(base * marketFactor * jitter));
-      timeoutRef.current = setTimeout(async () => {
-        try {
-          await refreshStockData();
-          setIsConnected(true);
-        } catch (error) {
-          console.error("Real-time update failed:", error);
-          setIsConnected(false);
-        } finally {
-          if (isRealTimeEnabled && !document.hidden && navigator.onLine) {
-            scheduleNext();
-          }
-        }
-      }, delay);
-    };
-    scheduleNext();
+    // The server polls once for every open tab and streams the changed
+    // prices; this tab only tells it how fresh it wants them
+    initializeRealtimeConnection(REFRESH_INTERVALS[refreshInterval].value);
+    unsubscribeRef.current = subscribeToRealtimeUpdates(applyPriceUpdates);
+    intervalRef.current = setInterval(() => setIsConnected(getConnectionStatus().isConnected), 5000);
   };
 
   const stopRealTimeUpdates = () => {
@@ -202,44 +192,25 @@ export default function StockSymbolsPage() {
       clearInterval(intervalRef.current);
       intervalRef.current = null;
     }
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = null;
-    }
     if (unsubscribeRef.current) {
       try { unsubscribeRef.current(); } catch {}
       unsubscribeRef.current = null;
     }
   };
 
-  const refreshStockData = async () => {
-    try {
-      if (isFetchingRef.current) return;
-      if (document.hidden || !navigator.onLine) return;
-      isFetchingRef.current = true;
-      const now = new Date();
-      if (autoRefreshFromUpdateButton) {
-        try { await updateStockPrices(); } catch (e) { console.error('updateStockPrices failed during auto-refresh:', e); }
-      }
-      const response: StockSymbolsResponse = await fetchStockSymbols(pagination.page, pagination.limit);
-      
-      setStockSymbols(response.data);
-      if (response.pagination) {
-        setPagination(response.pagination);
-      }
-      if (response.marketStatus) {
-        marketStatusRef.current = response.marketStatus as string;
-      }
-      
-      setLastUpdateTime(now);
-      lastUpdateRef.current = now;
-      setUpdateCounter(prev => prev + 1);
-    } catch (error) {
-      console.error("Error refreshing stock data:", error);
-      throw error;
-    } finally {
-      isFetchingRef.current = false;
-    }
+  // Streamed prices replace the matching rows on the current page
+  const applyPriceUpdates = (updated: StockSymbol[]) => {
+    const bySymbol = new Map(updated.map((stock) => [stock.symbol, stock]));
+    setStockSymbols((current) => current.map((stock) => {
+      const next = bySymbol.get(stock.symbol);
+      return next ? { ...stock, ...next } : stock;
+    }));
+
+    const now = new Date();
+    setLastUpdateTime(now);
+    lastUpdateRef.current = now;
+    setUpdateCounter(prev => prev + 1);
+    setIsConnected(true);
   };
 
   const loadStockSymbols = async (page: number = 1, limit: number = 50) => {
@@ -502,7 +473,14 @@ export default function StockSymbolsPage() {
       header: "Symbol",
       cell: ({ row }) => (
         <div className="font-mono font-bold text-foreground flex items-center gap-2">
-          {row.original.symbol}
+          <button type="button" className="hover:underline" onClick={() => setDetailStockSymbol(row.original)}>
+            {row.original.symbol}
+          </button>
+          {row.original.listingStatus && row.original.listingStatus !== "ACTIVE" && (
+            <Badge variant="destructive" className="font-sans font-normal">
+              {row.original.listingStatus === "DELISTED" ? "Delisted" : "Suspended"}
+            </Badge>
+          )}
           {isRealTimeEnabled && (
             <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse" title="Live data enabled" />
           )}
@@ -557,6 +535,15 @@ export default function StockSymbolsPage() {
       header: "Actions",
       cell: ({ row }) => (
         <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="hover:bg-muted"
+            onClick={() => setDetailStockSymbol(row.original)}
+          >
+            <Eye className="h-4 w-4 text-muted-foreground" />
+            <span className="sr-only">View</span>
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -629,6 +616,10 @@ export default function StockSymbolsPage() {
                     'exchange': 'Exchange',
                     'currentPrice': 'Current Price',
                     'previousPrice': 'Previous Price',
+                    'isin': 'ISIN',
+                    'series': 'Series',
+                    'lotSize': 'Lot Size',
+                    'listingStatus': 'Listing Status',
                     'sector': 'Sector',
                     'industry': 'Industry',
                     'marketCap': 'Market Cap',
@@ -657,6 +648,15 @@ export default function StockSymbolsPage() {
             <Activity className={`h-4 w-4 mr-2 ${isUpdatingPrices ? "animate-pulse" : ""}`} />
             {isUpdatingPrices ? "Updating..." : "Update Prices"}
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsPriceValidationOpen(true)}
+            className="w-full sm:w-auto"
+          >
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Validate Prices
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -676,6 +676,15 @@ export default function StockSymbolsPage() {
             <Search className="h-4 w-4 mr-2" />
             {showLiveSearch ? "Hide" : "Search Live"}
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsMasterImportOpen(true)}
+            className="w-full sm:w-auto"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import Master
+          </Button>
           <Button size="sm" onClick={() => setIsAddDialogOpen(true)} className="bg-primary w-full sm:w-auto">
             <Plus className="h-4 w-4 mr-2" />
             Add Manually
@@ -1210,6 +1219,20 @@ export default function StockSymbolsPage() {
         mode="edit"
       />
 
+      <InstrumentMasterImportDialog
+        open={isMasterImportOpen}
+        onOpenChange={setIsMasterImportOpen}
+        onImported={() => loadStockSymbols(pagination.page, pagination.limit)}
+      />
+
+      <PriceValidationDialog open={isPriceValidationOpen} onOpenChange={setIsPriceValidationOpen} />
+
+      <StockSymbolDetailDrawer
+        open={!!detailStockSymbol}
+        onOpenChange={(open) => !open && setDetailStockSymbol(null)}
+        stock={detailStockSymbol}
+      />
+
       <DeleteConfirmationDialog
         open={isDeleteDialogOpen}
         onOpenChange={setIsDeleteDialogOpen}
@@ -4,9 +4,16 @@
 import { DeleteConfirmationDialog } from "@/components/delete-confirmation-dialog";
 import { TipFormDialog } from "@/components/tip-form-dialog";
 import { TipDetailsModal } from "@/components/tip-details-modal";
+import { TipMonitorDialog } from "@/components/tip-monitor-dialog";
+import { TipTrackRecordDialog } from "@/components/tip-track-record-dialog";
+import { TipScheduleQueue } from "@/components/tip-schedule-queue";
+import { TipBulkActionsDialog } from "@/components/tip-bulk-actions-dialog";
+import { TipTemplateDialog } from "@/components/tip-template-dialog";
+import { TipCloneDialog } from "@/components/tip-clone-dialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Card,
   CardContent,
@@ -33,17 +40,22 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/co
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { usePageState } from "@/hooks/use-page-state";
 import { fetchPortfolios, Portfolio } from "@/lib/api";
 import {
   createGeneralTip,
   deleteTip,
   fetchAllTips,
   fetchTipById,
+  fetchTipsPage,
   updateTip,
   type CreateTipRequest,
   type Tip,
 } from "@/lib/api-tips";
 import { fetchStockSymbolById, type StockSymbol } from "@/lib/api-stock-symbols";
+import { getTipPublishState } from "@/lib/tip-schedule";
+import { TIP_BULK_OPERATION_LABELS, type TipBulkOperationType } from "@/lib/tip-bulk";
+import { MAX_TIP_PAGE_SIZE, type TipPage, type TipQuery, type TipSortDirection, type TipSortField } from "@/lib/tip-query";
 import type { ColumnDef, Row } from "@tanstack/react-table";
 import {
   AlertCircle,
@@ -61,6 +73,11 @@ import {
   ChevronDown,
   SlidersHorizontal,
   MoreVertical,
+  Activity,
+  Trophy,
+  ListChecks,
+  FileText,
+  Copy,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
@@ -121,13 +138,41 @@ function StockDetailsCell({ tip }: { tip: Tip }) {
 // Cache for stock details to avoid redundant API calls
 const stockDetailsCache = new Map<string, StockSymbol>();
 
+interface TipsPageState {
+  search: string;
+  portfolio: string;
+  status: string;
+  action: string;
+  category: string;
+  from: string;
+  to: string;
+  sortBy: TipSortField;
+  sortDir: TipSortDirection;
+  page: number;
+}
+
+const DEFAULT_TIPS_PAGE_STATE: TipsPageState = {
+  search: "",
+  portfolio: "all",
+  status: "all",
+  action: "all",
+  category: "all",
+  from: "",
+  to: "",
+  sortBy: "createdAt",
+  sortDir: "desc",
+  page: 1,
+};
+
 export default function TipsManagementPage() {
   const router = useRouter();
   const { toast } = useToast();
   const isMobile = useIsMobile();
 
+  const [tipsPage, setTipsPage] = useState<TipPage | null>(null);
+  // Every tip, loaded only for the monitor and track record
   const [allTips, setAllTips] = useState<Tip[]>([]);
-  const [filteredTips, setFilteredTips] = useState<Tip[]>([]);
+  const [queueTips, setQueueTips] = useState<Tip[]>([]);
   const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
@@ -135,15 +180,18 @@ export default function TipsManagementPage() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [viewModalOpen, setViewModalOpen] = useState(false);
+  const [monitorOpen, setMonitorOpen] = useState(false);
+  const [trackRecordOpen, setTrackRecordOpen] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [cloneTip, setCloneTip] = useState<Tip | null>(null);
   const [selectedTip, setSelectedTip] = useState<Tip | null>(null);
-  const [portfolioFilter, setPortfolioFilter] = useState<string>("all");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [actionFilter, setActionFilter] = useState<string>("all");
-  const [categoryFilter, setCategoryFilter] = useState<string>("all");
-  const [searchQuery, setSearchQuery] = useState<string>("");
   const [error, setError] = useState<string | null>(null);
   const [filtersOpen, setFiltersOpen] = useState(false);
-  const [activeFiltersCount, setActiveFiltersCount] = useState(0);
+  // Selected tips by ID, kept across pages
+  const [selection, setSelection] = useState<Map<string, Tip>>(new Map());
+  const [bulkOperation, setBulkOperation] = useState<TipBulkOperationType | null>(null);
+  // Tips as they were when the bulk action opened, so reloads do not reshuffle its report
+  const [bulkTips, setBulkTips] = useState<Tip[]>([]);
 
   const loadPortfolios = async () => {
     try {
@@ -154,14 +202,57 @@ export default function TipsManagementPage() {
     }
   };
 
-  const loadAllTips = async () => {
+  // Filters, sort and page live in the URL so a filtered view can be shared or reloaded
+  const { state: pageState, updateState: updatePageState, isLoading: isPageStateLoading } = usePageState<TipsPageState>({
+    pageName: "tips",
+    defaultState: DEFAULT_TIPS_PAGE_STATE,
+    syncWithUrl: true,
+  });
+
+  const portfolioFilter = String(pageState.portfolio);
+  const statusFilter = String(pageState.status);
+  const actionFilter = String(pageState.action);
+  const categoryFilter = String(pageState.category);
+  const searchQuery = String(pageState.search);
+
+  // Any filter change starts again from the first page
+  const setFilter = (updates: Partial<TipsPageState>) => updatePageState({ ...updates, page: 1 });
+  const setPortfolioFilter = (portfolio: string) => setFilter({ portfolio });
+  const setStatusFilter = (status: string) => setFilter({ status });
+  const setActionFilter = (action: string) => setFilter({ action });
+  const setCategoryFilter = (category: string) => setFilter({ category });
+  const setSearchQuery = (search: string) => setFilter({ search });
+
+  const tipQuery: TipQuery = {
+    status: statusFilter,
+    action: actionFilter,
+    category: categoryFilter,
+    portfolio: portfolioFilter,
+    from: pageState.from || undefined,
+    to: pageState.to || undefined,
+    search: searchQuery.trim() || undefined,
+    sortBy: pageState.sortBy,
+    sortDir: pageState.sortDir,
+    page: Number(pageState.page) || 1,
+  };
+
+  const activeFiltersCount = [
+    portfolioFilter !== "all",
+    statusFilter !== "all",
+    actionFilter !== "all",
+    categoryFilter !== "all",
+    !!searchQuery,
+    !!pageState.from || !!pageState.to,
+  ].filter(Boolean).length;
+
+  const tips = tipsPage?.tips || [];
+
+  const loadTips = async () => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const allTipsData = await fetchAllTips();
-      setAllTips(allTipsData);
-      setFilteredTips(allTipsData);
+      setTipsPage(await fetchTipsPage(tipQuery));
     } catch (error) {
 
       setError(
@@ -177,64 +268,50 @@ export default function TipsManagementPage() {
     }
   };
 
-  useEffect(() => {
-    loadPortfolios();
-    loadAllTips();
-  }, []);
-
-  useEffect(() => {
-    // Apply filters
-    let filtered = [...allTips];
-
-    // Filter by portfolio
-    if (portfolioFilter !== "all") {
-      if (portfolioFilter === "general") {
-        // Show only RangaOne Wealth (no portfolio)
-        filtered = filtered.filter((tip) => !tip.portfolio);
-      } else {
-        // Show tips for specific portfolio
-        filtered = filtered.filter((tip) => tip.portfolio === portfolioFilter);
-      }
+  const loadAllTips = async () => {
+    try {
+      setAllTips(await fetchAllTips());
+    } catch (error) {
+      toast({
+        title: "Error loading tips",
+        description: error instanceof Error ? error.message : "Failed to load tips data",
+        variant: "destructive",
+      });
     }
+  };
 
-    // Filter by status
-    if (statusFilter !== "all") {
-      filtered = filtered.filter((tip) => tip.status.toLowerCase() === statusFilter.toLowerCase());
+  const loadQueueTips = async () => {
+    try {
+      const { tips: unpublished } = await fetchTipsPage({ publishState: ["draft", "scheduled"], pageSize: MAX_TIP_PAGE_SIZE });
+      setQueueTips(unpublished);
+    } catch (error) {
+      // The queue is secondary to the table, so it just stays empty
     }
+  };
 
-    // Filter by action
-    if (actionFilter !== "all") {
-      filtered = filtered.filter((tip) => tip.action?.toLowerCase() === actionFilter.toLowerCase());
-    }
+  // Reloads whatever is on screen after a tip changes
+  const refreshTips = () => {
+    loadTips();
+    loadQueueTips();
+    if (monitorOpen || trackRecordOpen) loadAllTips();
+  };
 
-    // Filter by category
-    if (categoryFilter !== "all") {
-      filtered = filtered.filter((tip) => tip.category === categoryFilter);
-    }
+  useEffect(() => {
+    loadPortfolios();
+    loadQueueTips();
+  }, []);
 
-    // Filter by search query
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (tip) =>
-          tip.title.toLowerCase().includes(query) ||
-          tip.stockId.toLowerCase().includes(query) ||
-          tip.content.some(item => item.value.toLowerCase().includes(query)) ||
-          tip.description.toLowerCase().includes(query)
-      );
-    }
+  // Typing in the search box waits for a pause before querying
+  useEffect(() => {
+    if (isPageStateLoading) return;
+    const timer = setTimeout(loadTips, 300);
+    return () => clearTimeout(timer);
+  }, [isPageStateLoading, JSON.stringify(tipQuery)]);
 
-    setFilteredTips(filtered);
-    
-    // Update active filters count
-    let count = 0;
-    if (portfolioFilter !== "all") count++;
-    if (statusFilter !== "all") count++;
-    if (actionFilter !== "all") count++;
-    if (categoryFilter !== "all") count++;
-    if (searchQuery) count++;
-    setActiveFiltersCount(count);
-  }, [allTips, portfolioFilter, statusFilter, actionFilter, categoryFilter, searchQuery]);
+  const openAllTipsDialog = (open: (value: boolean) => void) => {
+    loadAllTips();
+    open(true);
+  };
 
   const handleCreateTip = async (tipData: CreateTipRequest) => {
     try {
@@ -250,7 +327,7 @@ export default function TipsManagementPage() {
       });
 
       // Refresh the tips list
-      loadAllTips();
+      refreshTips();
     } catch (error) {
       toast({
         title: "Failed to create tip",
@@ -281,9 +358,12 @@ export default function TipsManagementPage() {
         title: "Tip Updated",
         description: "Investment tip has been updated successfully",
       });
+      if (updatedTip.revisionError) {
+        toast({ title: "Revision not recorded", description: updatedTip.revisionError, variant: "destructive" });
+      }
 
       // Refresh the tips list
-      loadAllTips();
+      refreshTips();
     } catch (error) {
       toast({
         title: "Failed to update tip",
@@ -310,7 +390,7 @@ export default function TipsManagementPage() {
       setDeleteDialogOpen(false);
 
       // Refresh the tips list
-      loadAllTips();
+      refreshTips();
     } catch (error) {
       toast({
         title: "Failed to delete tip",
@@ -326,7 +406,7 @@ export default function TipsManagementPage() {
   const openEditDialog = async (id: string) => {
     try {
       // First try to find the tip in our current list
-      const existingTip = allTips.find((tip) => tip._id === id || tip.id === id);
+      const existingTip = [...tips, ...queueTips].find((tip) => tip._id === id || tip.id === id);
 
       if (existingTip) {
         // Make sure we have stockSymbol and stockName
@@ -440,15 +520,65 @@ export default function TipsManagementPage() {
 
   // Clear all filters
   const clearAllFilters = () => {
-    setPortfolioFilter("all");
-    setStatusFilter("all");
-    setActionFilter("all");
-    setCategoryFilter("all");
-    setSearchQuery("");
+    setFilter({ portfolio: "all", status: "all", action: "all", category: "all", search: "", from: "", to: "" });
+  };
+
+  const selectedTips = Array.from(selection.values());
+  const allPageSelected = tips.length > 0 && tips.every((tip) => selection.has(tip.id));
+
+  const toggleTipSelection = (tip: Tip, checked: boolean) => {
+    setSelection((current) => {
+      const next = new Map(current);
+      if (checked) next.set(tip.id, tip);
+      else next.delete(tip.id);
+      return next;
+    });
+  };
+
+  const togglePageSelection = (checked: boolean) => {
+    setSelection((current) => {
+      const next = new Map(current);
+      tips.forEach((tip) => (checked ? next.set(tip.id, tip) : next.delete(tip.id)));
+      return next;
+    });
+  };
+
+  // The CSV covers every tip matching the filters, not just the page on screen
+  const handleDownloadCsv = async () => {
+    try {
+      const { tips: matching } = await fetchTipsPage({ ...tipQuery, page: 1, pageSize: MAX_TIP_PAGE_SIZE });
+      downloadTips(matching, 'csv');
+      toast({ title: "Download started", description: "Tips data is being downloaded as CSV" });
+    } catch (error) {
+      toast({ title: "Download failed", description: error instanceof Error ? error.message : "No data to download", variant: "destructive" });
+    }
+  };
+
+  const openBulkOperation = (operation: TipBulkOperationType) => {
+    setBulkTips(selectedTips);
+    setBulkOperation(operation);
   };
 
   // Mobile-optimized columns configuration
   const columns: ColumnDef<Tip>[] = [
+    {
+      id: "select",
+      size: 32,
+      header: () => (
+        <Checkbox
+          checked={allPageSelected}
+          onCheckedChange={(checked) => togglePageSelection(checked === true)}
+          aria-label="Select all tips on this page"
+        />
+      ),
+      cell: ({ row }: { row: Row<Tip> }) => (
+        <Checkbox
+          checked={selection.has(row.original.id)}
+          onCheckedChange={(checked) => toggleTipSelection(row.original, checked === true)}
+          aria-label={`Select ${row.original.title}`}
+        />
+      ),
+    },
     {
       accessorKey: "title",
       header: "Title",
@@ -562,10 +692,18 @@ export default function TipsManagementPage() {
       size: isMobile ? 70 : 100,
       cell: ({ row }) => {
         const status = row.getValue("status") as string;
+        const publishState = getTipPublishState(row.original);
         return status ? (
-          <Badge className={`${getStatusColor(status)} ${isMobile ? 'text-[10px] px-1.5 py-0.5' : ''}`} variant="outline">
-            {isMobile ? status.charAt(0).toUpperCase() : status.charAt(0).toUpperCase() + status.slice(1)}
-          </Badge>
+          <div className="flex flex-wrap gap-1">
+            <Badge className={`${getStatusColor(status)} ${isMobile ? 'text-[10px] px-1.5 py-0.5' : ''}`} variant="outline">
+              {isMobile ? status.charAt(0).toUpperCase() : status.charAt(0).toUpperCase() + status.slice(1)}
+            </Badge>
+            {publishState !== "published" && (
+              <Badge variant="secondary" className={isMobile ? 'text-[10px] px-1.5 py-0.5' : ''}>
+                {publishState === "draft" ? "Draft" : "Scheduled"}
+              </Badge>
+            )}
+          </div>
         ) : (
           <span className={`text-muted-foreground ${isMobile ? 'text-xs' : 'text-sm'}`}>-</span>
         );
@@ -643,6 +781,10 @@ export default function TipsManagementPage() {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-[160px]">
+                <DropdownMenuItem onClick={() => setCloneTip(tip)}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  <span>Copy to Portfolios</span>
+                </DropdownMenuItem>
                 {isGeneral ? (
                   <>
                     <DropdownMenuItem onClick={() => openEditDialog(tip.id)}>
@@ -780,6 +922,49 @@ export default function TipsManagementPage() {
             </Select>
           </div>
 
+          {/* Date Range */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Created Between</label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={pageState.from}
+                onChange={(e) => setFilter({ from: e.target.value })}
+                className="text-sm"
+              />
+              <Input
+                type="date"
+                value={pageState.to}
+                onChange={(e) => setFilter({ to: e.target.value })}
+                className="text-sm"
+              />
+            </div>
+          </div>
+
+          {/* Sort */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Sort By</label>
+            <Select
+              value={`${pageState.sortBy}:${pageState.sortDir}`}
+              onValueChange={(value) => {
+                const [sortBy, sortDir] = value.split(":") as [TipSortField, TipSortDirection];
+                setFilter({ sortBy, sortDir });
+              }}
+            >
+              <SelectTrigger className="text-sm">
+                <SelectValue placeholder="Sort tips" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="createdAt:desc">Newest First</SelectItem>
+                <SelectItem value="createdAt:asc">Oldest First</SelectItem>
+                <SelectItem value="updatedAt:desc">Recently Updated</SelectItem>
+                <SelectItem value="title:asc">Title A–Z</SelectItem>
+                <SelectItem value="stockSymbol:asc">Stock A–Z</SelectItem>
+                <SelectItem value="status:asc">Status</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Clear Filters */}
           {activeFiltersCount > 0 && (
             <div className="pt-2">
@@ -816,7 +1001,7 @@ export default function TipsManagementPage() {
       </CollapsibleTrigger>
       <CollapsibleContent className="mt-4">
         <Card className="p-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-5 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
             {/* Search */}
             <div className="space-y-2">
               <label className="text-sm font-medium text-muted-foreground">Search</label>
@@ -898,6 +1083,49 @@ export default function TipsManagementPage() {
                 </SelectContent>
               </Select>
             </div>
+
+            {/* Date Range */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-muted-foreground">Created Between</label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={pageState.from}
+                  onChange={(e) => setFilter({ from: e.target.value })}
+               
+                />
+                <Input
+                  type="date"
+                  value={pageState.to}
+                  onChange={(e) => setFilter({ to: e.target.value })}
+               
+                />
+              </div>
+            </div>
+
+            {/* Sort */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-muted-foreground">Sort By</label>
+              <Select
+                value={`${pageState.sortBy}:${pageState.sortDir}`}
+                onValueChange={(value) => {
+                  const [sortBy, sortDir] = value.split(":") as [TipSortField, TipSortDirection];
+                  setFilter({ sortBy, sortDir });
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Sort tips" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="createdAt:desc">Newest First</SelectItem>
+                  <SelectItem value="createdAt:asc">Oldest First</SelectItem>
+                  <SelectItem value="updatedAt:desc">Recently Updated</SelectItem>
+                  <SelectItem value="title:asc">Title A–Z</SelectItem>
+                  <SelectItem value="stockSymbol:asc">Stock A–Z</SelectItem>
+                  <SelectItem value="status:asc">Status</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           
           {/* Clear Filters */}
@@ -929,7 +1157,8 @@ export default function TipsManagementPage() {
                 Investment Tips
               </h1>
               <p className="text-sm sm:text-base text-muted-foreground">
-                {filteredTips.length} of {allTips.length} tips
+                {tipsPage?.total ?? 0} tips
+                {tipsPage && tipsPage.totalPages > 1 && ` · page ${tipsPage.page} of ${tipsPage.totalPages}`}
                 {activeFiltersCount > 0 && (
                   <span className="ml-2 text-blue-600">({activeFiltersCount} filter{activeFiltersCount > 1 ? 's' : ''} active)</span>
                 )}
@@ -938,22 +1167,42 @@ export default function TipsManagementPage() {
             
             <div className="flex flex-col sm:flex-row gap-2 sm:ml-auto">
               <Button
-                onClick={() => {
-                  try {
-                    downloadTips(filteredTips, 'csv');
-                    toast({ title: "Download started", description: "Tips data is being downloaded as CSV" });
-                  } catch (error) {
-                    toast({ title: "Download failed", description: "No data to download", variant: "destructive" });
-                  }
-                }}
+                onClick={handleDownloadCsv}
                 variant="outline"
                 size="sm"
                 className="w-full sm:w-auto"
-                disabled={filteredTips.length === 0}
+                disabled={!tipsPage?.total}
               >
                 <Download className="mr-2 h-4 w-4" />
                 Download CSV
               </Button>
+              <Button
+                onClick={() => openAllTipsDialog(setMonitorOpen)}
+                variant="outline"
+                size="sm"
+                className="w-full sm:w-auto"
+              >
+                <Activity className="mr-2 h-4 w-4" />
+                Monitor
+              </Button>
+              <Button
+                onClick={() => openAllTipsDialog(setTrackRecordOpen)}
+                variant="outline"
+                size="sm"
+                className="w-full sm:w-auto"
+              >
+                <Trophy className="mr-2 h-4 w-4" />
+                Track Record
+              </Button>
+              <Button
+                onClick={() => setTemplatesOpen(true)}
+                variant="outline"
+                size="sm"
+                className="w-full sm:w-auto"
+              >
+                <FileText className="mr-2 h-4 w-4" />
+                Templates
+              </Button>
               <Button
                 onClick={() => setCreateDialogOpen(true)}
                 size="sm"
@@ -963,7 +1212,7 @@ export default function TipsManagementPage() {
                 Create General Tip
               </Button>
               <Button
-                onClick={() => loadAllTips()}
+                onClick={refreshTips}
                 variant="outline"
                 size="sm"
                 className="w-full sm:w-auto"
@@ -990,14 +1239,67 @@ export default function TipsManagementPage() {
           </Alert>
         )}
               
+        {/* Scheduled and draft tips */}
+        <div className="px-4 mb-4 empty:hidden">
+          <TipScheduleQueue
+            tips={queueTips}
+            getPortfolioName={getPortfolioName}
+            onEdit={(tip) => openEditDialog(tip.id)}
+            onPublished={refreshTips}
+          />
+        </div>
+
+        {/* Bulk actions for the selected tips */}
+        {selectedTips.length > 0 && (
+          <div className="px-4 mb-4">
+            <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/40 px-3 py-2">
+              <span className="flex items-center gap-2 text-sm font-medium mr-2">
+                <ListChecks className="h-4 w-4" />
+                {selectedTips.length} selected
+              </span>
+              {(["close", "category", "horizon", "portfolio"] as TipBulkOperationType[]).map((operation) => (
+                <Button key={operation} variant="outline" size="sm" onClick={() => openBulkOperation(operation)}>
+                  {TIP_BULK_OPERATION_LABELS[operation]}
+                </Button>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  downloadTips(selectedTips, 'csv');
+                  toast({ title: "Download started", description: `${selectedTips.length} tips are being downloaded as CSV` });
+                }}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => openBulkOperation("delete")}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+              <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setSelection(new Map())}>
+                <X className="mr-2 h-4 w-4" />
+                Clear
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Tips Table */}
         <div className="px-4">
           <Card>
             <CardContent className="p-0">
               <DataTable 
                 columns={columns} 
-                data={filteredTips} 
+                data={tips} 
                 isLoading={isLoading}
+                pagination={tipsPage ? {
+                  pageIndex: tipsPage.page - 1,
+                  pageSize: tipsPage.pageSize,
+                  pageCount: tipsPage.totalPages,
+                  total: tipsPage.total,
+                  onPageChange: (pageIndex) => updatePageState({ page: pageIndex + 1 }),
+                } : undefined}
               />
             </CardContent>
           </Card>
@@ -1013,6 +1315,43 @@ export default function TipsManagementPage() {
         description="Add a new general investment tip visible to all users"
       />
 
+      <TipMonitorDialog
+        open={monitorOpen}
+        onOpenChange={setMonitorOpen}
+        tips={allTips}
+        onTipClosed={refreshTips}
+      />
+
+      <TipBulkActionsDialog
+        open={!!bulkOperation}
+        onOpenChange={(open) => !open && setBulkOperation(null)}
+        operationType={bulkOperation}
+        tips={bulkTips}
+        portfolios={portfolios}
+        getPortfolioName={getPortfolioName}
+        onCompleted={() => {
+          setSelection(new Map());
+          refreshTips();
+        }}
+      />
+
+      <TipTemplateDialog open={templatesOpen} onOpenChange={setTemplatesOpen} />
+
+      <TipCloneDialog
+        open={!!cloneTip}
+        onOpenChange={(open) => !open && setCloneTip(null)}
+        tip={cloneTip}
+        portfolios={portfolios}
+        onCloned={refreshTips}
+      />
+
+      <TipTrackRecordDialog
+        open={trackRecordOpen}
+        onOpenChange={setTrackRecordOpen}
+        tips={allTips}
+        portfolios={portfolios}
+      />
+
       {selectedTip && (
         <>
           <TipFormDialog
@@ -1039,6 +1378,10 @@ export default function TipsManagementPage() {
             open={viewModalOpen}
             onOpenChange={setViewModalOpen}
             tip={selectedTip}
+            onTipRestored={async () => {
+              refreshTips();
+              setSelectedTip(await fetchTipById(selectedTip.id));
+            }}
           />
         </>
       )}
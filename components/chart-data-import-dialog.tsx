@@ -0,0 +1,351 @@
+// components/chart-data-import-dialog.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Download, FileSpreadsheet, RefreshCw, Upload } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { Portfolio } from "@/lib/api";
+import { fetchAllChartData, type ChartDataPoint } from "@/lib/api-chart-data";
+import {
+  IMPORT_FIELD_LABELS,
+  buildImportPlan,
+  commitImportPlan,
+  parseChartDataFile,
+  type ImportAction,
+  type ImportOptions,
+  type ImportProgress,
+  type ImportRowResult,
+  type ParsedImportFile,
+} from "@/lib/chart-data-import";
+import { downloadData } from "@/lib/download-utils";
+
+interface ChartDataImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  portfolio: Portfolio | null;
+  onImported: () => void;
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  insert: "Insert",
+  update: "Update",
+  skip: "Skip",
+  invalid: "Invalid",
+};
+
+const ACTION_VARIANTS: Record<ImportAction, "default" | "secondary" | "outline" | "destructive"> = {
+  insert: "default",
+  update: "secondary",
+  skip: "outline",
+  invalid: "destructive",
+};
+
+const PREVIEW_LIMIT = 200;
+
+const formatNumber = (value: number) => value.toLocaleString("en-IN", { maximumFractionDigits: 2 });
+
+export function ChartDataImportDialog({ open, onOpenChange, portfolio, onImported }: ChartDataImportDialogProps) {
+  const [fileName, setFileName] = useState("");
+  const [parsed, setParsed] = useState<ParsedImportFile | null>(null);
+  const [existingPoints, setExistingPoints] = useState<ChartDataPoint[]>([]);
+  const [options, setOptions] = useState<ImportOptions>({
+    overwriteExisting: false,
+    compareIndexPriceSource: "closing",
+    markVerified: true,
+  });
+  const [actionFilter, setActionFilter] = useState<ImportAction | "all">("all");
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [results, setResults] = useState<ImportRowResult[] | null>(null);
+  const { toast } = useToast();
+
+  const portfolioId = portfolio ? portfolio._id || portfolio.id : "";
+
+  useEffect(() => {
+    if (open) {
+      setFileName("");
+      setParsed(null);
+      setExistingPoints([]);
+      setActionFilter("all");
+      setProgress(null);
+      setResults(null);
+    }
+  }, [open, portfolioId]);
+
+  const plan = useMemo(
+    () => (parsed ? buildImportPlan(parsed.rows, existingPoints, options) : []),
+    [parsed, existingPoints, options]
+  );
+
+  const counts = useMemo(
+    () =>
+      plan.reduce(
+        (acc, item) => ({ ...acc, [item.action]: acc[item.action] + 1 }),
+        { insert: 0, update: 0, skip: 0, invalid: 0 } as Record<ImportAction, number>
+      ),
+    [plan]
+  );
+
+  const visiblePlan = plan.filter((item) => actionFilter === "all" || item.action === actionFilter);
+  const failedResults = results?.filter((result) => result.status === "failed") || [];
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file || !portfolioId) return;
+    setIsParsing(true);
+    setFileName(file.name);
+    setParsed(null);
+    setResults(null);
+    setProgress(null);
+    try {
+      const [parsedFile, existing] = await Promise.all([parseChartDataFile(file), fetchAllChartData(portfolioId)]);
+      setParsed(parsedFile);
+      setExistingPoints(existing);
+    } catch (error) {
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "Failed to parse the selected file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!portfolioId) return;
+    setIsImporting(true);
+    try {
+      const importResults = await commitImportPlan(plan, portfolioId, options, setProgress);
+      setResults(importResults);
+      const failed = importResults.filter((result) => result.status === "failed").length;
+      toast({
+        title: failed ? "Import partially completed" : "Import completed",
+        description: `${importResults.length - failed} rows saved, ${failed} failed`,
+        variant: failed ? "destructive" : "default",
+      });
+      onImported();
+      // Refresh the comparison so a second run only retries what is still missing
+      setExistingPoints(await fetchAllChartData(portfolioId));
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to import chart data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    const rows = [
+      ...plan
+        .filter((item) => item.action === "invalid")
+        .map((item) => ({ row: item.row.rowNumber, date: item.row.dateOnly, action: "invalid", error: item.reason || "" })),
+      ...failedResults.map((result) => ({
+        row: result.rowNumber,
+        date: result.dateOnly,
+        action: result.action,
+        error: result.error || "",
+      })),
+    ];
+    downloadData(rows, { filename: `chart-data-import-errors-${new Date().toISOString().split("T")[0]}` });
+  };
+
+  const pendingWrites = counts.insert + counts.update;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isImporting && onOpenChange(value)}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Chart Data</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file with Date, Portfolio Value, Cash Remaining and Index Value columns
+            {portfolio ? ` for ${portfolio.name}` : ""}. Dates may be YYYY-MM-DD or DD/MM/YYYY.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              disabled={!portfolio || isParsing || isImporting}
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+          </div>
+          <div>
+            <Label>Index Price Source</Label>
+            <Select
+              value={options.compareIndexPriceSource}
+              onValueChange={(value: "closing" | "opening") => setOptions({ ...options, compareIndexPriceSource: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="closing">Closing</SelectItem>
+                <SelectItem value="opening">Opening</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="overwrite-existing"
+              checked={options.overwriteExisting}
+              onCheckedChange={(checked) => setOptions({ ...options, overwriteExisting: checked })}
+            />
+            <Label htmlFor="overwrite-existing">Overwrite existing dates</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="mark-verified"
+              checked={options.markVerified}
+              onCheckedChange={(checked) => setOptions({ ...options, markVerified: checked })}
+            />
+            <Label htmlFor="mark-verified">Mark imported rows as verified</Label>
+          </div>
+        </div>
+
+        {isParsing && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            Reading {fileName}...
+          </div>
+        )}
+
+        {parsed && parsed.missingColumns.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTitle>Missing columns</AlertTitle>
+            <AlertDescription>
+              {fileName} has no {parsed.missingColumns.map((field) => IMPORT_FIELD_LABELS[field]).join(", ")} column.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {parsed && parsed.missingColumns.length === 0 && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              {fileName}: {parsed.rows.length} rows, {existingPoints.length} existing entries.
+              {!parsed.columns.cashRemaining && " No cash column found, cash is set to 0."}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge
+                variant={actionFilter === "all" ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setActionFilter("all")}
+              >
+                All ({plan.length})
+              </Badge>
+              {(Object.keys(ACTION_LABELS) as ImportAction[]).map((action) => (
+                <Badge
+                  key={action}
+                  variant={actionFilter === action ? ACTION_VARIANTS[action] : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => setActionFilter(action)}
+                >
+                  {ACTION_LABELS[action]} ({counts[action]})
+                </Badge>
+              ))}
+            </div>
+
+            <div className="rounded-md border max-h-[320px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Portfolio Value</TableHead>
+                    <TableHead className="text-right">Cash</TableHead>
+                    <TableHead className="text-right">Index</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visiblePlan.slice(0, PREVIEW_LIMIT).map((item) => (
+                    <TableRow key={item.row.rowNumber}>
+                      <TableCell>{item.row.rowNumber}</TableCell>
+                      <TableCell className="whitespace-nowrap">{item.row.dateOnly || "—"}</TableCell>
+                      <TableCell className="text-right">
+                        {formatNumber(item.row.portfolioValue)}
+                        {item.action === "update" && item.existing && (
+                          <div className="text-xs text-muted-foreground">was {formatNumber(item.existing.portfolioValue)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatNumber(item.row.cashRemaining)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(item.row.compareIndexValue)}</TableCell>
+                      <TableCell>
+                        <Badge variant={ACTION_VARIANTS[item.action]}>{ACTION_LABELS[item.action]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{item.reason}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {visiblePlan.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {PREVIEW_LIMIT} of {visiblePlan.length} rows.
+              </p>
+            )}
+
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={progress.total ? (progress.completed / progress.total) * 100 : 100} />
+                <p className="text-xs text-muted-foreground">
+                  {progress.completed} of {progress.total} rows written
+                </p>
+              </div>
+            )}
+
+            {results && (
+              <div className="rounded-md border p-3 text-sm">
+                <div className="font-medium">
+                  {results.length - failedResults.length} rows saved, {failedResults.length} failed
+                </div>
+                {failedResults.length > 0 && (
+                  <ul className="mt-1 list-disc pl-5 text-destructive max-h-[120px] overflow-y-auto">
+                    {failedResults.map((result) => (
+                      <li key={result.rowNumber}>
+                        Row {result.rowNumber} ({result.dateOnly}): {result.error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {(counts.invalid > 0 || failedResults.length > 0) && (
+            <Button variant="outline" onClick={handleDownloadErrors} disabled={isImporting}>
+              <Download className="mr-2 h-4 w-4" />
+              Error Report
+            </Button>
+          )}
+          <Button onClick={handleImport} disabled={!parsed || pendingWrites === 0 || isImporting || isParsing}>
+            {isImporting ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import {pendingWrites} Row{pendingWrites === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,441 @@
+// components/chart-data-quality-dialog.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle, RefreshCw, Search, Trash, Wand2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import type { Portfolio } from "@/lib/api";
+import {
+  createChartData,
+  deleteChartData,
+  fetchAllChartData,
+  getChartPointDate,
+  getChartPointId,
+  patchChartData,
+  type ChartDataPoint,
+} from "@/lib/api-chart-data";
+import { withProviderPriceHistory } from "@/lib/api-market-data";
+import { fetchStockSymbolBySymbol, type StockSymbol } from "@/lib/api-stock-symbols";
+import {
+  ISSUE_TYPE_LABELS,
+  buildInterpolatedEntries,
+  buildSymbolPriceLookup,
+  getValuedHoldings,
+  mergeScanIssues,
+  scanChartDataQuality,
+  type ChartDataFinding,
+  type ChartDataIssueType,
+  type ChartDataScanResult,
+} from "@/lib/chart-data-quality";
+
+interface ChartDataQualityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  portfolio: Portfolio | null;
+  onDataChanged: () => void;
+}
+
+interface ActionResult {
+  action: string;
+  succeeded: number;
+  failed: string[];
+}
+
+const sameIssues = (a: string[] = [], b: string[] = []) => a.length === b.length && a.every((issue, i) => issue === b[i]);
+
+/**
+ * Runs requests one at a time so a large repair does not flood the backend,
+ * collecting a label for every request that failed.
+ */
+const runSequentially = async <T,>(items: T[], run: (item: T) => Promise<unknown>, label: (item: T) => string) => {
+  let succeeded = 0;
+  const failed: string[] = [];
+  for (const item of items) {
+    try {
+      await run(item);
+      succeeded++;
+    } catch (error) {
+      failed.push(`${label(item)}: ${error instanceof Error ? error.message : "Request failed"}`);
+    }
+  }
+  return { succeeded, failed };
+};
+
+export function ChartDataQualityDialog({ open, onOpenChange, portfolio, onDataChanged }: ChartDataQualityDialogProps) {
+  const [jumpThreshold, setJumpThreshold] = useState("10");
+  const [indexJumpThreshold, setIndexJumpThreshold] = useState("5");
+  const [holdingsTolerance, setHoldingsTolerance] = useState("2");
+  const [holidays, setHolidays] = useState("");
+  const [checkHoldings, setCheckHoldings] = useState(true);
+  const [points, setPoints] = useState<ChartDataPoint[]>([]);
+  const [result, setResult] = useState<ChartDataScanResult | null>(null);
+  const [typeFilter, setTypeFilter] = useState<ChartDataIssueType | "all">("all");
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isScanning, setIsScanning] = useState(false);
+  const [runningAction, setRunningAction] = useState<string | null>(null);
+  const [lastAction, setLastAction] = useState<ActionResult | null>(null);
+  const { toast } = useToast();
+
+  const portfolioId = portfolio ? portfolio._id || portfolio.id : "";
+
+  useEffect(() => {
+    if (open) {
+      setResult(null);
+      setPoints([]);
+      setSelected(new Set());
+      setLastAction(null);
+      setTypeFilter("all");
+    }
+  }, [open, portfolioId]);
+
+  const counts = useMemo(() => {
+    const byType = {} as Record<ChartDataIssueType, number>;
+    result?.findings.forEach((finding) => {
+      byType[finding.type] = (byType[finding.type] || 0) + 1;
+    });
+    return byType;
+  }, [result]);
+
+  const visibleFindings = useMemo(
+    () =>
+      (result?.findings || [])
+        .map((finding, index) => ({ finding, index }))
+        .filter(({ finding }) => typeFilter === "all" || finding.type === typeFilter),
+    [result, typeFilter]
+  );
+
+  const selectedFindings = useMemo(
+    () => (result?.findings || []).filter((_, index) => selected.has(index)),
+    [result, selected]
+  );
+
+  const runScan = async () => {
+    if (!portfolioId || !portfolio) return;
+    setIsScanning(true);
+    try {
+      const data = await fetchAllChartData(portfolioId);
+      const latestDate = data.length ? getChartPointDate(data[data.length - 1]) : undefined;
+      const holdings = getValuedHoldings(portfolio.holdings);
+
+      let holdingsCheck;
+      if (checkHoldings && holdings.length > 0) {
+        const lookups = await Promise.allSettled(holdings.map((holding) => fetchStockSymbolBySymbol(holding.symbol)));
+        const loaded = lookups
+          .filter((lookup): lookup is PromiseFulfilledResult<StockSymbol> => lookup.status === "fulfilled")
+          .map((lookup) => lookup.value);
+        // Backfill days the backend has no price for from the price provider
+        const firstDate = portfolio.lastRebalanceDate || (data.length ? getChartPointDate(data[0]) : undefined);
+        const symbols =
+          firstDate && latestDate
+            ? await Promise.all(loaded.map((stock) => withProviderPriceHistory(stock, firstDate.slice(0, 10), latestDate.slice(0, 10))))
+            : loaded;
+        holdingsCheck = {
+          holdings,
+          since: portfolio.lastRebalanceDate,
+          priceOn: buildSymbolPriceLookup(symbols, latestDate),
+          tolerancePercent: Number(holdingsTolerance) || undefined,
+        };
+        if (symbols.length < holdings.length) {
+          toast({
+            title: "Some prices unavailable",
+            description: `Could not load prices for ${holdings.length - symbols.length} holding(s); days without a price for every holding are skipped.`,
+          });
+        }
+      }
+
+      const scan = scanChartDataQuality(data, {
+        jumpThresholdPercent: Number(jumpThreshold) || undefined,
+        indexJumpThresholdPercent: Number(indexJumpThreshold) || undefined,
+        holidays: holidays.split(/[\s,]+/).filter(Boolean),
+        holdingsCheck,
+      });
+      setPoints(data);
+      setResult(scan);
+      setSelected(new Set());
+    } catch (error) {
+      toast({
+        title: "Scan failed",
+        description: error instanceof Error ? error.message : "Failed to scan chart data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleScan = () => {
+    setLastAction(null);
+    runScan();
+  };
+
+  const finishAction = (action: string, outcome: { succeeded: number; failed: string[] }) => {
+    setLastAction({ action, ...outcome });
+    toast({
+      title: outcome.failed.length ? `${action} partially completed` : action,
+      description: `${outcome.succeeded} succeeded, ${outcome.failed.length} failed`,
+      variant: outcome.failed.length ? "destructive" : "default",
+    });
+    onDataChanged();
+  };
+
+  const withAction = async (action: string, run: () => Promise<{ succeeded: number; failed: string[] }>) => {
+    setRunningAction(action);
+    try {
+      finishAction(action, await run());
+      await runScan();
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  // Rewrites scanner issues on every point, clearing stale ones from earlier scans
+  const handleWriteFindings = () =>
+    withAction("Write findings", async () => {
+      const updates = points
+        .map((point) => {
+          const id = getChartPointId(point);
+          const issues = mergeScanIssues(point.dataQualityIssues, result?.issuesByPointId.get(id || "") || []);
+          return { id, point, issues };
+        })
+        .filter((update) => update.id && !sameIssues(update.point.dataQualityIssues, update.issues));
+      return runSequentially(
+        updates,
+        (update) => patchChartData(update.id!, { dataQualityIssues: update.issues }),
+        (update) => getChartPointDate(update.point)
+      );
+    });
+
+  const handleInterpolate = () =>
+    withAction("Interpolate missing days", async () => {
+      const dates = selectedFindings.filter((finding) => finding.type === "missing_trading_day").map((finding) => finding.date);
+      const entries = buildInterpolatedEntries(points, dates, portfolioId);
+      return runSequentially(entries, (entry) => createChartData(entry), (entry) => entry.dateOnly);
+    });
+
+  const handleDeleteDuplicates = () =>
+    withAction("Delete duplicates", async () => {
+      const ids = Array.from(
+        new Set(selectedFindings.filter((finding) => finding.type === "duplicate_date").flatMap((finding) => finding.pointIds))
+      );
+      return runSequentially(ids, (id) => deleteChartData(id), (id) => id);
+    });
+
+  const handleMarkVerified = () =>
+    withAction("Mark verified", async () => {
+      const ids = new Set(
+        selectedFindings.filter((finding) => finding.type !== "duplicate_date").flatMap((finding) => finding.pointIds)
+      );
+      const targets = points.filter((point) => ids.has(getChartPointId(point) || ""));
+      return runSequentially(
+        targets,
+        (point) =>
+          patchChartData(getChartPointId(point)!, {
+            dataVerified: true,
+            dataQualityIssues: mergeScanIssues(point.dataQualityIssues, []),
+          }),
+        (point) => getChartPointDate(point)
+      );
+    });
+
+  const toggleFinding = (index: number, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const allVisibleSelected = visibleFindings.length > 0 && visibleFindings.every(({ index }) => selected.has(index));
+  const toggleAllVisible = (checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      visibleFindings.forEach(({ index }) => (checked ? next.add(index) : next.delete(index)));
+      return next;
+    });
+  };
+
+  const countSelected = (predicate: (finding: ChartDataFinding) => boolean) => selectedFindings.filter(predicate).length;
+  const isBusy = isScanning || runningAction !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Data Quality Scan</DialogTitle>
+          <DialogDescription>
+            {portfolio ? `Checks the full chart data history of ${portfolio.name}.` : "Select a portfolio to scan."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="jump-threshold">Value jump threshold (%)</Label>
+            <Input id="jump-threshold" type="number" min="0" step="0.5" value={jumpThreshold} onChange={(e) => setJumpThreshold(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="index-jump-threshold">Index jump threshold (%)</Label>
+            <Input id="index-jump-threshold" type="number" min="0" step="0.5" value={indexJumpThreshold} onChange={(e) => setIndexJumpThreshold(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="holdings-tolerance">Holdings tolerance (%)</Label>
+            <Input
+              id="holdings-tolerance"
+              type="number"
+              min="0"
+              step="0.5"
+              value={holdingsTolerance}
+              disabled={!checkHoldings}
+              onChange={(e) => setHoldingsTolerance(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+          <div className="sm:col-span-2">
+            <Label htmlFor="holidays">Exchange holidays (YYYY-MM-DD, comma or newline separated)</Label>
+            <Textarea id="holidays" rows={2} value={holidays} onChange={(e) => setHolidays(e.target.value)} placeholder="2025-01-26, 2025-03-14" />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="check-holdings" checked={checkHoldings} onCheckedChange={setCheckHoldings} />
+            <Label htmlFor="check-holdings">Check value against holdings</Label>
+          </div>
+        </div>
+
+        <Button onClick={handleScan} disabled={!portfolio || isBusy}>
+          {isScanning ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+          {result ? "Rescan" : "Scan"}
+        </Button>
+
+        {result && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge
+                variant={typeFilter === "all" ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setTypeFilter("all")}
+              >
+                All ({result.findings.length})
+              </Badge>
+              {(Object.keys(ISSUE_TYPE_LABELS) as ChartDataIssueType[]).map((type) => (
+                <Badge
+                  key={type}
+                  variant={typeFilter === type ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => setTypeFilter(type)}
+                >
+                  {ISSUE_TYPE_LABELS[type]} ({counts[type] || 0})
+                </Badge>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={handleWriteFindings} disabled={isBusy}>
+                <AlertTriangle className="mr-2 h-4 w-4" />
+                Write Findings
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleInterpolate}
+                disabled={isBusy || countSelected((f) => f.type === "missing_trading_day") === 0}
+              >
+                <Wand2 className="mr-2 h-4 w-4" />
+                Interpolate ({countSelected((f) => f.type === "missing_trading_day")})
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleDeleteDuplicates}
+                disabled={isBusy || countSelected((f) => f.type === "duplicate_date") === 0}
+              >
+                <Trash className="mr-2 h-4 w-4" />
+                Delete Duplicates ({countSelected((f) => f.type === "duplicate_date")})
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleMarkVerified}
+                disabled={isBusy || countSelected((f) => f.type !== "duplicate_date" && f.pointIds.length > 0) === 0}
+              >
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Mark Verified ({countSelected((f) => f.type !== "duplicate_date" && f.pointIds.length > 0)})
+              </Button>
+              {runningAction && (
+                <span className="flex items-center text-sm text-muted-foreground">
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  {runningAction}...
+                </span>
+              )}
+            </div>
+
+            {lastAction && (
+              <div className="rounded-md border p-3 text-sm">
+                <div className="font-medium">
+                  {lastAction.action}: {lastAction.succeeded} succeeded, {lastAction.failed.length} failed
+                </div>
+                {lastAction.failed.length > 0 && (
+                  <ul className="mt-1 list-disc pl-5 text-destructive">
+                    {lastAction.failed.map((message) => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {result.findings.length === 0 ? (
+              <div className="flex items-center gap-2 rounded-md bg-muted/20 p-4 text-sm text-muted-foreground">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                No issues found in {points.length} entries.
+              </div>
+            ) : (
+              <div className="rounded-md border max-h-[360px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox checked={allVisibleSelected} onCheckedChange={(checked) => toggleAllVisible(checked === true)} />
+                      </TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Issue</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead className="text-right">Entries</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleFindings.map(({ finding, index }) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Checkbox checked={selected.has(index)} onCheckedChange={(checked) => toggleFinding(index, checked === true)} />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{finding.date}</TableCell>
+                        <TableCell>
+                          <Badge variant={finding.severity === "error" ? "destructive" : "secondary"}>
+                            {ISSUE_TYPE_LABELS[finding.type]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">{finding.message}</TableCell>
+                        <TableCell className="text-right">
+                          {finding.pointIds.length || "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,289 @@
+// components/corporate-action-dialog.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle, RefreshCw, XCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  fetchCorporateActionAudit,
+  type CorporateAction,
+  type CorporateActionAudit,
+  type CorporateActionAuditItem,
+} from "@/lib/api-corporate-actions";
+import {
+  CORPORATE_ACTION_TARGET_LABELS,
+  applyCorporateAction,
+  describeCorporateAction,
+  loadCorporateActionContext,
+  planCorporateAction,
+  planReapplication,
+  recordCorporateActionApplication,
+  type CorporateActionAdjustment,
+} from "@/lib/corporate-actions";
+
+interface CorporateActionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: CorporateAction | null;
+  onApplied: (action: CorporateAction) => void;
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString("en-IN");
+
+export function CorporateActionDialog({ open, onOpenChange, action, onApplied }: CorporateActionDialogProps) {
+  const [adjustments, setAdjustments] = useState<CorporateActionAdjustment[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [audit, setAudit] = useState<CorporateActionAudit[]>([]);
+  const [auditUnavailable, setAuditUnavailable] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [results, setResults] = useState<Map<string, CorporateActionAuditItem>>(new Map());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open || !action) return;
+    let cancelled = false;
+    setAdjustments([]);
+    setSelected(new Set());
+    setResults(new Map());
+    setAuditUnavailable(false);
+    setIsLoading(true);
+
+    (async () => {
+      try {
+        const [context, history] = await Promise.all([
+          loadCorporateActionContext(action),
+          fetchCorporateActionAudit(action._id).catch(() => null),
+        ]);
+        if (cancelled) return;
+        const plan = planCorporateAction(action, context);
+        if (action.appliedAt) {
+          // The current data already carries every saved adjustment, so only
+          // failed ones are offered again; without the audit trail nothing is preselected
+          const { adjustments: remaining, retry } = planReapplication(plan, history || []);
+          setAdjustments(remaining);
+          setSelected(history ? retry : new Set());
+        } else {
+          setAdjustments(plan);
+          setSelected(new Set(plan.filter((item) => item.write && !item.skipReason).map((item) => item.key)));
+        }
+        setAudit(history || []);
+        setAuditUnavailable(!history);
+      } catch (error) {
+        if (!cancelled) {
+          toast({
+            title: "Could not prepare adjustments",
+            description: error instanceof Error ? error.message : "Failed to load holdings and tips",
+            variant: "destructive",
+          });
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, action, toast]);
+
+  const applicable = useMemo(() => adjustments.filter((item) => item.write && !item.skipReason), [adjustments]);
+  const chosen = applicable.filter((item) => selected.has(item.key));
+  const resultKey = (item: Pick<CorporateActionAdjustment, "target" | "targetId">) => `${item.target}-${item.targetId}`;
+  const failedCount = Array.from(results.values()).filter((result) => result.status === "failed").length;
+
+  const toggle = (key: string, checked: boolean) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+
+  const handleApply = async () => {
+    if (!action) return;
+    setIsApplying(true);
+    setResults(new Map());
+    try {
+      const items = await applyCorporateAction(action, chosen, (item) =>
+        setResults((current) => new Map(current).set(resultKey(item), item))
+      );
+      const failed = items.filter((item) => item.status === "failed").length;
+      toast({
+        title: failed ? "Adjustments partially applied" : "Adjustments applied",
+        description: `${items.length - failed} saved, ${failed} failed`,
+        variant: failed ? "destructive" : "default",
+      });
+      // The adjustments are already saved, so a missing audit entry only warns
+      try {
+        const updated = await recordCorporateActionApplication(action, items);
+        onApplied(updated);
+        setAudit(await fetchCorporateActionAudit(action._id).catch(() => audit));
+      } catch (error) {
+        console.error("Failed to record corporate action audit:", error);
+        toast({
+          title: "Audit entry not recorded",
+          description: "The adjustments were saved but the audit trail could not be updated.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (!action) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isApplying && onOpenChange(value)}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {action.symbol} {describeCorporateAction(action)}
+          </DialogTitle>
+          <DialogDescription>
+            Ex-date {action.exDate}. Review the adjustments to holdings, active tips, price history and chart data before
+            applying them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {action.appliedAt && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Already applied</AlertTitle>
+            <AlertDescription>
+              Applied by {action.appliedBy || "unknown"} on {formatDateTime(action.appliedAt)}. Adjustments saved then are
+              left out, and only the ones that failed are selected.
+              {auditUnavailable &&
+                " The audit trail could not be loaded, so nothing is selected: applying an adjustment again changes that record a second time."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            Loading holdings, tips and price history...
+          </div>
+        ) : adjustments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {action.appliedAt
+              ? "Every adjustment was saved when the action was applied."
+              : `No portfolio, active tip or price history references ${action.symbol}.`}
+          </p>
+        ) : (
+          <div className="rounded-md border max-h-[360px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Target</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {adjustments.map((item) => {
+                  const result = results.get(resultKey(item));
+                  return (
+                    <TableRow key={item.key}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(item.key)}
+                          disabled={!item.write || !!item.skipReason || isApplying}
+                          onCheckedChange={(checked) => toggle(item.key, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{CORPORATE_ACTION_TARGET_LABELS[item.target]}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate">{item.label}</TableCell>
+                      <TableCell className="text-xs">{item.change}</TableCell>
+                      <TableCell className="text-xs">
+                        {result ? (
+                          result.status === "success" && result.warning ? (
+                            <span className="flex items-center gap-1 text-amber-600">
+                              <AlertTriangle className="h-3 w-3" /> {result.warning}
+                            </span>
+                          ) : result.status === "success" ? (
+                            <span className="flex items-center gap-1 text-green-600">
+                              <CheckCircle className="h-3 w-3" /> Saved
+                            </span>
+                          ) : (
+                            <span className="flex items-center gap-1 text-destructive">
+                              <XCircle className="h-3 w-3" /> {result.error}
+                            </span>
+                          )
+                        ) : (
+                          <span className="text-muted-foreground">{item.skipReason || "Pending"}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {isApplying && (
+          <div className="space-y-1">
+            <Progress value={chosen.length ? (results.size / chosen.length) * 100 : 100} />
+            <p className="text-xs text-muted-foreground">
+              {results.size} of {chosen.length} adjustments saved
+            </p>
+          </div>
+        )}
+
+        {audit.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Audit trail</h4>
+            <ul className="space-y-1 text-sm">
+              {audit.map((entry) => {
+                const failed = entry.items.filter((item) => item.status === "failed");
+                return (
+                  <li key={entry._id || entry.appliedAt} className="rounded-md border p-2">
+                    <div>
+                      {formatDateTime(entry.appliedAt)} by {entry.appliedBy}: {entry.items.length - failed.length} saved,{" "}
+                      {failed.length} failed
+                    </div>
+                    {failed.length > 0 && (
+                      <ul className="mt-1 list-disc pl-5 text-xs text-destructive">
+                        {failed.map((item) => (
+                          <li key={`${item.target}-${item.targetId}`}>
+                            {CORPORATE_ACTION_TARGET_LABELS[item.target]} {item.label}: {item.error}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {failedCount > 0 && !isApplying && (
+            <p className="text-sm text-destructive self-center mr-auto">{failedCount} adjustment(s) failed</p>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isApplying}>
+            Close
+          </Button>
+          <Button onClick={handleApply} disabled={isLoading || isApplying || chosen.length === 0}>
+            {isApplying && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+            Apply {chosen.length} Adjustment{chosen.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,7 @@ import type React from "react"
 import { useState, createContext, useContext, useEffect } from "react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { BarChart, FileText, Home, Menu, Settings, Users, X, Lightbulb, Briefcase, CreditCard, Package, ChevronLeft, Bot, TrendingUp, Mail, Ticket } from "lucide-react"
+import { BarChart, FileText, Home, Menu, Settings, Users, X, Lightbulb, Briefcase, CreditCard, Package, ChevronLeft, Bot, TrendingUp, Mail, Ticket, Scissors } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
@@ -60,6 +60,11 @@ const sidebarItems: SidebarItem[] = [
     href: "/dashboard/price-history",
     icon: TrendingUp,
   },
+  {
+    title: "Corporate Actions",
+    href: "/dashboard/corporate-actions",
+    icon: Scissors,
+  },
   {
     title: "Subscriptions",
     href: "/dashboard/subscriptions",
@@ -1,6 +1,7 @@
 "use client";
 
 import { cn } from '@/lib/utils';
+import { sanitizeHtml } from '@/lib/tip-rendering';
 
 interface HtmlContentProps {
   content: string;
@@ -8,18 +9,7 @@ interface HtmlContentProps {
 }
 
 export function HtmlContent({ content, className }: HtmlContentProps) {
-  // Simple sanitization - in production, consider using a library like DOMPurify
-  const sanitizeHtml = (html: string) => {
-    // Remove script tags and other potentially dangerous elements
-    return html
-      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-      .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '')
-      .replace(/<object\b[^<]*(?:(?!<\/object>)<[^<]*)*<\/object>/gi, '')
-      .replace(/<embed\b[^<]*(?:(?!<\/embed>)<[^<]*)*<\/embed>/gi, '')
-      .replace(/on\w+="[^"]*"/g, '') // Remove event handlers
-      .replace(/javascript:/g, ''); // Remove javascript: URLs
-  };
-
+  // Same sanitiser the tip email and Telegram message use
   const sanitizedContent = sanitizeHtml(content);
 
   return (
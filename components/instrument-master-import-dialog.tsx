@@ -0,0 +1,411 @@
+// components/instrument-master-import-dialog.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Download, FileSpreadsheet, RefreshCw, Upload } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { fetchPortfolios, type Portfolio } from "@/lib/api";
+import { fetchAllStockSymbols, type StockSymbol } from "@/lib/api-stock-symbols";
+import { fetchAllTips, type Tip } from "@/lib/api-tips";
+import { downloadData } from "@/lib/download-utils";
+import {
+  MASTER_FIELD_LABELS,
+  REFERENCE_PROBLEM_LABELS,
+  applyMasterImportPlan,
+  buildMasterImportPlan,
+  commitMasterImportPlan,
+  findBrokenSymbolReferences,
+  parseInstrumentMasterFile,
+  type MasterAction,
+  type MasterExchange,
+  type MasterImportOptions,
+  type MasterImportProgress,
+  type MasterImportResult,
+  type ParsedInstrumentMaster,
+} from "@/lib/instrument-master";
+
+interface InstrumentMasterImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const ACTION_LABELS: Record<MasterAction, string> = {
+  insert: "Add",
+  update: "Update",
+  rename: "Rename",
+  delist: "Delist",
+  skip: "Skip",
+  invalid: "Invalid",
+};
+
+const ACTION_VARIANTS: Record<MasterAction, "default" | "secondary" | "outline" | "destructive"> = {
+  insert: "default",
+  update: "secondary",
+  rename: "secondary",
+  delist: "destructive",
+  skip: "outline",
+  invalid: "destructive",
+};
+
+const PREVIEW_LIMIT = 200;
+
+export function InstrumentMasterImportDialog({ open, onOpenChange, onImported }: InstrumentMasterImportDialogProps) {
+  const [fileName, setFileName] = useState("");
+  const [parsed, setParsed] = useState<ParsedInstrumentMaster | null>(null);
+  const [exchange, setExchange] = useState<MasterExchange>("NSE");
+  const [existingSymbols, setExistingSymbols] = useState<StockSymbol[]>([]);
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [tips, setTips] = useState<Tip[]>([]);
+  const [options, setOptions] = useState<MasterImportOptions>({
+    addNewSymbols: false,
+    markMissingAsDelisted: false,
+  });
+  const [actionFilter, setActionFilter] = useState<MasterAction | "all">("all");
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<MasterImportProgress | null>(null);
+  const [results, setResults] = useState<MasterImportResult[] | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setFileName("");
+      setParsed(null);
+      setExistingSymbols([]);
+      setActionFilter("all");
+      setProgress(null);
+      setResults(null);
+    }
+  }, [open]);
+
+  const plan = useMemo(
+    () => (parsed ? buildMasterImportPlan(parsed.rows, exchange, existingSymbols, options) : []),
+    [parsed, exchange, existingSymbols, options]
+  );
+
+  const counts = useMemo(
+    () =>
+      plan.reduce(
+        (acc, item) => ({ ...acc, [item.action]: acc[item.action] + 1 }),
+        { insert: 0, update: 0, rename: 0, delist: 0, skip: 0, invalid: 0 } as Record<MasterAction, number>
+      ),
+    [plan]
+  );
+
+  // Checked against the symbol list as it will be after the import, so renames and delistings show up beforehand
+  const referenceIssues = useMemo(
+    () =>
+      parsed
+        ? findBrokenSymbolReferences(applyMasterImportPlan(existingSymbols, plan, exchange), portfolios, tips)
+        : [],
+    [parsed, existingSymbols, plan, exchange, portfolios, tips]
+  );
+
+  const visiblePlan = plan.filter((item) => actionFilter === "all" || item.action === actionFilter);
+  const failedResults = results?.filter((result) => result.status === "failed") || [];
+
+  const loadReferences = async () => {
+    // Holdings and tips only feed the reference check; the import works without them
+    const [portfolioList, tipList] = await Promise.allSettled([fetchPortfolios(), fetchAllTips()]);
+    setPortfolios(portfolioList.status === "fulfilled" ? portfolioList.value : []);
+    setTips(tipList.status === "fulfilled" ? tipList.value : []);
+    if (portfolioList.status === "rejected" || tipList.status === "rejected") {
+      toast({
+        title: "Reference check incomplete",
+        description: "Could not load every portfolio and tip, so some broken references may not be listed.",
+      });
+    }
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    setIsParsing(true);
+    setFileName(file.name);
+    setParsed(null);
+    setResults(null);
+    setProgress(null);
+    try {
+      const [parsedFile, existing] = await Promise.all([
+        parseInstrumentMasterFile(file),
+        fetchAllStockSymbols(),
+        loadReferences(),
+      ]);
+      setParsed(parsedFile);
+      setExchange(parsedFile.exchange);
+      setExistingSymbols(existing);
+    } catch (error) {
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "Failed to parse the selected file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const importResults = await commitMasterImportPlan(plan, exchange, setProgress);
+      setResults(importResults);
+      const failed = importResults.filter((result) => result.status === "failed").length;
+      toast({
+        title: failed ? "Import partially completed" : "Import completed",
+        description: `${importResults.length - failed} symbols saved, ${failed} failed`,
+        variant: failed ? "destructive" : "default",
+      });
+      onImported();
+      // Refresh the comparison so a second run only retries what is still pending
+      setExistingSymbols(await fetchAllStockSymbols());
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to import the instrument master",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    const rows = [
+      ...plan
+        .filter((item) => item.action === "invalid")
+        .map((item) => ({ row: item.row?.rowNumber ?? "", symbol: item.symbol, action: "invalid", error: item.reason || "" })),
+      ...failedResults.map((result) => ({ row: "", symbol: result.symbol, action: result.action, error: result.error || "" })),
+    ];
+    downloadData(rows, { filename: `instrument-master-errors-${new Date().toISOString().split("T")[0]}` });
+  };
+
+  const handleDownloadReferences = () => {
+    downloadData(
+      referenceIssues.map((issue) => ({
+        type: issue.source,
+        name: issue.sourceName,
+        symbol: issue.symbol,
+        problem: REFERENCE_PROBLEM_LABELS[issue.problem],
+        replacement: issue.replacement || "",
+      })),
+      { filename: `broken-symbol-references-${new Date().toISOString().split("T")[0]}` }
+    );
+  };
+
+  const pendingWrites = counts.insert + counts.update + counts.rename + counts.delist;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isImporting && onOpenChange(value)}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Instrument Master</DialogTitle>
+          <DialogDescription>
+            Upload NSE&apos;s EQUITY_L.csv or BSE&apos;s scrip list to update ISIN, series, lot size and sector, pick up
+            renamed tickers and find delisted symbols.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="master-file">File</Label>
+            <Input
+              id="master-file"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              disabled={isParsing || isImporting}
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+          </div>
+          <div>
+            <Label>Exchange</Label>
+            <Select value={exchange} onValueChange={(value: MasterExchange) => setExchange(value)} disabled={isImporting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="NSE">NSE</SelectItem>
+                <SelectItem value="BSE">BSE</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="add-new-symbols"
+              checked={options.addNewSymbols}
+              onCheckedChange={(checked) => setOptions({ ...options, addNewSymbols: checked })}
+            />
+            <Label htmlFor="add-new-symbols">Add symbols that are not in the list yet</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="mark-missing-delisted"
+              checked={options.markMissingAsDelisted}
+              onCheckedChange={(checked) => setOptions({ ...options, markMissingAsDelisted: checked })}
+            />
+            <Label htmlFor="mark-missing-delisted">Delist {exchange} symbols missing from the file (full master only)</Label>
+          </div>
+        </div>
+
+        {isParsing && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            Reading {fileName}...
+          </div>
+        )}
+
+        {parsed && parsed.missingColumns.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTitle>Missing columns</AlertTitle>
+            <AlertDescription>
+              {fileName} has no {parsed.missingColumns.map((field) => MASTER_FIELD_LABELS[field]).join(", ")} column.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {parsed && parsed.missingColumns.length === 0 && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              {fileName}: {parsed.rows.length} instruments, {existingSymbols.filter((stock) => stock.exchange?.toUpperCase() === exchange).length}{" "}
+              existing {exchange} symbols.
+              {!parsed.columns.sector && " No sector column found, sectors are left as they are."}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge
+                variant={actionFilter === "all" ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setActionFilter("all")}
+              >
+                All ({plan.length})
+              </Badge>
+              {(Object.keys(ACTION_LABELS) as MasterAction[]).map((action) => (
+                <Badge
+                  key={action}
+                  variant={actionFilter === action ? ACTION_VARIANTS[action] : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => setActionFilter(action)}
+                >
+                  {ACTION_LABELS[action]} ({counts[action]})
+                </Badge>
+              ))}
+            </div>
+
+            <div className="rounded-md border max-h-[320px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>ISIN</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visiblePlan.slice(0, PREVIEW_LIMIT).map((item) => (
+                    <TableRow key={item.key}>
+                      <TableCell>{item.row?.rowNumber ?? "—"}</TableCell>
+                      <TableCell className="font-mono">{item.symbol || "—"}</TableCell>
+                      <TableCell className="max-w-[200px] truncate">{item.row?.name || item.existing?.name}</TableCell>
+                      <TableCell className="font-mono text-xs">{item.row?.isin || item.existing?.isin || "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={ACTION_VARIANTS[item.action]}>{ACTION_LABELS[item.action]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {item.changes.length > 0 ? item.changes.join("; ") : item.reason}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {visiblePlan.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {PREVIEW_LIMIT} of {visiblePlan.length} rows.
+              </p>
+            )}
+
+            {referenceIssues.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>
+                  {referenceIssues.length} holding{referenceIssues.length === 1 ? "" : "s"} or active tip
+                  {referenceIssues.length === 1 ? "" : "s"} will not resolve to a listed symbol
+                </AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-1 list-disc pl-5 max-h-[160px] overflow-y-auto">
+                    {referenceIssues.map((issue) => (
+                      <li key={`${issue.source}-${issue.sourceId}-${issue.symbol}`}>
+                        {issue.source === "holding" ? "Holding in" : "Tip"} {issue.sourceName}: {issue.symbol} —{" "}
+                        {REFERENCE_PROBLEM_LABELS[issue.problem]}
+                        {issue.replacement ? `, now ${issue.replacement}` : ""}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={progress.total ? (progress.completed / progress.total) * 100 : 100} />
+                <p className="text-xs text-muted-foreground">
+                  {progress.completed} of {progress.total} symbols written
+                </p>
+              </div>
+            )}
+
+            {results && (
+              <div className="rounded-md border p-3 text-sm">
+                <div className="font-medium">
+                  {results.length - failedResults.length} symbols saved, {failedResults.length} failed
+                </div>
+                {failedResults.length > 0 && (
+                  <ul className="mt-1 list-disc pl-5 text-destructive max-h-[120px] overflow-y-auto">
+                    {failedResults.map((result) => (
+                      <li key={result.key}>
+                        {result.symbol} ({ACTION_LABELS[result.action]}): {result.error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {referenceIssues.length > 0 && (
+            <Button variant="outline" onClick={handleDownloadReferences} disabled={isImporting}>
+              <Download className="mr-2 h-4 w-4" />
+              Broken References
+            </Button>
+          )}
+          {(counts.invalid > 0 || failedResults.length > 0) && (
+            <Button variant="outline" onClick={handleDownloadErrors} disabled={isImporting}>
+              <Download className="mr-2 h-4 w-4" />
+              Error Report
+            </Button>
+          )}
+          <Button onClick={handleImport} disabled={!parsed || pendingWrites === 0 || isImporting || isParsing}>
+            {isImporting ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import {pendingWrites} Change{pendingWrites === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -35,12 +35,14 @@ import {
   Building,
   Activity,
   Banknote,
-
+  History,
 } from "lucide-react";
 import { useState, useEffect } from "react";
+import { calculateHoldingTotals, calculateSectorBreakdown, getActiveHoldings, getSoldHoldings } from "@/lib/portfolio-math";
 import { useToast } from "@/hooks/use-toast";
 
 import { HtmlContent } from "@/components/html-content";
+import { PortfolioLedgerPanel } from "@/components/portfolio-ledger-panel";
 
 // Portfolio interface
 interface Portfolio {
@@ -224,36 +226,21 @@ export function PortfolioDetailsDialog({
     return desc?.value || "";
   };
 
-  // Helper function to check if a holding is sold
-  const isSoldHolding = (holding: any) => {
-    return holding.status && holding.status.match(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/);
-  };
-
   // Separate active and sold holdings
-  const activeHoldings = portfolio.holdings?.filter(holding => !isSoldHolding(holding)) || [];
-  const soldHoldings = portfolio.holdings?.filter(holding => isSoldHolding(holding)) || [];
+  const activeHoldings = getActiveHoldings(portfolio.holdings);
+  const soldHoldings = getSoldHoldings(portfolio.holdings);
   
   // Add sold array from portfolio if it exists
   const allSoldHoldings = [...soldHoldings, ...(portfolio.sold || [])];
 
   // Calculate metrics only for active holdings
-  const totalWeight = activeHoldings.reduce((sum, holding) => sum + holding.weight, 0);
-  const totalHoldingsValue = activeHoldings.reduce((sum, holding) => sum + holding.minimumInvestmentValueStock, 0);
+  const { totalWeight, totalInvestment: totalHoldingsValue } = calculateHoldingTotals(portfolio.holdings || []);
   
   const weightUtilization = (totalWeight / 100) * 100;
   const cashUtilization = portfolio.cashBalance ? (portfolio.cashBalance / portfolio.minInvestment) * 100 : 0;
 
   // Group active holdings by sector
-  const sectorBreakdown = activeHoldings.reduce((acc, holding) => {
-    const sector = holding.sector || "Other";
-    if (!acc[sector]) {
-      acc[sector] = { weight: 0, value: 0, count: 0 };
-    }
-    acc[sector].weight += holding.weight;
-    acc[sector].value += holding.minimumInvestmentValueStock;
-    acc[sector].count += 1;
-    return acc;
-  }, {} as Record<string, {weight: number; value: number; count: number}>) || {};
+  const sectorBreakdown = calculateSectorBreakdown(portfolio.holdings || []);
 
 
 
@@ -309,7 +296,7 @@ export function PortfolioDetailsDialog({
         {/* Compact Tabs */}
         <div className="flex-1 overflow-hidden px-4">
           <Tabs defaultValue="overview" className="h-full flex flex-col">
-            <TabsList className="grid w-full grid-cols-5 my-3 h-8">
+            <TabsList className="grid w-full grid-cols-6 my-3 h-8">
               <TabsTrigger value="overview" className="gap-1 text-xs py-1">
                 <Info className="h-3 w-3" />
                 Overview
@@ -322,6 +309,10 @@ export function PortfolioDetailsDialog({
                 <PieChart className="h-3 w-3" />
                 Holdings
               </TabsTrigger>
+              <TabsTrigger value="ledger" className="gap-1 text-xs py-1">
+                <History className="h-3 w-3" />
+                Ledger
+              </TabsTrigger>
               <TabsTrigger value="performance" className="gap-1 text-xs py-1">
                 <BarChart3 className="h-3 w-3" />
                 Performance
@@ -769,6 +760,21 @@ export function PortfolioDetailsDialog({
                 </Card>
               </TabsContent>
 
+              {/* Ledger Tab */}
+              <TabsContent value="ledger" className="space-y-4 mt-0">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <History className="h-4 w-4" />
+                      Transaction Ledger
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <PortfolioLedgerPanel portfolioId={portfolio._id || portfolio.id || ""} source={portfolio} />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
               {/* Performance Tab */}
               <TabsContent value="performance" className="space-y-4 mt-0">
                 <Card>
@@ -23,6 +23,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { RichTextEditor } from "@/components/rich-text-editor";
 import type {
@@ -42,12 +43,30 @@ interface ExtendedSubscriptionFee extends SubscriptionFee {
   discountPercentage: number;
 }
 import { StockSearch } from "@/components/stock-search";
+import { PortfolioRebalancePanel } from "@/components/portfolio-rebalance-panel";
+import { PortfolioSandboxPanel } from "@/components/portfolio-sandbox-panel";
+import {
+  calculateAdjustedMinInvestment as adjustMinInvestment,
+  calculateCashBalance,
+  calculateHoldingTotals,
+  calculateInvestmentDetails,
+  calculatePnL,
+  calculateSellProportion,
+  calculateWeight,
+  getActiveHoldings,
+  getSoldHoldings,
+  getWeightageCalculationBase as getWeightageBase,
+  type PnLCalculation,
+} from "@/lib/portfolio-math";
+import { recordHoldingsChange, type HoldingsDiffOptions } from "@/lib/portfolio-ledger";
+import { projectSandbox, stageHoldingTrade } from "@/lib/portfolio-sandbox";
 import { 
   fetchStockSymbolBySymbol, 
+  subscribeToRealtimeUpdates,
   updateStockPrices, 
   type StockSymbol 
 } from "@/lib/api-stock-symbols";
-import { updatePortfolioHoldings } from "@/lib/api";
+import { updatePortfolio, updatePortfolioHoldings } from "@/lib/api";
 import { getAdminAccessToken } from "@/lib/auth";
 import { 
   Plus, 
@@ -62,7 +81,8 @@ import {
   Target,
   Calculator,
   AlertTriangle,
-  CheckCircle2
+  CheckCircle2,
+  FlaskConical
 } from "lucide-react";
 import type React from "react";
 import { useEffect, useState } from "react";
@@ -87,16 +107,6 @@ interface ExtendedHolding extends PortfolioHolding {
   priceChangePercent?: number;
 }
 
-interface PnLCalculation {
-  quantitySold: number;
-  saleValue: number;
-  originalCost: number;
-  profitLoss: number;
-  profitLossPercent: number;
-  remainingQuantity: number;
-  remainingValue: number;
-}
-
 interface EditHoldingState {
   index: number;
   originalHolding: ExtendedHolding;
@@ -115,6 +125,20 @@ interface EditHoldingState {
   pnlPreview?: PnLCalculation; // NEW: P&L calculation for sell operations
 }
 
+// A holding with the market price and day change of its stock
+const withStockDetails = (holding: ExtendedHolding, stockDetails: StockSymbol): ExtendedHolding => ({
+  ...holding,
+  stockDetails,
+  currentMarketPrice: parseFloat(stockDetails.currentPrice),
+  priceChange: parseFloat(stockDetails.currentPrice) - parseFloat(stockDetails.previousPrice),
+  priceChangePercent: parseFloat(stockDetails.previousPrice) > 0 
+    ? ((parseFloat(stockDetails.currentPrice) - parseFloat(stockDetails.previousPrice)) / parseFloat(stockDetails.previousPrice)) * 100 
+    : 0,
+  // Preserve original buy price for P&L calculations
+  originalBuyPrice: holding.originalBuyPrice || holding.buyPrice,
+  totalQuantityOwned: holding.totalQuantityOwned || holding.quantity,
+});
+
 export function PortfolioFormDialog({
   open,
   onOpenChange,
@@ -156,6 +180,12 @@ export function PortfolioFormDialog({
   // Holdings State
   const [holdings, setHoldings] = useState<ExtendedHolding[]>([]);
   const [editingHolding, setEditingHolding] = useState<EditHoldingState | null>(null);
+  const [rebalancedPortfolio, setRebalancedPortfolio] = useState<Portfolio | null>(null);
+
+  // Sandbox State: holdings as saved when sandbox mode was switched on, or null when edits go live
+  const [sandboxBaseline, setSandboxBaseline] = useState<ExtendedHolding[] | null>(null);
+  const [sandboxPrices, setSandboxPrices] = useState<Record<string, number>>({});
+  const [isCommittingSandbox, setIsCommittingSandbox] = useState(false);
 
   // PDF Links State
   const [downloadLinks, setDownloadLinks] = useState<DownloadLink[]>([]);
@@ -178,39 +208,6 @@ export function PortfolioFormDialog({
     stockDetails: undefined as StockSymbol | undefined,
   });
 
-  // === NEW: P&L CALCULATION FUNCTIONS ===
-  
-  const calculatePnL = (
-    originalQuantity: number,
-    originalBuyPrice: number,
-    currentMarketPrice: number,
-    proportionToSell: number // 0 to 1 (e.g., 0.5 for 50%)
-  ): PnLCalculation => {
-    // Indian stock market - whole shares only
-    let quantitySold = 0;
-    if (proportionToSell >= 1) {
-      quantitySold = Math.floor(originalQuantity);
-    } else if (proportionToSell > 0) {
-      quantitySold = Math.floor(originalQuantity * proportionToSell);
-    }
-    const saleValue = quantitySold * currentMarketPrice;
-    const originalCost = quantitySold * originalBuyPrice;
-    const profitLoss = saleValue - originalCost;
-    const profitLossPercent = originalCost > 0 ? (profitLoss / originalCost) * 100 : 0;
-    const remainingQuantity = Math.floor(originalQuantity) - quantitySold;
-    const remainingValue = remainingQuantity * currentMarketPrice;
-
-    return {
-      quantitySold,
-      saleValue,
-      originalCost,
-      profitLoss,
-      profitLossPercent,
-      remainingQuantity,
-      remainingValue
-    };
-  };
-
   const formatCurrency = (value: number): string => {
     return new Intl.NumberFormat("en-IN", {
       style: "currency",
@@ -224,97 +221,46 @@ export function PortfolioFormDialog({
     return date instanceof Date && !isNaN(date.getTime());
   };
 
-  const calculateInvestmentDetails = (weightPercent: number, buyPrice: number, totalInvestment: number) => {
-    const allocatedAmount = (weightPercent / 100) * totalInvestment;
-    let quantity = Math.floor(allocatedAmount / buyPrice); // Always whole number
-    let actualInvestmentAmount = quantity * buyPrice;
-    let leftoverAmount = allocatedAmount - actualInvestmentAmount;
-
-    // Tolerance: if the gap to the next share is within 10% of the share price, buy 1 extra share
-    if (buyPrice > 0 && leftoverAmount >= 0) {
-      const gapToNextShare = buyPrice - leftoverAmount;
-      if (gapToNextShare <= buyPrice * 0.1) {
-        quantity = quantity + 1; // Still whole number
-        actualInvestmentAmount = quantity * buyPrice;
-        leftoverAmount = allocatedAmount - actualInvestmentAmount;
-      }
-    }
-    
-    return {
-      allocatedAmount,
-      quantity, // Always integer
-      actualInvestmentAmount,
-      leftoverAmount,
-    };
-  };
-
-  const totalWeightUsed = holdings.reduce((sum, holding) => {
-    return holding.status === 'Sell' ? sum : sum + holding.weight;
-  }, 0);
-  const totalActualInvestment = holdings.reduce((sum, holding) => {
-    return holding.status === 'Sell' ? sum : sum + holding.minimumInvestmentValueStock;
-  }, 0);
-  const totalLeftover = holdings.reduce((sum, holding) => {
-    return holding.status === 'Sell' ? sum : sum + holding.leftoverAmount;
-  }, 0);
-  const totalAllocated = holdings.reduce((sum, holding) => {
-    return holding.status === 'Sell' ? sum : sum + holding.allocatedAmount;
-  }, 0);
+  const {
+    totalWeight: totalWeightUsed,
+    totalInvestment: totalActualInvestment,
+    totalLeftover,
+    totalAllocated,
+    remainingWeight,
+  } = calculateHoldingTotals(holdings);
   const holdingsValue = initialData?.holdingsValue || 0;
   const cashBalance = initialData?.cashBalance || 0;
-  const remainingWeight = 100 - totalWeightUsed;
+
+  // Holding changes on a saved portfolio are PATCHed immediately unless sandbox mode is on
+  const isLiveEdit = !!initialData?.id && !sandboxBaseline;
+  const sandboxProjection =
+    initialData?.id && sandboxBaseline
+      ? projectSandbox(sandboxBaseline, holdings, {
+          portfolioId: initialData.id,
+          cashBalance,
+          minInvestment: Number(minInvestment || 0),
+          prices: sandboxPrices,
+        })
+      : null;
   
 
 
-  // Auto-adjust minimum investment based on total investment
-  const calculateAdjustedMinInvestment = () => {
-    if (totalActualInvestment > 0) {
-      // Add 10% buffer to ensure minimum investment covers all holdings
-      const adjustedMinInvestment = Math.ceil(totalActualInvestment * 1.1);
-      return adjustedMinInvestment;
-    }
-    return Number(minInvestment || 0);
-  };
-
   /**
    * Helper function to determine the correct base amount for weightage calculations
    * 
    * @returns {object} Object containing the base amount and context information
    */
-  const getWeightageCalculationBase = () => {
-    const minInvestmentAmount = Number(minInvestment || 0);
-    const hasInitialData = !!initialData;
-    const hasValidFinancialData = hasInitialData && 
-      typeof initialData.cashBalance === 'number' && 
-      typeof initialData.holdingsValue === 'number';
-    
-    // Use minimum investment if:
-    // 1. No initial data (new portfolio)
-    // 2. Initial data exists but no valid financial data
-    // 3. Holdings array is empty
-    const shouldUseMinInvestment = !hasInitialData || !hasValidFinancialData || holdings.length === 0;
-    
-    if (shouldUseMinInvestment) {
-      return {
-        baseAmount: minInvestmentAmount,
-        isFirstTimeCreation: true,
-        context: 'Using minimum investment as base',
-        description: `Using minimum investment (₹${minInvestmentAmount.toLocaleString()}) as weightage base`
-      };
-    }
-    
-    const safeCashBalance = isNaN(initialData.cashBalance || 0) ? 0 : (initialData.cashBalance || 0);
-    const safeHoldingsValue = isNaN(initialData.holdingsValue || 0) ? 0 : (initialData.holdingsValue || 0);
-    const currentPortfolioValue = safeCashBalance + safeHoldingsValue;
-    return {
-      baseAmount: currentPortfolioValue,
-      isFirstTimeCreation: false,
-      context: 'Using current portfolio value as base',
-      description: `Using current portfolio value (₹${currentPortfolioValue.toLocaleString()}) as weightage base`
-    };
-  };
+  const getWeightageCalculationBase = () =>
+    getWeightageBase({
+      minInvestment: Number(minInvestment || 0),
+      cashBalance: initialData?.cashBalance,
+      holdingsValue: initialData?.holdingsValue,
+      holdingsCount: holdings.length,
+      isExistingPortfolio: !!initialData,
+    });
 
-  const adjustedMinInvestment = calculateAdjustedMinInvestment();
+  // Auto-adjust minimum investment based on total investment
+  const adjustedMinInvestment = adjustMinInvestment(totalActualInvestment, Number(minInvestment || 0));
   const needsMinInvestmentAdjustment = adjustedMinInvestment > Number(minInvestment || 0);
 
 
@@ -377,18 +323,7 @@ export function PortfolioFormDialog({
             const stockDetails = await fetchStockSymbolBySymbol(holding.symbol);
             console.log(`Stock data for ${holding.symbol}:`, stockDetails);
             
-            const updatedHolding = {
-              ...holding,
-              stockDetails,
-              currentMarketPrice: parseFloat(stockDetails.currentPrice),
-              priceChange: parseFloat(stockDetails.currentPrice) - parseFloat(stockDetails.previousPrice),
-              priceChangePercent: parseFloat(stockDetails.previousPrice) > 0 
-                ? ((parseFloat(stockDetails.currentPrice) - parseFloat(stockDetails.previousPrice)) / parseFloat(stockDetails.previousPrice)) * 100 
-                : 0,
-              // Preserve original buy price for P&L calculations
-              originalBuyPrice: holding.originalBuyPrice || holding.buyPrice,
-              totalQuantityOwned: holding.totalQuantityOwned || holding.quantity,
-            };
+            const updatedHolding = withStockDetails(holding, stockDetails);
             
             console.log(`Updated holding for ${holding.symbol}:`, updatedHolding);
             return updatedHolding;
@@ -417,6 +352,18 @@ export function PortfolioFormDialog({
     });
   };
 
+  // Streamed prices keep the holdings' market prices current while the dialog is open
+  useEffect(() => {
+    if (!open) return;
+    return subscribeToRealtimeUpdates((updated) => {
+      const bySymbol = new Map(updated.map((stock) => [stock.symbol, stock]));
+      setHoldings((current) => current.map((holding) => {
+        const stockDetails = bySymbol.get(holding.symbol);
+        return stockDetails ? withStockDetails(holding, stockDetails) : holding;
+      }));
+    });
+  }, [open]);
+
   useEffect(() => {
     if (open) {
       if (initialData) {
@@ -542,8 +489,8 @@ export function PortfolioFormDialog({
         if (Array.isArray(initialData.holdings)) {
           console.log("Processing holdings from initialData:", initialData.holdings);
           
-          // Filter out sold stocks (those with Sold-Date- prefix)
-          const activeHoldings = initialData.holdings.filter(h => !h.symbol.startsWith('Sold-Date-'));
+          // Filter out sold stocks, as every portfolio total does
+          const activeHoldings = getActiveHoldings(initialData.holdings);
           
           const convertedHoldings: ExtendedHolding[] = activeHoldings.map(h => {
             // For old portfolios, recalculate allocation based on current logic
@@ -644,9 +591,120 @@ export function PortfolioFormDialog({
       }
       resetNewHolding();
       setEditingHolding(null);
+      setRebalancedPortfolio(null);
+      setSandboxBaseline(null);
+      setSandboxPrices({});
     }
   }, [open, initialData]);
 
+  // Replaces the holdings shown with a portfolio saved by a batch update
+  const applySavedPortfolio = (portfolio: Portfolio) => {
+    setRebalancedPortfolio(portfolio);
+    if (portfolio.holdings) {
+      const portfolioValue = (portfolio.cashBalance || 0) + (portfolio.holdingsValue || 0);
+      const convertedHoldings = getActiveHoldings(portfolio.holdings)
+        .map((h: any) => ({
+          ...h,
+          buyPrice: h.averagePrice || h.buyPrice,
+          allocatedAmount: (h.weight / 100) * portfolioValue,
+          leftoverAmount: 0,
+          originalWeight: h.weight,
+          status: h.status || 'Hold'
+        }));
+      setHoldings(convertedHoldings);
+    }
+    if (onDataChange) {
+      setTimeout(() => onDataChange(), 100);
+    }
+  };
+
+  const handleRebalanceApplied = (portfolio: Portfolio) => {
+    setlastRebalanceDate(portfolio.lastRebalanceDate?.split("T")[0] || "");
+    setnextRebalanceDate(portfolio.nextRebalanceDate?.split("T")[0] || "");
+    applySavedPortfolio(portfolio);
+  };
+
+  const toPortfolioHolding = (holding: ExtendedHolding): PortfolioHolding => ({
+    symbol: holding.symbol,
+    weight: holding.weight,
+    sector: holding.sector,
+    stockCapType: holding.stockCapType,
+    status: holding.status,
+    buyPrice: holding.buyPrice,
+    quantity: holding.quantity,
+    minimumInvestmentValueStock: holding.minimumInvestmentValueStock,
+    allocatedAmount: holding.allocatedAmount,
+    actualInvestmentAmount: holding.minimumInvestmentValueStock,
+    leftoverAmount: holding.leftoverAmount,
+    originalBuyPrice: holding.originalBuyPrice || holding.buyPrice,
+    totalQuantityOwned: holding.totalQuantityOwned || holding.quantity,
+    realizedPnL: holding.realizedPnL || 0,
+    ...(holding.soldDate ? { soldDate: holding.soldDate } : {}),
+  });
+
+  const handleSandboxToggle = (enabled: boolean) => {
+    if (enabled) {
+      setSandboxBaseline(holdings);
+      setSandboxPrices({});
+      setEditingHolding(null);
+      return;
+    }
+    if (sandboxProjection && sandboxProjection.trades.length > 0) {
+      toast({
+        title: "Staged changes pending",
+        description: "Commit or discard the staged changes before leaving sandbox mode.",
+        variant: "destructive",
+      });
+      return;
+    }
+    handleSandboxDiscard();
+  };
+
+  const handleSandboxDiscard = () => {
+    if (sandboxBaseline) setHoldings(sandboxBaseline);
+    setSandboxBaseline(null);
+    setSandboxPrices({});
+    setEditingHolding(null);
+  };
+
+  // Saves the whole staged batch in one portfolio update so a failure leaves the live portfolio untouched
+  const handleSandboxCommit = async () => {
+    const portfolio = rebalancedPortfolio || initialData;
+    if (!portfolio?.id || !sandboxBaseline || !sandboxProjection) return;
+    setIsCommittingSandbox(true);
+    try {
+      // The form only shows active holdings, so sold positions are carried over untouched
+      const soldHoldings = getSoldHoldings(portfolio.holdings);
+      const updated = await updatePortfolio(portfolio.id, {
+        holdings: [...soldHoldings, ...holdings.map(toPortfolioHolding)],
+        cashBalance: sandboxProjection.projected.cashBalance,
+      });
+      recordHoldingsChange(portfolio.id, sandboxBaseline, holdings, { prices: sandboxPrices, note: "Sandbox batch" }).catch((error) => {
+        console.error("Failed to record portfolio transactions:", error);
+        toast({
+          title: "Ledger not updated",
+          description: "The changes were saved but could not be added to the transaction ledger.",
+          variant: "destructive",
+        });
+      });
+      toast({
+        title: "Changes committed",
+        description: `${sandboxProjection.trades.length} staged trade${sandboxProjection.trades.length === 1 ? "" : "s"} saved to ${portfolio.name}.`,
+      });
+      setSandboxBaseline(null);
+      setSandboxPrices({});
+      applySavedPortfolio(updated);
+    } catch (error) {
+      toast({
+        title: "Failed to Commit Changes",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCommittingSandbox(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -723,6 +781,16 @@ export function PortfolioFormDialog({
       return;
     }
 
+    // Staged sandbox changes are only saved by committing them
+    if (sandboxProjection && sandboxProjection.trades.length > 0) {
+      toast({
+        title: "Validation Error",
+        description: "Commit or discard the staged holding changes before saving the portfolio",
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Validate total weight doesn't exceed 100%
     if (totalWeightUsed > 100) {
       toast({
@@ -763,29 +831,12 @@ export function PortfolioFormDialog({
       // For existing portfolios, we'll continue with the normal submission process
 
       // Convert ExtendedHolding back to PortfolioHolding for new portfolio submission
-      const portfolioHoldings: PortfolioHolding[] = holdings
-        .filter(holding => holding.status !== 'Sell')
-        .map(holding => ({
-          symbol: holding.symbol,
-          weight: holding.weight,
-          sector: holding.sector,
-          stockCapType: holding.stockCapType,
-          status: holding.status,
-          buyPrice: holding.buyPrice,
-          quantity: holding.quantity,
-          minimumInvestmentValueStock: holding.minimumInvestmentValueStock,
-          allocatedAmount: holding.allocatedAmount,
-          actualInvestmentAmount: holding.minimumInvestmentValueStock,
-          leftoverAmount: holding.leftoverAmount,
-          originalBuyPrice: holding.originalBuyPrice || holding.buyPrice,
-          totalQuantityOwned: holding.totalQuantityOwned || holding.quantity,
-          realizedPnL: holding.realizedPnL || 0,
-        }));
+      const portfolioHoldings: PortfolioHolding[] = getActiveHoldings(holdings).map(toPortfolioHolding);
 
 
 
       // Calculate portfolio values - only for new portfolios
-      const calculatedCashBalance = Number(minInvestment || 0) - totalActualInvestment;
+      const calculatedCashBalance = calculateCashBalance(Number(minInvestment || 0), holdings);
       const calculatedCurrentValue = Number(minInvestment || 0);
 
       // Create portfolio data matching backend structure
@@ -857,6 +908,20 @@ export function PortfolioFormDialog({
     });
   };
 
+  // Adds the trades behind a holdings change to the ledger. The trade is already
+  // saved at this point, so a failure only warns.
+  const recordLedgerChange = (after: ExtendedHolding[], options: HoldingsDiffOptions = {}) => {
+    if (!initialData?.id) return;
+    recordHoldingsChange(initialData.id, holdings, after, options).catch((error) => {
+      console.error("Failed to record portfolio transactions:", error);
+      toast({
+        title: "Ledger not updated",
+        description: "The trade was saved but could not be added to the transaction ledger.",
+        variant: "destructive",
+      });
+    });
+  };
+
   const addHolding = async () => {
     if (!newHolding.symbol.trim()) {
       toast({
@@ -927,7 +992,7 @@ export function PortfolioFormDialog({
     );
 
     // Recompute accurate weight based on integer quantity actual investment
-    const accurateWeight = Number(((investmentDetails.actualInvestmentAmount / portfolioBase) * 100).toFixed(2));
+    const accurateWeight = calculateWeight(investmentDetails.actualInvestmentAmount, portfolioBase);
 
     const holdingToAdd: ExtendedHolding = {
       symbol: newHolding.symbol,
@@ -948,8 +1013,8 @@ export function PortfolioFormDialog({
       totalQuantityOwned: investmentDetails.quantity,
     };
 
-    // For existing portfolios, use PATCH API to add holding
-    if (initialData && initialData.id) {
+    // For existing portfolios, use PATCH API to add holding unless the change is staged in the sandbox
+    if (isLiveEdit) {
       try {
         const adminToken = getAdminAccessToken();
         if (!adminToken) {
@@ -1009,6 +1074,7 @@ export function PortfolioFormDialog({
             status: h.status || 'Hold'
           }));
           console.log('Converted holdings:', convertedHoldings);
+          recordLedgerChange(convertedHoldings);
           setHoldings(convertedHoldings);
         } else {
           console.log('No portfolio.holdings in response, refreshing parent data');
@@ -1048,8 +1114,9 @@ export function PortfolioFormDialog({
         return;
       }
     } else {
-      // For new portfolios, add to local state
+      // For new portfolios and sandbox mode, add to local state
       setHoldings([...holdings, holdingToAdd]);
+      if (sandboxBaseline) setSandboxPrices({ ...sandboxPrices, [holdingToAdd.symbol]: holdingToAdd.buyPrice });
     }
 
     resetNewHolding();
@@ -1068,7 +1135,7 @@ export function PortfolioFormDialog({
     console.log('Removing holding:', removedHolding);
     
     // For existing portfolios, use API to delete holding
-    if (initialData && initialData.id) {
+    if (isLiveEdit) {
       try {
         const adminToken = getAdminAccessToken();
         if (!adminToken) {
@@ -1119,8 +1186,11 @@ export function PortfolioFormDialog({
             originalWeight: h.weight,
             status: h.status || 'Hold'
           }));
+          recordLedgerChange(convertedHoldings, { note: "Holding removed" });
           setHoldings(convertedHoldings);
         } else {
+          // The removal is saved either way, so the ledger still records it
+          recordLedgerChange(holdings.filter((_, i) => i !== index), { note: "Holding removed" });
           // Fallback: refresh parent data
           if (onDataChange) {
             onDataChange();
@@ -1147,7 +1217,7 @@ export function PortfolioFormDialog({
         });
       }
     } else {
-      // For new portfolios, remove from local state
+      // For new portfolios and sandbox mode, remove from local state
       console.log('Removing from local state');
       const updated = [...holdings];
       updated.splice(index, 1);
@@ -1268,8 +1338,7 @@ export function PortfolioFormDialog({
         proportionToSell = 1; // Sell everything
       } else if (updated.action === 'partial-sell' && updated.weightChange > 0) {
         // Calculate proportion based on weight change
-        const originalWeight = holding.originalWeight || holding.weight;
-        proportionToSell = updated.weightChange / originalWeight;
+        proportionToSell = calculateSellProportion(holding.originalWeight || holding.weight, updated.weightChange);
       }
 
       if (proportionToSell > 0) {
@@ -1329,7 +1398,7 @@ export function PortfolioFormDialog({
     const originalHolding = editingHolding.originalHolding;
     
     // For existing portfolios, use API for buy/sell operations only
-    if (initialData && initialData.id && (action === 'buy' || action === 'addon' || action === 'sell' || action === 'partial-sell') && status !== 'Hold') {
+    if (isLiveEdit && (action === 'buy' || action === 'addon' || action === 'sell' || action === 'partial-sell') && status !== 'Hold') {
       try {
         const adminToken = getAdminAccessToken();
         if (!adminToken) {
@@ -1423,6 +1492,10 @@ export function PortfolioFormDialog({
             originalWeight: h.weight,
             status: h.status || 'Hold'
           }));
+          recordLedgerChange(
+            convertedHoldings,
+            editingHolding.latestPrice ? { prices: { [originalHolding.symbol]: editingHolding.latestPrice } } : {}
+          );
           setHoldings(convertedHoldings);
         } else {
           // Refresh parent data if no holdings in response
@@ -1477,7 +1550,7 @@ export function PortfolioFormDialog({
     }
 
     // For local operations (non-sell actions or new portfolios) - save to backend
-    if (initialData && initialData.id) {
+    if (isLiveEdit) {
       try {
         const adminToken = getAdminAccessToken();
         if (!adminToken) {
@@ -1517,6 +1590,11 @@ export function PortfolioFormDialog({
           ...originalHolding,
           status: status
         };
+        // A status change to Sell/Sold closes the position, which the ledger records as a sale
+        recordLedgerChange(
+          updatedHoldings,
+          editingHolding.latestPrice ? { prices: { [originalHolding.symbol]: editingHolding.latestPrice } } : {}
+        );
         setHoldings(updatedHoldings);
         
         toast({
@@ -1538,11 +1616,11 @@ export function PortfolioFormDialog({
         });
       }
     } else {
-      // For new portfolios, update local state
+      // For new portfolios and sandbox mode, update local state
       const investmentPrice = editingHolding.latestPrice || originalHolding.buyPrice;
       const editBase = cashBalance + holdingsValue;
       const recomputed = calculateInvestmentDetails(newWeight, investmentPrice, editBase);
-      const accurateWeight = Number(((recomputed.actualInvestmentAmount / editBase) * 100).toFixed(2));
+      const accurateWeight = calculateWeight(recomputed.actualInvestmentAmount, editBase);
 
       const updatedHoldings = [...holdings];
       const updatedHolding: ExtendedHolding = {
@@ -1555,9 +1633,12 @@ export function PortfolioFormDialog({
         allocatedAmount: recomputed.allocatedAmount,
         leftoverAmount: Number(recomputed.leftoverAmount.toFixed(2)),
         currentMarketPrice: editingHolding.latestPrice,
+        // Staged trades keep the average cost and P&L the backend would book
+        ...(sandboxBaseline ? stageHoldingTrade(originalHolding, recomputed.quantity, investmentPrice) : {}),
       };
       updatedHoldings[index] = updatedHolding;
       setHoldings(updatedHoldings);
+      if (sandboxBaseline) setSandboxPrices({ ...sandboxPrices, [originalHolding.symbol]: investmentPrice });
 
       const actionText = action.charAt(0).toUpperCase() + action.slice(1).replace('-', ' ');
       toast({
@@ -2310,6 +2391,64 @@ export function PortfolioFormDialog({
                     </CardContent>
                   </Card>
 
+                  {initialData && (
+                    <Card className={sandboxBaseline ? "border-2 border-amber-300 dark:border-amber-700" : ""}>
+                      <CardHeader>
+                        <div className="flex items-center justify-between gap-4">
+                          <CardTitle className="flex items-center gap-2">
+                            <FlaskConical className="h-5 w-5" />
+                            Sandbox Mode
+                          </CardTitle>
+                          <div className="flex items-center gap-2">
+                            <Label htmlFor="sandbox-mode" className="text-sm">
+                              {sandboxBaseline ? "Staging changes" : "Off"}
+                            </Label>
+                            <Switch
+                              id="sandbox-mode"
+                              checked={!!sandboxBaseline}
+                              onCheckedChange={handleSandboxToggle}
+                              disabled={isSubmitting || isCommittingSandbox}
+                            />
+                          </div>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {sandboxBaseline
+                            ? "Holding changes below are staged locally. Review the projected impact, then commit them in one update or discard them."
+                            : "Turn on to stage holding changes instead of saving each one to the live portfolio immediately."}
+                        </p>
+                      </CardHeader>
+                      {sandboxProjection && (
+                        <CardContent>
+                          <PortfolioSandboxPanel
+                            portfolioName={initialData.name}
+                            projection={sandboxProjection}
+                            isCommitting={isCommittingSandbox}
+                            onCommit={handleSandboxCommit}
+                            onDiscard={handleSandboxDiscard}
+                          />
+                        </CardContent>
+                      )}
+                    </Card>
+                  )}
+
+                  {initialData && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Rebalance Portfolio</CardTitle>
+                        <p className="text-sm text-muted-foreground">
+                          Set target weights to generate the trade list at current prices. All trades are saved in one update and the next rebalance date is rolled forward.
+                        </p>
+                      </CardHeader>
+                      <CardContent>
+                        <PortfolioRebalancePanel
+                          portfolio={rebalancedPortfolio || initialData}
+                          disabled={isSubmitting || !!sandboxBaseline}
+                          onApplied={handleRebalanceApplied}
+                        />
+                      </CardContent>
+                    </Card>
+                  )}
+
                   <Card>
                     <CardHeader>
                       <CardTitle>Add New Holding</CardTitle>
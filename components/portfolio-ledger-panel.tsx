@@ -0,0 +1,236 @@
+// components/portfolio-ledger-panel.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Download, History, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { fetchPortfolioTransactions, type PortfolioTransaction } from "@/lib/api";
+import { downloadData } from "@/lib/download-utils";
+import {
+  LEDGER_TYPE_LABELS,
+  buildLedger,
+  reconstructHoldingsAsOf,
+  type LedgerSource,
+  type LedgerTransactionType,
+} from "@/lib/portfolio-ledger";
+
+interface PortfolioLedgerPanelProps {
+  portfolioId: string;
+  source: LedgerSource;
+}
+
+const TYPE_CLASSES: Record<LedgerTransactionType, string> = {
+  buy: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  "addon-buy": "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  "partial-sell": "bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300",
+  sell: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 2 }).format(value);
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-IN", { year: "numeric", month: "short", day: "numeric" });
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export function PortfolioLedgerPanel({ portfolioId, source }: PortfolioLedgerPanelProps) {
+  const [recorded, setRecorded] = useState<PortfolioTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [symbolFilter, setSymbolFilter] = useState("");
+  const [asOf, setAsOf] = useState(today);
+  const { toast } = useToast();
+
+  const loadTransactions = async () => {
+    setIsLoading(true);
+    try {
+      setRecorded(await fetchPortfolioTransactions(portfolioId));
+      setLoadError(null);
+    } catch (error) {
+      setRecorded([]);
+      setLoadError(error instanceof Error ? error.message : "Failed to load transactions");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (portfolioId) loadTransactions();
+  }, [portfolioId]);
+
+  const ledger = useMemo(() => buildLedger(portfolioId, recorded, source), [portfolioId, recorded, source]);
+  const derivedCount = ledger.filter((entry) => entry.derived).length;
+
+  const filtered = useMemo(() => {
+    const query = symbolFilter.trim().toUpperCase();
+    return query ? ledger.filter((entry) => entry.symbol.toUpperCase().includes(query)) : ledger;
+  }, [ledger, symbolFilter]);
+
+  const positions = useMemo(() => (asOf ? reconstructHoldingsAsOf(ledger, asOf) : []), [ledger, asOf]);
+
+  const handleExport = () => {
+    try {
+      downloadData(
+        filtered.map(({ id, portfolio, ...entry }) => entry),
+        {
+          filename: `portfolio-ledger-${portfolioId}-${today()}`,
+          customHeaders: {
+            symbol: "Symbol",
+            type: "Type",
+            date: "Date",
+            price: "Price",
+            quantity: "Quantity",
+            cashDelta: "Cash Delta",
+            resultingQuantity: "Resulting Quantity",
+            resultingWeight: "Resulting Weight",
+            realizedPnL: "Realized P&L",
+            note: "Note",
+            derived: "Derived",
+          },
+        }
+      );
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="ledger-symbol" className="text-xs">Stock</Label>
+          <Input
+            id="ledger-symbol"
+            placeholder="Filter by symbol..."
+            value={symbolFilter}
+            onChange={(e) => setSymbolFilter(e.target.value)}
+            className="h-8"
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={loadTransactions} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={filtered.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          Export CSV
+        </Button>
+      </div>
+
+      {(loadError || derivedCount > 0) && (
+        <div className="p-3 rounded-md border-l-4 border-yellow-400 bg-yellow-50 dark:bg-yellow-950/30 text-xs text-yellow-800 dark:text-yellow-300 flex gap-2">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <span>
+            {loadError && `Recorded transactions could not be loaded (${loadError}). `}
+            {derivedCount > 0 &&
+              `${derivedCount} entr${derivedCount === 1 ? "y is" : "ies are"} rebuilt from current holdings, so their dates and prices are approximate.`}
+          </span>
+        </div>
+      )}
+
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Stock</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Cash</TableHead>
+              <TableHead className="text-right">Weight After</TableHead>
+              <TableHead className="text-right">Realized P&L</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.map((entry) => (
+              <TableRow key={entry.id} className={entry.derived ? "opacity-75" : ""}>
+                <TableCell className="whitespace-nowrap">{formatDate(entry.date)}</TableCell>
+                <TableCell className="font-medium">
+                  {entry.symbol}
+                  {entry.derived && (
+                    <Badge variant="outline" className="ml-2" title={entry.note}>Derived</Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <span className={`rounded px-2 py-0.5 text-xs font-medium ${TYPE_CLASSES[entry.type]}`}>
+                    {LEDGER_TYPE_LABELS[entry.type]}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(entry.price)}</TableCell>
+                <TableCell className="text-right">{entry.quantity.toLocaleString()}</TableCell>
+                <TableCell className={`text-right ${entry.cashDelta < 0 ? "text-red-600" : "text-green-600"}`}>
+                  {formatCurrency(entry.cashDelta)}
+                </TableCell>
+                <TableCell className="text-right">{entry.resultingWeight.toFixed(2)}%</TableCell>
+                <TableCell className="text-right">
+                  {entry.realizedPnL !== undefined ? formatCurrency(entry.realizedPnL) : "—"}
+                </TableCell>
+              </TableRow>
+            ))}
+            {filtered.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-sm text-muted-foreground">
+                  {isLoading ? "Loading transactions..." : "No transactions found."}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-end justify-between gap-2">
+          <h4 className="font-medium text-sm flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Holdings as of {asOf ? formatDate(asOf) : "—"}
+          </h4>
+          <Input type="date" value={asOf} max={today()} onChange={(e) => setAsOf(e.target.value)} className="h-8 w-[160px]" />
+        </div>
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stock</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Avg Price</TableHead>
+                <TableHead className="text-right">Invested</TableHead>
+                <TableHead className="text-right">Realized P&L</TableHead>
+                <TableHead>First Bought</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {positions.map((position) => (
+                <TableRow key={position.symbol}>
+                  <TableCell className="font-medium">{position.symbol}</TableCell>
+                  <TableCell className="text-right">{position.quantity.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(position.averagePrice)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(position.investedValue)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(position.realizedPnL)}</TableCell>
+                  <TableCell className="whitespace-nowrap">{formatDate(position.firstBuyDate)}</TableCell>
+                </TableRow>
+              ))}
+              {positions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground">
+                    No positions held on this date.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+// components/portfolio-performance-chart.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Area, AreaChart, Brush, CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { AlertTriangle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { getChartPointDate, type ChartDataPoint } from "@/lib/api-chart-data";
+import { addMonths, computeDrawdownSeries, normaliseSeries } from "@/lib/portfolio-analytics";
+
+export type ChartRangePreset = "1M" | "6M" | "YTD" | "1Y" | "Max";
+
+const RANGE_PRESETS: ChartRangePreset[] = ["1M", "6M", "YTD", "1Y", "Max"];
+
+interface PortfolioPerformanceChartProps {
+  points: ChartDataPoint[];
+  benchmarkLabel?: string;
+  isLoading?: boolean;
+}
+
+interface ChartRow {
+  date: string;
+  portfolio: number;
+  benchmark: number | null;
+  drawdown: number;
+  cash: number;
+  portfolioValue: number;
+  compareIndexValue: number;
+  flagged: boolean;
+  issues: string[];
+}
+
+const performanceConfig = {
+  portfolio: { label: "Portfolio", color: "hsl(var(--chart-1))" },
+  benchmark: { label: "Benchmark", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const drawdownConfig = {
+  drawdown: { label: "Drawdown", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+const cashConfig = {
+  cash: { label: "Cash Remaining", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(value);
+
+const formatShortDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "2-digit" });
+
+const isFlagged = (point: ChartDataPoint) => point.dataVerified === false || (point.dataQualityIssues?.length ?? 0) > 0;
+
+/**
+ * First day included by a range preset, relative to the latest point.
+ */
+const getPresetStart = (preset: ChartRangePreset, latest: Date): Date | null => {
+  switch (preset) {
+    case "1M":
+      return addMonths(latest, -1);
+    case "6M":
+      return addMonths(latest, -6);
+    case "YTD":
+      return new Date(latest.getFullYear(), 0, 1);
+    case "1Y":
+      return addMonths(latest, -12);
+    default:
+      return null;
+  }
+};
+
+// Renders a marker only on points with unverified data or quality issues
+const FlaggedDot = (props: { cx?: number; cy?: number; payload?: ChartRow; index?: number }) => {
+  const { cx, cy, payload, index } = props;
+  if (!payload?.flagged || cx === undefined || cy === undefined) return <g key={`dot-${index}`} />;
+  return (
+    <circle
+      key={`dot-${index}`}
+      cx={cx}
+      cy={cy}
+      r={4}
+      fill="hsl(var(--destructive))"
+      stroke="hsl(var(--background))"
+      strokeWidth={1.5}
+    />
+  );
+};
+
+export function PortfolioPerformanceChart({ points, benchmarkLabel, isLoading = false }: PortfolioPerformanceChartProps) {
+  const [preset, setPreset] = useState<ChartRangePreset>("1Y");
+  const [brushRange, setBrushRange] = useState<{ startIndex: number; endIndex: number } | null>(null);
+
+  const series = useMemo(() => normaliseSeries(points), [points]);
+
+  // Rows are rebased to 100 at the start of the selected range so both lines start together
+  const rows = useMemo<ChartRow[]>(() => {
+    if (series.length === 0) return [];
+    const latest = new Date(getChartPointDate(series[series.length - 1]));
+    const presetStart = getPresetStart(preset, latest);
+    const visible = presetStart
+      ? series.filter((point) => new Date(getChartPointDate(point)) >= presetStart)
+      : series;
+    if (visible.length === 0) return [];
+
+    const basePortfolio = visible[0].portfolioValue;
+    const baseBenchmark = visible.find((point) => point.compareIndexValue > 0)?.compareIndexValue || 0;
+    const drawdowns = computeDrawdownSeries(visible);
+
+    return visible.map((point, i) => ({
+      date: getChartPointDate(point),
+      portfolio: (point.portfolioValue / basePortfolio) * 100,
+      benchmark: baseBenchmark && point.compareIndexValue > 0 ? (point.compareIndexValue / baseBenchmark) * 100 : null,
+      drawdown: drawdowns[i].drawdown,
+      cash: point.cashRemaining || 0,
+      portfolioValue: point.portfolioValue,
+      compareIndexValue: point.compareIndexValue,
+      flagged: isFlagged(point),
+      issues: point.dataQualityIssues || [],
+    }));
+  }, [series, preset]);
+
+  useEffect(() => {
+    setBrushRange(null);
+  }, [rows]);
+
+  const zoomedRows = brushRange ? rows.slice(brushRange.startIndex, brushRange.endIndex + 1) : rows;
+  const flaggedRows = zoomedRows.filter((row) => row.flagged);
+  const last = zoomedRows[zoomedRows.length - 1];
+  const first = zoomedRows[0];
+
+  if (isLoading) {
+    return <div className="h-[360px] flex items-center justify-center text-sm text-muted-foreground">Loading chart...</div>;
+  }
+
+  if (rows.length === 0) {
+    return (
+      <div className="h-[200px] flex items-center justify-center bg-muted/20 rounded-md text-sm text-muted-foreground">
+        No chart data for this portfolio{preset !== "Max" ? ` in the last ${preset}` : ""}.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {RANGE_PRESETS.map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={preset === value ? "default" : "outline"}
+              onClick={() => setPreset(value)}
+            >
+              {value}
+            </Button>
+          ))}
+        </div>
+        {first && last && (
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge variant="outline">
+              Portfolio {((last.portfolio / first.portfolio - 1) * 100).toFixed(2)}%
+            </Badge>
+            {first.benchmark && last.benchmark && (
+              <Badge variant="outline">
+                {benchmarkLabel || "Benchmark"} {((last.benchmark / first.benchmark - 1) * 100).toFixed(2)}%
+              </Badge>
+            )}
+            {flaggedRows.length > 0 && (
+              <Badge variant="destructive" className="gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {flaggedRows.length} flagged point{flaggedRows.length === 1 ? "" : "s"}
+              </Badge>
+            )}
+          </div>
+        )}
+      </div>
+
+      <ChartContainer config={performanceConfig} className="h-[320px] w-full aspect-auto">
+        <LineChart data={rows} syncId="portfolio-performance">
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={formatShortDate} />
+          <YAxis tickLine={false} axisLine={false} width={48} domain={["auto", "auto"]} tickFormatter={(value) => Number(value).toFixed(0)} />
+          <ReferenceLine y={100} strokeDasharray="3 3" />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const row = payload?.[0]?.payload as ChartRow | undefined;
+                  if (!row) return null;
+                  return (
+                    <div>
+                      <div>{formatShortDate(row.date)}</div>
+                      <div className="font-normal text-muted-foreground">
+                        {formatCurrency(row.portfolioValue)} · Index {row.compareIndexValue.toLocaleString("en-IN")}
+                      </div>
+                      {row.flagged && (
+                        <div className="font-normal text-destructive">
+                          {row.issues.length ? row.issues.join(", ") : "Not verified"}
+                        </div>
+                      )}
+                    </div>
+                  );
+                }}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line type="monotone" dataKey="portfolio" stroke="var(--color-portfolio)" strokeWidth={2} dot={FlaggedDot} isAnimationActive={false} />
+          <Line type="monotone" dataKey="benchmark" stroke="var(--color-benchmark)" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+          <Brush
+            dataKey="date"
+            height={24}
+            travellerWidth={8}
+            tickFormatter={formatShortDate}
+            startIndex={brushRange?.startIndex}
+            endIndex={brushRange?.endIndex}
+            onChange={(range: { startIndex?: number; endIndex?: number }) => {
+              if (range.startIndex === undefined || range.endIndex === undefined) return;
+              setBrushRange({ startIndex: range.startIndex, endIndex: range.endIndex });
+            }}
+          />
+        </LineChart>
+      </ChartContainer>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <div className="text-sm font-medium mb-1">Drawdown</div>
+          <ChartContainer config={drawdownConfig} className="h-[140px] w-full aspect-auto">
+            <AreaChart data={zoomedRows} syncId="portfolio-performance-panels">
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={formatShortDate} />
+              <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value) => `${Number(value).toFixed(0)}%`} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatShortDate(String(value))} />} />
+              <Area type="monotone" dataKey="drawdown" stroke="var(--color-drawdown)" fill="var(--color-drawdown)" fillOpacity={0.3} isAnimationActive={false} />
+            </AreaChart>
+          </ChartContainer>
+        </div>
+        <div>
+          <div className="text-sm font-medium mb-1">Cash Remaining</div>
+          <ChartContainer config={cashConfig} className="h-[140px] w-full aspect-auto">
+            <AreaChart data={zoomedRows} syncId="portfolio-performance-panels">
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={formatShortDate} />
+              <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={(value) => formatCurrency(Number(value))} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatShortDate(String(value))} />} />
+              <Area type="stepAfter" dataKey="cash" stroke="var(--color-cash)" fill="var(--color-cash)" fillOpacity={0.2} isAnimationActive={false} />
+            </AreaChart>
+          </ChartContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
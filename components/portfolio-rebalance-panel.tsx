@@ -0,0 +1,322 @@
+// components/portfolio-rebalance-panel.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, RefreshCw, Scale, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { StockSearch } from "@/components/stock-search";
+import { useToast } from "@/hooks/use-toast";
+import { updatePortfolio, type Portfolio } from "@/lib/api";
+import { fetchStockSymbolBySymbol } from "@/lib/api-stock-symbols";
+import { recordHoldingsChange } from "@/lib/portfolio-ledger";
+import { getActiveHoldings } from "@/lib/portfolio-math";
+import {
+  applyRebalancePlan,
+  buildRebalancePlan,
+  rollRebalanceDate,
+  type RebalanceAction,
+  type RebalanceTarget,
+} from "@/lib/portfolio-rebalance";
+
+interface PortfolioRebalancePanelProps {
+  portfolio: Portfolio;
+  disabled?: boolean;
+  onApplied: (portfolio: Portfolio) => void;
+}
+
+interface TargetRow {
+  symbol: string;
+  targetWeight: string;
+  price: number | null;
+  sector?: string;
+  isNew: boolean;
+}
+
+const ACTION_CLASSES: Record<RebalanceAction, string> = {
+  "Fresh-Buy": "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  "addon-buy": "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  "partial-sell": "bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300",
+  Sell: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+  Hold: "bg-muted text-muted-foreground",
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 2 }).format(value);
+
+export function PortfolioRebalancePanel({ portfolio, disabled = false, onApplied }: PortfolioRebalancePanelProps) {
+  const [rows, setRows] = useState<TargetRow[]>([]);
+  const [isLoadingPrices, setIsLoadingPrices] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const { toast } = useToast();
+
+  const portfolioId = portfolio._id || portfolio.id;
+
+  const loadPrices = async (symbols: TargetRow[]) => {
+    setIsLoadingPrices(true);
+    const lookups = await Promise.allSettled(symbols.map((row) => fetchStockSymbolBySymbol(row.symbol)));
+    setRows((current) =>
+      current.map((row) => {
+        const index = symbols.findIndex((item) => item.symbol === row.symbol);
+        const lookup = index >= 0 ? lookups[index] : undefined;
+        if (!lookup) return row;
+        const price = lookup.status === "fulfilled" ? parseFloat(lookup.value.currentPrice) : NaN;
+        return { ...row, price: Number.isFinite(price) && price > 0 ? price : null };
+      })
+    );
+    const failed = lookups.filter((lookup) => lookup.status === "rejected").length;
+    if (failed > 0) {
+      toast({
+        title: "Some prices unavailable",
+        description: `Could not load the current price for ${failed} stock(s).`,
+        variant: "destructive",
+      });
+    }
+    setIsLoadingPrices(false);
+  };
+
+  // Reload only when a different portfolio, or a saved version of it, is shown
+  useEffect(() => {
+    const initial = getActiveHoldings(portfolio.holdings).map((holding) => ({
+      symbol: holding.symbol,
+      targetWeight: String(holding.weight ?? 0),
+      price: null,
+      sector: holding.sector,
+      isNew: false,
+    }));
+    setRows(initial);
+    if (initial.length > 0) loadPrices(initial);
+  }, [portfolioId, portfolio.updatedAt]);
+
+  const targets = useMemo<RebalanceTarget[]>(
+    () =>
+      rows.map((row) => ({
+        symbol: row.symbol,
+        targetWeight: Number(row.targetWeight) || 0,
+        price: row.price || 0,
+        sector: row.sector,
+      })),
+    [rows]
+  );
+
+  const plan = useMemo(
+    () => buildRebalancePlan(portfolio.holdings || [], targets, portfolio.cashBalance || 0),
+    [portfolio.holdings, portfolio.cashBalance, targets]
+  );
+
+  const tradeCount = plan.trades.filter((trade) => trade.action !== "Hold").length;
+  const canApply = !disabled && !isLoadingPrices && !isApplying && plan.errors.length === 0 && tradeCount > 0;
+
+  const updateRow = (symbol: string, targetWeight: string) =>
+    setRows((current) => current.map((row) => (row.symbol === symbol ? { ...row, targetWeight } : row)));
+
+  const handleAddStock = (symbol: string, stockDetails: { currentPrice: string }) => {
+    if (rows.some((row) => row.symbol === symbol)) {
+      toast({ title: "Already included", description: `${symbol} is already in the rebalance list` });
+      return;
+    }
+    const price = parseFloat(stockDetails.currentPrice);
+    setRows((current) => [
+      ...current,
+      { symbol, targetWeight: "0", price: Number.isFinite(price) && price > 0 ? price : null, isNew: true },
+    ]);
+  };
+
+  // Saves every trade in one portfolio update so a failed request leaves the holdings untouched
+  const handleApply = async () => {
+    setShowConfirm(false);
+    setIsApplying(true);
+    try {
+      const today = new Date();
+      const holdings = applyRebalancePlan(portfolio.holdings || [], plan, targets);
+      const updated = await updatePortfolio(portfolioId, {
+        holdings,
+        cashBalance: Math.round(plan.resultingCash * 100) / 100,
+        lastRebalanceDate: today.toISOString().split("T")[0],
+        nextRebalanceDate: rollRebalanceDate(portfolio.rebalancing, today),
+      });
+      toast({
+        title: "Rebalance applied",
+        description: `${tradeCount} trade${tradeCount === 1 ? "" : "s"} saved. Next rebalance on ${rollRebalanceDate(portfolio.rebalancing, today)}.`,
+      });
+      onApplied(updated);
+      // The rebalance is already saved, so a ledger failure only warns
+      recordHoldingsChange(portfolioId, portfolio.holdings || [], holdings, {
+        date: today.toISOString(),
+        prices: Object.fromEntries(targets.map((target) => [target.symbol, target.price])),
+        note: "Rebalance",
+      }).catch((error) => {
+        console.error("Failed to record rebalance transactions:", error);
+        toast({
+          title: "Ledger not updated",
+          description: "The rebalance was saved but its trades could not be added to the transaction ledger.",
+          variant: "destructive",
+        });
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to apply rebalance",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+        <div className="flex-1">
+          <StockSearch
+            onSelect={handleAddStock}
+            placeholder="Add a stock to the target portfolio..."
+            disabled={disabled || isApplying}
+            showDetails={false}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => loadPrices(rows)}
+          disabled={disabled || isLoadingPrices || rows.length === 0}
+        >
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoadingPrices ? "animate-spin" : ""}`} />
+          Refresh Prices
+        </Button>
+      </div>
+
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Stock</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Current</TableHead>
+              <TableHead className="w-[110px]">Target %</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Cash Impact</TableHead>
+              <TableHead className="text-right">Resulting %</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => {
+              const trade = plan.trades.find((item) => item.symbol === row.symbol);
+              return (
+                <TableRow key={row.symbol}>
+                  <TableCell className="font-medium">
+                    {row.symbol}
+                    {row.isNew && <Badge variant="outline" className="ml-2">New</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">{row.price ? formatCurrency(row.price) : "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {trade ? `${trade.currentQuantity} · ${trade.currentWeight.toFixed(2)}%` : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={row.targetWeight}
+                      onChange={(e) => updateRow(row.symbol, e.target.value)}
+                      disabled={disabled || isApplying}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {trade && <span className={`rounded px-2 py-0.5 text-xs font-medium ${ACTION_CLASSES[trade.action]}`}>{trade.action}</span>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {trade && trade.quantityDelta !== 0 ? `${trade.quantityDelta > 0 ? "+" : ""}${trade.quantityDelta}` : "—"}
+                  </TableCell>
+                  <TableCell className={`text-right ${trade && trade.cashImpact < 0 ? "text-red-600" : "text-green-600"}`}>
+                    {trade && trade.cashImpact !== 0 ? formatCurrency(trade.cashImpact) : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">{trade ? `${trade.resultingWeight.toFixed(2)}%` : "—"}</TableCell>
+                  <TableCell>
+                    {row.isNew && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRows((current) => current.filter((item) => item.symbol !== row.symbol))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-sm text-muted-foreground">
+                  No holdings to rebalance. Add a stock above.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Portfolio Value</p>
+          <p className="font-semibold">{formatCurrency(plan.totalValue)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Target Weight</p>
+          <p className={`font-semibold ${plan.targetWeightTotal > 100 ? "text-red-600" : ""}`}>{plan.targetWeightTotal.toFixed(2)}%</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Cash Now → After</p>
+          <p className={`font-semibold ${plan.resultingCash < 0 ? "text-red-600" : ""}`}>
+            {formatCurrency(plan.currentCash)} → {formatCurrency(plan.resultingCash)}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Cash Weight After</p>
+          <p className="font-semibold">{plan.resultingCashWeight.toFixed(2)}%</p>
+        </div>
+      </div>
+
+      {plan.errors.length > 0 && !isLoadingPrices && (
+        <div className="p-3 rounded-md border-l-4 border-red-400 bg-red-50 dark:bg-red-950/30 text-sm text-red-700 dark:text-red-300">
+          <div className="flex items-center gap-2 font-medium mb-1">
+            <AlertTriangle className="h-4 w-4" />
+            Resolve before applying
+          </div>
+          <ul className="list-disc pl-5">
+            {plan.errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={() => setShowConfirm(true)} disabled={!canApply}>
+          {isApplying ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Scale className="mr-2 h-4 w-4" />}
+          Apply {tradeCount} Trade{tradeCount === 1 ? "" : "s"}
+        </Button>
+      </div>
+
+      <ConfirmDialog
+        open={showConfirm}
+        onOpenChange={setShowConfirm}
+        onConfirm={handleApply}
+        title="Apply rebalance?"
+        description={`${tradeCount} trade${tradeCount === 1 ? "" : "s"} will be saved to ${portfolio.name} in one update, leaving ${formatCurrency(plan.resultingCash)} in cash. The next rebalance date will move to ${rollRebalanceDate(portfolio.rebalancing)}.`}
+        confirmText="Apply Rebalance"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+// components/portfolio-sandbox-panel.tsx
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, RefreshCw, Save, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { LEDGER_TYPE_LABELS } from "@/lib/portfolio-ledger";
+import type { SectorAllocation } from "@/lib/portfolio-math";
+import type { SandboxProjection } from "@/lib/portfolio-sandbox";
+
+interface PortfolioSandboxPanelProps {
+  portfolioName: string;
+  projection: SandboxProjection;
+  isCommitting: boolean;
+  onCommit: () => void;
+  onDiscard: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 2 }).format(value);
+
+const formatChange = (before: number, after: number, format: (value: number) => string) =>
+  before === after ? format(after) : `${format(before)} → ${format(after)}`;
+
+const percent = (value: number) => `${value.toFixed(2)}%`;
+
+function ConcentrationTable({
+  title,
+  before,
+  after,
+}: {
+  title: string;
+  before: Record<string, SectorAllocation>;
+  after: Record<string, SectorAllocation>;
+}) {
+  const groups = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort(
+    (a, b) => (after[b]?.weight || 0) - (after[a]?.weight || 0)
+  );
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{title}</TableHead>
+            <TableHead className="text-right">Now</TableHead>
+            <TableHead className="text-right">Projected</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.map((group) => {
+            const now = before[group]?.weight || 0;
+            const projected = after[group]?.weight || 0;
+            return (
+              <TableRow key={group}>
+                <TableCell className="capitalize">{group}</TableCell>
+                <TableCell className="text-right">{percent(now)}</TableCell>
+                <TableCell className={`text-right font-medium ${projected > now ? "text-green-600" : projected < now ? "text-red-600" : ""}`}>
+                  {percent(projected)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          {groups.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={3} className="text-center text-sm text-muted-foreground">
+                No active holdings
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function PortfolioSandboxPanel({
+  portfolioName,
+  projection,
+  isCommitting,
+  onCommit,
+  onDiscard,
+}: PortfolioSandboxPanelProps) {
+  const [showConfirm, setShowConfirm] = useState(false);
+  const { current, projected, trades, warnings } = projection;
+  const hasChanges = trades.length > 0 || current.holdingsCount !== projected.holdingsCount || current.totalWeight !== projected.totalWeight;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Cash Balance</p>
+          <p className={`font-semibold ${projected.cashBalance < 0 ? "text-red-600" : ""}`}>
+            {formatChange(current.cashBalance, projected.cashBalance, formatCurrency)}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Weight Used</p>
+          <p className={`font-semibold ${projected.totalWeight > 100 ? "text-red-600" : ""}`}>
+            {formatChange(current.totalWeight, projected.totalWeight, percent)}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Holdings</p>
+          <p className="font-semibold">{formatChange(current.holdingsCount, projected.holdingsCount, String)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Min Investment Needed</p>
+          <p className="font-semibold">
+            {formatChange(current.requiredMinInvestment, projected.requiredMinInvestment, formatCurrency)}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Largest Sector</p>
+          <p className="font-semibold">
+            {projected.topSector ? `${projected.topSector.name} · ${percent(projected.topSector.weight)}` : "—"}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Largest Market Cap</p>
+          <p className="font-semibold capitalize">
+            {projected.topCapType ? `${projected.topCapType.name} · ${percent(projected.topCapType.weight)}` : "—"}
+          </p>
+        </div>
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="p-3 rounded-md border-l-4 border-red-400 bg-red-50 dark:bg-red-950/30 text-sm text-red-700 dark:text-red-300">
+          <div className="flex items-center gap-2 font-medium mb-1">
+            <AlertTriangle className="h-4 w-4" />
+            Check before committing
+          </div>
+          <ul className="list-disc pl-5">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Stock</TableHead>
+              <TableHead>Trade</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Cash</TableHead>
+              <TableHead className="text-right">Weight After</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {trades.map((trade) => (
+              <TableRow key={trade.symbol}>
+                <TableCell className="font-medium">{trade.symbol}</TableCell>
+                <TableCell>{LEDGER_TYPE_LABELS[trade.type]}</TableCell>
+                <TableCell className="text-right">{trade.quantity.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{formatCurrency(trade.price)}</TableCell>
+                <TableCell className={`text-right ${trade.cashDelta < 0 ? "text-red-600" : "text-green-600"}`}>
+                  {formatCurrency(trade.cashDelta)}
+                </TableCell>
+                <TableCell className="text-right">{percent(trade.resultingWeight)}</TableCell>
+              </TableRow>
+            ))}
+            {trades.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-sm text-muted-foreground">
+                  No staged trades. Add, edit or remove holdings below to stage changes.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ConcentrationTable title="Sector" before={current.sectors} after={projected.sectors} />
+        <ConcentrationTable title="Market Cap" before={current.capTypes} after={projected.capTypes} />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onDiscard} disabled={isCommitting}>
+          <Undo2 className="mr-2 h-4 w-4" />
+          Discard Changes
+        </Button>
+        <Button type="button" onClick={() => setShowConfirm(true)} disabled={isCommitting || !hasChanges}>
+          {isCommitting ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Commit Changes
+        </Button>
+      </div>
+
+      <ConfirmDialog
+        open={showConfirm}
+        onOpenChange={setShowConfirm}
+        onConfirm={() => {
+          setShowConfirm(false);
+          onCommit();
+        }}
+        title="Commit staged changes?"
+        description={`${trades.length} trade${trades.length === 1 ? "" : "s"} will be saved to ${portfolioName} in one update, leaving ${formatCurrency(projected.cashBalance)} in cash.`}
+        confirmText="Commit Changes"
+      />
+    </div>
+  );
+}
@@ -35,7 +35,12 @@ import { useToast } from "@/hooks/use-toast";
 import { Search, X, Plus, Minus } from "lucide-react";
 import { searchStockSymbols, fetchStockSymbolById } from "@/lib/api-stock-symbols";
 import { fetchWithAuth } from "@/lib/auth";
-import { updateTip } from "@/lib/api-tips";
+import { toCreateTipRequest, updateTip, type CreateTipRequest, type Tip } from "@/lib/api-tips";
+import { parseTipPriceLevels } from "@/lib/tip-price-levels";
+import { mergeDownloadLinks, mergeTipContent, type TipTemplateFields } from "@/lib/tip-templates";
+import { TipTemplatePicker } from "@/components/tip-template-picker";
+import { TipPreviewPanel } from "@/components/tip-preview-panel";
+import { calculateInvestmentDetails, getInvestedValue } from "@/lib/portfolio-math";
 import { RichTextEditor } from "@/components/rich-text-editor"; // Import the RichTextEditor component
 
 // Stock symbol interface
@@ -62,44 +67,6 @@ interface Portfolio {
   }>;
 }
 
-// Tip interfaces
-export interface Tip {
-  _id: string;
-  id: string;
-  portfolio?: string;
-  title: string;
-  stockId: string;
-  stockSymbol?: string;
-  action?: string;
-  buyRange?: string;
-  addMoreAt?: string;
-  weightage?: string;
-  mpWeightage?: string;
-  description: string;
-  pdfLink?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface CreateTipRequest {
-  title: string;
-  stockId: string;
-  category: "basic" | "premium" | "social_media";
-  content: Array<{ key: string; value: string }>;
-  description: string;
-  status?: "Active" | "Closed";
-  action?: string;
-  buyRange?: string;
-  addMoreAt?: string;
-  horizon?: string;
-  downloadLinks?: Array<{ name: string; url: string }>;
-  portfolioId?: string; // Ensure tip is associated with the correct portfolio
-  stockSymbol?: string; // Add stockSymbol to CreateTipRequest
-  analysistConfidence?: number;
-  tipUrl?: string;
-  mpWeightage?: string;
-}
-
 // Validation schema
 const tipSchema = z.object({
   title: z.string()
@@ -116,6 +83,11 @@ const tipSchema = z.object({
   mpWeightage: z.number().min(0, "MP Weightage must be at least 0").max(100, "MP Weightage cannot exceed 100").optional(),
   description: z.string().min(1, "Description is required"),
   pdfLink: z.string().url("Must be a valid URL").optional().or(z.literal("")),
+}).superRefine((data, ctx) => {
+  // Price fields must parse and agree with each other, e.g. add-more below the buy range for buys
+  parseTipPriceLevels(data).issues.forEach(({ field, message }) =>
+    ctx.addIssue({ code: "custom", path: [field], message })
+  );
 });
 
 type TipFormValues = z.infer<typeof tipSchema>;
@@ -168,6 +140,8 @@ export function PortfolioTipDialog({
   const [focusedIndex, setFocusedIndex] = React.useState(-1);
   const [weightageValue, setWeightageValue] = React.useState("");
   const [originalData, setOriginalData] = React.useState<any>(null);
+  // Sections and links from the template a new tip was started from
+  const [templateFields, setTemplateFields] = React.useState<TipTemplateFields | null>(null);
   
   const inputRef = React.useRef<HTMLInputElement>(null);
   const resultsRef = React.useRef<HTMLDivElement>(null);
@@ -202,6 +176,7 @@ export function PortfolioTipDialog({
   // Watch the action field to show/hide dynamic fields
   const watchedAction = watch("action");
   const watchedStockSymbol = watch("stockSymbol");
+  const previewValues = watch();
   
   // Debug selectedStockDetails state
   React.useEffect(() => {
@@ -222,14 +197,6 @@ export function PortfolioTipDialog({
     }
   }, [watchedAction, watchedStockSymbol, form]);
   
-  // Update investment value when stock details or weightage changes
-  React.useEffect(() => {
-    if (selectedStockDetails && weightageValue) {
-      // This effect will trigger a re-render with the updated investment value
-      console.log('Investment value updated:', calculateInvestmentValue(selectedStockDetails.currentPrice || "0", weightageValue));
-    }
-  }, [selectedStockDetails, weightageValue]);
-  
   // Log portfolio details when component mounts
   React.useEffect(() => {
     if (portfolio) {
@@ -238,8 +205,7 @@ export function PortfolioTipDialog({
         currentValue: portfolio.currentValue,
         cashBalance: portfolio.cashBalance,
         minInvestmentValue: portfolio.minInvestmentValue,
-        investedValue: getPortfolioInvestedValue(),
-        usingMinValue: getPortfolioInvestedValue() === (portfolio.minInvestmentValue || 100000)
+        investedValue: getInvestedValue(portfolio),
       });
     }
   }, [portfolio]);
@@ -273,6 +239,7 @@ export function PortfolioTipDialog({
   // Reset form when dialog opens/closes or initial data changes
   React.useEffect(() => {
     if (open) {
+      setTemplateFields(null);
       if (initialData) {
         // Ensure the tip belongs to the current portfolio
         if (portfolio && initialData.portfolio && initialData.portfolio !== portfolio._id) {
@@ -291,31 +258,31 @@ export function PortfolioTipDialog({
         
         reset({
           title: initialData.title || "",
-          stockSymbol: (initialData as any).stockSymbol || "",
+          stockSymbol: initialData.stockSymbol || "",
           stockId: initialData.stockId || "",
-          category: (initialData as any).category || "basic",
+          category: initialData.category || "basic",
           action: initialData.action || "",
           buyRange: initialData.buyRange || "",
           addMoreAt: initialData.addMoreAt || "",
-          exitPrice: (initialData as any).exitPrice || "",
-          mpWeightage: parseFloat(initialData.mpWeightage || initialData.weightage || "0") || 0,
-          description: initialData.description || ((initialData as any).content?.[0]?.value ?? ""),
-          pdfLink: (initialData as any).tipUrl || "",
+          exitPrice: initialData.exitPrice || "",
+          mpWeightage: parseFloat(initialData.mpWeightage || "0") || 0,
+          description: initialData.description || (initialData.content?.[0]?.value ?? ""),
+          pdfLink: initialData.tipUrl || "",
         } as TipFormValues);
-        setWeightageValue(initialData.mpWeightage || initialData.weightage || "");
+        setWeightageValue(initialData.mpWeightage || "");
         
         // Store original data for duplicate comparison (exclude IDs)
         if (isDuplicate) {
           const originalDataObj = {
             title: initialData.title || "",
-            category: (initialData as any).category || "basic",
+            category: initialData.category || "basic",
             action: initialData.action || "",
             buyRange: initialData.buyRange || "",
             addMoreAt: initialData.addMoreAt || "",
-            exitPrice: (initialData as any).exitPrice || "",
-            mpWeightage: parseFloat(initialData.mpWeightage || initialData.weightage || "0") || 0,
-            description: initialData.description || ((initialData as any).content?.[0]?.value ?? ""),
-            pdfLink: (initialData as any).tipUrl || "",
+            exitPrice: initialData.exitPrice || "",
+            mpWeightage: parseFloat(initialData.mpWeightage || "0") || 0,
+            description: initialData.description || (initialData.content?.[0]?.value ?? ""),
+            pdfLink: initialData.tipUrl || "",
           };
           console.log('Storing original data for duplicate check:', originalDataObj);
           setOriginalData(originalDataObj);
@@ -524,60 +491,12 @@ export function PortfolioTipDialog({
     form.setValue("mpWeightage", clampedValue);
   };
   
-  // Get portfolio invested value (currentValue - cashBalance)
-  const getPortfolioInvestedValue = (): number => {
-    if (!portfolio) return 100000; // Default to 1,00,000 if no portfolio
-    
-    const currentValue = portfolio.currentValue || 0;
-    const cashBalance = portfolio.cashBalance || 0;
-    
-    // Calculate invested value (currentValue - cashBalance)
-    const investedValue = Math.max(0, currentValue - cashBalance);
-    
-    // If invested value is 0, use minInvestmentValue from database or default to 100000
-    const minInvestmentValue = portfolio.minInvestmentValue || 100000;
-    
-    return investedValue > 0 ? investedValue : minInvestmentValue;
-  };
-  
-  // Calculate number of shares based on price and weightage
-  const calculateNumberOfShares = (price: string, weightage: string): string => {
-    const priceValue = parseFloat(price) || 0;
-    const weightageValue = parseFloat(weightage) || 0;
-    
-    // Get portfolio invested value
-    const portfolioInvestedValue = getPortfolioInvestedValue();
-    
-    // Calculate the investment amount based on weightage
-    const investmentAmount = portfolioInvestedValue * (weightageValue / 100);
-    
-    // Calculate number of shares
-    const numberOfShares = priceValue > 0 ? investmentAmount / priceValue : 0;
-    
-    // Return the formatted value
-    return numberOfShares.toLocaleString(undefined, { maximumFractionDigits: 2 });
-  };
-  
-  // Calculate investment value based on price and weightage
-  const calculateInvestmentValue = (price: string, weightage: string): string => {
-    const priceValue = parseFloat(price) || 0;
-    const weightageValue = parseFloat(weightage) || 0;
-    
-    // Get portfolio invested value
-    const portfolioInvestedValue = getPortfolioInvestedValue();
-    
-    // Calculate the investment amount based on weightage
-    const investmentAmount = portfolioInvestedValue * (weightageValue / 100);
-    
-    // Calculate number of shares
-    const numberOfShares = priceValue > 0 ? investmentAmount / priceValue : 0;
-    
-    // Calculate current value (price * number of shares)
-    const currentValue = priceValue * numberOfShares;
-    
-    // Return the formatted value
-    return currentValue.toLocaleString(undefined, { maximumFractionDigits: 2 });
-  };
+  // Tips are sized against the invested value with the same whole-share rule as the portfolio form
+  const investedValue = getInvestedValue(portfolio);
+  const weightageDetails =
+    selectedStockDetails && parseFloat(weightageValue) > 0
+      ? calculateInvestmentDetails(parseFloat(weightageValue), parseFloat(selectedStockDetails.currentPrice || "0") || 0, investedValue)
+      : null;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -601,6 +520,16 @@ export function PortfolioTipDialog({
           </DialogDescription>
         </DialogHeader>
 
+        {!initialData && (
+          <TipTemplatePicker
+            onApply={(fields) => {
+              setTemplateFields(fields);
+              form.setValue("description", fields.description);
+              if (fields.category) form.setValue("category", fields.category);
+            }}
+          />
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(async (data) => {
             console.log('Form submit attempted with data:', data);  // Debug log
@@ -643,23 +572,30 @@ export function PortfolioTipDialog({
               // Create content array from description
               const content = [{ key: "main", value: data.description }];
               
-              const tipData: CreateTipRequest = {
+              const formFields = {
                 title: data.title,
                 stockId: data.stockId as string,
                 stockSymbol: data.stockSymbol,
                 category: data.category,
-                content: content,
+                content: mergeTipContent(content, initialData ? initialData.content : templateFields?.content),
                 description: data.description,
-                status: "Active" as const,
                 action: data.action,
                 buyRange: data.buyRange,
                 addMoreAt: data.addMoreAt,
-                horizon: "Long Term" as const,
+                exitPrice: data.exitPrice,
                 tipUrl: data.pdfLink,
-                analysistConfidence: 5, // Default confidence score
-                downloadLinks: data.pdfLink ? [{ name: "Analysis Report", url: data.pdfLink }] : undefined,
+                downloadLinks: mergeDownloadLinks(
+                  data.pdfLink ? [{ name: "Analysis Report", url: data.pdfLink }] : [],
+                  initialData ? initialData.downloadLinks : templateFields?.downloadLinks
+                ),
                 mpWeightage: data.mpWeightage?.toString(),
               };
+
+              // Edits start from the saved tip so fields this form does not
+              // show (stop loss, target, publishing) are kept as they are
+              const tipData: CreateTipRequest = initialData && !isDuplicate
+                ? { ...toCreateTipRequest(initialData), ...formFields }
+                : { status: "Active", horizon: "Long Term", analysistConfidence: 5, ...formFields };
               
               // Ensure content is properly formatted
               if (!Array.isArray(tipData.content) || !tipData.content.length) {
@@ -680,8 +616,11 @@ export function PortfolioTipDialog({
               // Use updateTip API for editing, onSubmit for creating
               if (initialData && initialData._id && !isDuplicate) {
                 console.log('Updating existing tip with ID:', initialData._id);
-                await updateTip(initialData._id, tipData);
+                const updatedTip = await updateTip(initialData._id, tipData);
                 toast({ title: 'Tip updated successfully' });
+                if (updatedTip.revisionError) {
+                  toast({ title: 'Revision not recorded', description: updatedTip.revisionError, variant: 'destructive' });
+                }
               } else {
                 console.log('Creating new tip');
                 await onSubmit(tipData);
@@ -860,6 +799,11 @@ export function PortfolioTipDialog({
                           className="bg-white border-gray-300 text-gray-900 placeholder-gray-500"
                         />
                       </FormControl>
+                      {weightageDetails && (
+                        <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                          ≈ {weightageDetails.quantity.toLocaleString("en-IN")} shares · ₹{weightageDetails.actualInvestmentAmount.toLocaleString("en-IN", { maximumFractionDigits: 2 })} of ₹{investedValue.toLocaleString("en-IN")} invested
+                        </p>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
@@ -1032,6 +976,30 @@ export function PortfolioTipDialog({
               )}
             />
 
+            {/* Subscriber preview; levels this form does not edit come from the saved tip */}
+            <TipPreviewPanel
+              tip={{
+                title: previewValues.title,
+                stockId: previewValues.stockId || "",
+                stockSymbol: previewValues.stockSymbol,
+                stockName: selectedStockDetails?.name || initialData?.stockName,
+                action: previewValues.action,
+                buyRange: previewValues.buyRange,
+                targetPrice: initialData?.targetPrice,
+                stopLoss: initialData?.stopLoss,
+                horizon: initialData?.horizon || "Long Term",
+                description: previewValues.description,
+                content: mergeTipContent(
+                  [{ key: "main", value: previewValues.description }],
+                  initialData ? initialData.content : templateFields?.content
+                ),
+                downloadLinks: mergeDownloadLinks(
+                  previewValues.pdfLink ? [{ name: "Analysis Report", url: previewValues.pdfLink }] : [],
+                  initialData ? initialData.downloadLinks : templateFields?.downloadLinks
+                ),
+              }}
+            />
+
             {/* Footer Buttons */}
             <DialogFooter className="pt-4 space-x-2">
               <Button
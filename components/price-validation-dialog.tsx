@@ -0,0 +1,140 @@
+// components/price-validation-dialog.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, CheckCircle, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { validatePricesWithProvider } from "@/lib/api-market-data";
+import type { PriceValidationResult } from "@/lib/market-data";
+
+interface PriceValidationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatPrice = (value: number) => `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+export function PriceValidationDialog({ open, onOpenChange }: PriceValidationDialogProps) {
+  const [tolerance, setTolerance] = useState("1");
+  const [result, setResult] = useState<PriceValidationResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) setResult(null);
+  }, [open]);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const value = parseFloat(tolerance);
+      setResult(await validatePricesWithProvider(Number.isFinite(value) && value > 0 ? value : undefined));
+    } catch (error) {
+      toast({
+        title: "Price check failed",
+        description: error instanceof Error ? error.message : "Could not compare prices with the provider",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Validate Prices</DialogTitle>
+          <DialogDescription>
+            Compares every stock's backend price with the last price from the market data provider.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-3">
+          <div>
+            <Label htmlFor="price-tolerance">Tolerance (%)</Label>
+            <Input
+              id="price-tolerance"
+              type="number"
+              min="0"
+              step="0.1"
+              value={tolerance}
+              onChange={(e) => setTolerance(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <Button onClick={handleCheck} disabled={isChecking}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isChecking ? "animate-spin" : ""}`} />
+            {isChecking ? "Checking..." : "Run Check"}
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {result.checked} prices checked against {result.provider} at {new Date(result.checkedAt).toLocaleString("en-IN")}
+            </p>
+
+            {result.deviations.length === 0 ? (
+              <p className="flex items-center gap-2 text-sm text-green-600">
+                <CheckCircle className="h-4 w-4" />
+                Every checked price is within {tolerance}% of the provider
+              </p>
+            ) : (
+              <div className="rounded-md border max-h-[360px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead className="text-right">Backend</TableHead>
+                      <TableHead className="text-right">Provider</TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.deviations.map((deviation) => (
+                      <TableRow key={`${deviation.exchange}:${deviation.symbol}`}>
+                        <TableCell>
+                          <span className="font-medium">{deviation.symbol}</span>
+                          <span className="ml-2 text-xs text-muted-foreground">{deviation.exchange}</span>
+                        </TableCell>
+                        <TableCell className="text-right">{formatPrice(deviation.backendPrice)}</TableCell>
+                        <TableCell className="text-right">{formatPrice(deviation.providerPrice)}</TableCell>
+                        <TableCell className={`text-right ${deviation.differencePercent > 0 ? "text-green-600" : "text-red-600"}`}>
+                          {deviation.differencePercent > 0 ? "+" : ""}
+                          {deviation.differencePercent.toFixed(2)}%
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {result.missing.length > 0 && (
+              <div className="space-y-2">
+                <p className="flex items-center gap-2 text-sm text-amber-600">
+                  <AlertTriangle className="h-4 w-4" />
+                  {result.missing.length} symbol(s) could not be compared
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {result.missing.map((symbol) => (
+                    <Badge key={symbol} variant="outline">
+                      {symbol}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
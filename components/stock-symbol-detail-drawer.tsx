@@ -0,0 +1,356 @@
+// components/stock-symbol-detail-drawer.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { fetchPortfolios, type Portfolio } from "@/lib/api";
+import { withProviderPriceHistory } from "@/lib/api-market-data";
+import { fetchStockSymbolBySymbol, type StockSymbol } from "@/lib/api-stock-symbols";
+import { fetchAllTips, type Tip } from "@/lib/api-tips";
+import {
+  findSymbolHoldings,
+  findSymbolTips,
+  getDailyBars,
+  getIntradayBars,
+  summarizeStockPrices,
+  toPriceBars,
+  type PriceHistoryMode,
+  type PriceRange,
+} from "@/lib/stock-price-history";
+
+interface StockSymbolDetailDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stock: StockSymbol | null;
+}
+
+const priceConfig = {
+  close: { label: "Price", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const formatPrice = (value: number | null | undefined) =>
+  value === null || value === undefined
+    ? "—"
+    : `₹${value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`);
+
+const percentClass = (value: number | null) =>
+  value === null ? "text-muted-foreground" : value >= 0 ? "text-green-600" : "text-red-600";
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Kolkata" });
+
+const formatShortDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "2-digit" });
+
+const oneYearAgo = (today: string) => {
+  const date = new Date(today);
+  date.setFullYear(date.getFullYear() - 1);
+  return date.toISOString().split("T")[0];
+};
+
+function RangeBar({ label, range }: { label: string; range: PriceRange | null }) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      {range ? (
+        <>
+          <div className="relative h-1.5 rounded-full bg-muted">
+            {range.position !== null && (
+              <div
+                className="absolute top-1/2 h-3 w-1 -translate-x-1/2 -translate-y-1/2 rounded bg-primary"
+                style={{ left: `${range.position}%` }}
+              />
+            )}
+          </div>
+          <div className="flex justify-between text-xs">
+            <span>{formatPrice(range.low)}</span>
+            <span>{formatPrice(range.high)}</span>
+          </div>
+        </>
+      ) : (
+        <div className="text-xs text-muted-foreground">No price history</div>
+      )}
+    </div>
+  );
+}
+
+export function StockSymbolDetailDrawer({ open, onOpenChange, stock }: StockSymbolDetailDrawerProps) {
+  const [detail, setDetail] = useState<StockSymbol | null>(null);
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [tips, setTips] = useState<Tip[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<PriceHistoryMode>("daily");
+  const [selectedTipId, setSelectedTipId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !stock) return;
+    let cancelled = false;
+    setDetail(stock);
+    setPortfolios([]);
+    setTips([]);
+    setLoadErrors([]);
+    setSelectedTipId(null);
+    setIsLoading(true);
+
+    (async () => {
+      // Holdings and tips are supporting context, so a failed load only leaves its table empty
+      const today = new Date().toISOString().split("T")[0];
+      const [stockResult, portfoliosResult, tipsResult] = await Promise.allSettled([
+        fetchStockSymbolBySymbol(stock.symbol).then((full) => withProviderPriceHistory(full, oneYearAgo(today), today)),
+        fetchPortfolios(),
+        fetchAllTips(),
+      ]);
+      if (cancelled) return;
+      if (stockResult.status === "fulfilled") setDetail(stockResult.value);
+      if (portfoliosResult.status === "fulfilled") setPortfolios(portfoliosResult.value);
+      if (tipsResult.status === "fulfilled") setTips(tipsResult.value);
+      setLoadErrors(
+        [
+          stockResult.status === "rejected" && "price history",
+          portfoliosResult.status === "rejected" && "portfolios",
+          tipsResult.status === "rejected" && "tips",
+        ].filter((item): item is string => !!item)
+      );
+      setIsLoading(false);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, stock]);
+
+  const bars = useMemo(() => toPriceBars(detail?.priceHistory), [detail]);
+  const intradayBars = useMemo(() => getIntradayBars(bars), [bars]);
+  const dailyBars = useMemo(() => getDailyBars(bars), [bars]);
+  const summary = useMemo(() => (detail ? summarizeStockPrices(detail) : null), [detail]);
+  const holdings = useMemo(() => (detail ? findSymbolHoldings(detail, portfolios) : []), [detail, portfolios]);
+  const tipReferences = useMemo(() => (detail ? findSymbolTips(detail, tips) : []), [detail, tips]);
+
+  const selectedTip = tipReferences.find((reference) => reference.tip._id === selectedTipId) ?? null;
+  const rows = mode === "intraday" ? intradayBars : dailyBars;
+
+  // Keep the overlaid tip levels on screen even when they sit outside the traded range
+  const domain = useMemo((): [number, number] | ["auto", "auto"] => {
+    const levels = selectedTip
+      ? [selectedTip.levels.target, selectedTip.levels.stopLoss, selectedTip.levels.buyRange?.low, selectedTip.levels.buyRange?.high]
+      : [];
+    const values = [...rows.map((row) => row.close), ...levels].filter((value): value is number => typeof value === "number");
+    if (values.length === 0) return ["auto", "auto"];
+    const low = Math.min(...values);
+    const high = Math.max(...values);
+    const padding = (high - low) * 0.05 || high * 0.01;
+    return [Math.max(0, low - padding), high + padding];
+  }, [rows, selectedTip]);
+
+  if (!stock || !detail) return null;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <span className="font-mono">{detail.symbol}</span>
+            <Badge variant="outline">{detail.exchange}</Badge>
+            {detail.listingStatus && detail.listingStatus !== "ACTIVE" && (
+              <Badge variant="destructive">{detail.listingStatus === "DELISTED" ? "Delisted" : "Suspended"}</Badge>
+            )}
+          </SheetTitle>
+          <SheetDescription>
+            {detail.name}
+            {[detail.isin, detail.series, detail.sector, detail.lotSize ? `Lot ${detail.lotSize}` : null]
+              .filter(Boolean)
+              .map((item) => ` · ${item}`)
+              .join("")}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {summary && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <div className="text-2xl font-bold">{formatPrice(summary.current)}</div>
+                <div className={`text-sm ${percentClass(summary.changePercent)}`}>
+                  {summary.change !== null && `${summary.change >= 0 ? "+" : ""}${summary.change.toFixed(2)} `}(
+                  {formatPercent(summary.changePercent)})
+                </div>
+                <div className="text-xs text-muted-foreground">Previous close {formatPrice(summary.previous)}</div>
+              </div>
+              <div className="space-y-1 text-sm">
+                {detail.ohlc && <div>Open {formatPrice(parseFloat(detail.ohlc.open) || null)}</div>}
+                <div>Volume {summary.volume !== null ? summary.volume.toLocaleString("en-IN") : "—"}</div>
+                {detail.marketCap && <div>Market cap {detail.marketCap}</div>}
+              </div>
+              <RangeBar label="Day range" range={summary.dayRange} />
+              <RangeBar label="52-week range" range={summary.yearRange} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Tabs value={mode} onValueChange={(value) => setMode(value as PriceHistoryMode)}>
+                <TabsList>
+                  <TabsTrigger value="intraday">Intraday</TabsTrigger>
+                  <TabsTrigger value="daily">Daily</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {isLoading && <RefreshCw className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+            {rows.length < 2 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">
+                {isLoading ? "Loading price history..." : `Not enough ${mode} price history to chart`}
+              </p>
+            ) : (
+              <ChartContainer config={priceConfig} className="h-[260px] w-full aspect-auto">
+                <LineChart data={rows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="timestamp"
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={32}
+                    tickFormatter={mode === "intraday" ? formatTime : formatShortDate}
+                  />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    width={56}
+                    domain={domain}
+                    tickFormatter={(value) => Number(value).toFixed(0)}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(value) => (mode === "intraday" ? formatTime(String(value)) : formatShortDate(String(value)))}
+                      />
+                    }
+                  />
+                  {selectedTip?.levels.buyRange && (
+                    <>
+                      <ReferenceLine y={selectedTip.levels.buyRange.low} stroke="hsl(var(--chart-2))" strokeDasharray="3 3" />
+                      <ReferenceLine
+                        y={selectedTip.levels.buyRange.high}
+                        stroke="hsl(var(--chart-2))"
+                        strokeDasharray="3 3"
+                        label={{ value: "Buy range", position: "insideTopLeft", fontSize: 10 }}
+                      />
+                    </>
+                  )}
+                  {selectedTip?.levels.target && (
+                    <ReferenceLine
+                      y={selectedTip.levels.target}
+                      stroke="#16a34a"
+                      label={{ value: "Target", position: "insideTopLeft", fontSize: 10 }}
+                    />
+                  )}
+                  {selectedTip?.levels.stopLoss && (
+                    <ReferenceLine
+                      y={selectedTip.levels.stopLoss}
+                      stroke="#dc2626"
+                      label={{ value: "Stop-loss", position: "insideBottomLeft", fontSize: 10 }}
+                    />
+                  )}
+                  <Line type="monotone" dataKey="close" stroke="var(--color-close)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </div>
+
+          {loadErrors.length > 0 && (
+            <p className="text-sm text-destructive">Could not load {loadErrors.join(", ")}.</p>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Portfolio holdings ({holdings.length})</h4>
+            {holdings.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No portfolio holds this stock"}</p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Portfolio</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Buy price</TableHead>
+                      <TableHead className="text-right">Return</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {holdings.map((reference, index) => (
+                      <TableRow key={`${reference.portfolioId}-${reference.holding.symbol}-${index}`}>
+                        <TableCell className="max-w-[160px] truncate">{reference.portfolioName}</TableCell>
+                        <TableCell>
+                          <Badge variant={reference.sold ? "secondary" : "outline"}>
+                            {reference.sold ? "Sold" : reference.holding.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{reference.holding.quantity}</TableCell>
+                        <TableCell className="text-right">{formatPrice(reference.holding.buyPrice)}</TableCell>
+                        <TableCell className={`text-right ${percentClass(reference.returnPercent)}`}>
+                          {formatPercent(reference.returnPercent)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Tips ({tipReferences.length})</h4>
+            {tipReferences.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No tips reference this stock"}</p>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground">Select a tip to show its levels on the chart.</p>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Tip</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">To target</TableHead>
+                        <TableHead className="text-right">To stop-loss</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {tipReferences.map((reference) => (
+                        <TableRow
+                          key={reference.tip._id}
+                          className="cursor-pointer"
+                          data-state={reference.tip._id === selectedTipId ? "selected" : undefined}
+                          onClick={() =>
+                            setSelectedTipId((current) => (current === reference.tip._id ? null : reference.tip._id))
+                          }
+                        >
+                          <TableCell className="max-w-[200px] truncate">{reference.tip.title}</TableCell>
+                          <TableCell>
+                            <Badge variant={reference.tip.status === "Active" ? "default" : "secondary"}>
+                              {reference.tip.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{formatPercent(reference.targetDistancePercent)}</TableCell>
+                          <TableCell className="text-right">{formatPercent(reference.stopLossDistancePercent)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
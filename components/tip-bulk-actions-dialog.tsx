@@ -0,0 +1,268 @@
+// components/tip-bulk-actions-dialog.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle, RefreshCw, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { Portfolio } from "@/lib/api";
+import type { Tip } from "@/lib/api-tips";
+import { fetchAllStockSymbols } from "@/lib/api-stock-symbols";
+import { buildTipPriceIndex } from "@/lib/tip-monitor";
+import {
+  TIP_BULK_OPERATION_LABELS,
+  previewTipBulkOperation,
+  runTipBulkOperation,
+  type TipBulkOperation,
+  type TipBulkOperationType,
+  type TipBulkResult,
+} from "@/lib/tip-bulk";
+
+interface TipBulkActionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  operationType: TipBulkOperationType | null;
+  tips: Tip[];
+  portfolios: Portfolio[];
+  getPortfolioName: (portfolioId?: string) => string;
+  onCompleted: () => void;
+}
+
+const GENERAL_PORTFOLIO = "general";
+
+export function TipBulkActionsDialog({
+  open,
+  onOpenChange,
+  operationType,
+  tips,
+  portfolios,
+  getPortfolioName,
+  onCompleted,
+}: TipBulkActionsDialogProps) {
+  const [category, setCategory] = useState<Tip["category"]>("basic");
+  const [horizon, setHorizon] = useState("Long Term");
+  const [portfolioId, setPortfolioId] = useState(GENERAL_PORTFOLIO);
+  const [prices, setPrices] = useState<Map<string, number>>(new Map());
+  const [isLoadingPrices, setIsLoadingPrices] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<TipBulkResult[] | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setResults(null);
+    if (operationType !== "close") return;
+    setIsLoadingPrices(true);
+    fetchAllStockSymbols()
+      .then((stocks) => setPrices(buildTipPriceIndex(stocks)))
+      .catch((error) =>
+        toast({
+          title: "Failed to load market prices",
+          description: error instanceof Error ? error.message : "An error occurred",
+          variant: "destructive",
+        })
+      )
+      .finally(() => setIsLoadingPrices(false));
+  }, [open, operationType]);
+
+  const operation = useMemo<TipBulkOperation | null>(() => {
+    switch (operationType) {
+      case "category":
+        return { type: "category", category };
+      case "horizon":
+        return { type: "horizon", horizon };
+      case "portfolio":
+        return { type: "portfolio", portfolioId: portfolioId === GENERAL_PORTFOLIO ? null : portfolioId };
+      case "close":
+      case "delete":
+        return { type: operationType };
+      default:
+        return null;
+    }
+  }, [operationType, category, horizon, portfolioId]);
+
+  const preview = useMemo(
+    () => (operation ? previewTipBulkOperation(tips, operation, prices, getPortfolioName) : []),
+    [tips, operation, prices]
+  );
+  const applicable = preview.filter((item) => !item.skipReason).length;
+  const resultsById = new Map((results || []).map((result) => [result.tip.id, result]));
+  const failedCount = (results || []).filter((result) => !result.ok).length;
+
+  const handleRun = async () => {
+    if (!operation) return;
+    setIsRunning(true);
+    setResults([]);
+    try {
+      const finished = await runTipBulkOperation(preview, operation, (result) =>
+        setResults((current) => [...(current || []), result])
+      );
+      const failed = finished.filter((result) => !result.ok).length;
+      const unrecorded = finished.filter((result) => result.warning).length;
+      toast({
+        title: failed ? "Bulk action finished with errors" : "Bulk action complete",
+        description: `${finished.length - failed} of ${finished.length} tips updated${
+          unrecorded ? `, ${unrecorded} without a recorded revision` : ""
+        }`,
+        variant: failed || unrecorded ? "destructive" : "default",
+      });
+      onCompleted();
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!operationType) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isRunning && onOpenChange(next)}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{TIP_BULK_OPERATION_LABELS[operationType]}</DialogTitle>
+          <DialogDescription>
+            {results
+              ? `${results.length - failedCount} succeeded · ${failedCount} failed · ${applicable - results.length} remaining`
+              : `${applicable} of ${tips.length} selected tips will change. Review the list before confirming.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!results && operationType === "category" && (
+          <div className="space-y-1 max-w-xs">
+            <Label className="text-xs">New Category</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as Tip["category"])}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="basic">Basic</SelectItem>
+                <SelectItem value="premium">Premium</SelectItem>
+                <SelectItem value="social_media">Social Media</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {!results && operationType === "horizon" && (
+          <div className="space-y-1 max-w-xs">
+            <Label className="text-xs">New Horizon</Label>
+            <Select value={horizon} onValueChange={setHorizon}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Short Term">Short Term</SelectItem>
+                <SelectItem value="Swing ">Swing</SelectItem>
+                <SelectItem value="Long Term">Long Term</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {!results && operationType === "portfolio" && (
+          <div className="space-y-1 max-w-xs">
+            <Label className="text-xs">Move To</Label>
+            <Select value={portfolioId} onValueChange={setPortfolioId}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GENERAL_PORTFOLIO}>General Tip</SelectItem>
+                {portfolios.map((portfolio) => (
+                  <SelectItem key={portfolio.id} value={portfolio.id}>
+                    {portfolio.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {isLoadingPrices && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            Loading market prices…
+          </p>
+        )}
+
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tip</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.map((item) => {
+                const result = resultsById.get(item.tip.id);
+                return (
+                  <TableRow key={item.tip.id} className={item.skipReason ? "opacity-60" : ""}>
+                    <TableCell>
+                      <div className="font-medium">{item.tip.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {item.tip.stockSymbol || item.tip.stockId} · {getPortfolioName(item.tip.portfolio)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{item.change}</TableCell>
+                    <TableCell className="text-sm">
+                      {item.skipReason ? (
+                        <Badge variant="outline">Skipped: {item.skipReason}</Badge>
+                      ) : result ? (
+                        result.ok && result.warning ? (
+                          <span className="flex items-center gap-1 text-amber-600" title={result.warning}>
+                            <AlertTriangle className="h-4 w-4" />
+                            {result.warning}
+                          </span>
+                        ) : result.ok ? (
+                          <span className="flex items-center gap-1 text-green-700 dark:text-green-400">
+                            <CheckCircle className="h-4 w-4" />
+                            Done
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-red-600" title={result.error}>
+                            <XCircle className="h-4 w-4" />
+                            {result.error}
+                          </span>
+                        )
+                      ) : isRunning ? (
+                        <span className="text-muted-foreground">Waiting…</span>
+                      ) : (
+                        <span className="text-muted-foreground">Pending</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter>
+          {results && !isRunning ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isRunning}>
+                Cancel
+              </Button>
+              <Button
+                variant={operationType === "delete" ? "destructive" : "default"}
+                onClick={handleRun}
+                disabled={isRunning || isLoadingPrices || applicable === 0}
+              >
+                {isRunning && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+                {TIP_BULK_OPERATION_LABELS[operationType]} ({applicable})
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
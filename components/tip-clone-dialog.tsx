@@ -0,0 +1,171 @@
+// components/tip-clone-dialog.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle, Copy, RefreshCw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { Portfolio } from "@/lib/api";
+import type { Tip } from "@/lib/api-tips";
+import { cloneTipToPortfolios, type PortfolioCloneResult } from "@/lib/tip-templates";
+
+interface TipCloneDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tip: Tip | null;
+  portfolios: Portfolio[];
+  onCloned: () => void;
+}
+
+const getPortfolioId = (portfolio: Portfolio) => portfolio.id || portfolio._id || "";
+
+export function TipCloneDialog({ open, onOpenChange, tip, portfolios, onCloned }: TipCloneDialogProps) {
+  // Weightage per selected portfolio ID
+  const [targets, setTargets] = useState<Map<string, string>>(new Map());
+  const [isCloning, setIsCloning] = useState(false);
+  const [results, setResults] = useState<PortfolioCloneResult[] | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setTargets(new Map());
+    setResults(null);
+  }, [open, tip?.id]);
+
+  // The tip's own portfolio already has it
+  const candidates = portfolios.filter((portfolio) => getPortfolioId(portfolio) && getPortfolioId(portfolio) !== tip?.portfolio);
+  const resultsById = new Map((results || []).map((result) => [result.portfolioId, result]));
+
+  const toggleTarget = (portfolioId: string, checked: boolean) => {
+    setTargets((current) => {
+      const next = new Map(current);
+      if (checked) next.set(portfolioId, tip?.mpWeightage || "");
+      else next.delete(portfolioId);
+      return next;
+    });
+  };
+
+  const setWeightage = (portfolioId: string, mpWeightage: string) =>
+    setTargets((current) => new Map(current).set(portfolioId, mpWeightage));
+
+  const handleClone = async () => {
+    if (!tip) return;
+    setIsCloning(true);
+    try {
+      const finished = await cloneTipToPortfolios(
+        tip,
+        Array.from(targets, ([portfolioId, mpWeightage]) => ({ portfolioId, mpWeightage }))
+      );
+      setResults(finished);
+      const failed = finished.filter((result) => !result.ok).length;
+      toast({
+        title: failed ? "Some copies failed" : "Tip Copied",
+        description: `Created in ${finished.length - failed} of ${finished.length} portfolios`,
+        variant: failed ? "destructive" : "default",
+      });
+      onCloned();
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isCloning && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            Copy to Portfolios
+          </DialogTitle>
+          <DialogDescription>
+            {tip ? `“${tip.title}” is created as a new active tip in each selected portfolio with its own MP weightage.` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Portfolio</TableHead>
+                <TableHead className="w-32">MP Weightage %</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {candidates.map((portfolio) => {
+                const portfolioId = getPortfolioId(portfolio);
+                const result = resultsById.get(portfolioId);
+                return (
+                  <TableRow key={portfolioId}>
+                    <TableCell>
+                      <Checkbox
+                        checked={targets.has(portfolioId)}
+                        onCheckedChange={(checked) => toggleTarget(portfolioId, checked === true)}
+                        disabled={isCloning || !!results}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{portfolio.name}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="0.01"
+                        className="h-8"
+                        value={targets.get(portfolioId) ?? ""}
+                        onChange={(e) => setWeightage(portfolioId, e.target.value)}
+                        disabled={!targets.has(portfolioId) || isCloning || !!results}
+                      />
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {result &&
+                        (result.ok ? (
+                          <span className="flex items-center gap-1 text-green-700 dark:text-green-400">
+                            <CheckCircle className="h-4 w-4" />
+                            Created
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-red-600" title={result.error}>
+                            <XCircle className="h-4 w-4" />
+                            {result.error}
+                          </span>
+                        ))}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {candidates.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
+                    No other portfolios to copy to.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter>
+          {results ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCloning}>
+                Cancel
+              </Button>
+              <Button onClick={handleClone} disabled={isCloning || targets.size === 0}>
+                {isCloning && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+                Copy to {targets.size} Portfolio{targets.size === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -24,7 +24,9 @@ import {
   Building2,
   Activity,
   IndianRupee,
+  History,
 } from "lucide-react";
+import { TipRevisionTimeline } from "@/components/tip-revision-timeline";
 import type { Tip } from "@/lib/api-tips";
 import type { Portfolio } from "@/lib/api";
 
@@ -33,6 +35,7 @@ interface TipDetailsModalProps {
   onOpenChange: (open: boolean) => void;
   tip: Tip | null;
   portfolio?: Portfolio;
+  onTipRestored?: () => void;
 }
 
 export function TipDetailsModal({
@@ -40,6 +43,7 @@ export function TipDetailsModal({
   onOpenChange,
   tip,
   portfolio,
+  onTipRestored,
 }: TipDetailsModalProps) {
   if (!tip) return null;
 
@@ -404,6 +408,19 @@ export function TipDetailsModal({
               </div>
             </CardContent>
           </Card>
+
+          {/* Revision History */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-sm">
+                <History className="h-4 w-4" />
+                Revision History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TipRevisionTimeline tipId={tip.id || tip._id} onRestored={onTipRestored} />
+            </CardContent>
+          </Card>
         </div>
       </DialogContent>
     </Dialog>
@@ -40,8 +40,13 @@ import { Plus, Trash2, Search, X, Loader2, Calculator } from "lucide-react";
 import { useFieldArray, useForm } from "react-hook-form";
 import { z } from "zod";
 import type { CreateTipRequest, Tip } from "@/lib/api-tips";
-import { updateTip } from "@/lib/api-tips";
+import { toCreateTipRequest, updateTip } from "@/lib/api-tips";
+import { TipTemplatePicker } from "@/components/tip-template-picker";
+import { TipPreviewPanel } from "@/components/tip-preview-panel";
+import { mergeDownloadLinks, mergeTipContent, type TipTemplateFields } from "@/lib/tip-templates";
 import { searchStockSymbols, type StockSymbol } from "@/lib/api-stock-symbols";
+import { normalizePriceText, parsePriceLevelText, parseTipPriceLevels } from "@/lib/tip-price-levels";
+import { formatIstTime, getNextMarketOpen, getTipPublishState, toDateTimeLocalValue } from "@/lib/tip-schedule";
 import { Badge } from "@/components/ui/badge";
 import { RichTextEditor } from "@/components/rich-text-editor";
 
@@ -59,11 +64,8 @@ const tipSchema = z.object({
   }),
   stopLoss: z.string()
     .min(1, "Stop loss is required")
-    .refine((val) => {
-      const num = parseFloat(val);
-      return !isNaN(num) && num > 0;
-    }, {
-      message: "Please enter a valid stop loss price",
+    .refine((val) => !parsePriceLevelText(val).error, {
+      message: "Please enter a valid stop loss price or percentage",
     }),
   description: z.string()
     .min(1, "Description is required")
@@ -79,10 +81,7 @@ const tipSchema = z.object({
     }),
   buyRange: z.string()
     .min(1, "Buy range is required")
-    .refine((val) => {
-      const rangePattern = /^\d+(\.\d+)?\s*-\s*\d+(\.\d+)?$/;
-      return rangePattern.test(val);
-    }, {
+    .refine((val) => !parsePriceLevelText(val).error, {
       message: "Buy range must be in format: 100-200 or 100.50-200.75",
     }),
   targetPrice: z.string().optional(),
@@ -112,6 +111,16 @@ const tipSchema = z.object({
     .min(1, "Confidence score is required")
     .max(10, "Confidence score must be between 1-10")
     .int("Confidence score must be a whole number"),
+  publishState: z.enum(["published", "draft", "scheduled"]),
+  publishAt: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.publishState === "scheduled" && !(data.publishAt && new Date(data.publishAt).getTime() > Date.now())) {
+    ctx.addIssue({ code: "custom", path: ["publishAt"], message: "Pick a publish time in the future" });
+  }
+  // Price fields must parse and agree with each other, e.g. target above the buy range for buys
+  parseTipPriceLevels(data).issues.forEach(({ field, message }) =>
+    ctx.addIssue({ code: "custom", path: [field], message })
+  );
 });
 
 type TipFormValues = z.infer<typeof tipSchema>;
@@ -182,14 +191,21 @@ export function TipFormDialog({
       horizon: "Long Term",
       tipUrl: "",
       analysistConfidence: 5,
+      publishState: "published",
+      publishAt: "",
     },
   });
 
   const { handleSubmit, control, reset, watch, setValue, formState: { isSubmitting } } = form;
+  // Sections and links from the template a new tip was started from
+  const [templateFields, setTemplateFields] = React.useState<TipTemplateFields | null>(null);
   const watchedAction = watch("action");
   const watchedStatus = watch("status");
   const watchedTargetPrice = watch("targetPrice");
   const watchedExitPrice = watch("exitPrice");
+  const watchedPublishState = watch("publishState");
+  const watchedPublishAt = watch("publishAt");
+  const previewValues = watch();
 
   // Conditional field display logic
   const showTargetFields = watchedAction === "buy" || watchedAction === "sell";
@@ -231,6 +247,7 @@ export function TipFormDialog({
   // Reset form when dialog opens/closes or initial data changes
   React.useEffect(() => {
     if (open) {
+      setTemplateFields(null);
       if (initialData) {
         // Extract stop loss from content array stop-loss key
         const stopLossContent = Array.isArray(initialData.content) 
@@ -305,6 +322,8 @@ export function TipFormDialog({
           horizon: initialData.horizon || "Long Term",
           tipUrl: initialData.tipUrl || "",
           analysistConfidence: (initialData as any).analysistConfidence || 5,
+          publishState: initialData.publishState || "published",
+          publishAt: initialData.publishAt ? toDateTimeLocalValue(new Date(initialData.publishAt)) : "",
         });
       } else {
         reset({
@@ -327,6 +346,8 @@ export function TipFormDialog({
           horizon: "Long Term",
           tipUrl: "",
           analysistConfidence: 5,
+          publishState: "published",
+          publishAt: "",
         });
         setSelectedStockDetails(null);
         setSearchTerm("");
@@ -348,8 +369,9 @@ export function TipFormDialog({
       }
       console.log('Preparing tipData object');
       // Store stop loss in content array with stop-loss key
+      const stopLoss = normalizePriceText(data.stopLoss) || data.stopLoss;
       const contentArray = [
-        { key: "stop-loss", value: data.stopLoss }
+        { key: "stop-loss", value: stopLoss }
       ];
       
       console.log('CONTENT ARRAY DEBUG:', {
@@ -385,22 +407,29 @@ export function TipFormDialog({
         stockSymbol: stockSymbol,  // Include stock symbol
         stockName: stockName,      // Include stock name
         category: data.category,
-        content: contentArray,
+        content: mergeTipContent(contentArray, initialData ? initialData.content : templateFields?.content),
         description: data.description,
         status: data.status,
         action: data.action,
-        buyRange: data.buyRange,
-        targetPrice: data.targetPrice,
-        targetPercentage: data.targetPercentage,
-        addMoreAt: data.addMoreAt,
+        buyRange: normalizePriceText(data.buyRange),
+        targetPrice: normalizePriceText(data.targetPrice),
+        targetPercentage: normalizePriceText(data.targetPercentage),
+        addMoreAt: normalizePriceText(data.addMoreAt),
         tipUrl: data.tipUrl,
-        exitPrice: data.exitPrice,
+        exitPrice: normalizePriceText(data.exitPrice),
         exitStatus: data.exitStatus,
         exitStatusPercentage: data.exitStatusPercentage,
-        stopLoss: data.stopLoss, // Use stopLoss field
+        stopLoss, // Same canonical value as the stop-loss content entry
         horizon: data.horizon || "Long Term",
         analysistConfidence: data.analysistConfidence,
-        downloadLinks: downloadLinks.length > 0 ? downloadLinks : undefined,
+        downloadLinks: mergeDownloadLinks(downloadLinks, initialData ? initialData.downloadLinks : templateFields?.downloadLinks),
+        publishState: data.publishState,
+        // A scheduled tip keeps its time; publishing stamps when it went live
+        publishAt: data.publishState === "scheduled" && data.publishAt
+          ? new Date(data.publishAt).toISOString()
+          : data.publishState === "published"
+            ? (initialData && getTipPublishState(initialData) === "published" && (initialData.publishAt || initialData.createdAt)) || new Date().toISOString()
+            : undefined,
       };
       console.log('tipData prepared:', tipData);
       console.log('Calling onSubmit prop with tipData');
@@ -415,11 +444,15 @@ export function TipFormDialog({
       // Use updateTip API for editing, onSubmit for creating
       if (initialData && initialData._id) {
         console.log('Updating existing tip with ID:', initialData._id);
-        await updateTip(initialData._id, tipData);
+        // Fields this form does not edit, such as MP weightage, keep their saved values
+        const updatedTip = await updateTip(initialData._id, { ...toCreateTipRequest(initialData), ...tipData });
         toast({
           title: "Success",
           description: "Tip updated successfully",
         });
+        if (updatedTip.revisionError) {
+          toast({ title: "Revision not recorded", description: updatedTip.revisionError, variant: "destructive" });
+        }
       } else {
         console.log('Creating new tip');
       await onSubmit(tipData);
@@ -595,6 +628,17 @@ export function TipFormDialog({
             </DialogHeader>
 
             <div className="flex-1 overflow-y-auto px-6 space-y-6">
+              {!initialData && (
+                <TipTemplatePicker
+                  disabled={isSubmitting}
+                  onApply={(fields) => {
+                    setTemplateFields(fields);
+                    setValue("description", fields.description);
+                    if (fields.category) setValue("category", fields.category);
+                  }}
+                />
+              )}
+
               {/* Stock Selection */}
               {selectedStockDetails && (
                 <div className="bg-muted rounded-lg p-4 border">
@@ -1029,6 +1073,87 @@ export function TipFormDialog({
                   </FormItem>
                 )}
               />
+
+              {/* Subscriber preview of the tip as it would be saved */}
+              <TipPreviewPanel
+                tip={{
+                  title: previewValues.title,
+                  stockId: previewValues.stockId,
+                  stockSymbol: selectedStockDetails?.symbol || previewValues.stockSymbol,
+                  stockName: selectedStockDetails?.name || previewValues.stockName,
+                  action: previewValues.action,
+                  buyRange: normalizePriceText(previewValues.buyRange),
+                  targetPrice: normalizePriceText(previewValues.targetPrice),
+                  stopLoss: normalizePriceText(previewValues.stopLoss),
+                  horizon: previewValues.horizon,
+                  description: previewValues.description,
+                  content: mergeTipContent([], initialData ? initialData.content : templateFields?.content),
+                  downloadLinks: mergeDownloadLinks(
+                    previewValues.tipUrl ? [{ name: "Analysis Report", url: previewValues.tipUrl }] : [],
+                    initialData ? initialData.downloadLinks : templateFields?.downloadLinks
+                  ),
+                }}
+              />
+
+              {/* Publishing */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={control}
+                  name="publishState"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm">Publishing *</FormLabel>
+                      <FormControl>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select publishing" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="published">Publish now</SelectItem>
+                            <SelectItem value="scheduled">Schedule</SelectItem>
+                            <SelectItem value="draft">Save as draft</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormControl>
+                      <FormDescription className="text-xs">
+                        Drafts and scheduled tips are hidden from subscribers until published
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {watchedPublishState === "scheduled" && (
+                  <FormField
+                    control={control}
+                    name="publishAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm">Publish At *</FormLabel>
+                        <div className="flex gap-2">
+                          <FormControl>
+                            <Input type="datetime-local" {...field} disabled={isSubmitting} />
+                          </FormControl>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setValue("publishAt", toDateTimeLocalValue(getNextMarketOpen()), { shouldValidate: true })}
+                            disabled={isSubmitting}
+                          >
+                            Market Open
+                          </Button>
+                        </div>
+                        <FormDescription className="text-xs">
+                          {watchedPublishAt && !isNaN(new Date(watchedPublishAt).getTime())
+                            ? `Goes live ${formatIstTime(new Date(watchedPublishAt).toISOString())}`
+                            : "Market Open picks the next weekday 09:15 IST"}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
             </div>
 
             <DialogFooter className="p-6 pt-4 border-t flex-shrink-0">
@@ -1044,7 +1169,9 @@ export function TipFormDialog({
                 type="submit" 
                 disabled={isSubmitting}
               >
-                {isSubmitting ? "Saving..." : "Save"}
+                {isSubmitting
+                  ? "Saving..."
+                  : watchedPublishState === "scheduled" ? "Schedule" : watchedPublishState === "draft" ? "Save Draft" : "Save"}
               </Button>
             </DialogFooter>
           </form>
@@ -0,0 +1,276 @@
+// components/tip-monitor-dialog.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Activity, CheckCircle, RefreshCw, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { updateTip, type Tip } from "@/lib/api-tips";
+import {
+  fetchAllStockSymbols,
+  getConnectionStatus,
+  subscribeToRealtimeUpdates,
+  type StockSymbol,
+} from "@/lib/api-stock-symbols";
+import {
+  TIP_SIGNAL_LABELS,
+  buildCloseTipRequest,
+  buildTipPriceIndex,
+  scanTips,
+  type TipCloseProposal,
+  type TipSignal,
+  type TipSignalType,
+} from "@/lib/tip-monitor";
+
+interface TipMonitorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tips: Tip[];
+  onTipClosed: () => void;
+}
+
+interface PendingClose {
+  signal: TipSignal;
+  proposal: TipCloseProposal;
+}
+
+const SIGNAL_CLASSES: Record<TipSignalType, string> = {
+  target_hit: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  stop_loss_hit: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+  in_buy_range: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  add_more_hit: "bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300",
+};
+
+// Closing signals first, then by tip title
+const SIGNAL_ORDER: TipSignalType[] = ["stop_loss_hit", "target_hit", "add_more_hit", "in_buy_range"];
+
+export function TipMonitorDialog({ open, onOpenChange, tips, onTipClosed }: TipMonitorDialogProps) {
+  const [stocks, setStocks] = useState<StockSymbol[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLive, setIsLive] = useState(false);
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [pending, setPending] = useState<PendingClose | null>(null);
+  const [isClosing, setIsClosing] = useState(false);
+  const { toast } = useToast();
+
+  const loadPrices = async () => {
+    setIsLoading(true);
+    try {
+      setStocks(await fetchAllStockSymbols());
+      setLastUpdate(new Date());
+    } catch (error) {
+      toast({
+        title: "Failed to load prices",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Realtime updates replace the matching symbols' prices while the dialog is open
+  useEffect(() => {
+    if (!open) return;
+    loadPrices();
+    const unsubscribe = subscribeToRealtimeUpdates((updated) => {
+      setStocks((current) => {
+        const bySymbol = new Map(updated.map((stock) => [stock.symbol, stock]));
+        return current.map((stock) => {
+          const next = bySymbol.get(stock.symbol);
+          return next ? { ...stock, currentPrice: next.currentPrice } : stock;
+        });
+      });
+      setLastUpdate(new Date());
+      setIsLive(true);
+    });
+    const statusTimer = setInterval(() => setIsLive(getConnectionStatus().isConnected), 5000);
+    return () => {
+      unsubscribe();
+      clearInterval(statusTimer);
+    };
+  }, [open]);
+
+  const signals = useMemo(() => {
+    const prices = buildTipPriceIndex(stocks);
+    return scanTips(tips, prices).sort(
+      (a, b) => SIGNAL_ORDER.indexOf(a.type) - SIGNAL_ORDER.indexOf(b.type) || a.tip.title.localeCompare(b.tip.title)
+    );
+  }, [tips, stocks]);
+
+  const activeCount = tips.filter((tip) => tip.status === "Active").length;
+  const closeCount = signals.filter((signal) => signal.proposal).length;
+
+  const updatePending = (field: keyof TipCloseProposal, value: string) =>
+    setPending((current) => (current ? { ...current, proposal: { ...current.proposal, [field]: value } } : current));
+
+  const handleConfirmClose = async () => {
+    if (!pending) return;
+    setIsClosing(true);
+    try {
+      const closed = await updateTip(pending.signal.tip.id || pending.signal.tip._id, buildCloseTipRequest(pending.signal.tip, pending.proposal));
+      toast({
+        title: "Tip Closed",
+        description: `${pending.signal.tip.title} closed at ₹${pending.proposal.exitedPrice} (${pending.proposal.exitStatus})`,
+      });
+      if (closed.revisionError) {
+        toast({ title: "Revision not recorded", description: closed.revisionError, variant: "destructive" });
+      }
+      setPending(null);
+      onTipClosed();
+    } catch (error) {
+      toast({
+        title: "Failed to close tip",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5" />
+            Tip Monitor
+          </DialogTitle>
+          <DialogDescription>
+            Active tips checked against current prices for target, stop-loss, buy range and add-more levels.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-3 text-muted-foreground">
+            <Badge variant="outline" className={isLive ? "border-green-400 text-green-700 dark:text-green-300" : ""}>
+              {isLive ? "Live" : "Snapshot"}
+            </Badge>
+            <span>{activeCount} active tips · {signals.length} signals · {closeCount} ready to close</span>
+            {lastUpdate && <span>Updated {lastUpdate.toLocaleTimeString("en-IN")}</span>}
+          </div>
+          <Button variant="outline" size="sm" onClick={loadPrices} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh Prices
+          </Button>
+        </div>
+
+        {pending && (
+          <div className="rounded-md border-l-4 border-blue-400 bg-blue-50 dark:bg-blue-950/30 p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">
+                Close “{pending.signal.tip.title}” — {TIP_SIGNAL_LABELS[pending.signal.type].toLowerCase()}
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => setPending(null)} disabled={isClosing}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="monitor-exited-price" className="text-xs">Exited Price</Label>
+                <Input
+                  id="monitor-exited-price"
+                  value={pending.proposal.exitedPrice}
+                  onChange={(e) => updatePending("exitedPrice", e.target.value)}
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Exit Status</Label>
+                <Select value={pending.proposal.exitStatus} onValueChange={(value) => updatePending("exitStatus", value)}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="Profit Booked">Profit Booked</SelectItem>
+                    <SelectItem value="Loss Booked">Loss Booked</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="monitor-exit-percentage" className="text-xs">Exit Status %</Label>
+                <Input
+                  id="monitor-exit-percentage"
+                  value={pending.proposal.exitStatusPercentage}
+                  onChange={(e) => updatePending("exitStatusPercentage", e.target.value)}
+                  className="h-8"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handleConfirmClose} disabled={isClosing || !pending.proposal.exitedPrice}>
+                {isClosing ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+                Confirm Close
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tip</TableHead>
+                <TableHead>Signal</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead>Level</TableHead>
+                <TableHead>Proposed Exit</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {signals.map((signal) => (
+                <TableRow key={`${signal.tip.id || signal.tip._id}-${signal.type}`}>
+                  <TableCell>
+                    <div className="font-medium">{signal.tip.title}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {signal.tip.stockSymbol || signal.tip.stockId} · {signal.tip.action || "—"}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <span className={`rounded px-2 py-0.5 text-xs font-medium ${SIGNAL_CLASSES[signal.type]}`} title={signal.message}>
+                      {TIP_SIGNAL_LABELS[signal.type]}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">₹{signal.price.toLocaleString("en-IN")}</TableCell>
+                  <TableCell className="text-sm">{signal.level}</TableCell>
+                  <TableCell className="text-sm">
+                    {signal.proposal
+                      ? `${signal.proposal.exitStatus} · ${signal.proposal.exitStatusPercentage}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {signal.proposal && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPending({ signal, proposal: signal.proposal! })}
+                        disabled={isClosing}
+                      >
+                        Close Tip
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {signals.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground">
+                    {isLoading ? "Loading prices..." : "No active tip has reached a level."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+// components/tip-preview-panel.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertTriangle, Eye, EyeOff, FileText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { HtmlContent } from "@/components/html-content";
+import {
+  getTipDisclaimer,
+  getTipHeadline,
+  getTipLevels,
+  getTipSections,
+  renderTipEmail,
+  renderTipTelegram,
+  TELEGRAM_MESSAGE_LIMIT,
+  type TipRenderSource,
+} from "@/lib/tip-rendering";
+
+interface TipPreviewPanelProps {
+  tip: TipRenderSource;
+}
+
+export function TipPreviewPanel({ tip }: TipPreviewPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Rendering sanitises the whole tip, so only do it while the panel is open
+  const email = useMemo(() => (isOpen ? renderTipEmail(tip) : null), [isOpen, tip]);
+  const telegram = useMemo(() => (isOpen ? renderTipTelegram(tip) : null), [isOpen, tip]);
+  const card = useMemo(
+    () =>
+      isOpen
+        ? { levels: getTipLevels(tip), sections: getTipSections(tip), disclaimer: getTipDisclaimer(tip) }
+        : null,
+    [isOpen, tip]
+  );
+
+  return (
+    <div className="rounded-lg border">
+      <div className="flex items-center justify-between px-4 py-2">
+        <span className="text-sm font-medium">Subscriber Preview</span>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setIsOpen(!isOpen)}>
+          {isOpen ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+          {isOpen ? "Hide" : "Show"}
+        </Button>
+      </div>
+
+      {email && telegram && card && (
+        <Tabs defaultValue="web" className="px-4 pb-4">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="web">Web App</TabsTrigger>
+            <TabsTrigger value="email">Email</TabsTrigger>
+            <TabsTrigger value="telegram" className="gap-1">
+              Telegram
+              {telegram.warnings.length > 0 && <AlertTriangle className="h-3 w-3 text-amber-500" />}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="web">
+            <div className="rounded-lg border bg-card p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Badge>{getTipHeadline(tip)}</Badge>
+              </div>
+              <h3 className="text-lg font-semibold">{tip.title || "Untitled tip"}</h3>
+              {card.levels.length > 0 && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {card.levels.map((level) => (
+                    <div key={level.label} className="rounded-md bg-muted p-2">
+                      <div className="text-xs text-muted-foreground">{level.label}</div>
+                      <div className="text-sm font-medium">{level.value}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <HtmlContent content={tip.description} className="text-sm" />
+              {card.sections.map((section) => (
+                <div key={section.label}>
+                  <div className="text-sm font-semibold">{section.label}</div>
+                  <HtmlContent content={section.html} className="text-sm" />
+                </div>
+              ))}
+              {(tip.downloadLinks || []).filter((link) => link.url).map((link) => (
+                <a
+                  key={link.url}
+                  href={link.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-sm text-primary underline"
+                >
+                  <FileText className="h-4 w-4" />
+                  {link.name || link.url}
+                </a>
+              ))}
+              {card.disclaimer && <HtmlContent content={card.disclaimer} className="text-xs text-muted-foreground" />}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="email">
+            <div className="rounded-lg border bg-white text-black">
+              <div className="border-b px-4 py-2 text-sm">
+                <span className="text-gray-500">Subject: </span>
+                <span className="font-medium">{email.subject}</span>
+              </div>
+              {/* Already sanitised by renderTipEmail */}
+              <div className="prose prose-sm max-w-none p-4" dangerouslySetInnerHTML={{ __html: email.message }} />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="telegram" className="space-y-2">
+            <div className="rounded-lg bg-[#e6ebee] p-4 dark:bg-slate-800">
+              <div
+                className="max-w-md whitespace-pre-wrap break-words rounded-lg bg-white p-3 text-sm text-black shadow-sm [&_a]:text-[#168acd] [&_a]:underline [&_blockquote]:border-l-2 [&_blockquote]:border-[#168acd] [&_blockquote]:pl-2 [&_code]:font-mono [&_pre]:font-mono"
+                dangerouslySetInnerHTML={{ __html: telegram.text }}
+              />
+            </div>
+            <div
+              className={`text-xs ${telegram.length > TELEGRAM_MESSAGE_LIMIT ? "text-red-600" : "text-muted-foreground"}`}
+            >
+              {telegram.length} / {TELEGRAM_MESSAGE_LIMIT} characters
+            </div>
+            {telegram.warnings.map((warning) => (
+              <div key={warning} className="flex items-start gap-2 text-xs text-amber-600">
+                <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                {warning}
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+// components/tip-revision-timeline.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { History, RefreshCw, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { fetchTipRevisions, updateTip, type CreateTipRequest, type TipRevision } from "@/lib/api-tips";
+import { TIP_FIELD_LABELS, getTipBeforeRevision, isMaterialChange } from "@/lib/tip-revisions";
+
+interface TipRevisionTimelineProps {
+  tipId: string;
+  onRestored?: () => void;
+}
+
+interface PendingRestore {
+  label: string;
+  snapshot: CreateTipRequest;
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-IN", { day: "numeric", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" });
+
+// Long values such as descriptions are cut down to keep the timeline readable
+const preview = (value: string) => (value.length > 80 ? `${value.slice(0, 80)}…` : value || "—");
+
+export function TipRevisionTimeline({ tipId, onRestored }: TipRevisionTimelineProps) {
+  const [revisions, setRevisions] = useState<TipRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { toast } = useToast();
+
+  const loadRevisions = async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setRevisions(await fetchTipRevisions(tipId));
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "Failed to load revisions");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRevisions();
+  }, [tipId]);
+
+  const handleRestore = async (restore: PendingRestore) => {
+    setIsRestoring(true);
+    try {
+      const restored = await updateTip(tipId, restore.snapshot, { note: `Restored ${restore.label}` });
+      toast({ title: "Tip Restored", description: `The tip now matches ${restore.label}` });
+      if (restored.revisionError) {
+        toast({ title: "Revision not recorded", description: restored.revisionError, variant: "destructive" });
+      }
+      await loadRevisions();
+      onRestored?.();
+    } catch (error) {
+      toast({
+        title: "Failed to restore tip",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const oldest = revisions[revisions.length - 1];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {revisions.length} revision{revisions.length === 1 ? "" : "s"}
+        </p>
+        <Button variant="ghost" size="sm" onClick={loadRevisions} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+
+      {!loadError && revisions.length === 0 && !isLoading && (
+        <p className="text-sm text-muted-foreground">This tip has not been edited since it was created.</p>
+      )}
+
+      <ol className="relative border-l pl-4 space-y-4">
+        {revisions.map((revision, index) => (
+          <li key={revision._id || revision.editedAt} className="space-y-2">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm">
+                <span className="font-medium">{formatDateTime(revision.editedAt)}</span>
+                <span className="text-muted-foreground"> by {revision.editedBy}</span>
+                {index === 0 && <Badge variant="outline" className="ml-2">Current</Badge>}
+                {revision.note && <span className="ml-2 text-xs text-muted-foreground">· {revision.note}</span>}
+              </div>
+              {index > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPending({ label: `the revision of ${formatDateTime(revision.editedAt)}`, snapshot: revision.snapshot })}
+                  disabled={isRestoring}
+                >
+                  <RotateCcw className="mr-2 h-3 w-3" />
+                  Restore
+                </Button>
+              )}
+            </div>
+            <div className="rounded-md border divide-y text-sm">
+              {revision.changes.map((change) => (
+                <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2 px-3 py-1.5">
+                  <span className={`text-muted-foreground ${isMaterialChange(change) ? "font-semibold text-orange-700 dark:text-orange-300" : ""}`}>
+                    {TIP_FIELD_LABELS[change.field] || change.field}
+                  </span>
+                  <span className="break-words">
+                    <span className="line-through text-red-600/80">{preview(change.before)}</span>
+                    {" → "}
+                    <span className="text-green-700 dark:text-green-400">{preview(change.after)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </li>
+        ))}
+        {oldest && (
+          <li className="flex flex-wrap items-center justify-between gap-2">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-muted" />
+            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+              <History className="h-4 w-4" />
+              Original version
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPending({ label: "the original version", snapshot: getTipBeforeRevision(oldest) })}
+              disabled={isRestoring}
+            >
+              <RotateCcw className="mr-2 h-3 w-3" />
+              Restore
+            </Button>
+          </li>
+        )}
+      </ol>
+
+      <ConfirmDialog
+        open={!!pending}
+        onOpenChange={(open) => !open && setPending(null)}
+        onConfirm={() => {
+          if (pending) handleRestore(pending);
+          setPending(null);
+        }}
+        title="Restore this version?"
+        description={`The tip will be saved as ${pending?.label || "this version"}. The restore is recorded as a new revision.`}
+        confirmText="Restore"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+// components/tip-schedule-queue.tsx
+"use client";
+
+import { useState } from "react";
+import { CalendarClock, RefreshCw, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { Tip } from "@/lib/api-tips";
+import { formatIstTime, getScheduledQueue, getTipPublishState, isTipDue, publishTip } from "@/lib/tip-schedule";
+
+interface TipScheduleQueueProps {
+  tips: Tip[];
+  getPortfolioName: (portfolioId?: string) => string;
+  onEdit: (tip: Tip) => void;
+  onPublished: () => void;
+}
+
+export function TipScheduleQueue({ tips, getPortfolioName, onEdit, onPublished }: TipScheduleQueueProps) {
+  const [confirming, setConfirming] = useState<Tip | null>(null);
+  const [publishingId, setPublishingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const queue = getScheduledQueue(tips);
+  const drafts = tips.filter((tip) => getTipPublishState(tip) === "draft");
+  if (queue.length === 0 && drafts.length === 0) return null;
+
+  const handlePublish = async (tip: Tip) => {
+    setPublishingId(tip.id);
+    try {
+      const { published, notified, notificationError, revisionError } = await publishTip(tip);
+      if (!published) {
+        toast({ title: "Already Published", description: `${tip.title} was already published by the scheduler` });
+      } else if (notificationError) {
+        toast({
+          title: "Tip Published, Notification Failed",
+          description: `${tip.title} is live but subscribers were not notified (${notificationError}). The next scheduled run retries it.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Tip Published",
+          description: `${tip.title} is live${notified ? " and subscribers have been notified" : ""}`,
+        });
+      }
+      if (revisionError) {
+        toast({ title: "Revision not recorded", description: revisionError, variant: "destructive" });
+      }
+      onPublished();
+    } catch (error) {
+      toast({
+        title: "Failed to publish tip",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setPublishingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarClock className="h-4 w-4" />
+          Publishing Queue
+        </CardTitle>
+        <CardDescription>
+          {queue.length} scheduled · {drafts.length} draft{drafts.length === 1 ? "" : "s"}. Scheduled tips are published by the server when due.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tip</TableHead>
+                <TableHead>Portfolio</TableHead>
+                <TableHead>Publish At</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...queue, ...drafts].map((tip) => {
+                const state = getTipPublishState(tip);
+                return (
+                  <TableRow key={tip.id}>
+                    <TableCell>
+                      <div className="font-medium">{tip.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {tip.stockSymbol || tip.stockId} · {tip.action || "—"}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{getPortfolioName(tip.portfolio)}</TableCell>
+                    <TableCell className="text-sm">
+                      {state === "draft" ? (
+                        <Badge variant="outline">Draft</Badge>
+                      ) : (
+                        <span className={isTipDue(tip) ? "text-orange-600" : ""}>
+                          {tip.publishAt ? formatIstTime(tip.publishAt) : "—"}
+                          {isTipDue(tip) && " (due)"}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => onEdit(tip)}>
+                          Edit
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setConfirming(tip)} disabled={!!publishingId}>
+                          {publishingId === tip.id ? (
+                            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Send className="mr-2 h-4 w-4" />
+                          )}
+                          Publish Now
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <ConfirmDialog
+        open={!!confirming}
+        onOpenChange={(open) => !open && setConfirming(null)}
+        onConfirm={() => {
+          if (confirming) handlePublish(confirming);
+          setConfirming(null);
+        }}
+        title="Publish tip now?"
+        description={`${confirming?.title || "This tip"} will go live to subscribers immediately${confirming?.portfolio ? " and the portfolio's subscribers will be emailed" : ""}.`}
+        confirmText="Publish Now"
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+// components/tip-template-dialog.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { FileText, Minus, Plus, RefreshCw, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  createTipTemplate,
+  deleteTipTemplate,
+  fetchTipTemplates,
+  updateTipTemplate,
+  type CreateTipTemplateRequest,
+  type TipTemplate,
+} from "@/lib/api-tips";
+
+interface TipTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_TEMPLATE: CreateTipTemplateRequest = {
+  name: "",
+  category: "basic",
+  content: [],
+  description: "",
+  disclaimer: "",
+  downloadLinks: [],
+};
+
+const toRequest = ({ name, category, content, description, disclaimer, downloadLinks }: TipTemplate): CreateTipTemplateRequest => ({
+  name,
+  category,
+  content,
+  description,
+  disclaimer,
+  downloadLinks,
+});
+
+export function TipTemplateDialog({ open, onOpenChange }: TipTemplateDialogProps) {
+  const [templates, setTemplates] = useState<TipTemplate[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CreateTipTemplateRequest>(EMPTY_TEMPLATE);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleting, setDeleting] = useState<TipTemplate | null>(null);
+  const { toast } = useToast();
+
+  const loadTemplates = async () => {
+    setIsLoading(true);
+    try {
+      setTemplates(await fetchTipTemplates());
+    } catch (error) {
+      toast({
+        title: "Failed to load templates",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    loadTemplates();
+    startNew();
+  }, [open]);
+
+  const startNew = () => {
+    setEditingId(null);
+    setDraft(EMPTY_TEMPLATE);
+  };
+
+  const startEdit = (template: TipTemplate) => {
+    setEditingId(template.id);
+    setDraft(toRequest(template));
+  };
+
+  const update = (changes: Partial<CreateTipTemplateRequest>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const updateContent = (index: number, field: "key" | "value", value: string) =>
+    update({ content: draft.content.map((entry, i) => (i === index ? { ...entry, [field]: value } : entry)) });
+
+  const updateLink = (index: number, field: "name" | "url", value: string) =>
+    update({ downloadLinks: draft.downloadLinks.map((link, i) => (i === index ? { ...link, [field]: value } : link)) });
+
+  const handleSave = async () => {
+    const templateData: CreateTipTemplateRequest = {
+      ...draft,
+      name: draft.name.trim(),
+      content: draft.content.filter((entry) => entry.key.trim()),
+      downloadLinks: draft.downloadLinks.filter((link) => link.name.trim() && link.url.trim()),
+    };
+    setIsSaving(true);
+    try {
+      const saved = editingId ? await updateTipTemplate(editingId, templateData) : await createTipTemplate(templateData);
+      toast({ title: editingId ? "Template Updated" : "Template Created", description: saved.name });
+      await loadTemplates();
+      startEdit(saved);
+    } catch (error) {
+      toast({
+        title: "Failed to save template",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: TipTemplate) => {
+    try {
+      await deleteTipTemplate(template.id);
+      toast({ title: "Template Deleted", description: template.name });
+      if (editingId === template.id) startNew();
+      await loadTemplates();
+    } catch (error) {
+      toast({
+        title: "Failed to delete template",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Tip Templates
+          </DialogTitle>
+          <DialogDescription>
+            Content sections, description boilerplate, disclaimer and download links that new tips can start from.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-6">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Templates</span>
+              <Button variant="ghost" size="sm" onClick={loadTemplates} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+            <Button variant="outline" size="sm" className="w-full" onClick={startNew}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Template
+            </Button>
+            <div className="space-y-1">
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  className={`flex items-center justify-between rounded-md px-2 py-1.5 text-sm ${
+                    editingId === template.id ? "bg-muted font-medium" : "hover:bg-muted/50"
+                  }`}
+                >
+                  <button type="button" className="flex-1 text-left truncate" onClick={() => startEdit(template)}>
+                    {template.name}
+                  </button>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setDeleting(template)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              {!isLoading && templates.length === 0 && (
+                <p className="text-xs text-muted-foreground">No templates yet.</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="template-name">Name</Label>
+                <Input id="template-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Category</Label>
+                <Select value={draft.category} onValueChange={(value) => update({ category: value as CreateTipTemplateRequest["category"] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="basic">Basic</SelectItem>
+                    <SelectItem value="premium">Premium</SelectItem>
+                    <SelectItem value="social_media">Social Media</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="template-description">Description Boilerplate</Label>
+              <Textarea
+                id="template-description"
+                rows={4}
+                value={draft.description}
+                onChange={(e) => update({ description: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="template-disclaimer">Disclaimer</Label>
+              <Textarea
+                id="template-disclaimer"
+                rows={3}
+                value={draft.disclaimer}
+                onChange={(e) => update({ disclaimer: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Content Sections</Label>
+                <Button variant="outline" size="sm" onClick={() => update({ content: [...draft.content, { key: "", value: "" }] })}>
+                  <Plus className="mr-2 h-3 w-3" />
+                  Add Section
+                </Button>
+              </div>
+              {draft.content.map((entry, index) => (
+                <div key={index} className="grid grid-cols-[10rem_1fr_auto] gap-2">
+                  <Input placeholder="Key" value={entry.key} onChange={(e) => updateContent(index, "key", e.target.value)} />
+                  <Input placeholder="Default text" value={entry.value} onChange={(e) => updateContent(index, "value", e.target.value)} />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ content: draft.content.filter((_, i) => i !== index) })}
+                  >
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Download Links</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update({ downloadLinks: [...draft.downloadLinks, { name: "", url: "" }] })}
+                >
+                  <Plus className="mr-2 h-3 w-3" />
+                  Add Link
+                </Button>
+              </div>
+              {draft.downloadLinks.map((link, index) => (
+                <div key={index} className="grid grid-cols-[10rem_1fr_auto] gap-2">
+                  <Input placeholder="Name" value={link.name} onChange={(e) => updateLink(index, "name", e.target.value)} />
+                  <Input placeholder="https://" value={link.url} onChange={(e) => updateLink(index, "url", e.target.value)} />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ downloadLinks: draft.downloadLinks.filter((_, i) => i !== index) })}
+                  >
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+                {isSaving ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                {editingId ? "Save Template" : "Create Template"}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <ConfirmDialog
+          open={!!deleting}
+          onOpenChange={(isOpen) => !isOpen && setDeleting(null)}
+          onConfirm={() => {
+            if (deleting) handleDelete(deleting);
+            setDeleting(null);
+          }}
+          title="Delete template?"
+          description={`"${deleting?.name || "This template"}" will be removed. Tips already created from it are not changed.`}
+          confirmText="Delete"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+// components/tip-template-picker.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { FileText } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { fetchTipTemplates, type TipTemplate } from "@/lib/api-tips";
+import { applyTipTemplate, type TipTemplateFields } from "@/lib/tip-templates";
+
+interface TipTemplatePickerProps {
+  onApply: (fields: TipTemplateFields, template: TipTemplate) => void;
+  disabled?: boolean;
+}
+
+export function TipTemplatePicker({ onApply, disabled }: TipTemplatePickerProps) {
+  const [templates, setTemplates] = useState<TipTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+
+  useEffect(() => {
+    // Without templates the picker is simply not shown
+    fetchTipTemplates().then(setTemplates).catch(() => setTemplates([]));
+  }, []);
+
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <FileText className="h-4 w-4 text-muted-foreground" />
+      <Select
+        value={selectedId}
+        onValueChange={(id) => {
+          const template = templates.find((item) => item.id === id);
+          if (!template) return;
+          setSelectedId(id);
+          onApply(applyTipTemplate(template), template);
+        }}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 w-64">
+          <SelectValue placeholder="Start from a template" />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map((template) => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
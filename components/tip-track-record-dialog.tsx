@@ -0,0 +1,233 @@
+// components/tip-track-record-dialog.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import { Download, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { Portfolio } from "@/lib/api";
+import type { Tip } from "@/lib/api-tips";
+import { downloadTipTrackRecord } from "@/lib/download-utils";
+import {
+  BREAKDOWN_LABELS,
+  buildTipPerformanceReport,
+  toTrackRecordRow,
+  type TipBreakdownDimension,
+} from "@/lib/tip-performance";
+
+interface TipTrackRecordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tips: Tip[];
+  portfolios: Portfolio[];
+}
+
+const percent = (value: number | null) => (value === null ? "—" : `${value.toFixed(2)}%`);
+
+const returnClass = (value: number | null) =>
+  value === null || value === 0 ? "" : value > 0 ? "text-green-600" : "text-red-600";
+
+export function TipTrackRecordDialog({ open, onOpenChange, tips, portfolios }: TipTrackRecordDialogProps) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [dimension, setDimension] = useState<TipBreakdownDimension>("category");
+  const { toast } = useToast();
+
+  const portfolioNames = useMemo(
+    () => Object.fromEntries(portfolios.map((portfolio) => [portfolio.id || portfolio._id || "", portfolio.name])),
+    [portfolios]
+  );
+
+  const report = useMemo(
+    () => buildTipPerformanceReport(tips, { from: from || undefined, to: to || undefined, portfolioNames }),
+    [tips, from, to, portfolioNames]
+  );
+  const { overall } = report;
+
+  const handleExport = () => {
+    try {
+      downloadTipTrackRecord(report.outcomes.map((outcome) => toTrackRecordRow(outcome, portfolioNames)), "csv");
+      toast({ title: "Download started", description: "Track record is being downloaded as CSV" });
+    } catch (error) {
+      toast({ title: "Download failed", description: "No closed tips in this period", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            Tip Track Record
+          </DialogTitle>
+          <DialogDescription>
+            Outcomes of closed tips, using the exit status percentage or the exited price against the buy range.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="track-record-from" className="text-xs">Closed From</Label>
+              <Input id="track-record-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8 w-40" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="track-record-to" className="text-xs">Closed To</Label>
+              <Input id="track-record-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8 w-40" />
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={report.outcomes.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Closed Tips</p>
+            <p className="font-semibold">
+              {overall.closedCount} <span className="text-xs font-normal text-muted-foreground">({report.activeCount} active)</span>
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Hit Rate</p>
+            <p className="font-semibold">
+              {percent(overall.hitRate)} <span className="text-xs font-normal text-muted-foreground">({overall.hits}/{overall.scoredCount})</span>
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Average Return</p>
+            <p className={`font-semibold ${returnClass(overall.averageReturn)}`}>
+              {percent(overall.averageReturn)} <span className="text-xs font-normal text-muted-foreground">median {percent(overall.medianReturn)}</span>
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Avg Holding Period</p>
+            <p className="font-semibold">{overall.averageHoldingDays.toFixed(0)} days</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Best Tip</p>
+            <p className={`font-semibold ${returnClass(overall.bestReturn)}`}>{percent(overall.bestReturn)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Worst Tip</p>
+            <p className={`font-semibold ${returnClass(overall.worstReturn)}`}>{percent(overall.worstReturn)}</p>
+          </div>
+          {overall.closedCount > overall.scoredCount && (
+            <div className="col-span-2 text-xs text-muted-foreground self-end">
+              {overall.closedCount - overall.scoredCount} closed tips have no exit percentage or prices and are left out of returns.
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">Breakdown</h3>
+            <Select value={dimension} onValueChange={(value) => setDimension(value as TipBreakdownDimension)}>
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(BREAKDOWN_LABELS) as TipBreakdownDimension[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    By {BREAKDOWN_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{BREAKDOWN_LABELS[dimension]}</TableHead>
+                  <TableHead className="text-right">Closed</TableHead>
+                  <TableHead className="text-right">Hit Rate</TableHead>
+                  <TableHead className="text-right">Avg Return</TableHead>
+                  <TableHead className="text-right">Best / Worst</TableHead>
+                  <TableHead className="text-right">Avg Days</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.breakdowns[dimension].map((row) => (
+                  <TableRow key={row.group}>
+                    <TableCell className="font-medium capitalize">{row.group.replace(/_/g, " ")}</TableCell>
+                    <TableCell className="text-right">{row.closedCount}</TableCell>
+                    <TableCell className="text-right">{row.scoredCount ? percent(row.hitRate) : "—"}</TableCell>
+                    <TableCell className={`text-right ${returnClass(row.scoredCount ? row.averageReturn : null)}`}>
+                      {row.scoredCount ? percent(row.averageReturn) : "—"}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {percent(row.bestReturn)} / {percent(row.worstReturn)}
+                    </TableCell>
+                    <TableCell className="text-right">{row.averageHoldingDays.toFixed(0)}</TableCell>
+                  </TableRow>
+                ))}
+                {report.breakdowns[dimension].length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-sm text-muted-foreground">
+                      No closed tips in this period
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div>
+            <h3 className="text-sm font-medium">Confidence Calibration</h3>
+            <p className="text-xs text-muted-foreground">
+              Analyst confidence read as a claimed hit rate: a score of 7 should win about 70% of the time.
+            </p>
+          </div>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Confidence</TableHead>
+                  <TableHead className="text-right">Tips</TableHead>
+                  <TableHead className="text-right">Expected Hit Rate</TableHead>
+                  <TableHead className="text-right">Actual Hit Rate</TableHead>
+                  <TableHead className="text-right">Gap</TableHead>
+                  <TableHead className="text-right">Avg Return</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.calibration.map((row) => {
+                  const gap = row.hitRate - row.expectedHitRate;
+                  return (
+                    <TableRow key={row.confidence}>
+                      <TableCell className="font-medium">{row.confidence}/10</TableCell>
+                      <TableCell className="text-right">{row.count}</TableCell>
+                      <TableCell className="text-right">{percent(row.expectedHitRate)}</TableCell>
+                      <TableCell className="text-right">{percent(row.hitRate)}</TableCell>
+                      <TableCell className={`text-right ${returnClass(gap)}`}>
+                        {gap > 0 ? "+" : ""}{gap.toFixed(1)} pts
+                      </TableCell>
+                      <TableCell className={`text-right ${returnClass(row.averageReturn)}`}>{percent(row.averageReturn)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+                {report.calibration.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-sm text-muted-foreground">
+                      No closed tips with a confidence score and a known return
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
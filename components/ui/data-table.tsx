@@ -17,11 +17,22 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Button } from "@/components/ui/button"
 import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Search } from "lucide-react"
 
+// Server-side paging: `data` is already the current page and the table only
+// renders the controls
+interface DataTablePagination {
+  pageIndex: number
+  pageSize: number
+  pageCount: number
+  total: number
+  onPageChange: (pageIndex: number) => void
+}
+
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[]
   data: TData[]
   searchColumn?: string
   isLoading?: boolean
+  pagination?: DataTablePagination
 }
 
 export function DataTable<TData, TValue>({
@@ -29,6 +40,7 @@ export function DataTable<TData, TValue>({
   data,
   searchColumn,
   isLoading = false,
+  pagination,
 }: DataTableProps<TData, TValue>) {
   const [sorting, setSorting] = useState<SortingState>([])
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
@@ -42,9 +54,18 @@ export function DataTable<TData, TValue>({
     getSortedRowModel: getSortedRowModel(),
     onColumnFiltersChange: setColumnFilters,
     getFilteredRowModel: getFilteredRowModel(),
+    ...(pagination && {
+      manualPagination: true,
+      pageCount: pagination.pageCount,
+      onPaginationChange: (updater) => {
+        const current = { pageIndex: pagination.pageIndex, pageSize: pagination.pageSize }
+        pagination.onPageChange((typeof updater === "function" ? updater(current) : updater).pageIndex)
+      },
+    }),
     state: {
       sorting,
       columnFilters,
+      ...(pagination && { pagination: { pageIndex: pagination.pageIndex, pageSize: pagination.pageSize } }),
     },
     initialState: {
       pagination: {
@@ -53,6 +74,8 @@ export function DataTable<TData, TValue>({
     },
   })
 
+  const totalRows = pagination ? pagination.total : table.getFilteredRowModel().rows.length
+
   return (
     <div className="space-y-4">
       {searchColumn && (
@@ -125,12 +148,12 @@ export function DataTable<TData, TValue>({
             Showing {table.getState().pagination.pageIndex * table.getState().pagination.pageSize + 1} to{" "}
             {Math.min(
               (table.getState().pagination.pageIndex + 1) * table.getState().pagination.pageSize,
-              table.getFilteredRowModel().rows.length,
+              totalRows,
             )}{" "}
-            of {table.getFilteredRowModel().rows.length} entries
+            of {totalRows} entries
           </span>
           <span className="sm:hidden">
-            {table.getFilteredRowModel().rows.length} total entries
+            {totalRows} total entries
           </span>
         </div>
         
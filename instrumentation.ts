@@ -0,0 +1,8 @@
+// instrumentation.ts
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startTipScheduler } = await import("@/lib/tip-schedule");
+    startTipScheduler();
+  }
+}
@@ -1,4 +1,4 @@
-import { API_BASE_URL, fetchWithAuth } from "@/lib/auth";
+import { API_BASE_URL, fetchWithAuth, fetchWithToken } from "@/lib/auth";
 
 // Chart Data Types
 export interface ChartDataPoint {
@@ -41,13 +41,28 @@ export interface CreateChartDataRequest {
   dataQualityIssues?: string[];
 }
 
+export interface CleanupDuplicatesResponse {
+  success: boolean;
+  message: string;
+  deletedCount: number;
+  failedCount: number;
+  details: string;
+  duplicates: Array<{
+    portfolio: string;
+    dateOnly: string;
+    kept: string;
+    deleted: string[];
+  }>;
+}
+
 // Chart Data API Functions
 export const fetchChartData = async (
   portfolioId?: string,
   startDate?: string,
   endDate?: string,
   limit = 100,
-  page = 1
+  page = 1,
+  accessToken?: string
 ): Promise<ChartDataResponse> => {
   try {
     const params = new URLSearchParams();
@@ -59,7 +74,7 @@ export const fetchChartData = async (
 
     const url = `${API_BASE_URL}/api/chart-data?${params.toString()}`;
 
-    const response = await fetchWithAuth(url);
+    const response = await fetchWithToken(url, accessToken);
 
     if (!response.ok) {
       console.error('API Error Response:', response.status, response.statusText);
@@ -80,6 +95,33 @@ export const fetchChartData = async (
   }
 };
 
+/**
+ * Fetches every chart data point matching the filters by walking all pages.
+ * Points are returned sorted by date, oldest first. Server routes pass their
+ * caller's access token.
+ */
+export const fetchAllChartData = async (
+  portfolioId?: string,
+  startDate?: string,
+  endDate?: string,
+  pageSize = 500,
+  accessToken?: string
+): Promise<ChartDataPoint[]> => {
+  const points: ChartDataPoint[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const response = await fetchChartData(portfolioId, startDate, endDate, pageSize, page, accessToken);
+    points.push(...(response.data || []));
+    totalPages = response.pagination?.totalPages || Math.ceil((response.total || 0) / pageSize) || 1;
+    if (!response.data?.length) break;
+    page++;
+  } while (page <= totalPages);
+
+  return points.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
 export const fetchPortfolioChartData = async (
   portfolioId: string,
   startDate?: string,
@@ -119,11 +161,12 @@ export const fetchPortfolioPerformance = async (
     if (startDate) params.append("startDate", startDate);
     if (endDate) params.append("endDate", endDate);
 
-    const url = `${API_BASE_URL}/api/chart-data/portfolio/${portfolioId}/performance?${params.toString()}`;
+    // Analytics are computed by this app's route from the backend's chart data
+    const url = `/api/chart-data/portfolio/${portfolioId}/performance?${params.toString()}`;
     const response = await fetchWithAuth(url);
 
     if (!response.ok) {
-      const error = await response.json();
+      const error = await response.json().catch(() => ({}));
       throw new Error(error.message || "Failed to fetch portfolio performance");
     }
 
@@ -134,14 +177,16 @@ export const fetchPortfolioPerformance = async (
   }
 };
 
-export const cleanupDuplicates = async (): Promise<any> => {
+export const cleanupDuplicates = async (portfolioId?: string): Promise<CleanupDuplicatesResponse> => {
   try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/chart-data/cleanup-duplicates`, {
+    // Duplicates are found and removed by this app's route, one delete per point
+    const response = await fetchWithAuth("/api/chart-data/cleanup-duplicates", {
       method: "POST",
+      body: JSON.stringify(portfolioId ? { portfolioId } : {}),
     });
 
     if (!response.ok) {
-      const error = await response.json();
+      const error = await response.json().catch(() => ({}));
       throw new Error(error.message || "Failed to cleanup duplicates");
     }
 
@@ -217,9 +262,9 @@ export const updateChartData = async (
   }
 };
 
-export const deleteChartData = async (id: string): Promise<void> => {
+export const deleteChartData = async (id: string, accessToken?: string): Promise<void> => {
   try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/chart-data/${id}`, {
+    const response = await fetchWithToken(`${API_BASE_URL}/api/chart-data/${id}`, accessToken, {
       method: "DELETE",
     });
 
@@ -269,4 +314,62 @@ export const patchChartData = async (
 
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Chart Data Helpers
+
+export const getChartPointId = (point: ChartDataPoint): string | undefined => point._id || point.id;
+
+// The backend populates `portfolio` on some endpoints, so accept both shapes
+export const getChartPointPortfolioId = (point: ChartDataPoint): string => {
+  const portfolio = point.portfolio as string | { _id?: string; id?: string };
+  return typeof portfolio === "string" ? portfolio : portfolio?._id || portfolio?.id || "";
+};
+
+// `dateOnly` comes back either as YYYY-MM-DD or as a full ISO timestamp
+export const getChartPointDate = (point: Pick<ChartDataPoint, "dateOnly" | "date">): string =>
+  (point.dateOnly || point.date || "").split("T")[0];
+
+export interface DuplicateChartDataGroup {
+  portfolio: string;
+  dateOnly: string;
+  keep: ChartDataPoint;
+  remove: ChartDataPoint[];
+}
+
+/**
+ * Groups points that share a portfolio and trading day. In each group the
+ * verified entry with the fewest quality issues is kept, newest first on ties.
+ */
+export const findDuplicateChartData = (points: ChartDataPoint[]): DuplicateChartDataGroup[] => {
+  const groups = new Map<string, ChartDataPoint[]>();
+  points.forEach((point) => {
+    const key = `${getChartPointPortfolioId(point)}|${getChartPointDate(point)}`;
+    groups.set(key, [...(groups.get(key) || []), point]);
+  });
+
+  const rank = (point: ChartDataPoint) => [
+    point.dataVerified ? 0 : 1,
+    point.dataQualityIssues?.length || 0,
+    -new Date(point.date).getTime() || 0,
+  ];
+
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .map((group) => {
+      const sorted = [...group].sort((a, b) => {
+        const rankA = rank(a);
+        const rankB = rank(b);
+        for (let i = 0; i < rankA.length; i++) {
+          if (rankA[i] !== rankB[i]) return rankA[i] - rankB[i];
+        }
+        return 0;
+      });
+      return {
+        portfolio: getChartPointPortfolioId(sorted[0]),
+        dateOnly: getChartPointDate(sorted[0]),
+        keep: sorted[0],
+        remove: sorted.slice(1),
+      };
+    });
+};
@@ -0,0 +1,139 @@
+// lib/api-corporate-actions.ts
+import { API_BASE_URL, fetchWithAuth } from "@/lib/auth";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type CorporateActionType = "split" | "bonus" | "dividend" | "rights";
+
+/**
+ * A split, bonus, dividend or rights issue of one stock, effective from its
+ * ex-date. Ratios read as written in exchange announcements:
+ * - split: old shares to new shares, so 1:5 turns each share into five
+ * - bonus: shares held to bonus shares, so 1:1 adds one share per share
+ * - rights: shares held to shares offered at `rightsPrice`
+ */
+export interface CorporateAction {
+  _id: string;
+  symbol: string;
+  exchange: string;
+  type: CorporateActionType;
+  exDate: string; // YYYY-MM-DD
+  ratioFrom?: number;
+  ratioTo?: number;
+  dividendPerShare?: number;
+  rightsPrice?: number;
+  note?: string;
+  // Set once the adjustments have been applied; see recordCorporateActionAudit
+  appliedAt?: string;
+  appliedBy?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type CreateCorporateActionRequest = Omit<CorporateAction, "_id" | "appliedAt" | "appliedBy" | "createdAt" | "updatedAt">;
+
+export type CorporateActionTarget = "holding" | "tip" | "priceHistory" | "chartData";
+
+// One record, holding set, tip or chart series changed by an application
+export interface CorporateActionAuditItem {
+  target: CorporateActionTarget;
+  targetId: string;
+  label: string;
+  change: string;
+  status: "success" | "failed";
+  error?: string;
+  // Saved, but something after the save went wrong, such as recording a tip revision
+  warning?: string;
+}
+
+export interface CorporateActionAudit {
+  _id?: string;
+  action: string;
+  appliedAt: string;
+  appliedBy: string;
+  items: CorporateActionAuditItem[];
+}
+
+export type CreateCorporateActionAuditRequest = Omit<CorporateActionAudit, "_id">;
+
+// =================================================================
+// CORPORATE ACTIONS CLIENT
+// =================================================================
+
+const requestCorporateActions = async <T>(url: string, init: RequestInit, failureMessage: string): Promise<T> => {
+  const response = await fetchWithAuth(url, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.message || body.error || failureMessage);
+  }
+  const data = await response.json();
+  return data?.data ?? data;
+};
+
+const requireId = (id: string | undefined) => {
+  if (!id) throw new Error("Invalid corporate action ID");
+};
+
+// Get every recorded corporate action, latest ex-date first
+export const fetchCorporateActions = async (): Promise<CorporateAction[]> => {
+  const actions = await requestCorporateActions<CorporateAction[]>(
+    `${API_BASE_URL}/api/corporate-actions`,
+    {},
+    "Failed to fetch corporate actions"
+  );
+  return (Array.isArray(actions) ? actions : []).sort((a, b) => b.exDate.localeCompare(a.exDate));
+};
+
+// Record a corporate action; nothing is adjusted until it is applied
+export const createCorporateAction = async (action: CreateCorporateActionRequest): Promise<CorporateAction> =>
+  requestCorporateActions(
+    `${API_BASE_URL}/api/corporate-actions`,
+    { method: "POST", body: JSON.stringify(action) },
+    "Failed to record corporate action"
+  );
+
+export const updateCorporateAction = async (
+  id: string,
+  action: Partial<Omit<CorporateAction, "_id">>
+): Promise<CorporateAction> => {
+  requireId(id);
+  return requestCorporateActions(
+    `${API_BASE_URL}/api/corporate-actions/${id}`,
+    { method: "PATCH", body: JSON.stringify(action) },
+    "Failed to update corporate action"
+  );
+};
+
+export const deleteCorporateAction = async (id: string): Promise<void> => {
+  requireId(id);
+  await requestCorporateActions(
+    `${API_BASE_URL}/api/corporate-actions/${id}`,
+    { method: "DELETE" },
+    "Failed to delete corporate action"
+  );
+};
+
+// Get the applications of a corporate action, newest first
+export const fetchCorporateActionAudit = async (id: string): Promise<CorporateActionAudit[]> => {
+  requireId(id);
+  const audit = await requestCorporateActions<CorporateActionAudit[]>(
+    `${API_BASE_URL}/api/corporate-actions/${id}/audit`,
+    {},
+    "Failed to fetch corporate action audit"
+  );
+  return (Array.isArray(audit) ? audit : []).sort((a, b) => b.appliedAt.localeCompare(a.appliedAt));
+};
+
+export const recordCorporateActionAudit = async (
+  id: string,
+  audit: CreateCorporateActionAuditRequest
+): Promise<CorporateActionAudit> => {
+  requireId(id);
+  return requestCorporateActions(
+    `${API_BASE_URL}/api/corporate-actions/${id}/audit`,
+    { method: "POST", body: JSON.stringify(audit) },
+    "Failed to record corporate action audit"
+  );
+};
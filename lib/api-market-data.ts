@@ -0,0 +1,127 @@
+// lib/api-market-data.ts
+// Browser access to the price provider through the app's /api/market-data routes
+import { fetchWithAuth } from "@/lib/auth";
+import type { PricePoint, StockOhlc, StockPriceUpdateResult, StockSymbol } from "@/lib/api-stock-symbols";
+import type { PriceValidationResult } from "@/lib/market-data";
+import {
+  DEFAULT_EXCHANGE,
+  toInstrumentKey,
+  type CandleInterval,
+  type InstrumentRef,
+  type PriceCandle,
+  type PriceOhlc,
+  type PriceQuote,
+} from "@/lib/price-provider";
+
+// =================================================================
+// REQUESTS
+// =================================================================
+
+const requestMarketData = async <T>(path: string, init: RequestInit, failureMessage: string): Promise<T> => {
+  const response = await fetchWithAuth(path, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.message || `${failureMessage}: ${response.status}`);
+  }
+  return response.json();
+};
+
+export const fetchProviderQuotes = async (instruments: InstrumentRef[]): Promise<Record<string, PriceQuote>> => {
+  const keys = instruments.map(toInstrumentKey).join(",");
+  const { prices } = await requestMarketData<{ prices: Record<string, PriceQuote> }>(
+    `/api/market-data/quotes?instruments=${encodeURIComponent(keys)}`,
+    {},
+    "Failed to fetch provider quotes"
+  );
+  return prices;
+};
+
+export const fetchProviderCandles = async (
+  instrument: InstrumentRef,
+  interval: CandleInterval,
+  from: string,
+  to: string
+): Promise<PriceCandle[]> => {
+  const params = new URLSearchParams({ instrument: toInstrumentKey(instrument), interval, from, to });
+  const { candles } = await requestMarketData<{ candles: PriceCandle[] }>(
+    `/api/market-data/candles?${params}`,
+    {},
+    "Failed to fetch provider candles"
+  );
+  return candles;
+};
+
+// Updates every stock symbol's price from the provider instead of the backend's job
+export const syncPricesFromProvider = (): Promise<StockPriceUpdateResult> =>
+  requestMarketData("/api/market-data/update-prices", { method: "POST" }, "Failed to update prices from provider");
+
+// Backend prices that differ from the provider's, for the stock symbols screen's price check
+export const validatePricesWithProvider = (tolerancePercent?: number): Promise<PriceValidationResult> =>
+  requestMarketData(
+    `/api/market-data/validate${tolerancePercent ? `?tolerance=${tolerancePercent}` : ""}`,
+    {},
+    "Failed to validate prices"
+  );
+
+// =================================================================
+// CONVERSIONS
+// =================================================================
+
+export const toStockOhlc = (ohlc: PriceOhlc): StockOhlc => ({
+  open: String(ohlc.open),
+  high: String(ohlc.high),
+  low: String(ohlc.low),
+  close: String(ohlc.close),
+});
+
+/**
+ * A stock symbol built from a provider quote, for screens that need a price
+ * when the backend cannot supply one.
+ */
+export const quoteToStockSymbol = (quote: PriceQuote, name?: string): StockSymbol => ({
+  symbol: quote.symbol,
+  exchange: quote.exchange,
+  name: name || quote.symbol,
+  currentPrice: String(quote.lastPrice),
+  previousPrice: String(quote.ohlc.close),
+  ohlc: toStockOhlc(quote.ohlc),
+  lastPriceUpdate: quote.timestamp || new Date().toISOString(),
+  volume: quote.volume !== undefined ? String(quote.volume) : undefined,
+});
+
+// Candles in the shape of a stock symbol's price history
+const candlesToPriceHistory = (candles: PriceCandle[]): PricePoint[] =>
+  candles.map((candle) => ({
+    timestamp: candle.date,
+    price: String(candle.close),
+    open: String(candle.open),
+    high: String(candle.high),
+    low: String(candle.low),
+    volume: String(candle.volume),
+  }));
+
+/**
+ * Adds the provider's daily candles to a stock symbol's price history for
+ * days the backend has no price for. Without a provider, or when it has no
+ * candles for the symbol, the stock is returned as it is.
+ */
+export const withProviderPriceHistory = async (stock: StockSymbol, from: string, to: string): Promise<StockSymbol> => {
+  try {
+    const candles = await fetchProviderCandles(
+      { exchange: stock.exchange || DEFAULT_EXCHANGE, symbol: stock.symbol },
+      "day",
+      from,
+      to
+    );
+    const known = new Set((stock.priceHistory || []).map((point) => point.timestamp.slice(0, 10)));
+    return {
+      ...stock,
+      priceHistory: [
+        ...(stock.priceHistory || []),
+        ...candlesToPriceHistory(candles).filter((point) => !known.has(point.timestamp.slice(0, 10))),
+      ],
+    };
+  } catch {
+    return stock;
+  }
+};
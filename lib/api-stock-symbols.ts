@@ -1,5 +1,7 @@
 // lib\api-stock-symbols.ts
 import { API_BASE_URL, getAdminAccessToken } from "@/lib/auth";
+import { fetchProviderQuotes, quoteToStockSymbol, syncPricesFromProvider } from "@/lib/api-market-data";
+import { DEFAULT_EXCHANGE } from "@/lib/price-provider";
 
 export interface StockSymbol {
   _id?: string;
@@ -16,11 +18,34 @@ export interface StockSymbol {
   marketStatus?: 'OPEN' | 'CLOSED' | 'PRE_MARKET' | 'AFTER_HOURS';
   volume?: string;
   marketCap?: string;
+  ohlc?: StockOhlc;
+  // Listing details from the exchange instrument master; see lib/instrument-master
+  isin?: string;
+  series?: string;
+  lotSize?: number;
+  sector?: string;
+  listingStatus?: ListingStatus;
+  // Tickers the stock traded under before a corporate rename
+  previousSymbols?: string[];
 }
 
+export type ListingStatus = "ACTIVE" | "SUSPENDED" | "DELISTED";
+
+// Current session's open, high and low; close is the previous session's close
+export interface StockOhlc {
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+}
+
+// `price` is the close for daily points and the last trade for intraday ones
 export interface PricePoint {
   timestamp: string;
   price: string;
+  open?: string;
+  high?: string;
+  low?: string;
   volume?: string;
 }
 
@@ -30,6 +55,11 @@ export interface CreateStockSymbolRequest {
   name: string;
   currentPrice: string;
   previousPrice?: string;
+  isin?: string;
+  series?: string;
+  lotSize?: number;
+  sector?: string;
+  listingStatus?: ListingStatus;
 }
 
 export interface UpdateStockSymbolRequest {
@@ -38,6 +68,15 @@ export interface UpdateStockSymbolRequest {
   name?: string;
   currentPrice?: string;
   previousPrice?: string;
+  isin?: string;
+  series?: string;
+  lotSize?: number;
+  sector?: string;
+  listingStatus?: ListingStatus;
+  previousSymbols?: string[];
+  ohlc?: StockOhlc;
+  // Replaced whole, e.g. when a corporate action back-adjusts past prices
+  priceHistory?: PricePoint[];
 }
 
 export interface StockSymbolsResponse {
@@ -85,9 +124,19 @@ let connectionStatus: ConnectionStatus = {
   retryCount: 0,
 };
 
-// WebSocket connection for real-time updates
-let wsConnection: WebSocket | null = null;
-let wsReconnectTimeout: NodeJS.Timeout | null = null;
+// Server-Sent Events stream of price changes, shared by every screen in the
+// tab. It is read with fetch because EventSource cannot send the admin token
+let priceStream: AbortController | null = null;
+let priceStreamInterval = 30000;
+let streamRetryTimeout: ReturnType<typeof setTimeout> | null = null;
+// Interval polling, used once the stream is refused or keeps dropping
+let pricePollTimer: ReturnType<typeof setInterval> | null = null;
+
+const STREAM_RETRY_BASE_MS = 2000;
+const STREAM_RETRY_MAX_MS = 60000;
+const MAX_STREAM_RETRIES = 5;
+// Every polling tab hits the backend itself, so the fallback never polls faster than this
+const MIN_FALLBACK_POLL_MS = 30000;
 
 // Real-time update callbacks
 const realtimeCallbacks = new Set<(data: StockSymbol[]) => void>();
@@ -121,91 +170,160 @@ const fetchWithErrorHandling = async (url: string, options?: RequestInit): Promi
   }
 };
 
-// WebSocket connection management
-export const initializeRealtimeConnection = (onUpdate?: (data: StockSymbol[]) => void) => {
-  const wsUrl = API_BASE_URL.replace('http', 'ws') + '/ws/stock-prices';
-  
-  try {
-    wsConnection = new WebSocket(wsUrl);
-    
-    wsConnection.onopen = () => {
+// Price stream management. The app's own /api/stock-symbols/stream route
+// polls the backend once for every open tab and sends only the changes
+const notifyRealtimeCallbacks = (stocks: StockSymbol[]) => {
+  realtimeCallbacks.forEach((callback) => {
+    try {
+      callback(stocks);
+    } catch (error) {
+      console.error("Realtime price callback failed:", error);
+    }
+  });
+};
 
-      connectionStatus.isConnected = true;
-      connectionStatus.retryCount = 0;
-      
-      // Send authentication
-      const token = getAdminAccessToken();
-      if (token) {
-        wsConnection?.send(JSON.stringify({ type: 'auth', token }));
-      }
-    };
-    
-    wsConnection.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        if (data.type === 'priceUpdate' && data.stocks) {
-          // Notify all registered callbacks
-          realtimeCallbacks.forEach(callback => {
-            try {
-              callback(data.stocks);
-            } catch (error) {
-      
-            }
-          });
-          
-          // Call specific update callback if provided
-          if (onUpdate) {
-            onUpdate(data.stocks);
-          }
-        }
-      } catch (error) {
+const handleStreamEvent = (type: string, data: string) => {
+  // The hub could not reach the backend; the stream itself is still open
+  if (type === "failure") {
+    connectionStatus.isConnected = false;
+    return;
+  }
+  if (type !== "snapshot" && type !== "diff") return;
 
-      }
-    };
-    
-    wsConnection.onclose = () => {
+  try {
+    const event: { stocks?: StockSymbol[]; updatedAt?: string } = JSON.parse(data);
+    connectionStatus.isConnected = true;
+    connectionStatus.retryCount = 0;
+    connectionStatus.lastPing = event.updatedAt ? new Date(event.updatedAt) : new Date();
+    if (event.stocks?.length) notifyRealtimeCallbacks(event.stocks);
+  } catch (error) {
+    console.error("Invalid price stream message:", error);
+  }
+};
 
-      connectionStatus.isConnected = false;
-      
-      // Attempt to reconnect after 5 seconds
-      wsReconnectTimeout = setTimeout(() => {
-        if (connectionStatus.retryCount < 5) {
-
-          initializeRealtimeConnection(onUpdate);
-        }
-      }, 5000);
-    };
-    
-    wsConnection.onerror = (error) => {
+// Reads Server-Sent Events until the server ends the response
+const readPriceStream = async (body: ReadableStream<Uint8Array>) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() ?? "";
+
+    messages.forEach((message) => {
+      let type = "message";
+      const data: string[] = [];
+      message.split("\n").forEach((line) => {
+        if (line.startsWith("event:")) type = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      });
+      if (data.length > 0) handleStreamEvent(type, data.join("\n"));
+    });
+  }
+};
 
+const startPricePolling = () => {
+  if (pricePollTimer) return;
+  const poll = async () => {
+    try {
+      const stocks = await fetchAllStockSymbols();
+      connectionStatus.isConnected = true;
+      connectionStatus.lastPing = new Date();
+      notifyRealtimeCallbacks(stocks);
+    } catch (error) {
       connectionStatus.isConnected = false;
-    };
-  } catch (error) {
+      console.error("Price polling failed:", error);
+    }
+  };
+  void poll();
+  pricePollTimer = setInterval(poll, Math.max(priceStreamInterval, MIN_FALLBACK_POLL_MS));
+};
 
-    connectionStatus.isConnected = false;
+const stopPriceFeed = () => {
+  priceStream?.abort();
+  priceStream = null;
+  if (streamRetryTimeout) clearTimeout(streamRetryTimeout);
+  streamRetryTimeout = null;
+  if (pricePollTimer) clearInterval(pricePollTimer);
+  pricePollTimer = null;
+};
+
+/**
+ * Reconnects after a dropped stream with exponential backoff. A refused
+ * stream (not signed in) or one that keeps failing falls back to polling.
+ */
+const retryPriceStream = (refused: boolean) => {
+  priceStream = null;
+  connectionStatus.isConnected = false;
+  connectionStatus.retryCount++;
+  if (refused || connectionStatus.retryCount > MAX_STREAM_RETRIES) {
+    startPricePolling();
+    return;
   }
+  const delay = Math.min(STREAM_RETRY_MAX_MS, STREAM_RETRY_BASE_MS * 2 ** (connectionStatus.retryCount - 1));
+  streamRetryTimeout = setTimeout(openPriceStream, delay);
 };
 
-export const closeRealtimeConnection = () => {
-  if (wsConnection) {
-    wsConnection.close();
-    wsConnection = null;
+const openPriceStream = async () => {
+  streamRetryTimeout = null;
+  const adminToken = getAdminAccessToken();
+  if (!adminToken) {
+    retryPriceStream(true);
+    return;
   }
-  
-  if (wsReconnectTimeout) {
-    clearTimeout(wsReconnectTimeout);
-    wsReconnectTimeout = null;
+
+  const controller = new AbortController();
+  priceStream = controller;
+  try {
+    const response = await fetch(`/api/stock-symbols/stream?interval=${priceStreamInterval}`, {
+      headers: { Accept: "text/event-stream", Authorization: `Bearer ${adminToken}` },
+      cache: "no-store",
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) {
+      if (!controller.signal.aborted) retryPriceStream(response.status === 401 || response.status === 403);
+      return;
+    }
+    await readPriceStream(response.body);
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error("Price stream failed:", error);
   }
-  
+  // The server or the network ended the stream
+  if (priceStream === controller) retryPriceStream(false);
+};
+
+export const initializeRealtimeConnection = (interval: number = priceStreamInterval) => {
+  if (typeof window === "undefined") return;
+
+  // Several screens may ask for the feed; reuse one at the same interval
+  if ((priceStream || streamRetryTimeout || pricePollTimer) && interval === priceStreamInterval) return;
+  stopPriceFeed();
+  priceStreamInterval = interval;
+  connectionStatus.retryCount = 0;
+  void openPriceStream();
+};
+
+export const closeRealtimeConnection = () => {
+  stopPriceFeed();
   realtimeCallbacks.clear();
 };
 
+/**
+ * Registers a callback for changed prices and opens the stream if needed.
+ * The stream is closed once the last callback unsubscribes.
+ */
 export const subscribeToRealtimeUpdates = (callback: (data: StockSymbol[]) => void) => {
   realtimeCallbacks.add(callback);
-  
+  initializeRealtimeConnection();
+
   return () => {
     realtimeCallbacks.delete(callback);
+    if (realtimeCallbacks.size === 0) stopPriceFeed();
   };
 };
 
@@ -254,8 +372,24 @@ export const searchStockSymbols = async (keyword: string): Promise<StockSymbol[]
   }
 };
 
+// In the browser, backend failures fall back to the price provider through
+// the app's own routes; on the server the caller decides (see lib/market-data.ts)
+const canFallBackToProvider = () => typeof window !== "undefined";
+
 // Get stock symbol details by symbol
 export const fetchStockSymbolBySymbol = async (symbol: string): Promise<StockSymbol> => {
+  try {
+    return await fetchBackendStockSymbol(symbol);
+  } catch (error) {
+    if (!canFallBackToProvider() || !symbol) throw error;
+    const quotes = await fetchProviderQuotes([{ exchange: DEFAULT_EXCHANGE, symbol }]).catch(() => ({}));
+    const quote = Object.values(quotes)[0];
+    if (!quote) throw error;
+    return quoteToStockSymbol(quote);
+  }
+};
+
+const fetchBackendStockSymbol = async (symbol: string): Promise<StockSymbol> => {
   try {
     if (!symbol) {
       throw new Error("Stock symbol is required");
@@ -297,6 +431,18 @@ export const fetchStockSymbolBySymbol = async (symbol: string): Promise<StockSym
 
 // Update all stock prices with enhanced monitoring
 export const updateStockPrices = async (): Promise<StockPriceUpdateResult> => {
+  try {
+    return await runBackendPriceUpdate();
+  } catch (error) {
+    if (!canFallBackToProvider()) throw error;
+    console.error("Backend price update failed, using the price provider:", error);
+    return syncPricesFromProvider().catch(() => {
+      throw error;
+    });
+  }
+};
+
+const runBackendPriceUpdate = async (): Promise<StockPriceUpdateResult> => {
   try {
     const adminToken = getAdminAccessToken();
     if (!adminToken) {
@@ -333,9 +479,9 @@ export const updateStockPrices = async (): Promise<StockPriceUpdateResult> => {
 };
 
 // Get all stock symbols
-export const fetchAllStockSymbols = async (): Promise<StockSymbol[]> => {
+export const fetchAllStockSymbols = async (accessToken?: string): Promise<StockSymbol[]> => {
   try {
-    const adminToken = getAdminAccessToken();
+    const adminToken = accessToken || getAdminAccessToken();
     if (!adminToken) {
       throw new Error("Admin authentication required");
     }
@@ -494,13 +640,17 @@ export const fetchStockSymbolById = async (id: string): Promise<StockSymbol> =>
 };
 
 // Update a stock symbol
-export const updateStockSymbol = async (id: string, stockData: UpdateStockSymbolRequest): Promise<StockSymbol> => {
+export const updateStockSymbol = async (
+  id: string,
+  stockData: UpdateStockSymbolRequest,
+  accessToken?: string
+): Promise<StockSymbol> => {
   try {
     if (!id) {
       throw new Error("Stock symbol ID is required");
     }
 
-    const adminToken = getAdminAccessToken();
+    const adminToken = accessToken || getAdminAccessToken();
     if (!adminToken) {
       throw new Error("Admin authentication required");
     }
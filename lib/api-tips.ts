@@ -1,5 +1,8 @@
 // lib\api-tips.ts  
-import { API_BASE_URL, fetchWithAuth } from "@/lib/auth";
+import { API_BASE_URL, fetchWithToken, getAdminIdentity } from "@/lib/auth";
+import { diffTipRequests } from "@/lib/tip-revisions";
+import { toTipQueryParams, type TipPage, type TipQuery } from "@/lib/tip-query";
+import { migrateTipPriceFields, parseTipPriceLevels, type TipPriceLevels } from "@/lib/tip-price-levels";
 
 // Content for Tips (key-value pairs)
 export interface TipContent {
@@ -7,6 +10,10 @@ export interface TipContent {
   value: string;
 }
 
+// Draft and scheduled tips stay hidden from subscribers until published;
+// tips without a publish state were published when created
+export type TipPublishState = "draft" | "scheduled" | "published";
+
 // Tip Types
 export interface Tip {
   _id: string;
@@ -39,11 +46,21 @@ export interface Tip {
     name: string;
     url: string;
   }>;
+  publishState?: TipPublishState;
+  publishAt?: string;
+  // Set when the tip's status changes to Closed; later edits leave it alone
+  closedAt?: string;
+  // Published but subscribers not yet notified; see lib/tip-schedule
+  notificationPending?: boolean;
+  // Parsed from the price fields on read; see lib/tip-price-levels
+  priceLevels?: TipPriceLevels;
   createdAt: string;
   updatedAt: string;
 }
 
 export interface CreateTipRequest {
+  // Portfolio the tip belongs to; null moves it to the general tips
+  portfolio?: string | null;
   title: string;
   stockId: string;
   stockSymbol?: string;
@@ -70,336 +87,362 @@ export interface CreateTipRequest {
     name: string;
     url: string;
   }>;
+  publishState?: TipPublishState;
+  publishAt?: string;
+  closedAt?: string;
+  notificationPending?: boolean;
 }
 
-// Get a single tip by ID
-export const fetchTipById = async (id: string): Promise<Tip> => {
-  try {
-    if (!id) {
-      throw new Error("Invalid tip ID");
-    }
-
-
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${id}`);
+// A recorded edit of a tip: who made it, when, and each changed field
+export interface TipFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
 
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error(
-          "Server returned an HTML response instead of JSON. The tip might not exist."
-        );
-      }
+export interface TipRevision {
+  _id?: string;
+  tip: string;
+  editedAt: string;
+  // Read by the editor's browser from its own token without verification, so
+  // it names who the client claims to be rather than proving it
+  editedBy: string;
+  changes: TipFieldChange[];
+  // Full tip as saved by this revision, used to restore it
+  snapshot: CreateTipRequest;
+  note?: string;
+}
 
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch tip details");
-    }
+export type CreateTipRevisionRequest = Omit<TipRevision, "_id">;
 
-    const tip = await response.json();
-    return {
-      ...tip,
-      id: tip._id || tip.id,
-      content: Array.isArray(tip.content) ? tip.content : 
-               typeof tip.content === 'string' ? [{ key: "Content", value: tip.content }] : [],
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    };
-  } catch (error) {
+// A tip as saved by updateTip. The edit is live even when its revision could
+// not be recorded; `revisionError` then says why, so the caller can warn the analyst
+export type UpdatedTip = Tip & { revisionError?: string };
 
-    throw error;
-  }
+// Older tips store content as a plain string; both reads and writes use the entry array
+const normalizeContent = (content: unknown): TipContent[] => {
+  if (Array.isArray(content)) return content.filter((entry) => entry && typeof entry.key === "string");
+  if (typeof content === "string" && content.trim()) return [{ key: "main", value: content }];
+  return [];
 };
 
-// Update an existing tip
-export const updateTip = async (
-  id: string,
-  tipData: CreateTipRequest
-): Promise<Tip> => {
-  try {
-    if (!id) {
-      throw new Error("Invalid tip ID");
-    }
-
-
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${id}`, {
-      method: "PUT",
-      body: JSON.stringify(tipData),
-    });
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error(
-          "Server returned an HTML response instead of JSON. The tip might not exist."
-        );
-      }
+// Links without a name or URL cannot be downloaded, so they are dropped
+const normalizeDownloadLinks = <T extends { name: string; url: string }>(links: unknown): T[] =>
+  Array.isArray(links) ? links.filter((link) => link?.name?.trim() && link?.url?.trim()) : [];
 
-      const error = await response.json();
-      throw new Error(error.message || "Failed to update tip");
-    }
+// Reusable starting point for new tips: content entries, description
+// boilerplate, disclaimer and download links
+export interface TipTemplate {
+  _id: string;
+  id: string;
+  name: string;
+  category?: "basic" | "premium" | "social_media";
+  content: TipContent[];
+  description: string;
+  disclaimer: string;
+  downloadLinks: Array<{
+    name: string;
+    url: string;
+  }>;
+  createdAt: string;
+  updatedAt: string;
+}
 
-    const tip = await response.json();
-    return {
-      ...tip,
-      id: tip._id || tip.id,
-      content: Array.isArray(tip.content) ? tip.content : 
-               typeof tip.content === 'string' ? [{ key: "Content", value: tip.content }] : [],
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    };
-  } catch (error) {
+export type CreateTipTemplateRequest = Omit<TipTemplate, "_id" | "id" | "createdAt" | "updatedAt">;
+
+// Shape a tip from the API: id, content and download links in their array
+// forms and price fields migrated onto the structured model
+const normalizeTip = (tip: any): Tip =>
+  migrateTipPriceFields({
+    ...tip,
+    id: tip._id || tip.id,
+    // Handle portfolio field (could be ObjectId or undefined for RangaOne Wealth)
+    portfolio: tip.portfolio || undefined,
+    content: normalizeContent(tip.content),
+    downloadLinks: normalizeDownloadLinks(tip.downloadLinks),
+  });
 
-    throw error;
+// Full update request carrying over every editable field of a tip
+export const toCreateTipRequest = (tip: Tip): CreateTipRequest => ({
+  portfolio: tip.portfolio,
+  title: tip.title,
+  stockId: tip.stockId,
+  stockSymbol: tip.stockSymbol,
+  stockName: tip.stockName,
+  category: tip.category,
+  content: tip.content,
+  description: tip.description,
+  status: tip.status,
+  action: tip.action,
+  buyRange: tip.buyRange,
+  targetPrice: tip.targetPrice,
+  targetPercentage: tip.targetPercentage,
+  addMoreAt: tip.addMoreAt,
+  tipUrl: tip.tipUrl,
+  exitPrice: tip.exitPrice,
+  exitStatus: tip.exitStatus,
+  exitStatusPercentage: tip.exitStatusPercentage,
+  exitedPrice: tip.exitedPrice,
+  stopLoss: tip.stopLoss,
+  horizon: tip.horizon,
+  analysistConfidence: tip.analysistConfidence,
+  mpWeightage: tip.mpWeightage,
+  downloadLinks: tip.downloadLinks?.map(({ name, url }) => ({ name, url })),
+  publishState: tip.publishState,
+  publishAt: tip.publishAt,
+  closedAt: tip.closedAt,
+  notificationPending: tip.notificationPending,
+});
+
+// =================================================================
+// ERRORS
+// =================================================================
+
+export type TipApiErrorKind = "invalid_input" | "unauthorized" | "not_found" | "validation" | "server" | "network";
+
+// Every tips client function throws this, so callers can tell a missing tip
+// from a rejected edit or an unreachable server
+export class TipApiError extends Error {
+  readonly kind: TipApiErrorKind;
+  readonly status?: number;
+  readonly details?: unknown;
+
+  constructor(kind: TipApiErrorKind, message: string, status?: number, details?: unknown) {
+    super(message);
+    this.name = "TipApiError";
+    this.kind = kind;
+    this.status = status;
+    this.details = details;
   }
+}
+
+const kindForStatus = (status: number): TipApiErrorKind => {
+  if (status === 401 || status === 403) return "unauthorized";
+  if (status === 404) return "not_found";
+  if (status === 400 || status === 422) return "validation";
+  return "server";
 };
 
-// Delete a tip
-export const deleteTip = async (id: string): Promise<{ message: string }> => {
+// Sends a tips API request and returns the parsed body, turning every failure into a TipApiError.
+// With an access token the request is sent as that admin rather than with the stored token
+const requestTips = async <T>(url: string, init: RequestInit, failureMessage: string, accessToken?: string): Promise<T> => {
+  let response: Response;
   try {
-    if (!id) {
-      throw new Error("Invalid tip ID");
-    }
-
-
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${id}`, {
-      method: "DELETE",
-    });
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error(
-          "Server returned an HTML response instead of JSON. The tip might not exist."
-        );
-      }
-
-      const error = await response.json();
-      throw new Error(error.message || "Failed to delete tip");
-    }
-
-    return await response.json();
+    response = await fetchWithToken(url, accessToken, init);
   } catch (error) {
-
-    throw error;
+    throw new TipApiError("network", error instanceof Error ? error.message : failureMessage);
   }
-};
 
-// Create a new tip under a portfolio (for portfolio-specific tips)
-export const createTip = async (
-  portfolioId: string,
-  tipData: CreateTipRequest
-): Promise<Tip> => {
-  try {
-    if (!portfolioId) {
-      throw new Error("Invalid portfolio ID");
+  if (!response.ok) {
+    const contentType = response.headers.get("content-type");
+    if (contentType && contentType.includes("text/html")) {
+      throw new TipApiError(
+        kindForStatus(response.status),
+        `${failureMessage}: the server returned an HTML page instead of JSON`,
+        response.status
+      );
     }
+    const body = await response.json().catch(() => ({}));
+    throw new TipApiError(kindForStatus(response.status), body.message || body.error || failureMessage, response.status, body.errors);
+  }
 
+  return await response.json();
+};
 
+const requireId = (id: string | undefined, label: string) => {
+  if (!id || id === "undefined") throw new TipApiError("invalid_input", `Invalid ${label} ID`);
+};
 
-    // Ensure content is properly formatted as an array
-    if (!Array.isArray(tipData.content) || tipData.content.length === 0) {
-      tipData.content = [{ key: "main", value: tipData.description || "No content provided" }];
-    }
+// Defaults shared by every create: active, long term, no empty download links
+const prepareNewTip = (tipData: CreateTipRequest): CreateTipRequest => {
+  const content = normalizeContent(tipData.content);
+  return {
+    ...tipData,
+    content: content.length > 0 ? content : [{ key: "main", value: tipData.description || "No content provided" }],
+    status: tipData.status || "Active",
+    horizon: tipData.horizon || "Long Term",
+    downloadLinks: normalizeDownloadLinks(tipData.downloadLinks),
+    closedAt: tipData.status === "Closed" ? tipData.closedAt || new Date().toISOString() : undefined,
+  };
+};
 
-    // Ensure required fields are present
-    const processedTipData = {
-      ...tipData,
-      status: tipData.status || "Active",
-      horizon: tipData.horizon || "Long Term",
-    };
-
-    const response = await fetchWithAuth(
-      `${API_BASE_URL}/api/tips/portfolios/${portfolioId}/tips`,
-      {
-        method: "POST",
-        body: JSON.stringify(processedTipData),
-      }
-    );
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error(
-          "Server returned an HTML response instead of JSON. The portfolio might not exist."
-        );
-      }
-
-      const error = await response.json();
-
-      throw new Error(error.message || "Failed to create tip");
-    }
+// Rejects a write whose fields or price levels do not validate. For edits,
+// problems the saved tip already had are let through so older tips with
+// free-text levels can still be closed or recategorised
+const assertValidTip = (tipData: CreateTipRequest, current?: CreateTipRequest) => {
+  const known = new Set(current ? validateTipData(current) : []);
+  const errors = validateTipData(tipData).filter((error) => !known.has(error));
+  if (errors.length > 0) throw new TipApiError("validation", errors[0], undefined, errors);
+};
 
-    const tip = await response.json();
+// Stamps the close date when an edit closes a tip. Tips closed before the
+// stamp existed get their last update as it, before this edit moves that on
+const stampClosedAt = (current: Tip, tipData: CreateTipRequest): CreateTipRequest => {
+  if (tipData.status !== "Closed") return tipData;
+  const closedAt =
+    current.status === "Closed" ? current.closedAt || current.updatedAt || new Date().toISOString() : new Date().toISOString();
+  return { ...tipData, closedAt };
+};
 
-    return {
-      ...tip,
-      id: tip._id || tip.id,
-      content: Array.isArray(tip.content) ? tip.content : 
-               typeof tip.content === 'string' ? [{ key: "Content", value: tip.content }] : [],
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    };
-  } catch (error) {
+// =================================================================
+// TIPS CLIENT
+// =================================================================
 
-    throw error;
-  }
+// Get a single tip by ID
+export const fetchTipById = async (id: string): Promise<Tip> => {
+  requireId(id, "tip");
+  return normalizeTip(await requestTips(`${API_BASE_URL}/api/tips/${id}`, {}, "Failed to fetch tip details"));
 };
 
-// Get all tips for a portfolio (for portfolio-specific tips)
-export const fetchPortfolioTips = async (
-  portfolioId: string
-): Promise<Tip[]> => {
+// Update an existing tip. Once the update is saved the edit is recorded as
+// a revision, so the history only holds changes that actually happened
+export const updateTip = async (
+  id: string,
+  tipData: CreateTipRequest,
+  options: { note?: string } = {}
+): Promise<UpdatedTip> => {
+  requireId(id, "tip");
+
+  const current = await fetchTipById(id);
+  tipData = stampClosedAt(current, tipData);
+  assertValidTip(tipData, toCreateTipRequest(current));
+  const changes = diffTipRequests(toCreateTipRequest(current), tipData);
+
+  const tip = normalizeTip(
+    await requestTips(`${API_BASE_URL}/api/tips/${id}`, { method: "PUT", body: JSON.stringify(tipData) }, "Failed to update tip")
+  );
+  if (changes.length === 0) return tip;
+
+  // The edit is already saved, so throwing would make callers retry a change
+  // that went through; a missing revision comes back as a warning instead
   try {
-    if (!portfolioId || portfolioId === "undefined") {
-      throw new Error("Invalid portfolio ID");
-    }
-
-
-
-    const response = await fetchWithAuth(
-      `${API_BASE_URL}/api/tips/portfolios/${portfolioId}/tips`
-    );
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned an HTML response instead of JSON");
-      }
-
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch portfolio tips");
-    }
-
-    const tips = await response.json();
-    
-    // Ensure all tips have proper structure and an id property
-    return tips.map((tip: any) => ({
-      ...tip,
-      id: tip._id || tip.id,
-      content: Array.isArray(tip.content) ? tip.content : 
-               typeof tip.content === 'string' ? [{ key: "Content", value: tip.content }] : [],
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    }));
+    await recordTipRevision(id, {
+      tip: id,
+      editedAt: new Date().toISOString(),
+      editedBy: getAdminIdentity(),
+      changes,
+      snapshot: tipData,
+      note: options.note,
+    });
+    return tip;
   } catch (error) {
-
-    throw error;
+    const reason = error instanceof Error ? error.message : "unknown error";
+    return { ...tip, revisionError: `Tip saved, but its revision could not be recorded: ${reason}` };
   }
 };
 
-// Get all tips (both portfolio-specific and general) - ENHANCED FOR UNIFIED VIEW
-export const fetchAllTips = async (): Promise<Tip[]> => {
-  try {
-
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/tips`);
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned an HTML response instead of JSON");
-      }
-
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch tips");
-    }
-
-    const tips = await response.json();
-
-    
-    // Ensure all tips have proper structure and an id property
-    return tips.map((tip: any) => ({
-      ...tip,
-      id: tip._id || tip.id,
-      // Handle portfolio field (could be ObjectId or undefined for RangaOne Wealth)
-      portfolio: tip.portfolio || undefined,
-      content: Array.isArray(tip.content) ? tip.content : 
-               typeof tip.content === 'string' ? [{ key: "Content", value: tip.content }] : [],
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    }));
-  } catch (error) {
+// Get the revision history of a tip, newest first
+export const fetchTipRevisions = async (tipId: string): Promise<TipRevision[]> => {
+  requireId(tipId, "tip");
+  const revisions = await requestTips<TipRevision[]>(`${API_BASE_URL}/api/tips/${tipId}/revisions`, {}, "Failed to fetch tip revisions");
+  return revisions.sort((a, b) => b.editedAt.localeCompare(a.editedAt));
+};
 
-    throw error;
-  }
+// Record a revision of a tip
+export const recordTipRevision = async (tipId: string, revision: CreateTipRevisionRequest): Promise<TipRevision> => {
+  requireId(tipId, "tip");
+  return requestTips<TipRevision>(
+    `${API_BASE_URL}/api/tips/${tipId}/revisions`,
+    { method: "POST", body: JSON.stringify(revision) },
+    "Failed to record tip revision"
+  );
 };
 
-// Create a general tip (not tied to a portfolio) - ENHANCED FOR RangaOne Wealth
-export const createGeneralTip = async (
-  tipData: CreateTipRequest
-): Promise<Tip> => {
-  try {
+// Delete a tip
+export const deleteTip = async (id: string): Promise<{ message: string }> => {
+  requireId(id, "tip");
+  return requestTips(`${API_BASE_URL}/api/tips/${id}`, { method: "DELETE" }, "Failed to delete tip");
+};
 
+// Create a new tip under a portfolio (for portfolio-specific tips)
+export const createTip = async (portfolioId: string, tipData: CreateTipRequest): Promise<Tip> => {
+  requireId(portfolioId, "portfolio");
+  assertValidTip(tipData);
+  const tip = await requestTips(
+    `${API_BASE_URL}/api/tips/portfolios/${portfolioId}/tips`,
+    { method: "POST", body: JSON.stringify(prepareNewTip(tipData)) },
+    "Failed to create tip"
+  );
+  return normalizeTip(tip);
+};
 
-    // Validate required fields for RangaOne Wealth
-    if (!tipData.title?.trim()) {
-      throw new Error("Title is required");
-    }
-    
-    if (!tipData.stockId?.trim()) {
-      throw new Error("Stock symbol is required");
-    }
-    
-    if (!tipData.category) {
-      throw new Error("Category is required");
-    }
+// Get all tips for a portfolio (for portfolio-specific tips)
+export const fetchPortfolioTips = async (portfolioId: string): Promise<Tip[]> => {
+  requireId(portfolioId, "portfolio");
+  const tips = await requestTips<any[]>(`${API_BASE_URL}/api/tips/portfolios/${portfolioId}/tips`, {}, "Failed to fetch portfolio tips");
+  return tips.map(normalizeTip);
+};
 
-    // Handle both string and array content formats
-    if (typeof tipData.content === 'string') {
-      const contentStr = tipData.content as string;
-      if (!contentStr.trim()) {
-        throw new Error("Content is required");
-      }
-      // Convert string content to array format
-      tipData.content = [{ key: "main", value: contentStr }];
-    } else if (Array.isArray(tipData.content)) {
-      if (!tipData.content.length || !tipData.content[0]?.value?.trim()) {
-        throw new Error("Content is required");
-      }
-    } else {
-      throw new Error("Content must be a string or an array of objects");
-    }
-    
-    if (!tipData.description?.trim()) {
-      throw new Error("Description is required");
-    }
+// Get all tips (both portfolio-specific and general). Server routes pass the
+// caller's access token so the backend answers for that admin
+export const fetchAllTips = async (accessToken?: string): Promise<Tip[]> => {
+  const tips = await requestTips<any[]>(`${API_BASE_URL}/api/tips`, {}, "Failed to fetch tips", accessToken);
+  return tips.map(normalizeTip);
+};
 
-    // Ensure default values for RangaOne Wealth
-    const processedTipData = {
-      ...tipData,
-      status: tipData.status || "Active",
-      horizon: tipData.horizon || "Long Term",
-      downloadLinks: tipData.downloadLinks?.filter(link => link.name?.trim() && link.url?.trim()) || [],
-    };
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/tips`, {
-      method: "POST",
-      body: JSON.stringify(processedTipData),
-    });
+// Get one page of tips matching a query. Filtering, search and paging run in
+// this app's /api/tips route rather than in the browser
+export const fetchTipsPage = async (query: TipQuery): Promise<TipPage> => {
+  const page = await requestTips<TipPage>(`/api/tips?${toTipQueryParams(query)}`, {}, "Failed to fetch tips");
+  return { ...page, tips: page.tips.map(normalizeTip) };
+};
 
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error(
-          "Server returned an HTML response instead of JSON"
-        );
-      }
+// Create a general tip (not tied to a portfolio)
+export const createGeneralTip = async (tipData: CreateTipRequest): Promise<Tip> => {
+  assertValidTip(tipData);
 
-      const error = await response.json();
+  const tip = await requestTips(
+    `${API_BASE_URL}/api/tips`,
+    { method: "POST", body: JSON.stringify(prepareNewTip(tipData)) },
+    "Failed to create general tip"
+  );
+  return normalizeTip(tip);
+};
 
-      throw new Error(error.message || "Failed to create general tip");
-    }
+// =================================================================
+// TIP TEMPLATES
+// =================================================================
+
+const normalizeTemplate = (template: any): TipTemplate => ({
+  ...template,
+  id: template._id || template.id,
+  content: normalizeContent(template.content),
+  description: template.description || "",
+  disclaimer: template.disclaimer || "",
+  downloadLinks: normalizeDownloadLinks(template.downloadLinks),
+});
+
+// Get all tip templates, by name
+export const fetchTipTemplates = async (): Promise<TipTemplate[]> => {
+  const templates = await requestTips<any[]>(`${API_BASE_URL}/api/tip-templates`, {}, "Failed to fetch tip templates");
+  return templates.map(normalizeTemplate).sort((a, b) => a.name.localeCompare(b.name));
+};
 
-    const tip = await response.json();
+// Create a tip template
+export const createTipTemplate = async (templateData: CreateTipTemplateRequest): Promise<TipTemplate> => {
+  const template = await requestTips(
+    `${API_BASE_URL}/api/tip-templates`,
+    { method: "POST", body: JSON.stringify(templateData) },
+    "Failed to create tip template"
+  );
+  return normalizeTemplate(template);
+};
 
-    
-    return {
-      ...tip,
-      id: tip._id || tip.id,
-      content: tip.content,
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    };
-  } catch (error) {
+// Update a tip template
+export const updateTipTemplate = async (id: string, templateData: CreateTipTemplateRequest): Promise<TipTemplate> => {
+  requireId(id, "template");
+  const template = await requestTips(
+    `${API_BASE_URL}/api/tip-templates/${id}`,
+    { method: "PUT", body: JSON.stringify(templateData) },
+    "Failed to update tip template"
+  );
+  return normalizeTemplate(template);
+};
 
-    throw error;
-  }
+// Delete a tip template
+export const deleteTipTemplate = async (id: string): Promise<{ message: string }> => {
+  requireId(id, "template");
+  return requestTips(`${API_BASE_URL}/api/tip-templates/${id}`, { method: "DELETE" }, "Failed to delete tip template");
 };
 
 // Helper function for validation - ENHANCED
@@ -439,78 +482,16 @@ export const validateTipData = (data: any): string[] => {
     errors.push("Invalid category value");
   }
 
-  return errors;
-};
-
-// Additional utility functions for RangaOne Wealth management
-
-// Filter tips by various criteria
-export const filterTips = (
-  tips: Tip[],
-  filters: {
-    status?: string;
-    action?: string;
-    stockSymbol?: string;
-    search?: string;
+  if (data.publishState && !["draft", "scheduled", "published"].includes(data.publishState)) {
+    errors.push("Invalid publish state");
   }
-): Tip[] => {
-  return tips.filter(tip => {
-    // Status filter
-    if (filters.status && filters.status !== "all" && tip.status !== filters.status) {
-      return false;
-    }
-
-    // Action filter
-    if (filters.action && filters.action !== "all" && tip.action !== filters.action) {
-      return false;
-    }
 
-    // Stock symbol filter
-    if (filters.stockSymbol && !tip.stockId.toLowerCase().includes(filters.stockSymbol.toLowerCase())) {
-      return false;
-    }
+  if (data.publishState === "scheduled" && (!data.publishAt || isNaN(new Date(data.publishAt).getTime()))) {
+    errors.push("Scheduled tips need a valid publish time");
+  }
 
-    // Search filter
-    if (filters.search) {
-      const searchTerm = filters.search.toLowerCase();
-      const searchFields = [
-        tip.title,
-        tip.stockId,
-        tip.description,
-        tip.content // Assuming content is now a string
-      ].join(" ").toLowerCase();
-      
-      if (!searchFields.includes(searchTerm)) {
-        return false;
-      }
-    }
+  // Price fields must parse and agree with each other (target vs entry, stop-loss vs entry)
+  parseTipPriceLevels(data).issues.forEach((issue) => errors.push(issue.message));
 
-    return true;
-  });
+  return errors;
 };
-
-// Sort tips by various criteria
-export const sortTips = (tips: Tip[], sortBy: "title" | "stockId" | "createdAt" | "status", direction: "asc" | "desc" = "desc"): Tip[] => {
-  return [...tips].sort((a, b) => {
-    let comparison = 0;
-    
-    switch (sortBy) {
-      case "title":
-        comparison = a.title.localeCompare(b.title);
-        break;
-      case "stockId":
-        comparison = a.stockId.localeCompare(b.stockId);
-        break;
-      case "createdAt":
-        comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-        break;
-      case "status":
-        comparison = a.status.localeCompare(b.status);
-        break;
-      default:
-        return 0;
-    }
-    
-    return direction === "asc" ? comparison : -comparison;
-  });
-};
\ No newline at end of file
@@ -110,54 +110,24 @@ export interface CreatePortfolioRequest {
   currentValue?: number;
 }
 
-// Portfolio Tip Types
-export interface TipContent {
-  key: string;
-  value: string;
-}
-
-export interface PortfolioTip {
-  _id: string;
-  id: string;
-  portfolio_id?: string;
-  title: string;
-  stockId: string;
-  content: TipContent[];
-  description: string;
-  status: "Active" | "Closed";
-  action?: "buy" | "sell" | "partial sell" | "partial profit" | "hold";
-  buyRange?: string;
-  targetPrice?: string;
-  targetPercentage?: string;
-  addMoreAt?: string;
-  tipUrl?: string;
-  exitPrice?: string;
-  exitStatus?: string;
-  exitStatusPercentage?: string;
-  horizon?: "Short Term" | "Swing " | "Long Term";
-  downloadLinks?: Array<{ _id?: string; name: string; url: string }>;
-  createdAt: string;
-  updatedAt: string;
+// Portfolio Transaction Types
+export interface PortfolioTransaction {
+  _id?: string;
+  portfolio: string;
+  symbol: string;
+  type: "buy" | "addon-buy" | "partial-sell" | "sell";
+  date: string;
+  price: number;
+  quantity: number; // Shares traded, always positive
+  cashDelta: number; // Negative for buys, positive for sells
+  resultingQuantity: number;
+  resultingWeight: number;
+  realizedPnL?: number;
+  note?: string;
+  createdAt?: string;
 }
 
-export interface CreatePortfolioTipRequest {
-  title: string;
-  stockId: string;
-  content: TipContent[];
-  description: string;
-  status: "Active" | "Closed";
-  action?: "buy" | "sell" | "partial sell" | "partial profit" | "hold";
-  buyRange?: string;
-  targetPrice?: string;
-  targetPercentage?: string;
-  addMoreAt?: string;
-  tipUrl?: string;
-  exitPrice?: string;
-  exitStatus?: string;
-  exitStatusPercentage?: string;
-  horizon?: "Short Term" | "Swing " | "Long Term";
-  downloadLinks?: Array<{ name: string; url: string }>;
-}
+export type CreatePortfolioTransactionRequest = Omit<PortfolioTransaction, "_id" | "createdAt">;
 
 // Config Types
 export interface Config {
@@ -352,68 +322,34 @@ export const removePortfolioDownloadLink = async (portfolioId: string, linkId: s
 };
 
 
-// =================================================================
-// PORTFOLIO TIPS API FUNCTIONS
-// =================================================================
-
 /**
- * Fetches all tips for a specific portfolio.
+ * Fetches the transaction ledger of a portfolio, oldest first.
  */
-export const fetchPortfolioTips = async (portfolioId: string): Promise<PortfolioTip[]> => {
+export const fetchPortfolioTransactions = async (portfolioId: string): Promise<PortfolioTransaction[]> => {
   if (!portfolioId) throw new Error("Invalid portfolio ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/portfolios/${portfolioId}/tips`);
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch portfolio tips");
-  return await response.json();
-};
-
-/**
- * Fetches a single tip by its ID.
- */
-export const fetchTipById = async (tipId: string): Promise<PortfolioTip> => {
-  if (!tipId) throw new Error("Invalid tip ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${tipId}`);
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch tip");
-  return await response.json();
+  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios/${portfolioId}/transactions`);
+  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch portfolio transactions");
+  const data = await response.json();
+  return Array.isArray(data) ? data : data?.data || [];
 };
 
 /**
- * Creates a new tip for a portfolio.
+ * Appends transactions to a portfolio's ledger.
  */
-export const createPortfolioTip = async (portfolioId: string, tipData: CreatePortfolioTipRequest): Promise<PortfolioTip> => {
+export const recordPortfolioTransactions = async (
+  portfolioId: string,
+  transactions: CreatePortfolioTransactionRequest[]
+): Promise<PortfolioTransaction[]> => {
   if (!portfolioId) throw new Error("Invalid portfolio ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/portfolios/${portfolioId}/tips`, {
+  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios/${portfolioId}/transactions`, {
     method: "POST",
-    body: JSON.stringify(tipData),
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to create tip");
-  return await response.json();
-};
-
-/**
- * Updates an existing tip.
- */
-export const updateTip = async (tipId: string, tipData: Partial<CreatePortfolioTipRequest>): Promise<PortfolioTip> => {
-  if (!tipId) throw new Error("Invalid tip ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${tipId}`, {
-    method: "PUT",
-    body: JSON.stringify(tipData),
+    body: JSON.stringify({ transactions }),
   });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to update tip");
-  return await response.json();
-};
-
-/**
- * Deletes a tip by its ID.
- */
-export const deleteTip = async (tipId: string): Promise<void> => {
-  if (!tipId) throw new Error("Invalid tip ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${tipId}`, {
-    method: "DELETE",
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to delete tip");
+  if (!response.ok) throw new Error((await response.json()).message || "Failed to record portfolio transactions");
+  const data = await response.json();
+  return Array.isArray(data) ? data : data?.data || [];
 };
 
-
 // =================================================================
 // CONFIGURATION API FUNCTIONS
 // =================================================================
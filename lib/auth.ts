@@ -28,6 +28,21 @@ export const getAdminAccessToken = (): string | null => {
   }
 }
 
+// Function to get who the current admin is, for audit trails. Reads the
+// access token's payload without verifying it, so the result is only a claim
+// and must not be trusted as proof of who made a change
+export const getAdminIdentity = (): string => {
+  const token = getAdminAccessToken()
+  if (!token) return "unknown"
+
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")))
+    return payload.email || payload.username || payload.name || payload.id || payload.sub || "admin"
+  } catch (error) {
+    return "admin"
+  }
+}
+
 // Function to get the admin refresh token
 export const getAdminRefreshToken = (): string | null => {
   if (typeof window === "undefined") {
@@ -179,6 +194,16 @@ export const changePassword = async (
   }
 }
 
+// Makes an API request as a given admin, for server routes acting for their
+// caller. Without a token it falls back to fetchWithAuth and the stored token
+export const fetchWithToken = (url: string, accessToken: string | undefined, options: RequestInit = {}): Promise<Response> => {
+  if (!accessToken) return fetchWithAuth(url, options)
+  return fetch(url, {
+    ...options,
+    headers: { "Content-Type": "application/json", ...options.headers, Authorization: `Bearer ${accessToken}` },
+  })
+}
+
 // Function to make authenticated API requests
 export const fetchWithAuth = async (url: string, options: RequestInit = {}): Promise<Response> => {
   let accessToken = getAdminAccessToken()
@@ -0,0 +1,304 @@
+// lib/chart-data-import.ts
+import * as XLSX from "xlsx";
+import {
+  createChartData,
+  getChartPointDate,
+  getChartPointId,
+  updateChartData,
+  type ChartDataPoint,
+  type CreateChartDataRequest,
+} from "@/lib/api-chart-data";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type ImportField = "date" | "portfolioValue" | "cashRemaining" | "compareIndexValue";
+
+export interface ImportRow {
+  rowNumber: number; // 1-based spreadsheet row, including the header
+  dateOnly: string;
+  portfolioValue: number;
+  cashRemaining: number;
+  compareIndexValue: number;
+  errors: string[];
+}
+
+export interface ParsedImportFile {
+  rows: ImportRow[];
+  columns: Partial<Record<ImportField, string>>; // Field -> header as written in the file
+  missingColumns: ImportField[];
+}
+
+export type ImportAction = "insert" | "update" | "skip" | "invalid";
+
+export interface ImportPlanItem {
+  row: ImportRow;
+  action: ImportAction;
+  existing?: ChartDataPoint;
+  reason?: string;
+}
+
+export interface ImportOptions {
+  overwriteExisting: boolean;
+  compareIndexPriceSource: "closing" | "opening";
+  markVerified: boolean;
+}
+
+export interface ImportRowResult {
+  rowNumber: number;
+  dateOnly: string;
+  action: "insert" | "update";
+  status: "success" | "failed";
+  error?: string;
+}
+
+export interface ImportProgress {
+  completed: number;
+  total: number;
+}
+
+const REQUIRED_FIELDS: ImportField[] = ["date", "portfolioValue", "compareIndexValue"];
+
+// Headers are matched after lowercasing and stripping everything but letters and digits
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  date: ["date", "dateonly", "day", "tradedate", "asof"],
+  portfolioValue: ["portfoliovalue", "portfolio", "value", "nav", "portfolionav"],
+  cashRemaining: ["cash", "cashremaining", "cashbalance", "balance"],
+  compareIndexValue: ["compareindexvalue", "index", "indexvalue", "benchmark", "benchmarkvalue"],
+};
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: "Date",
+  portfolioValue: "Portfolio Value",
+  cashRemaining: "Cash Remaining",
+  compareIndexValue: "Index Value",
+};
+
+const DEFAULT_BATCH_SIZE = 25;
+const VALUE_TOLERANCE = 0.005;
+
+// =================================================================
+// PARSING
+// =================================================================
+
+const normaliseHeader = (header: unknown): string => String(header ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Parses a cell into a YYYY-MM-DD date. Accepts spreadsheet dates,
+ * ISO dates and day-first dates (DD-MM-YYYY or DD/MM/YYYY).
+ */
+export const parseImportDate = (value: unknown): string | null => {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null;
+    // Spreadsheet dates carry no time zone, so read back the local calendar day
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+
+  const text = String(value ?? "").trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (iso) {
+    const [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+  }
+
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dayFirst) {
+    const [day, month, year] = [Number(dayFirst[1]), Number(dayFirst[2]), Number(dayFirst[3])];
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+  }
+
+  return null;
+};
+
+const parseImportNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const text = String(value ?? "").replace(/[₹,\s]/g, "");
+  if (!text) return null;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Reads the first sheet of a CSV or XLSX file into import rows, validating
+ * columns, dates and values. Rows with problems are kept with their errors
+ * so they can be shown in the preview.
+ */
+export const parseChartDataFile = async (file: File): Promise<ParsedImportFile> => {
+  // CSV cells are read as text so day-first dates are not reinterpreted as US dates
+  const workbook = /\.csv$/i.test(file.name)
+    ? XLSX.read(await file.text(), { type: "string", raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) throw new Error("The file does not contain any sheets");
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: true,
+    blankrows: false,
+    defval: "",
+  });
+  if (table.length === 0) throw new Error("The file is empty");
+
+  const headers = table[0].map(normaliseHeader);
+  const columnIndex = {} as Partial<Record<ImportField, number>>;
+  const columns: ParsedImportFile["columns"] = {};
+  (Object.keys(COLUMN_ALIASES) as ImportField[]).forEach((field) => {
+    const index = headers.findIndex((header) => COLUMN_ALIASES[field].includes(header));
+    if (index >= 0) {
+      columnIndex[field] = index;
+      columns[field] = String(table[0][index]);
+    }
+  });
+
+  const missingColumns = REQUIRED_FIELDS.filter((field) => columnIndex[field] === undefined);
+  if (missingColumns.length > 0) return { rows: [], columns, missingColumns };
+
+  const today = new Date().toISOString().split("T")[0];
+  const seenDates = new Map<string, number>();
+
+  const rows = table.slice(1).map((cells, i) => {
+    const rowNumber = i + 2;
+    const errors: string[] = [];
+    const cell = (field: ImportField) => (columnIndex[field] === undefined ? "" : cells[columnIndex[field]!]);
+
+    const dateOnly = parseImportDate(cell("date"));
+    if (!dateOnly) errors.push(`Invalid date "${cell("date")}"`);
+    else if (dateOnly > today) errors.push("Date is in the future");
+    else if (seenDates.has(dateOnly)) errors.push(`Same date as row ${seenDates.get(dateOnly)}`);
+    else seenDates.set(dateOnly, rowNumber);
+
+    const portfolioValue = parseImportNumber(cell("portfolioValue"));
+    if (portfolioValue === null || portfolioValue <= 0) errors.push("Portfolio value must be a positive number");
+
+    const compareIndexValue = parseImportNumber(cell("compareIndexValue"));
+    if (compareIndexValue === null || compareIndexValue <= 0) errors.push("Index value must be a positive number");
+
+    // Cash is optional; a blank cell means fully invested
+    const cashCell = cell("cashRemaining");
+    const cashRemaining = cashCell === "" ? 0 : parseImportNumber(cashCell);
+    if (cashRemaining === null || cashRemaining < 0) errors.push("Cash remaining must be zero or a positive number");
+
+    return {
+      rowNumber,
+      dateOnly: dateOnly || "",
+      portfolioValue: portfolioValue ?? 0,
+      cashRemaining: cashRemaining ?? 0,
+      compareIndexValue: compareIndexValue ?? 0,
+      errors,
+    };
+  });
+
+  return { rows, columns, missingColumns };
+};
+
+// =================================================================
+// PREVIEW AND COMMIT
+// =================================================================
+
+const sameValue = (a: number, b: number) => Math.abs((a || 0) - (b || 0)) < VALUE_TOLERANCE;
+
+/**
+ * Compares import rows with the portfolio's existing entries by `dateOnly`
+ * and decides whether each row is inserted, updated or skipped.
+ */
+export const buildImportPlan = (
+  rows: ImportRow[],
+  existingPoints: ChartDataPoint[],
+  options: Pick<ImportOptions, "overwriteExisting">
+): ImportPlanItem[] => {
+  const existingByDate = new Map<string, ChartDataPoint>();
+  existingPoints.forEach((point) => {
+    const date = getChartPointDate(point);
+    if (!existingByDate.has(date)) existingByDate.set(date, point);
+  });
+
+  return rows.map((row) => {
+    if (row.errors.length > 0) return { row, action: "invalid", reason: row.errors.join("; ") };
+
+    const existing = existingByDate.get(row.dateOnly);
+    if (!existing) return { row, action: "insert" };
+
+    const unchanged =
+      sameValue(existing.portfolioValue, row.portfolioValue) &&
+      sameValue(existing.cashRemaining, row.cashRemaining) &&
+      sameValue(existing.compareIndexValue, row.compareIndexValue);
+    if (unchanged) return { row, action: "skip", existing, reason: "Matches existing entry" };
+    if (!options.overwriteExisting) return { row, action: "skip", existing, reason: "Entry exists for this date" };
+    return { row, action: "update", existing };
+  });
+};
+
+/**
+ * Writes the insert and update rows of a plan in batches, reporting
+ * progress after each batch. Failures are collected per row rather than
+ * aborting the import.
+ */
+export const commitImportPlan = async (
+  plan: ImportPlanItem[],
+  portfolioId: string,
+  options: ImportOptions,
+  onProgress?: (progress: ImportProgress) => void,
+  batchSize = DEFAULT_BATCH_SIZE
+): Promise<ImportRowResult[]> => {
+  const work = plan.filter((item) => item.action === "insert" || item.action === "update");
+  const results: ImportRowResult[] = [];
+  onProgress?.({ completed: 0, total: work.length });
+
+  for (let start = 0; start < work.length; start += batchSize) {
+    const batch = work.slice(start, start + batchSize);
+    const settled = await Promise.allSettled(
+      batch.map((item) => {
+        const values: CreateChartDataRequest = {
+          portfolio: portfolioId,
+          date: new Date(`${item.row.dateOnly}T00:00:00Z`).toISOString(),
+          dateOnly: item.row.dateOnly,
+          portfolioValue: item.row.portfolioValue,
+          cashRemaining: item.row.cashRemaining,
+          compareIndexValue: item.row.compareIndexValue,
+          compareIndexPriceSource: options.compareIndexPriceSource,
+          usedClosingPrices: options.compareIndexPriceSource === "closing",
+          dataVerified: options.markVerified,
+        };
+        const existingId = item.existing ? getChartPointId(item.existing) : undefined;
+        if (item.action === "update" && existingId) {
+          return updateChartData(existingId, {
+            portfolioValue: values.portfolioValue,
+            cashRemaining: values.cashRemaining,
+            compareIndexValue: values.compareIndexValue,
+            compareIndexPriceSource: values.compareIndexPriceSource,
+            usedClosingPrices: values.usedClosingPrices,
+            dataVerified: values.dataVerified,
+          });
+        }
+        return createChartData({ ...values, dataQualityIssues: [] });
+      })
+    );
+
+    settled.forEach((outcome, i) => {
+      const item = batch[i];
+      results.push({
+        rowNumber: item.row.rowNumber,
+        dateOnly: item.row.dateOnly,
+        action: item.action as "insert" | "update",
+        status: outcome.status === "fulfilled" ? "success" : "failed",
+        error:
+          outcome.status === "rejected"
+            ? outcome.reason instanceof Error
+              ? outcome.reason.message
+              : String(outcome.reason)
+            : undefined,
+      });
+    });
+    onProgress?.({ completed: results.length, total: work.length });
+  }
+
+  return results;
+};
@@ -0,0 +1,319 @@
+// lib/chart-data-quality.ts
+import {
+  findDuplicateChartData,
+  getChartPointDate,
+  getChartPointId,
+  type ChartDataPoint,
+  type CreateChartDataRequest,
+  type DuplicateChartDataGroup,
+} from "@/lib/api-chart-data";
+import type { PortfolioHolding } from "@/lib/api";
+import { getActiveHoldings } from "@/lib/portfolio-math";
+import type { StockSymbol } from "@/lib/api-stock-symbols";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type ChartDataIssueType =
+  | "missing_trading_day"
+  | "duplicate_date"
+  | "value_jump"
+  | "index_jump"
+  | "holdings_mismatch"
+  | "price_source_flip";
+
+export interface ChartDataFinding {
+  type: ChartDataIssueType;
+  date: string;
+  pointIds: string[]; // Empty for missing trading days
+  severity: "warning" | "error";
+  message: string;
+}
+
+export interface HoldingsValueCheck {
+  holdings: Array<{ symbol: string; quantity: number }>;
+  // Holdings only describe the portfolio since its last rebalance
+  since?: string;
+  // Closing price of a symbol on a date, or null when unknown
+  priceOn: (symbol: string, date: string) => number | null;
+  tolerancePercent?: number;
+}
+
+export interface ChartDataScanOptions {
+  jumpThresholdPercent?: number;
+  indexJumpThresholdPercent?: number;
+  holidays?: string[]; // YYYY-MM-DD exchange holidays excluded from the calendar
+  holdingsCheck?: HoldingsValueCheck;
+}
+
+export interface ChartDataScanResult {
+  findings: ChartDataFinding[];
+  missingDates: string[];
+  duplicates: DuplicateChartDataGroup[];
+  // Scanner issue strings to store on each point, keyed by point ID
+  issuesByPointId: Map<string, string[]>;
+}
+
+// Scanner-written issues are prefixed so a rescan can replace them without touching manual notes
+export const SCAN_ISSUE_PREFIX = "[scan] ";
+export const INTERPOLATED_ISSUE = `${SCAN_ISSUE_PREFIX}interpolated: value estimated from neighbouring days`;
+
+const DEFAULT_JUMP_THRESHOLD = 10;
+const DEFAULT_INDEX_JUMP_THRESHOLD = 5;
+const DEFAULT_HOLDINGS_TOLERANCE = 2;
+
+export const ISSUE_TYPE_LABELS: Record<ChartDataIssueType, string> = {
+  missing_trading_day: "Missing trading day",
+  duplicate_date: "Duplicate date",
+  value_jump: "Portfolio value jump",
+  index_jump: "Index value jump",
+  holdings_mismatch: "Holdings mismatch",
+  price_source_flip: "Price source flip",
+};
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+const toUtcDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+const addDays = (date: string, days: number): string => {
+  const next = toUtcDate(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split("T")[0];
+};
+
+const isWeekend = (date: string): boolean => {
+  const day = toUtcDate(date).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+const percentMove = (from: number, to: number): number => (from ? ((to - from) / from) * 100 : 0);
+
+export const isScanIssue = (issue: string): boolean => issue.startsWith(SCAN_ISSUE_PREFIX);
+
+/**
+ * Replaces the scanner's issues on a point, keeping any manually entered ones.
+ */
+export const mergeScanIssues = (existing: string[] = [], scanIssues: string[]): string[] => [
+  ...existing.filter((issue) => !isScanIssue(issue)),
+  ...scanIssues,
+];
+
+/**
+ * Weekdays between two dates (exclusive) that are not listed as holidays.
+ */
+export const tradingDaysBetween = (from: string, to: string, holidays: string[] = []): string[] => {
+  const holidaySet = new Set(holidays);
+  const days: string[] = [];
+  for (let date = addDays(from, 1); date < to; date = addDays(date, 1)) {
+    if (!isWeekend(date) && !holidaySet.has(date)) days.push(date);
+  }
+  return days;
+};
+
+/**
+ * Holdings that still make up the portfolio value.
+ */
+export const getValuedHoldings = (holdings: PortfolioHolding[] = []): Array<{ symbol: string; quantity: number }> =>
+  getActiveHoldings(holdings)
+    .filter((holding) => holding.quantity > 0)
+    .map((holding) => ({ symbol: holding.symbol, quantity: holding.quantity }));
+
+/**
+ * Builds a price lookup from stock symbols' price history. The current price
+ * is only trusted for `latestDate`, since it says nothing about older days.
+ */
+export const buildSymbolPriceLookup = (
+  symbols: StockSymbol[],
+  latestDate?: string
+): ((symbol: string, date: string) => number | null) => {
+  const prices = new Map<string, Map<string, number>>();
+  symbols.forEach((stock) => {
+    const byDate = new Map<string, number>();
+    (stock.priceHistory || []).forEach((entry) => {
+      const price = parseFloat(entry.price);
+      if (Number.isFinite(price) && price > 0) byDate.set(entry.timestamp.split("T")[0], price);
+    });
+    const current = parseFloat(stock.currentPrice);
+    if (latestDate && !byDate.has(latestDate) && Number.isFinite(current) && current > 0) {
+      byDate.set(latestDate, current);
+    }
+    prices.set(stock.symbol, byDate);
+  });
+
+  return (symbol, date) => prices.get(symbol)?.get(date) ?? null;
+};
+
+// =================================================================
+// SCANNER
+// =================================================================
+
+/**
+ * Scans a single portfolio's chart data history for gaps, duplicates,
+ * outliers, holdings inconsistencies and index price source flips.
+ */
+export const scanChartDataQuality = (
+  points: ChartDataPoint[],
+  options: ChartDataScanOptions = {}
+): ChartDataScanResult => {
+  const jumpThreshold = options.jumpThresholdPercent ?? DEFAULT_JUMP_THRESHOLD;
+  const indexJumpThreshold = options.indexJumpThresholdPercent ?? DEFAULT_INDEX_JUMP_THRESHOLD;
+  const findings: ChartDataFinding[] = [];
+  const issuesByPointId = new Map<string, string[]>();
+
+  const addFinding = (finding: ChartDataFinding) => {
+    findings.push(finding);
+    finding.pointIds.forEach((id) => {
+      issuesByPointId.set(id, [...(issuesByPointId.get(id) || []), `${SCAN_ISSUE_PREFIX}${finding.type}: ${finding.message}`]);
+    });
+  };
+
+  const duplicates = findDuplicateChartData(points);
+  duplicates.forEach((group) => {
+    addFinding({
+      type: "duplicate_date",
+      date: group.dateOnly,
+      pointIds: group.remove.map(getChartPointId).filter(Boolean) as string[],
+      severity: "error",
+      message: `${group.remove.length + 1} entries share this date`,
+    });
+  });
+
+  // Everything else runs on one point per day, preferring the entry the dedupe would keep
+  const kept = new Map<string, ChartDataPoint>();
+  duplicates.forEach((group) => kept.set(group.dateOnly, group.keep));
+  points.forEach((point) => {
+    const date = getChartPointDate(point);
+    if (!kept.has(date)) kept.set(date, point);
+  });
+  const series = Array.from(kept.values()).sort((a, b) => getChartPointDate(a).localeCompare(getChartPointDate(b)));
+
+  const missingDates: string[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const previous = series[i - 1];
+    const current = series[i];
+    const previousDate = getChartPointDate(previous);
+    const currentDate = getChartPointDate(current);
+    const currentId = getChartPointId(current);
+
+    tradingDaysBetween(previousDate, currentDate, options.holidays).forEach((date) => {
+      missingDates.push(date);
+      addFinding({
+        type: "missing_trading_day",
+        date,
+        pointIds: [],
+        severity: "warning",
+        message: `No entry between ${previousDate} and ${currentDate}`,
+      });
+    });
+
+    const valueMove = percentMove(previous.portfolioValue, current.portfolioValue);
+    if (Math.abs(valueMove) > jumpThreshold) {
+      addFinding({
+        type: "value_jump",
+        date: currentDate,
+        pointIds: currentId ? [currentId] : [],
+        severity: "error",
+        message: `Portfolio value moved ${valueMove.toFixed(2)}% from ${previousDate}`,
+      });
+    }
+
+    const indexMove = percentMove(previous.compareIndexValue, current.compareIndexValue);
+    if (Math.abs(indexMove) > indexJumpThreshold) {
+      addFinding({
+        type: "index_jump",
+        date: currentDate,
+        pointIds: currentId ? [currentId] : [],
+        severity: "warning",
+        message: `Index value moved ${indexMove.toFixed(2)}% from ${previousDate}`,
+      });
+    }
+
+    if (previous.compareIndexPriceSource && current.compareIndexPriceSource && previous.compareIndexPriceSource !== current.compareIndexPriceSource) {
+      addFinding({
+        type: "price_source_flip",
+        date: currentDate,
+        pointIds: currentId ? [currentId] : [],
+        severity: "warning",
+        message: `Index price source changed from ${previous.compareIndexPriceSource} to ${current.compareIndexPriceSource}`,
+      });
+    }
+  }
+
+  const check = options.holdingsCheck;
+  if (check && check.holdings.length > 0) {
+    const tolerance = check.tolerancePercent ?? DEFAULT_HOLDINGS_TOLERANCE;
+    const since = check.since ? check.since.split("T")[0] : "";
+    series
+      .filter((point) => getChartPointDate(point) >= since)
+      .forEach((point) => {
+        const date = getChartPointDate(point);
+        let holdingsValue = 0;
+        for (const holding of check.holdings) {
+          const price = check.priceOn(holding.symbol, date);
+          // Without a price for every holding the expected value would be meaningless
+          if (price === null) return;
+          holdingsValue += price * holding.quantity;
+        }
+        const expected = holdingsValue + (point.cashRemaining || 0);
+        const difference = percentMove(expected, point.portfolioValue);
+        if (Math.abs(difference) > tolerance) {
+          const id = getChartPointId(point);
+          addFinding({
+            type: "holdings_mismatch",
+            date,
+            pointIds: id ? [id] : [],
+            severity: "error",
+            message: `Portfolio value differs ${difference.toFixed(2)}% from holdings × prices + cash (${expected.toFixed(2)})`,
+          });
+        }
+      });
+  }
+
+  findings.sort((a, b) => a.date.localeCompare(b.date));
+  return { findings, missingDates, duplicates, issuesByPointId };
+};
+
+// =================================================================
+// REPAIRS
+// =================================================================
+
+/**
+ * Builds linearly interpolated entries for missing trading days, using the
+ * nearest existing entries on either side. Interpolated entries are left
+ * unverified and tagged so they stay visible on the chart.
+ */
+export const buildInterpolatedEntries = (
+  points: ChartDataPoint[],
+  missingDates: string[],
+  portfolioId: string
+): CreateChartDataRequest[] => {
+  const series = [...points].sort((a, b) => getChartPointDate(a).localeCompare(getChartPointDate(b)));
+
+  return missingDates
+    .map((date) => {
+      const before = [...series].reverse().find((point) => getChartPointDate(point) < date);
+      const after = series.find((point) => getChartPointDate(point) > date);
+      if (!before || !after) return null;
+
+      const span = toUtcDate(getChartPointDate(after)).getTime() - toUtcDate(getChartPointDate(before)).getTime();
+      const ratio = span ? (toUtcDate(date).getTime() - toUtcDate(getChartPointDate(before)).getTime()) / span : 0;
+      const lerp = (from: number, to: number) => Math.round((from + (to - from) * ratio) * 100) / 100;
+
+      return {
+        portfolio: portfolioId,
+        date: toUtcDate(date).toISOString(),
+        dateOnly: date,
+        portfolioValue: lerp(before.portfolioValue, after.portfolioValue),
+        cashRemaining: lerp(before.cashRemaining, after.cashRemaining),
+        compareIndexValue: lerp(before.compareIndexValue, after.compareIndexValue),
+        compareIndexPriceSource: before.compareIndexPriceSource,
+        usedClosingPrices: before.usedClosingPrices,
+        dataVerified: false,
+        dataQualityIssues: [INTERPOLATED_ISSUE],
+      };
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+};
@@ -0,0 +1,478 @@
+// lib/corporate-actions.ts
+import { fetchPortfolios, updatePortfolio, type Portfolio, type PortfolioHolding } from "@/lib/api";
+import { fetchAllChartData, getChartPointDate, getChartPointId, patchChartData, type ChartDataPoint } from "@/lib/api-chart-data";
+import {
+  recordCorporateActionAudit,
+  updateCorporateAction,
+  type CorporateAction,
+  type CorporateActionAudit,
+  type CorporateActionAuditItem,
+  type CorporateActionTarget,
+  type CreateCorporateActionRequest,
+} from "@/lib/api-corporate-actions";
+import { fetchStockSymbolBySymbol, updateStockSymbol, type PricePoint, type StockSymbol } from "@/lib/api-stock-symbols";
+import { fetchAllTips, toCreateTipRequest, updateTip, type CreateTipRequest, type Tip } from "@/lib/api-tips";
+import { getAdminIdentity } from "@/lib/auth";
+import { isSoldHolding } from "@/lib/portfolio-math";
+import { TIP_PRICE_FIELD_LABELS, formatPriceLevel, parsePriceLevelText } from "@/lib/tip-price-levels";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+// What gets saved for one adjustment
+export type CorporateActionWrite =
+  | { target: "holding"; portfolioId: string; holdings: PortfolioHolding[]; cashBalance?: number }
+  | { target: "tip"; tipId: string; request: CreateTipRequest }
+  | { target: "priceHistory"; stockId: string; priceHistory: PricePoint[] }
+  | { target: "chartData"; points: Array<{ id: string; portfolioValue: number; cashRemaining: number }> };
+
+// What applying an action will do to one portfolio, tip, price series or chart series
+export interface CorporateActionAdjustment {
+  key: string;
+  target: CorporateActionTarget;
+  targetId: string;
+  label: string;
+  change: string;
+  // Absent for skipped adjustments
+  write?: CorporateActionWrite;
+  skipReason?: string;
+}
+
+// Everything an action can touch, loaded once for the preview
+export interface CorporateActionContext {
+  stock: StockSymbol | null;
+  portfolios: Portfolio[];
+  tips: Tip[];
+  // Chart data from the ex-date on, by portfolio ID; only loaded for dividends
+  chartData: Record<string, ChartDataPoint[]>;
+}
+
+export const CORPORATE_ACTION_TYPE_LABELS: Record<CorporateAction["type"], string> = {
+  split: "Split",
+  bonus: "Bonus",
+  dividend: "Dividend",
+  rights: "Rights",
+};
+
+export const CORPORATE_ACTION_TARGET_LABELS: Record<CorporateActionTarget, string> = {
+  holding: "Holdings",
+  tip: "Tip",
+  priceHistory: "Price History",
+  chartData: "Chart Data",
+};
+
+// Tip fields holding absolute prices; percentages are unaffected by a split
+const TIP_PRICE_FIELDS = ["buyRange", "targetPrice", "stopLoss", "addMoreAt", "exitPrice"] as const;
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const formatRupees = (value: number) => `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+const sameSymbol = (a?: string, b?: string) => !!a && !!b && a.trim().toUpperCase() === b.trim().toUpperCase();
+
+const toDateOnly = (date: string) => date.split("T")[0];
+
+/**
+ * "1:5 split", "₹10 dividend", "1:4 rights at ₹1,200" and so on.
+ */
+export const describeCorporateAction = (action: Pick<CorporateAction, "type" | "ratioFrom" | "ratioTo" | "dividendPerShare" | "rightsPrice">): string => {
+  const ratio = `${action.ratioFrom ?? "?"}:${action.ratioTo ?? "?"}`;
+  switch (action.type) {
+    case "split":
+      return `${ratio} split`;
+    case "bonus":
+      return `${ratio} bonus`;
+    case "dividend":
+      return `${formatRupees(action.dividendPerShare || 0)} dividend`;
+    case "rights":
+      return `${ratio} rights at ${formatRupees(action.rightsPrice || 0)}`;
+  }
+};
+
+/**
+ * Problems with an action before it is recorded; empty when it is valid.
+ */
+export const validateCorporateAction = (action: Partial<CreateCorporateActionRequest>): string[] => {
+  const errors: string[] = [];
+  if (!action.symbol?.trim()) errors.push("Pick a stock");
+  if (!action.exDate || !/^\d{4}-\d{2}-\d{2}$/.test(action.exDate)) errors.push("Ex-date is required");
+  if (action.type === "dividend") {
+    if (!(action.dividendPerShare && action.dividendPerShare > 0)) errors.push("Dividend per share must be above zero");
+    return errors;
+  }
+  if (!(action.ratioFrom && action.ratioFrom > 0 && action.ratioTo && action.ratioTo > 0)) {
+    errors.push("Both sides of the ratio must be above zero");
+  } else if (action.type === "split" && action.ratioFrom === action.ratioTo) {
+    errors.push("A split ratio must change the share count");
+  }
+  if (action.type === "rights" && !(action.rightsPrice && action.rightsPrice > 0)) {
+    errors.push("Rights issue price must be above zero");
+  }
+  return errors;
+};
+
+/**
+ * How many shares each share held before the ex-date becomes. Only splits
+ * and bonuses change the share count.
+ */
+export const getQuantityFactor = (action: CorporateAction): number => {
+  const from = action.ratioFrom || 1;
+  const to = action.ratioTo || 0;
+  if (action.type === "split") return to / from;
+  if (action.type === "bonus") return (from + to) / from;
+  return 1;
+};
+
+/**
+ * What prices before the ex-date are divided by to compare with prices
+ * after it. Rights use the theoretical ex-rights price, so they need the
+ * last price before the ex-date; dividends leave prices as traded.
+ */
+export const getPriceFactor = (action: CorporateAction, cumPrice: number | null): number | null => {
+  if (action.type === "split" || action.type === "bonus") return getQuantityFactor(action);
+  if (action.type === "rights") {
+    const held = action.ratioFrom || 0;
+    const offered = action.ratioTo || 0;
+    if (!cumPrice || !held || !offered || !action.rightsPrice) return null;
+    const exRightsPrice = (held * cumPrice + offered * action.rightsPrice) / (held + offered);
+    return cumPrice / exRightsPrice;
+  }
+  return null;
+};
+
+// Last close before the ex-date, or the current price while the ex-date is still ahead
+const getCumPrice = (stock: StockSymbol | null, exDate: string, today: string): number | null => {
+  if (!stock) return null;
+  const before = (stock.priceHistory || [])
+    .filter((point) => toDateOnly(point.timestamp) < exDate)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .pop();
+  const price = parseFloat(before?.price ?? (exDate > today ? stock.currentPrice : ""));
+  return Number.isFinite(price) && price > 0 ? price : null;
+};
+
+const adjustPriceText = (text: string | undefined, factor: number): string | undefined => {
+  const { level } = parsePriceLevelText(text);
+  if (!level || level.unit !== "absolute") return text;
+  return formatPriceLevel({ ...level, low: round2(level.low / factor), high: round2(level.high / factor) });
+};
+
+const referencesStock = (tip: Tip, action: CorporateAction, stock: StockSymbol | null) =>
+  (stock && (tip.stockId === stock._id || tip.stockId === stock.id)) ||
+  sameSymbol(tip.stockId, action.symbol) ||
+  sameSymbol(tip.stockSymbol, action.symbol);
+
+// =================================================================
+// PREVIEW
+// =================================================================
+
+const planHoldings = (action: CorporateAction, portfolio: Portfolio): CorporateActionAdjustment | null => {
+  const holdings = portfolio.holdings || [];
+  const held = holdings.filter((holding) => !isSoldHolding(holding) && sameSymbol(holding.symbol, action.symbol));
+  if (held.length === 0) return null;
+
+  const portfolioId = portfolio._id || portfolio.id;
+  const base = { key: `holding-${portfolioId}`, target: "holding" as const, targetId: portfolioId, label: portfolio.name };
+  const quantity = held.reduce((sum, holding) => sum + (holding.quantity || 0), 0);
+
+  if (action.type === "rights") {
+    const entitled = Math.floor((quantity * (action.ratioTo || 0)) / (action.ratioFrom || 1));
+    return {
+      ...base,
+      change: `Entitled to ${entitled} rights shares at ${formatRupees(action.rightsPrice || 0)}`,
+      skipReason: "Subscribing to a rights issue is a trade; record it from the portfolio",
+    };
+  }
+
+  if (action.type === "dividend") {
+    const amount = round2(quantity * (action.dividendPerShare || 0));
+    const cashBalance = round2((portfolio.cashBalance || 0) + amount);
+    return {
+      ...base,
+      change: `Cash ${formatRupees(portfolio.cashBalance || 0)} → ${formatRupees(cashBalance)} (${quantity} shares × ${formatRupees(action.dividendPerShare || 0)})`,
+      write: { target: "holding", portfolioId, holdings, cashBalance },
+    };
+  }
+
+  // Fractional entitlements are settled in cash by the company, so quantities round down
+  const quantityFactor = getQuantityFactor(action);
+  const adjusted = holdings.map((holding) => {
+    if (!held.includes(holding)) return holding;
+    return {
+      ...holding,
+      quantity: Math.floor((holding.quantity || 0) * quantityFactor),
+      totalQuantityOwned: holding.totalQuantityOwned ? Math.floor(holding.totalQuantityOwned * quantityFactor) : holding.totalQuantityOwned,
+      buyPrice: round2((holding.buyPrice || 0) / quantityFactor),
+      originalBuyPrice: holding.originalBuyPrice ? round2(holding.originalBuyPrice / quantityFactor) : holding.originalBuyPrice,
+    };
+  });
+  const before = held[0];
+  const after = adjusted[holdings.indexOf(before)];
+  return {
+    ...base,
+    change: `${before.quantity} @ ${formatRupees(before.buyPrice)} → ${after.quantity} @ ${formatRupees(after.buyPrice)}`,
+    write: { target: "holding", portfolioId, holdings: adjusted },
+  };
+};
+
+const planTip = (tip: Tip, action: CorporateAction, factor: number | null): CorporateActionAdjustment => {
+  const base = { key: `tip-${tip.id}`, target: "tip" as const, targetId: tip.id, label: tip.title };
+  if (toDateOnly(tip.createdAt || "") >= action.exDate) {
+    return { ...base, change: "—", skipReason: "Written on or after the ex-date" };
+  }
+  if (!factor) return { ...base, change: "—", skipReason: "No price before the ex-date to adjust from" };
+
+  const current = toCreateTipRequest(tip);
+  const request: CreateTipRequest = { ...current };
+  const changes: string[] = [];
+  TIP_PRICE_FIELDS.forEach((field) => {
+    const adjusted = adjustPriceText(current[field], factor);
+    if (adjusted !== current[field]) {
+      request[field] = adjusted;
+      changes.push(`${TIP_PRICE_FIELD_LABELS[field]} ${current[field]} → ${adjusted}`);
+    }
+  });
+  // The tip form keeps the stop-loss in a content entry, older tips only in the field
+  request.content = current.content.map((entry) => {
+    if (entry.key !== "stop-loss") return entry;
+    const adjusted = adjustPriceText(entry.value, factor) || entry.value;
+    if (adjusted !== entry.value && request.stopLoss === current.stopLoss) {
+      changes.push(`${TIP_PRICE_FIELD_LABELS.stopLoss} ${entry.value} → ${adjusted}`);
+    }
+    return { ...entry, value: adjusted };
+  });
+
+  if (changes.length === 0) return { ...base, change: "—", skipReason: "No absolute price levels" };
+  return { ...base, change: changes.join("; "), write: { target: "tip", tipId: tip.id, request } };
+};
+
+const planPriceHistory = (
+  stock: StockSymbol,
+  action: CorporateAction,
+  factor: number | null
+): CorporateActionAdjustment | null => {
+  const stockId = stock._id || stock.id || "";
+  const base = { key: `price-${stockId}`, target: "priceHistory" as const, targetId: stockId, label: stock.symbol };
+  const history = stock.priceHistory || [];
+  const earlier = history.filter((point) => toDateOnly(point.timestamp) < action.exDate);
+  if (earlier.length === 0) return null;
+  if (!factor) return { ...base, change: "—", skipReason: "No price before the ex-date to adjust from" };
+
+  const quantityFactor = getQuantityFactor(action);
+  const priceHistory = history.map((point) => {
+    if (!earlier.includes(point)) return point;
+    const price = parseFloat(point.price);
+    const volume = point.volume ? parseFloat(point.volume) : NaN;
+    return {
+      ...point,
+      price: Number.isFinite(price) ? String(round2(price / factor)) : point.price,
+      volume: Number.isFinite(volume) ? String(Math.round(volume * quantityFactor)) : point.volume,
+    };
+  });
+  return {
+    ...base,
+    change: `${earlier.length} price${earlier.length === 1 ? "" : "s"} before ${action.exDate} ÷ ${round2(factor)}`,
+    write: { target: "priceHistory", stockId, priceHistory },
+  };
+};
+
+// A dividend lands as cash on the ex-date, so the chart would otherwise show the price drop without the payout
+const planChartData = (
+  portfolio: Portfolio,
+  action: CorporateAction,
+  points: ChartDataPoint[]
+): CorporateActionAdjustment | null => {
+  const quantity = (portfolio.holdings || [])
+    .filter((holding) => !isSoldHolding(holding) && sameSymbol(holding.symbol, action.symbol))
+    .reduce((sum, holding) => sum + (holding.quantity || 0), 0);
+  if (quantity === 0) return null;
+
+  const portfolioId = portfolio._id || portfolio.id;
+  const base = { key: `chart-${portfolioId}`, target: "chartData" as const, targetId: portfolioId, label: portfolio.name };
+  const affected = points.filter((point) => getChartPointDate(point) >= action.exDate && getChartPointId(point));
+  if (affected.length === 0) return { ...base, change: "—", skipReason: `No chart data from ${action.exDate}` };
+
+  const amount = round2(quantity * (action.dividendPerShare || 0));
+  return {
+    ...base,
+    change: `${affected.length} entr${affected.length === 1 ? "y" : "ies"} from ${action.exDate}: value and cash +${formatRupees(amount)}`,
+    write: {
+      target: "chartData",
+      points: affected.map((point) => ({
+        id: getChartPointId(point)!,
+        portfolioValue: round2(point.portfolioValue + amount),
+        cashRemaining: round2((point.cashRemaining || 0) + amount),
+      })),
+    },
+  };
+};
+
+/**
+ * Every adjustment an action calls for: holdings in each portfolio that owns
+ * the stock, the stock's active tips, its price history before the ex-date
+ * and, for dividends, each owning portfolio's chart data. Nothing is applied
+ * before the ex-date.
+ */
+export const planCorporateAction = (
+  action: CorporateAction,
+  context: CorporateActionContext,
+  today: string = new Date().toISOString().split("T")[0]
+): CorporateActionAdjustment[] => {
+  const factor = getPriceFactor(action, getCumPrice(context.stock, action.exDate, today));
+  const adjustments: CorporateActionAdjustment[] = [];
+
+  context.portfolios.forEach((portfolio) => {
+    const adjustment = planHoldings(action, portfolio);
+    if (adjustment) adjustments.push(adjustment);
+  });
+
+  if (action.type !== "dividend") {
+    context.tips
+      .filter((tip) => tip.status === "Active" && referencesStock(tip, action, context.stock))
+      .forEach((tip) => adjustments.push(planTip(tip, action, factor)));
+
+    const priceHistory = context.stock ? planPriceHistory(context.stock, action, factor) : null;
+    if (priceHistory) adjustments.push(priceHistory);
+  } else {
+    context.portfolios.forEach((portfolio) => {
+      const adjustment = planChartData(portfolio, action, context.chartData[portfolio._id || portfolio.id] || []);
+      if (adjustment) adjustments.push(adjustment);
+    });
+  }
+
+  if (action.exDate > today) {
+    return adjustments.map((adjustment) => ({
+      ...adjustment,
+      write: undefined,
+      skipReason: adjustment.skipReason || `Applies from the ex-date (${action.exDate})`,
+    }));
+  }
+  return adjustments;
+};
+
+const auditKey = (item: Pick<CorporateActionAuditItem, "target" | "targetId">) => `${item.target}-${item.targetId}`;
+
+/**
+ * Narrows the plan of an action that was applied before, using its audit
+ * trail. A target saved in any earlier run already carries the adjustment in
+ * the current data, so it leaves the plan; `retry` holds the keys of the
+ * remaining adjustments whose earlier run failed.
+ */
+export const planReapplication = (
+  plan: CorporateActionAdjustment[],
+  audit: CorporateActionAudit[]
+): { adjustments: CorporateActionAdjustment[]; retry: Set<string> } => {
+  const saved = new Set<string>();
+  const failed = new Set<string>();
+  audit.forEach((entry) =>
+    entry.items.forEach((item) => (item.status === "success" ? saved : failed).add(auditKey(item)))
+  );
+
+  const adjustments = plan.filter((item) => !saved.has(auditKey(item)));
+  const retry = adjustments.filter((item) => item.write && !item.skipReason && failed.has(auditKey(item)));
+  return { adjustments, retry: new Set(retry.map((item) => item.key)) };
+};
+
+/**
+ * Loads the stock, portfolios and tips an action can touch. The stock is
+ * optional: without it tips and price history cannot be adjusted, but
+ * holdings still can.
+ */
+export const loadCorporateActionContext = async (action: CorporateAction): Promise<CorporateActionContext> => {
+  const [stock, portfolios, tips] = await Promise.all([
+    fetchStockSymbolBySymbol(action.symbol).catch(() => null),
+    fetchPortfolios(),
+    action.type === "dividend" ? Promise.resolve([]) : fetchAllTips(),
+  ]);
+
+  const chartData: Record<string, ChartDataPoint[]> = {};
+  if (action.type === "dividend") {
+    const owners = portfolios.filter((portfolio) =>
+      (portfolio.holdings || []).some((holding) => !isSoldHolding(holding) && sameSymbol(holding.symbol, action.symbol))
+    );
+    await Promise.all(
+      owners.map(async (portfolio) => {
+        const portfolioId = portfolio._id || portfolio.id;
+        chartData[portfolioId] = await fetchAllChartData(portfolioId, action.exDate);
+      })
+    );
+  }
+
+  return { stock, portfolios, tips, chartData };
+};
+
+// =================================================================
+// APPLYING
+// =================================================================
+
+// Saves one adjustment; a returned string is a warning about a write that went through
+const runWrite = async (write: CorporateActionWrite, note: string): Promise<string | undefined> => {
+  switch (write.target) {
+    case "holding":
+      await updatePortfolio(write.portfolioId, {
+        holdings: write.holdings,
+        ...(write.cashBalance !== undefined ? { cashBalance: write.cashBalance } : {}),
+      });
+      return;
+    case "tip":
+      return (await updateTip(write.tipId, write.request, { note })).revisionError;
+    case "priceHistory":
+      await updateStockSymbol(write.stockId, { priceHistory: write.priceHistory });
+      return;
+    case "chartData":
+      for (const point of write.points) {
+        await patchChartData(point.id, { portfolioValue: point.portfolioValue, cashRemaining: point.cashRemaining });
+      }
+      return;
+  }
+};
+
+/**
+ * Saves the chosen adjustments one at a time. A failure is recorded against
+ * its adjustment and the run carries on with the rest.
+ */
+export const applyCorporateAction = async (
+  action: CorporateAction,
+  adjustments: CorporateActionAdjustment[],
+  onProgress?: (item: CorporateActionAuditItem) => void
+): Promise<CorporateActionAuditItem[]> => {
+  const note = `Corporate action: ${action.symbol} ${describeCorporateAction(action)}, ex-date ${action.exDate}`;
+  const items: CorporateActionAuditItem[] = [];
+  for (const adjustment of adjustments.filter((entry) => entry.write && !entry.skipReason)) {
+    const item: CorporateActionAuditItem = {
+      target: adjustment.target,
+      targetId: adjustment.targetId,
+      label: adjustment.label,
+      change: adjustment.change,
+      status: "success",
+    };
+    try {
+      const warning = await runWrite(adjustment.write!, note);
+      if (warning) item.warning = warning;
+    } catch (error) {
+      item.status = "failed";
+      item.error = error instanceof Error ? error.message : "Failed to apply adjustment";
+    }
+    items.push(item);
+    onProgress?.(item);
+  }
+  return items;
+};
+
+/**
+ * Adds an audit entry for an application and marks the action applied.
+ */
+export const recordCorporateActionApplication = async (
+  action: CorporateAction,
+  items: CorporateActionAuditItem[]
+): Promise<CorporateAction> => {
+  const appliedAt = new Date().toISOString();
+  const appliedBy = getAdminIdentity();
+  await recordCorporateActionAudit(action._id, { action: action._id, appliedAt, appliedBy, items });
+  return updateCorporateAction(action._id, { appliedAt, appliedBy });
+};
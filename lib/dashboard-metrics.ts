@@ -0,0 +1,296 @@
+// lib/dashboard-metrics.ts
+import type { PaymentHistory, Portfolio, Subscription } from "@/lib/api";
+import type { Tip } from "@/lib/api-tips";
+import type { User } from "@/lib/api-users";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type ComparisonWindow = 7 | 30 | 90;
+
+export interface MetricDelta {
+  current: number;
+  previous: number;
+  change: number; // Absolute difference between current and previous
+  changePercent: number | null; // null when the previous value is zero
+}
+
+export interface DashboardKpis {
+  windowDays: ComparisonWindow;
+  totalUsers: MetricDelta;
+  newUsers: MetricDelta;
+  activePortfolios: MetricDelta;
+  activeSubscriptions: MetricDelta;
+  activeTips: MetricDelta;
+  newTips: MetricDelta;
+  mrr: MetricDelta;
+  churnRate: MetricDelta;
+  churnedSubscriptions: MetricDelta;
+}
+
+export interface MonthlyReportRow {
+  month: string; // YYYY-MM
+  newUsers: number;
+  newSubscriptions: number;
+  churnedSubscriptions: number;
+  revenue: number;
+  payments: number;
+  newTips: number;
+  closedTips: number;
+}
+
+export interface PortfolioSubscriptionStat {
+  portfolioId: string;
+  name: string;
+  activeSubscriptions: number;
+  revenue: number;
+}
+
+export interface DashboardData {
+  users: User[];
+  portfolios: Portfolio[];
+  subscriptions: Subscription[];
+  payments: PaymentHistory[];
+  tips: Tip[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUCCESSFUL_PAYMENT_STATUSES = ["completed", "success", "captured", "paid"];
+const CHURNED_SUBSCRIPTION_STATUSES = ["expired", "cancelled", "canceled"];
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+const toTime = (value?: string): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const buildDelta = (current: number, previous: number): MetricDelta => ({
+  current,
+  previous,
+  change: current - previous,
+  changePercent: previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100,
+});
+
+const countBetween = <T>(items: T[], getDate: (item: T) => string | undefined, from: number, to: number): number =>
+  items.filter((item) => {
+    const time = toTime(getDate(item));
+    return time !== null && time > from && time <= to;
+  }).length;
+
+export const isSuccessfulPayment = (payment: PaymentHistory): boolean =>
+  SUCCESSFUL_PAYMENT_STATUSES.includes(payment.status?.toLowerCase());
+
+export const isChurnedSubscription = (subscription: Subscription): boolean =>
+  CHURNED_SUBSCRIPTION_STATUSES.includes(subscription.status?.toLowerCase() || "");
+
+/**
+ * When a subscription started. Falls back to creation time for records
+ * without an explicit start date.
+ */
+const subscriptionStart = (subscription: Subscription): number | null =>
+  toTime(subscription.startDate) ?? toTime(subscription.createdAt);
+
+/**
+ * When a churned subscription ended. Expired subscriptions end at their
+ * expiry date; cancellations are stamped by the last update.
+ */
+const subscriptionEnd = (subscription: Subscription): number | null => {
+  if (!isChurnedSubscription(subscription)) {
+    const expiry = toTime(subscription.expiryDate) ?? toTime(subscription.endDate);
+    // Lapsed subscriptions the backend has not flagged yet end at their expiry
+    return expiry !== null && !subscription.isActive ? expiry : null;
+  }
+  if (subscription.status?.toLowerCase() === "expired") {
+    return toTime(subscription.expiryDate) ?? toTime(subscription.endDate) ?? toTime(subscription.updatedAt);
+  }
+  return toTime(subscription.updatedAt) ?? toTime(subscription.expiryDate);
+};
+
+/**
+ * Whether a subscription was active at a given point in time.
+ */
+export const wasSubscriptionActiveAt = (subscription: Subscription, time: number): boolean => {
+  const start = subscriptionStart(subscription);
+  if (start === null || start > time) return false;
+  const end = subscriptionEnd(subscription);
+  if (end !== null) return end > time;
+  return subscription.isActive || subscription.status?.toLowerCase() === "active";
+};
+
+const revenueBetween = (payments: PaymentHistory[], from: number, to: number): number =>
+  payments
+    .filter((payment) => {
+      const time = toTime(payment.createdAt);
+      return isSuccessfulPayment(payment) && time !== null && time > from && time <= to;
+    })
+    .reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0);
+
+const churnBetween = (subscriptions: Subscription[], from: number, to: number) => {
+  const activeAtStart = subscriptions.filter((sub) => wasSubscriptionActiveAt(sub, from)).length;
+  const churned = subscriptions.filter((sub) => {
+    const end = subscriptionEnd(sub);
+    return end !== null && end > from && end <= to;
+  }).length;
+  return {
+    churned,
+    rate: activeAtStart === 0 ? 0 : (churned / activeAtStart) * 100,
+  };
+};
+
+const monthKey = (time: number): string => new Date(time).toISOString().slice(0, 7);
+
+const getPortfolioId = (value: Portfolio | string | undefined | null): string | undefined => {
+  if (!value) return undefined;
+  return typeof value === "string" ? value : value._id || value.id;
+};
+
+// =================================================================
+// METRICS
+// =================================================================
+
+/**
+ * Computes the headline KPIs for the dashboard, comparing the trailing
+ * `windowDays` against the window immediately before it.
+ */
+export const computeDashboardKpis = (
+  data: DashboardData,
+  windowDays: ComparisonWindow = 30,
+  now: number = Date.now()
+): DashboardKpis => {
+  const { users, portfolios, subscriptions, payments, tips } = data;
+  const windowStart = now - windowDays * DAY_MS;
+  const previousStart = windowStart - windowDays * DAY_MS;
+
+  const createdBefore = <T extends { createdAt?: string }>(items: T[], time: number) =>
+    items.filter((item) => {
+      const created = toTime(item.createdAt);
+      return created !== null && created <= time;
+    }).length;
+
+  // MRR is normalised to a 30 day month so every window is comparable
+  const normalise = (revenue: number) => (revenue / windowDays) * 30;
+  const currentChurn = churnBetween(subscriptions, windowStart, now);
+  const previousChurn = churnBetween(subscriptions, previousStart, windowStart);
+
+  const activeTipsAt = (time: number) =>
+    tips.filter((tip) => {
+      const created = toTime(tip.createdAt);
+      if (created === null || created > time) return false;
+      if (tip.status === "Active") return true;
+      // Closed tips count as active until they were closed; tips closed
+      // before closedAt was stamped fall back to their last update
+      const closed = toTime(tip.closedAt || tip.updatedAt);
+      return closed !== null && closed > time;
+    }).length;
+
+  return {
+    windowDays,
+    totalUsers: buildDelta(users.length, createdBefore(users, windowStart)),
+    newUsers: buildDelta(
+      countBetween(users, (u) => u.createdAt, windowStart, now),
+      countBetween(users, (u) => u.createdAt, previousStart, windowStart)
+    ),
+    activePortfolios: buildDelta(portfolios.length, createdBefore(portfolios, windowStart)),
+    activeSubscriptions: buildDelta(
+      subscriptions.filter((sub) => wasSubscriptionActiveAt(sub, now)).length,
+      subscriptions.filter((sub) => wasSubscriptionActiveAt(sub, windowStart)).length
+    ),
+    activeTips: buildDelta(activeTipsAt(now), activeTipsAt(windowStart)),
+    newTips: buildDelta(
+      countBetween(tips, (t) => t.createdAt, windowStart, now),
+      countBetween(tips, (t) => t.createdAt, previousStart, windowStart)
+    ),
+    mrr: buildDelta(
+      normalise(revenueBetween(payments, windowStart, now)),
+      normalise(revenueBetween(payments, previousStart, windowStart))
+    ),
+    churnRate: buildDelta(currentChurn.rate, previousChurn.rate),
+    churnedSubscriptions: buildDelta(currentChurn.churned, previousChurn.churned),
+  };
+};
+
+/**
+ * Builds one report row per calendar month for the last `months` months,
+ * oldest first.
+ */
+export const buildMonthlyReport = (
+  data: DashboardData,
+  months = 12,
+  now: number = Date.now()
+): MonthlyReportRow[] => {
+  const current = new Date(now);
+  const rows = new Map<string, MonthlyReportRow>();
+
+  for (let i = months - 1; i >= 0; i--) {
+    const month = new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() - i, 1));
+    const key = monthKey(month.getTime());
+    rows.set(key, {
+      month: key,
+      newUsers: 0,
+      newSubscriptions: 0,
+      churnedSubscriptions: 0,
+      revenue: 0,
+      payments: 0,
+      newTips: 0,
+      closedTips: 0,
+    });
+  }
+
+  const bump = (time: number | null, apply: (row: MonthlyReportRow) => void) => {
+    if (time === null) return;
+    const row = rows.get(monthKey(time));
+    if (row) apply(row);
+  };
+
+  data.users.forEach((user) => bump(toTime(user.createdAt), (row) => row.newUsers++));
+  data.subscriptions.forEach((sub) => {
+    bump(subscriptionStart(sub), (row) => row.newSubscriptions++);
+    bump(subscriptionEnd(sub), (row) => row.churnedSubscriptions++);
+  });
+  data.payments.filter(isSuccessfulPayment).forEach((payment) =>
+    bump(toTime(payment.createdAt), (row) => {
+      row.revenue += Number(payment.amount) || 0;
+      row.payments++;
+    })
+  );
+  data.tips.forEach((tip) => {
+    bump(toTime(tip.createdAt), (row) => row.newTips++);
+    if (tip.status === "Closed") bump(toTime(tip.closedAt || tip.updatedAt), (row) => row.closedTips++);
+  });
+
+  return Array.from(rows.values());
+};
+
+/**
+ * Active subscriptions and lifetime revenue per portfolio, sorted by
+ * active subscriptions.
+ */
+export const buildPortfolioSubscriptionStats = (
+  data: DashboardData,
+  now: number = Date.now()
+): PortfolioSubscriptionStat[] => {
+  const stats = new Map<string, PortfolioSubscriptionStat>();
+  data.portfolios.forEach((portfolio) => {
+    const id = portfolio._id || portfolio.id;
+    stats.set(id, { portfolioId: id, name: portfolio.name, activeSubscriptions: 0, revenue: 0 });
+  });
+
+  data.subscriptions.forEach((sub) => {
+    const id = getPortfolioId(sub.portfolio) || (sub.productType !== "Bundle" ? getPortfolioId(sub.productId) : undefined);
+    const stat = id ? stats.get(id) : undefined;
+    if (stat && wasSubscriptionActiveAt(sub, now)) stat.activeSubscriptions++;
+  });
+
+  data.payments.filter(isSuccessfulPayment).forEach((payment) => {
+    const id = getPortfolioId(payment.portfolio);
+    const stat = id ? stats.get(id) : undefined;
+    if (stat) stat.revenue += Number(payment.amount) || 0;
+  });
+
+  return Array.from(stats.values()).sort((a, b) => b.activeSubscriptions - a.activeSubscriptions);
+};
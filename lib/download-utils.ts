@@ -216,6 +216,29 @@ export function downloadTips(tips: any[], format: 'csv' | 'json' = 'csv') {
   });
 }
 
+export function downloadTipTrackRecord(rows: any[], format: 'csv' | 'json' = 'csv') {
+  downloadData(rows, {
+    filename: `tip-track-record-${new Date().toISOString().split('T')[0]}`,
+    format,
+    customHeaders: {
+      'title': 'Title',
+      'stockSymbol': 'Stock Symbol',
+      'category': 'Category',
+      'horizon': 'Horizon',
+      'action': 'Action',
+      'portfolio': 'Portfolio',
+      'analystConfidence': 'Analyst Confidence',
+      'buyRange': 'Buy Range',
+      'exitedPrice': 'Exited Price',
+      'exitStatus': 'Exit Status',
+      'returnPercent': 'Return %',
+      'holdingDays': 'Holding Days',
+      'createdAt': 'Created Date',
+      'closedAt': 'Closed Date'
+    }
+  });
+}
+
 export function downloadBundles(bundles: any[], format: 'csv' | 'json' = 'csv') {
   downloadData(bundles, {
     filename: `bundles-${new Date().toISOString().split('T')[0]}`,
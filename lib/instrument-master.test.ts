@@ -0,0 +1,58 @@
+// lib/instrument-master.test.ts
+import { describe, expect, it } from "vitest";
+import type { StockSymbol } from "@/lib/api-stock-symbols";
+import { buildMasterImportPlan, type MasterRow } from "@/lib/instrument-master";
+
+const row = (overrides: Partial<MasterRow>): MasterRow => ({
+  rowNumber: 2,
+  symbol: "INFY",
+  name: "Infosys",
+  isin: "INE009A01021",
+  series: "EQ",
+  sector: "",
+  listingStatus: "ACTIVE",
+  errors: [],
+  ...overrides,
+});
+
+const stock = (overrides: Partial<StockSymbol>): StockSymbol => ({
+  _id: "s1",
+  symbol: "INFY",
+  exchange: "NSE",
+  name: "Infosys",
+  isin: "INE009A01021",
+  series: "EQ",
+  currentPrice: "1500",
+  previousPrice: "1490",
+  ...overrides,
+});
+
+const options = { addNewSymbols: true, markMissingAsDelisted: true };
+
+describe("buildMasterImportPlan", () => {
+  it("delists listed stocks the file no longer has", () => {
+    const plan = buildMasterImportPlan([row({})], "NSE", [stock({}), stock({ _id: "s2", symbol: "TCS", isin: "INE467B01029" })], options);
+    expect(plan.map((item) => [item.symbol, item.action])).toEqual([
+      ["INFY", "skip"],
+      ["TCS", "delist"],
+    ]);
+  });
+
+  it("never delists a stock whose row is invalid", () => {
+    const plan = buildMasterImportPlan([row({ isin: "BAD", errors: ["Invalid ISIN"] })], "NSE", [stock({})], options);
+    expect(plan.map((item) => item.action)).toEqual(["invalid"]);
+  });
+
+  it("does not read an ISIN match as a rename while the old ticker is still in the file", () => {
+    const plan = buildMasterImportPlan(
+      [row({ rowNumber: 2, errors: ["Unknown status"] }), row({ rowNumber: 3, symbol: "INFY-BE" })],
+      "NSE",
+      [stock({})],
+      options
+    );
+    expect(plan.map((item) => [item.symbol, item.action])).toEqual([
+      ["INFY", "invalid"],
+      ["INFY-BE", "insert"],
+    ]);
+  });
+});
@@ -0,0 +1,497 @@
+// lib/instrument-master.ts
+import * as XLSX from "xlsx";
+import type { Portfolio } from "@/lib/api";
+import {
+  createStockSymbol,
+  updateStockSymbol,
+  type ListingStatus,
+  type StockSymbol,
+  type UpdateStockSymbolRequest,
+} from "@/lib/api-stock-symbols";
+import type { Tip } from "@/lib/api-tips";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type MasterExchange = "NSE" | "BSE";
+
+export type MasterField = "symbol" | "name" | "isin" | "series" | "lotSize" | "sector" | "status";
+
+export interface MasterRow {
+  rowNumber: number; // 1-based file row, including the header
+  symbol: string;
+  name: string;
+  isin: string;
+  series: string;
+  lotSize?: number;
+  sector: string;
+  listingStatus: ListingStatus;
+  errors: string[];
+}
+
+export interface ParsedInstrumentMaster {
+  exchange: MasterExchange; // Guessed from the headers
+  rows: MasterRow[];
+  columns: Partial<Record<MasterField, string>>; // Field -> header as written in the file
+  missingColumns: MasterField[];
+}
+
+export type MasterAction = "insert" | "update" | "rename" | "delist" | "skip" | "invalid";
+
+export interface MasterPlanItem {
+  key: string;
+  action: MasterAction;
+  symbol: string;
+  row?: MasterRow;
+  existing?: StockSymbol;
+  changes: string[];
+  reason?: string;
+}
+
+export interface MasterImportOptions {
+  addNewSymbols: boolean;
+  // Only safe with a full exchange master; a partial list would delist everything else
+  markMissingAsDelisted: boolean;
+}
+
+export interface MasterImportResult {
+  key: string;
+  symbol: string;
+  action: Exclude<MasterAction, "skip" | "invalid">;
+  status: "success" | "failed";
+  error?: string;
+}
+
+export interface MasterImportProgress {
+  completed: number;
+  total: number;
+}
+
+export type SymbolReferenceProblem = "missing" | "renamed" | "delisted" | "suspended";
+
+export interface SymbolReferenceIssue {
+  source: "holding" | "tip";
+  sourceId: string;
+  sourceName: string; // Portfolio name or tip title
+  symbol: string;
+  problem: SymbolReferenceProblem;
+  replacement?: string; // Current ticker when the stock was renamed
+}
+
+const REQUIRED_FIELDS: MasterField[] = ["symbol", "name", "isin"];
+
+// Headers are matched after lowercasing and stripping everything but letters and digits.
+// Covers NSE's EQUITY_L.csv and BSE's "List of Scrips" export.
+const COLUMN_ALIASES: Record<MasterField, string[]> = {
+  symbol: ["symbol", "securityid", "tradingsymbol", "scripid", "ticker"],
+  name: ["nameofcompany", "companyname", "issuername", "securityname", "name"],
+  isin: ["isinnumber", "isin", "isinno", "isincode"],
+  series: ["series", "group"],
+  lotSize: ["marketlot", "lotsize", "boardlot", "lot"],
+  sector: ["sector", "industry", "sectorname", "industryname"],
+  status: ["status", "listingstatus"],
+};
+
+export const MASTER_FIELD_LABELS: Record<MasterField, string> = {
+  symbol: "Symbol",
+  name: "Company Name",
+  isin: "ISIN",
+  series: "Series",
+  lotSize: "Lot Size",
+  sector: "Sector",
+  status: "Status",
+};
+
+export const REFERENCE_PROBLEM_LABELS: Record<SymbolReferenceProblem, string> = {
+  missing: "No such symbol",
+  renamed: "Renamed",
+  delisted: "Delisted",
+  suspended: "Suspended",
+};
+
+const DEFAULT_BATCH_SIZE = 10;
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/;
+
+// =================================================================
+// PARSING
+// =================================================================
+
+const normaliseHeader = (header: unknown): string => String(header ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const normaliseSymbol = (symbol: unknown): string => String(symbol ?? "").trim().toUpperCase();
+
+const parseListingStatus = (value: unknown): ListingStatus | null => {
+  const text = String(value ?? "").trim().toLowerCase();
+  if (!text || text === "active" || text === "listed") return "ACTIVE";
+  if (text === "suspended") return "SUSPENDED";
+  if (text === "delisted") return "DELISTED";
+  return null;
+};
+
+/**
+ * Reads an NSE or BSE instrument master (CSV or XLSX) into rows, validating
+ * symbols, ISINs and lot sizes. Rows with problems are kept with their
+ * errors so they can be shown in the preview.
+ */
+export const parseInstrumentMasterFile = async (file: File): Promise<ParsedInstrumentMaster> => {
+  // Read everything as text so ISINs and leading-zero codes stay as written
+  const workbook = /\.csv$/i.test(file.name)
+    ? XLSX.read(await file.text(), { type: "string", raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: "array" });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) throw new Error("The file does not contain any sheets");
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: false,
+    blankrows: false,
+    defval: "",
+  });
+  if (table.length === 0) throw new Error("The file is empty");
+
+  const headers = table[0].map(normaliseHeader);
+  const columnIndex = {} as Partial<Record<MasterField, number>>;
+  const columns: ParsedInstrumentMaster["columns"] = {};
+  (Object.keys(COLUMN_ALIASES) as MasterField[]).forEach((field) => {
+    const index = headers.findIndex((header) => COLUMN_ALIASES[field].includes(header));
+    if (index >= 0) {
+      columnIndex[field] = index;
+      columns[field] = String(table[0][index]);
+    }
+  });
+
+  // Only BSE's scrip list numbers its securities
+  const exchange: MasterExchange = headers.includes("securitycode") || headers.includes("securityid") ? "BSE" : "NSE";
+
+  const missingColumns = REQUIRED_FIELDS.filter((field) => columnIndex[field] === undefined);
+  if (missingColumns.length > 0) return { exchange, rows: [], columns, missingColumns };
+
+  const seenSymbols = new Map<string, number>();
+
+  const rows = table.slice(1).map((cells, i): MasterRow => {
+    const rowNumber = i + 2;
+    const errors: string[] = [];
+    const cell = (field: MasterField) =>
+      columnIndex[field] === undefined ? "" : String(cells[columnIndex[field]!] ?? "").trim();
+
+    const symbol = normaliseSymbol(cell("symbol"));
+    if (!symbol) errors.push("Symbol is missing");
+    else if (seenSymbols.has(symbol)) errors.push(`Same symbol as row ${seenSymbols.get(symbol)}`);
+    else seenSymbols.set(symbol, rowNumber);
+
+    const name = cell("name");
+    if (!name) errors.push("Company name is missing");
+
+    const isin = cell("isin").toUpperCase();
+    if (!ISIN_PATTERN.test(isin)) errors.push(`Invalid ISIN "${isin}"`);
+
+    const lotCell = cell("lotSize").replace(/,/g, "");
+    const lotSize = lotCell ? Number(lotCell) : undefined;
+    if (lotSize !== undefined && !(Number.isInteger(lotSize) && lotSize > 0)) {
+      errors.push("Lot size must be a whole number above zero");
+    }
+
+    const listingStatus = parseListingStatus(cell("status"));
+    if (!listingStatus) errors.push(`Unknown status "${cell("status")}"`);
+
+    return {
+      rowNumber,
+      symbol,
+      name,
+      isin,
+      series: cell("series").toUpperCase(),
+      lotSize,
+      sector: cell("sector"),
+      listingStatus: listingStatus || "ACTIVE",
+      errors,
+    };
+  });
+
+  return { exchange, rows, columns, missingColumns };
+};
+
+// =================================================================
+// PREVIEW AND COMMIT
+// =================================================================
+
+const getStockId = (stock: StockSymbol) => stock._id || stock.id || "";
+
+// Fields of a stock that differ from its master row, as "field: old → new"
+const describeChanges = (stock: StockSymbol, row: MasterRow): string[] => {
+  const changes: string[] = [];
+  const compare = (label: string, before: unknown, after: unknown) => {
+    if (after === undefined || after === "") return;
+    if (String(before ?? "") !== String(after)) changes.push(`${label}: ${before || "—"} → ${after}`);
+  };
+  compare("Name", stock.name, row.name);
+  compare("ISIN", stock.isin, row.isin);
+  compare("Series", stock.series, row.series);
+  compare("Lot size", stock.lotSize, row.lotSize);
+  compare("Sector", stock.sector, row.sector);
+  compare("Status", stock.listingStatus || "ACTIVE", row.listingStatus);
+  return changes;
+};
+
+/**
+ * Compares master rows with the exchange's existing stock symbols. Tickers
+ * are matched first; a row whose ticker is unknown but whose ISIN belongs to
+ * an existing symbol is a rename. Existing symbols the file no longer lists
+ * can be marked as delisted.
+ */
+export const buildMasterImportPlan = (
+  rows: MasterRow[],
+  exchange: MasterExchange,
+  existingSymbols: StockSymbol[],
+  options: MasterImportOptions
+): MasterPlanItem[] => {
+  const onExchange = existingSymbols.filter((stock) => (stock.exchange || "").toUpperCase() === exchange);
+  const bySymbol = new Map(onExchange.map((stock) => [normaliseSymbol(stock.symbol), stock]));
+  const byIsin = new Map(onExchange.filter((stock) => stock.isin).map((stock) => [stock.isin!.toUpperCase(), stock]));
+  // Every ticker the file lists, valid or not: a row with a fixable error
+  // still means the exchange lists the stock
+  const fileSymbols = new Set(rows.filter((row) => row.symbol).map((row) => row.symbol));
+  const matched = new Set<StockSymbol>();
+
+  const plan = rows.map((row): MasterPlanItem => {
+    const base = { key: `row-${row.rowNumber}`, symbol: row.symbol, row, changes: [] };
+    const existing = bySymbol.get(row.symbol);
+    if (existing) matched.add(existing);
+    if (row.errors.length > 0) return { ...base, action: "invalid", reason: row.errors.join("; ") };
+
+    if (existing) {
+      if (row.listingStatus === "DELISTED") {
+        return existing.listingStatus === "DELISTED"
+          ? { ...base, action: "skip", existing, reason: "Already delisted" }
+          : { ...base, action: "delist", existing, changes: describeChanges(existing, row), reason: "Delisted by the exchange" };
+      }
+      const changes = describeChanges(existing, row);
+      return changes.length > 0
+        ? { ...base, action: "update", existing, changes }
+        : { ...base, action: "skip", existing, reason: "Up to date" };
+    }
+
+    // The old ticker must be gone from the file too, or this is a second listing of the same ISIN
+    const renamed = byIsin.get(row.isin);
+    if (renamed && !fileSymbols.has(normaliseSymbol(renamed.symbol)) && !matched.has(renamed)) {
+      matched.add(renamed);
+      return {
+        ...base,
+        action: "rename",
+        existing: renamed,
+        changes: [`Symbol: ${renamed.symbol} → ${row.symbol}`, ...describeChanges(renamed, row)],
+      };
+    }
+
+    if (row.listingStatus === "DELISTED") return { ...base, action: "skip", reason: "Delisted and not in the symbol list" };
+    if (!options.addNewSymbols) return { ...base, action: "skip", reason: "Not in the symbol list" };
+    return { ...base, action: "insert" };
+  });
+
+  if (options.markMissingAsDelisted) {
+    onExchange
+      .filter(
+        (stock) =>
+          !matched.has(stock) && !fileSymbols.has(normaliseSymbol(stock.symbol)) && stock.listingStatus !== "DELISTED"
+      )
+      .forEach((stock) => {
+        plan.push({
+          key: `stock-${getStockId(stock) || stock.symbol}`,
+          action: "delist",
+          symbol: stock.symbol,
+          existing: stock,
+          changes: [`Status: ${stock.listingStatus || "ACTIVE"} → DELISTED`],
+          reason: "Missing from the instrument master",
+        });
+      });
+  }
+
+  return plan;
+};
+
+const toUpdateRequest = (item: MasterPlanItem): UpdateStockSymbolRequest => {
+  const { row, existing } = item;
+  if (!row) return { listingStatus: "DELISTED" };
+
+  const update: UpdateStockSymbolRequest = {
+    name: row.name,
+    isin: row.isin,
+    series: row.series || undefined,
+    lotSize: row.lotSize,
+    sector: row.sector || undefined,
+    listingStatus: row.listingStatus,
+  };
+  if (item.action === "rename" && existing) {
+    update.symbol = row.symbol;
+    update.previousSymbols = Array.from(new Set([...(existing.previousSymbols || []), existing.symbol]));
+  }
+  return update;
+};
+
+/**
+ * Writes the inserts, updates, renames and delistings of a plan in batches,
+ * reporting progress after each batch. Failures are collected per symbol
+ * rather than aborting the import.
+ */
+export const commitMasterImportPlan = async (
+  plan: MasterPlanItem[],
+  exchange: MasterExchange,
+  onProgress?: (progress: MasterImportProgress) => void,
+  batchSize = DEFAULT_BATCH_SIZE
+): Promise<MasterImportResult[]> => {
+  const work = plan.filter((item) => item.action !== "skip" && item.action !== "invalid");
+  const results: MasterImportResult[] = [];
+  onProgress?.({ completed: 0, total: work.length });
+
+  for (let start = 0; start < work.length; start += batchSize) {
+    const batch = work.slice(start, start + batchSize);
+    const settled = await Promise.allSettled(
+      batch.map((item) => {
+        if (item.action === "insert" && item.row) {
+          // New symbols get their first price from the next price update
+          return createStockSymbol({
+            symbol: item.row.symbol,
+            exchange,
+            name: item.row.name,
+            currentPrice: "0",
+            isin: item.row.isin,
+            series: item.row.series || undefined,
+            lotSize: item.row.lotSize,
+            sector: item.row.sector || undefined,
+            listingStatus: item.row.listingStatus,
+          });
+        }
+        return updateStockSymbol(item.existing ? getStockId(item.existing) : "", toUpdateRequest(item));
+      })
+    );
+
+    settled.forEach((outcome, i) => {
+      const item = batch[i];
+      results.push({
+        key: item.key,
+        symbol: item.symbol,
+        action: item.action as MasterImportResult["action"],
+        status: outcome.status === "fulfilled" ? "success" : "failed",
+        error:
+          outcome.status === "rejected"
+            ? outcome.reason instanceof Error
+              ? outcome.reason.message
+              : String(outcome.reason)
+            : undefined,
+      });
+    });
+    onProgress?.({ completed: results.length, total: work.length });
+  }
+
+  return results;
+};
+
+/**
+ * The stock symbol list as it will look once a plan is written, so broken
+ * references can be found before importing.
+ */
+export const applyMasterImportPlan = (
+  existingSymbols: StockSymbol[],
+  plan: MasterPlanItem[],
+  exchange: MasterExchange
+): StockSymbol[] => {
+  const updated = new Map<StockSymbol, StockSymbol>();
+  const inserted: StockSymbol[] = [];
+  plan.forEach((item) => {
+    if (item.action === "insert" && item.row) {
+      inserted.push({
+        symbol: item.row.symbol,
+        exchange,
+        name: item.row.name,
+        currentPrice: "0",
+        previousPrice: "0",
+        listingStatus: item.row.listingStatus,
+      });
+    } else if ((item.action === "update" || item.action === "rename" || item.action === "delist") && item.existing) {
+      const update = toUpdateRequest(item);
+      updated.set(item.existing, { ...item.existing, ...update } as StockSymbol);
+    }
+  });
+  return [...existingSymbols.map((stock) => updated.get(stock) || stock), ...inserted];
+};
+
+// =================================================================
+// RECONCILIATION
+// =================================================================
+
+const referenceProblem = (stock: StockSymbol): SymbolReferenceProblem | null => {
+  if (stock.listingStatus === "DELISTED") return "delisted";
+  if (stock.listingStatus === "SUSPENDED") return "suspended";
+  return null;
+};
+
+/**
+ * Open portfolio holdings and active tips whose stock no longer resolves to
+ * a listed symbol. Holdings reference stocks by ticker, so a renamed ticker
+ * stops their price refresh; tips reference stocks by ID or ticker.
+ */
+export const findBrokenSymbolReferences = (
+  stocks: StockSymbol[],
+  portfolios: Portfolio[],
+  tips: Tip[]
+): SymbolReferenceIssue[] => {
+  const bySymbol = new Map<string, StockSymbol>();
+  const byPreviousSymbol = new Map<string, StockSymbol>();
+  const byId = new Map<string, StockSymbol>();
+  stocks.forEach((stock) => {
+    bySymbol.set(normaliseSymbol(stock.symbol), stock);
+    (stock.previousSymbols || []).forEach((symbol) => byPreviousSymbol.set(normaliseSymbol(symbol), stock));
+    [stock._id, stock.id].forEach((id) => id && byId.set(id, stock));
+  });
+
+  // A listed ticker wins over an old ticker another stock used to have
+  const check = (symbol: string): Pick<SymbolReferenceIssue, "problem" | "replacement"> | null => {
+    const current = bySymbol.get(normaliseSymbol(symbol));
+    if (current) {
+      const problem = referenceProblem(current);
+      return problem ? { problem } : null;
+    }
+    const renamed = byPreviousSymbol.get(normaliseSymbol(symbol));
+    if (renamed) return { problem: "renamed", replacement: renamed.symbol };
+    return { problem: "missing" };
+  };
+
+  const issues: SymbolReferenceIssue[] = [];
+
+  portfolios.forEach((portfolio) => {
+    (portfolio.holdings || [])
+      .filter((holding) => holding.status !== "Sold" && holding.symbol)
+      .forEach((holding) => {
+        const problem = check(holding.symbol);
+        if (problem) {
+          issues.push({
+            source: "holding",
+            sourceId: portfolio._id || portfolio.id || "",
+            sourceName: portfolio.name,
+            symbol: holding.symbol,
+            ...problem,
+          });
+        }
+      });
+  });
+
+  tips
+    .filter((tip) => tip.status === "Active")
+    .forEach((tip) => {
+      const base = { source: "tip" as const, sourceId: tip._id || tip.id, sourceName: tip.title };
+      const linked = byId.get(tip.stockId);
+      if (linked) {
+        const problem = referenceProblem(linked);
+        if (problem) issues.push({ ...base, symbol: linked.symbol, problem });
+        else if (tip.stockSymbol && normaliseSymbol(tip.stockSymbol) !== normaliseSymbol(linked.symbol)) {
+          issues.push({ ...base, symbol: tip.stockSymbol, problem: "renamed", replacement: linked.symbol });
+        }
+        return;
+      }
+      const symbol = tip.stockSymbol || tip.stockId;
+      const problem = check(symbol);
+      if (problem) issues.push({ ...base, symbol, ...problem });
+    });
+
+  return issues;
+};
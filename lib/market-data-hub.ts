@@ -0,0 +1,156 @@
+// lib/market-data-hub.ts
+import { fetchAllStockSymbols, type StockSymbol } from "@/lib/api-stock-symbols";
+import { refreshStockPrices } from "@/lib/market-data";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+// What the stream sends: the full price list to a client that just
+// connected, then only the symbols that changed since the last poll
+export type MarketDataEvent =
+  | { type: "snapshot"; stocks: StockSymbol[]; updatedAt: string; marketOpen: boolean }
+  | { type: "diff"; stocks: StockSymbol[]; removed: string[]; updatedAt: string; marketOpen: boolean }
+  | { type: "failure"; message: string };
+
+type MarketDataListener = (event: MarketDataEvent) => void;
+
+interface Subscriber {
+  listener: MarketDataListener;
+  interval: number;
+}
+
+export const MIN_POLL_INTERVAL_MS = 5000;
+export const MAX_POLL_INTERVAL_MS = 300000;
+export const DEFAULT_POLL_INTERVAL_MS = 30000;
+// Prices barely move outside market hours, so the hub polls less often
+const CLOSED_MARKET_FACTOR = 3;
+
+// Fields whose change is worth sending to clients
+const PRICE_FIELDS: Array<keyof StockSymbol> = ["currentPrice", "previousPrice", "marketStatus", "volume", "lastPriceUpdate"];
+
+// One hub per server process, shared by every connected tab
+const subscribers = new Set<Subscriber>();
+let prices = new Map<string, StockSymbol>();
+let updatedAt: string | null = null;
+let marketOpen = true;
+let lastPollAt = 0;
+let pollTimeout: NodeJS.Timeout | null = null;
+let isPolling = false;
+
+// =================================================================
+// POLLING
+// =================================================================
+
+const broadcast = (event: MarketDataEvent) => {
+  subscribers.forEach(({ listener }) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("Market data listener failed:", error);
+    }
+  });
+};
+
+// Stocks without a market status are treated as trading
+const isMarketOpen = (stocks: StockSymbol[]) =>
+  !stocks.some((stock) => stock.marketStatus) || stocks.some((stock) => stock.marketStatus === "OPEN");
+
+/**
+ * A requested interval within the bounds the hub supports. Anything that is
+ * not a number gets the default.
+ */
+export const clampPollInterval = (interval?: number): number =>
+  interval !== undefined && Number.isFinite(interval)
+    ? Math.min(MAX_POLL_INTERVAL_MS, Math.max(MIN_POLL_INTERVAL_MS, interval))
+    : DEFAULT_POLL_INTERVAL_MS;
+
+/**
+ * The poll interval the connected clients need: the shortest one any of
+ * them asked for, stretched while the market is closed.
+ */
+const nextPollDelay = () => {
+  const requested = Math.min(...Array.from(subscribers, (subscriber) => subscriber.interval));
+  return requested * (marketOpen ? 1 : CLOSED_MARKET_FACTOR);
+};
+
+// Counted from the last poll, so clients connecting do not hold the next one back
+const scheduleNextPoll = () => {
+  if (pollTimeout) clearTimeout(pollTimeout);
+  pollTimeout =
+    subscribers.size > 0 ? setTimeout(pollPrices, Math.max(0, lastPollAt + nextPollDelay() - Date.now())) : null;
+};
+
+/**
+ * Refreshes prices once for all clients: asks the backend to update its
+ * quotes while the market is open (or the price provider, if the backend's
+ * job fails), reads the full list and broadcasts the symbols that changed.
+ */
+const pollPrices = async () => {
+  if (isPolling) return;
+  isPolling = true;
+  try {
+    if (marketOpen) {
+      try {
+        await refreshStockPrices();
+      } catch (error) {
+        // Stale quotes are still worth sending; the read below reports real outages
+        console.error("Market data hub: price update failed:", error);
+      }
+    }
+    const stocks = await fetchAllStockSymbols();
+    const next = new Map(stocks.map((stock) => [stock.symbol, stock]));
+    const changed = stocks.filter((stock) => {
+      const previous = prices.get(stock.symbol);
+      return !previous || PRICE_FIELDS.some((field) => previous[field] !== stock[field]);
+    });
+    const removed = Array.from(prices.keys()).filter((symbol) => !next.has(symbol));
+
+    prices = next;
+    updatedAt = new Date().toISOString();
+    marketOpen = isMarketOpen(stocks);
+    if (changed.length > 0 || removed.length > 0) {
+      broadcast({ type: "diff", stocks: changed, removed, updatedAt, marketOpen });
+    }
+  } catch (error) {
+    broadcast({ type: "failure", message: error instanceof Error ? error.message : "Failed to load prices" });
+  } finally {
+    isPolling = false;
+    lastPollAt = Date.now();
+    scheduleNextPoll();
+  }
+};
+
+// =================================================================
+// SUBSCRIPTIONS
+// =================================================================
+
+/**
+ * Adds a client to the hub. It gets the latest prices straight away if the
+ * hub has any, then every change. Polling starts with the first client and
+ * stops when the last one leaves.
+ */
+export const subscribeToMarketData = (
+  listener: MarketDataListener,
+  interval: number = DEFAULT_POLL_INTERVAL_MS
+): (() => void) => {
+  const subscriber: Subscriber = {
+    listener,
+    interval: clampPollInterval(interval),
+  };
+  subscribers.add(subscriber);
+
+  if (updatedAt) {
+    listener({ type: "snapshot", stocks: Array.from(prices.values()), updatedAt, marketOpen });
+  }
+  // A faster client shortens the wait, and stale prices are refreshed at once
+  if (!isPolling) scheduleNextPoll();
+
+  return () => {
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0 && pollTimeout) {
+      clearTimeout(pollTimeout);
+      pollTimeout = null;
+    }
+  };
+};
@@ -0,0 +1,191 @@
+// lib/market-data.ts
+// Server-side price work that goes through the configured PriceProvider
+import { toStockOhlc } from "@/lib/api-market-data";
+import {
+  fetchAllStockSymbols,
+  updateStockPrices,
+  updateStockSymbol,
+  type StockPriceUpdateResult,
+  type StockSymbol,
+} from "@/lib/api-stock-symbols";
+import {
+  PriceProviderError,
+  toInstrumentKey,
+  type InstrumentRef,
+  type PriceProvider,
+} from "@/lib/price-provider";
+import { createKitePriceProvider } from "@/lib/price-provider-kite";
+import { createMockPriceProvider } from "@/lib/price-provider-mock";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export interface PriceDeviation {
+  symbol: string;
+  exchange: string;
+  backendPrice: number;
+  providerPrice: number;
+  differencePercent: number;
+}
+
+export interface PriceValidationResult {
+  provider: string;
+  checked: number;
+  missing: string[];
+  deviations: PriceDeviation[];
+  checkedAt: string;
+}
+
+export const DEFAULT_DEVIATION_TOLERANCE_PERCENT = 1;
+
+// =================================================================
+// PROVIDER SELECTION
+// =================================================================
+
+let provider: PriceProvider | null = null;
+
+/**
+ * The provider chosen by PRICE_PROVIDER: "kite" needs KITE_API_KEY and
+ * KITE_ACCESS_TOKEN, "mock" reads PRICE_PROVIDER_FIXTURE or the bundled
+ * fixture. Throws a not_configured error when none is set up.
+ */
+export const getPriceProvider = (): PriceProvider => {
+  if (provider) return provider;
+
+  switch (process.env.PRICE_PROVIDER) {
+    case "kite": {
+      const apiKey = process.env.KITE_API_KEY;
+      const accessToken = process.env.KITE_ACCESS_TOKEN;
+      if (!apiKey || !accessToken) {
+        throw new PriceProviderError("KITE_API_KEY and KITE_ACCESS_TOKEN are required for the Kite provider", "not_configured");
+      }
+      provider = createKitePriceProvider({ apiKey, accessToken });
+      break;
+    }
+    case "mock":
+      provider = createMockPriceProvider(process.env.PRICE_PROVIDER_FIXTURE);
+      break;
+    default:
+      throw new PriceProviderError("No price provider is configured", "not_configured");
+  }
+  return provider;
+};
+
+export const isPriceProviderConfigured = (): boolean => !!process.env.PRICE_PROVIDER;
+
+export const toInstrumentRef = (stock: Pick<StockSymbol, "exchange" | "symbol">): InstrumentRef => ({
+  exchange: stock.exchange,
+  symbol: stock.symbol,
+});
+
+// =================================================================
+// PRICE UPDATES
+// =================================================================
+
+/**
+ * Writes the provider's last price, previous close and session OHLC onto
+ * every stock symbol in the backend. Symbols the provider has no price for,
+ * or whose save fails, are reported as failed; unchanged prices are not saved
+ * again. Routes pass their caller's access token; the server's own jobs use
+ * the stored one.
+ */
+export const applyProviderPrices = async (accessToken?: string): Promise<StockPriceUpdateResult> => {
+  const source = getPriceProvider();
+  const stocks = await fetchAllStockSymbols(accessToken);
+  const quotes = await source.getOhlc(stocks.map(toInstrumentRef));
+
+  const successSymbols: string[] = [];
+  const failedSymbols: string[] = [];
+  for (const stock of stocks) {
+    const quote = quotes[toInstrumentKey(toInstrumentRef(stock))];
+    const id = stock._id || stock.id;
+    if (!quote || !id) {
+      failedSymbols.push(stock.symbol);
+      continue;
+    }
+    const currentPrice = String(quote.lastPrice);
+    const previousPrice = String(quote.ohlc.close);
+    const ohlc = toStockOhlc(quote.ohlc);
+    const unchanged =
+      stock.currentPrice === currentPrice &&
+      stock.previousPrice === previousPrice &&
+      stock.ohlc?.high === ohlc.high &&
+      stock.ohlc?.low === ohlc.low;
+    if (unchanged) {
+      successSymbols.push(stock.symbol);
+      continue;
+    }
+    try {
+      await updateStockSymbol(id, { currentPrice, previousPrice, ohlc }, accessToken);
+      successSymbols.push(stock.symbol);
+    } catch (error) {
+      console.error(`Failed to save ${source.name} price for ${stock.symbol}:`, error);
+      failedSymbols.push(stock.symbol);
+    }
+  }
+
+  return {
+    success: failedSymbols.length === 0,
+    updated: successSymbols.length,
+    failed: failedSymbols.length,
+    successSymbols,
+    failedSymbols,
+    message: `Updated ${successSymbols.length} prices from ${source.name}`,
+    lastUpdateTime: new Date().toISOString(),
+  };
+};
+
+/**
+ * Asks the backend's price job to update prices, falling back to the
+ * configured provider when the job fails.
+ */
+export const refreshStockPrices = async (): Promise<StockPriceUpdateResult> => {
+  try {
+    return await updateStockPrices();
+  } catch (error) {
+    if (!isPriceProviderConfigured()) throw error;
+    console.error("Backend price update failed, using the price provider:", error);
+    return applyProviderPrices();
+  }
+};
+
+// =================================================================
+// VALIDATION
+// =================================================================
+
+/**
+ * Compares the backend's current prices with the provider's last prices and
+ * lists the symbols that differ by more than the tolerance.
+ */
+export const validateBackendPrices = async (
+  tolerancePercent: number = DEFAULT_DEVIATION_TOLERANCE_PERCENT,
+  accessToken?: string
+): Promise<PriceValidationResult> => {
+  const source = getPriceProvider();
+  const stocks = await fetchAllStockSymbols(accessToken);
+  const prices = await source.getLtp(stocks.map(toInstrumentRef));
+
+  const missing: string[] = [];
+  const deviations: PriceDeviation[] = [];
+  stocks.forEach((stock) => {
+    const providerPrice = prices[toInstrumentKey(toInstrumentRef(stock))];
+    const backendPrice = parseFloat(stock.currentPrice);
+    if (!providerPrice || !Number.isFinite(backendPrice)) {
+      missing.push(stock.symbol);
+      return;
+    }
+    const differencePercent = ((backendPrice - providerPrice) / providerPrice) * 100;
+    if (Math.abs(differencePercent) > tolerancePercent) {
+      deviations.push({ symbol: stock.symbol, exchange: stock.exchange, backendPrice, providerPrice, differencePercent });
+    }
+  });
+
+  return {
+    provider: source.name,
+    checked: stocks.length - missing.length,
+    missing,
+    deviations: deviations.sort((a, b) => Math.abs(b.differencePercent) - Math.abs(a.differencePercent)),
+    checkedAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,313 @@
+// lib/portfolio-analytics.ts
+import { getChartPointDate, type ChartDataPoint } from "@/lib/api-chart-data";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type RollingPeriod = "1M" | "3M" | "6M" | "1Y";
+
+export interface DrawdownInfo {
+  maxDrawdown: number; // Percentage, <= 0
+  peakDate: string | null;
+  troughDate: string | null;
+  recoveryDate: string | null; // null while still under water
+}
+
+export interface PortfolioAnalytics {
+  startDate: string;
+  endDate: string;
+  dataPoints: number;
+  days: number;
+  startValue: number;
+  currentValue: number;
+  totalReturn: number | null;
+  cagr: number | null;
+  volatility: number | null; // Annualised, percentage
+  sharpeRatio: number | null;
+  drawdown: DrawdownInfo;
+  benchmarkStartValue: number;
+  benchmarkCurrentValue: number;
+  benchmarkReturn: number | null;
+  benchmarkCagr: number | null;
+  benchmarkVolatility: number | null;
+  alpha: number | null; // Annualised Jensen's alpha, percentage
+  beta: number | null;
+  rollingReturns: Record<RollingPeriod, number | null>;
+  averageCashRemaining: number;
+  currentCashRemaining: number;
+}
+
+export interface AnalyticsOptions {
+  riskFreeRate?: number; // Annual, as a fraction (0.065 = 6.5%)
+  tradingDaysPerYear?: number;
+}
+
+export interface PortfolioGainsSummary {
+  monthlyGains: string;
+  oneYearGains: string;
+  CAGRSinceInception: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365.25;
+const DEFAULT_RISK_FREE_RATE = 0.065;
+const DEFAULT_TRADING_DAYS = 252;
+
+const ROLLING_PERIOD_MONTHS: Record<RollingPeriod, number> = {
+  "1M": 1,
+  "3M": 3,
+  "6M": 6,
+  "1Y": 12,
+};
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+const toTime = (point: ChartDataPoint): number => new Date(getChartPointDate(point)).getTime();
+
+/**
+ * Shifts a date by whole calendar months, clamping to the last day of the
+ * target month so that Mar 31 minus one month is Feb 28 (or 29), not Mar 3.
+ */
+export const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+};
+
+const percentChange = (start: number, end: number): number | null =>
+  start ? ((end - start) / start) * 100 : null;
+
+const mean = (values: number[]): number =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const sampleVariance = (values: number[]): number | null => {
+  if (values.length < 2) return null;
+  const avg = mean(values);
+  return values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1);
+};
+
+const sampleCovariance = (a: number[], b: number[]): number | null => {
+  if (a.length < 2 || a.length !== b.length) return null;
+  const avgA = mean(a);
+  const avgB = mean(b);
+  return a.reduce((sum, value, i) => sum + (value - avgA) * (b[i] - avgB), 0) / (a.length - 1);
+};
+
+const annualisedGrowth = (start: number, end: number, days: number): number | null => {
+  if (!start || start <= 0 || end <= 0 || days <= 0) return null;
+  return (Math.pow(end / start, DAYS_PER_YEAR / days) - 1) * 100;
+};
+
+/**
+ * Sorts points by trading day and keeps one point per day (the last one),
+ * dropping points without a usable portfolio value.
+ */
+export const normaliseSeries = (points: ChartDataPoint[]): ChartDataPoint[] => {
+  const byDate = new Map<string, ChartDataPoint>();
+  points
+    .filter((point) => Number.isFinite(point.portfolioValue) && point.portfolioValue > 0)
+    .forEach((point) => byDate.set(getChartPointDate(point), point));
+  return Array.from(byDate.values()).sort((a, b) => toTime(a) - toTime(b));
+};
+
+/**
+ * Period-over-period simple returns of the selected value.
+ */
+export const periodReturns = (
+  series: ChartDataPoint[],
+  field: "portfolioValue" | "compareIndexValue" = "portfolioValue"
+): number[] => {
+  const returns: number[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const previous = series[i - 1][field];
+    const current = series[i][field];
+    if (previous > 0 && current > 0) returns.push(current / previous - 1);
+  }
+  return returns;
+};
+
+/**
+ * Returns paired day-over-day portfolio and benchmark returns, skipping
+ * days where either side is missing.
+ */
+const pairedReturns = (series: ChartDataPoint[]) => {
+  const portfolio: number[] = [];
+  const benchmark: number[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const prev = series[i - 1];
+    const curr = series[i];
+    if (prev.portfolioValue > 0 && curr.portfolioValue > 0 && prev.compareIndexValue > 0 && curr.compareIndexValue > 0) {
+      portfolio.push(curr.portfolioValue / prev.portfolioValue - 1);
+      benchmark.push(curr.compareIndexValue / prev.compareIndexValue - 1);
+    }
+  }
+  return { portfolio, benchmark };
+};
+
+// =================================================================
+// ANALYTICS
+// =================================================================
+
+/**
+ * Largest peak-to-trough fall of the portfolio value, with the dates of
+ * the peak, the trough and the first day the peak was regained.
+ */
+export const computeMaxDrawdown = (series: ChartDataPoint[]): DrawdownInfo => {
+  let result: DrawdownInfo = { maxDrawdown: 0, peakDate: null, troughDate: null, recoveryDate: null };
+  if (series.length === 0) return result;
+  let peak = series[0];
+  let worstPeakValue = 0;
+
+  series.forEach((point) => {
+    if (point.portfolioValue > peak.portfolioValue) peak = point;
+    const drawdown = ((point.portfolioValue - peak.portfolioValue) / peak.portfolioValue) * 100;
+    if (drawdown < result.maxDrawdown) {
+      worstPeakValue = peak.portfolioValue;
+      result = {
+        maxDrawdown: drawdown,
+        peakDate: getChartPointDate(peak),
+        troughDate: getChartPointDate(point),
+        recoveryDate: null,
+      };
+    }
+  });
+
+  if (result.troughDate) {
+    const troughTime = new Date(result.troughDate).getTime();
+    const recovery = series.find((point) => toTime(point) > troughTime && point.portfolioValue >= worstPeakValue);
+    result.recoveryDate = recovery ? getChartPointDate(recovery) : null;
+  }
+
+  return result;
+};
+
+/**
+ * Drawdown from the running peak for every point, as a percentage.
+ */
+export const computeDrawdownSeries = (series: ChartDataPoint[]): Array<{ date: string; drawdown: number }> => {
+  let peak = 0;
+  return series.map((point) => {
+    peak = Math.max(peak, point.portfolioValue);
+    return {
+      date: getChartPointDate(point),
+      drawdown: peak ? ((point.portfolioValue - peak) / peak) * 100 : 0,
+    };
+  });
+};
+
+/**
+ * Point-to-point return over the trailing `months`, measured from the last
+ * point on or before the start of the window. Returns null when the series
+ * does not reach back that far.
+ */
+export const computeTrailingReturn = (
+  series: ChartDataPoint[],
+  months: number,
+  field: "portfolioValue" | "compareIndexValue" = "portfolioValue"
+): number | null => {
+  if (series.length < 2) return null;
+  const last = series[series.length - 1];
+  const targetTime = addMonths(new Date(getChartPointDate(last)), -months).getTime();
+
+  let start: ChartDataPoint | undefined;
+  for (const point of series) {
+    if (toTime(point) <= targetTime) start = point;
+    else break;
+  }
+  return start ? percentChange(start[field], last[field]) : null;
+};
+
+/**
+ * Computes return and risk analytics for a portfolio's chart data series.
+ * Returns null when there is no usable data.
+ */
+export const computePortfolioAnalytics = (
+  points: ChartDataPoint[],
+  options: AnalyticsOptions = {}
+): PortfolioAnalytics | null => {
+  const riskFreeRate = options.riskFreeRate ?? DEFAULT_RISK_FREE_RATE;
+  const tradingDays = options.tradingDaysPerYear ?? DEFAULT_TRADING_DAYS;
+  const series = normaliseSeries(points);
+  if (series.length === 0) return null;
+
+  const first = series[0];
+  const last = series[series.length - 1];
+  const days = Math.round((toTime(last) - toTime(first)) / DAY_MS);
+
+  const returns = periodReturns(series);
+  const benchmarkReturns = periodReturns(series, "compareIndexValue");
+  const variance = sampleVariance(returns);
+  const benchmarkVariance = sampleVariance(benchmarkReturns);
+  const volatility = variance === null ? null : Math.sqrt(variance * tradingDays) * 100;
+  const benchmarkVolatility = benchmarkVariance === null ? null : Math.sqrt(benchmarkVariance * tradingDays) * 100;
+
+  const cagr = annualisedGrowth(first.portfolioValue, last.portfolioValue, days);
+  const benchmarkCagr = annualisedGrowth(first.compareIndexValue, last.compareIndexValue, days);
+
+  // Sharpe uses the annualised mean daily return so short ranges are not skewed by compounding
+  const annualisedMeanReturn = returns.length ? mean(returns) * tradingDays : null;
+  const sharpeRatio =
+    annualisedMeanReturn !== null && volatility ? (annualisedMeanReturn - riskFreeRate) / (volatility / 100) : null;
+
+  const paired = pairedReturns(series);
+  const pairedBenchmarkVariance = sampleVariance(paired.benchmark);
+  const covariance = sampleCovariance(paired.portfolio, paired.benchmark);
+  const beta = covariance !== null && pairedBenchmarkVariance ? covariance / pairedBenchmarkVariance : null;
+  const dailyRiskFree = riskFreeRate / tradingDays;
+  const alpha =
+    beta !== null && paired.portfolio.length
+      ? (mean(paired.portfolio) - dailyRiskFree - beta * (mean(paired.benchmark) - dailyRiskFree)) * tradingDays * 100
+      : null;
+
+  const rollingReturns = (Object.keys(ROLLING_PERIOD_MONTHS) as RollingPeriod[]).reduce(
+    (acc, period) => ({ ...acc, [period]: computeTrailingReturn(series, ROLLING_PERIOD_MONTHS[period]) }),
+    {} as Record<RollingPeriod, number | null>
+  );
+
+  return {
+    startDate: getChartPointDate(first),
+    endDate: getChartPointDate(last),
+    dataPoints: series.length,
+    days,
+    startValue: first.portfolioValue,
+    currentValue: last.portfolioValue,
+    totalReturn: percentChange(first.portfolioValue, last.portfolioValue),
+    cagr,
+    volatility,
+    sharpeRatio,
+    drawdown: computeMaxDrawdown(series),
+    benchmarkStartValue: first.compareIndexValue,
+    benchmarkCurrentValue: last.compareIndexValue,
+    benchmarkReturn: percentChange(first.compareIndexValue, last.compareIndexValue),
+    benchmarkCagr,
+    benchmarkVolatility,
+    alpha,
+    beta,
+    rollingReturns,
+    averageCashRemaining: mean(series.map((point) => point.cashRemaining || 0)),
+    currentCashRemaining: last.cashRemaining || 0,
+  };
+};
+
+/**
+ * Formats analytics into the `monthlyGains`, `oneYearGains` and
+ * `CAGRSinceInception` strings stored on a Portfolio. Values the series
+ * cannot support are left empty. Expects analytics over the full history.
+ */
+export const toPortfolioGainsSummary = (analytics: PortfolioAnalytics): PortfolioGainsSummary => {
+  const format = (value: number | null) => (value === null ? "" : value.toFixed(2));
+  // CAGR over less than a year is just an extrapolation, so fall back to the total return
+  const cagr = analytics.days >= DAYS_PER_YEAR ? analytics.cagr : analytics.totalReturn;
+  return {
+    monthlyGains: format(analytics.rollingReturns["1M"]),
+    oneYearGains: format(analytics.rollingReturns["1Y"]),
+    CAGRSinceInception: format(cagr),
+  };
+};
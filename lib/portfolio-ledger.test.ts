@@ -0,0 +1,63 @@
+// lib/portfolio-ledger.test.ts
+import { describe, expect, it } from "vitest";
+import type { PortfolioTransaction } from "@/lib/api";
+import { buildLedger, reconstructHoldingsAsOf } from "@/lib/portfolio-ledger";
+
+const trade = (overrides: Partial<PortfolioTransaction>): PortfolioTransaction => ({
+  portfolio: "p1",
+  symbol: "INFY",
+  type: "buy",
+  date: "2024-06-01T00:00:00.000Z",
+  price: 100,
+  quantity: 10,
+  cashDelta: -1000,
+  resultingQuantity: 10,
+  resultingWeight: 10,
+  ...overrides,
+});
+
+describe("buildLedger", () => {
+  it("derives the full history of symbols with no recorded trades", () => {
+    const ledger = buildLedger("p1", [], {
+      createdAt: "2024-01-01T00:00:00.000Z",
+      holdings: [{ symbol: "TCS", status: "Hold", weight: 20, buyPrice: 3000, quantity: 5 }],
+    });
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0]).toMatchObject({ symbol: "TCS", type: "buy", quantity: 5, derived: true });
+  });
+
+  it("keeps an opening balance for positions held before the first recorded trade", () => {
+    const sale = trade({ type: "partial-sell", date: "2024-06-01T00:00:00.000Z", price: 120, quantity: 4, resultingQuantity: 6 });
+    const ledger = buildLedger("p1", [sale], {
+      createdAt: "2024-01-01T00:00:00.000Z",
+      holdings: [{ symbol: "INFY", status: "Hold", weight: 10, buyPrice: 100, quantity: 6 }],
+    });
+
+    expect(ledger.map((entry) => [entry.type, entry.quantity, entry.derived])).toEqual([
+      ["buy", 10, true],
+      ["partial-sell", 4, false],
+    ]);
+    expect(ledger[0].date).toBe("2024-01-01T00:00:00.000Z");
+    expect(reconstructHoldingsAsOf(ledger, "2024-06-30")).toMatchObject([
+      { symbol: "INFY", quantity: 6, averagePrice: 100, realizedPnL: 80 },
+    ]);
+  });
+
+  it("dates the opening balance before the first trade when the portfolio is newer", () => {
+    const sale = trade({ type: "sell", date: "2024-06-01T00:00:00.000Z", quantity: 10, resultingQuantity: 0 });
+    const ledger = buildLedger("p1", [sale], {
+      createdAt: "2024-07-01T00:00:00.000Z",
+      sold: [{ symbol: "INFY", status: "Sold", weight: 0, buyPrice: 90, quantity: 10 }],
+    });
+    expect(ledger[0]).toMatchObject({ type: "buy", quantity: 10, price: 90, date: "2024-05-31T23:59:59.999Z" });
+  });
+
+  it("adds nothing when the recorded trades explain the holding", () => {
+    const buy = trade({ type: "buy", quantity: 6, resultingQuantity: 6 });
+    const ledger = buildLedger("p1", [buy], {
+      holdings: [{ symbol: "INFY", status: "Hold", weight: 10, buyPrice: 100, quantity: 6 }],
+    });
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0].derived).toBe(false);
+  });
+});
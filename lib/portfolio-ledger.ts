@@ -0,0 +1,349 @@
+// lib/portfolio-ledger.ts
+import {
+  recordPortfolioTransactions,
+  type CreatePortfolioTransactionRequest,
+  type PortfolioHolding,
+  type PortfolioTransaction,
+} from "@/lib/api";
+import { SOLD_SYMBOL_PREFIX, isSoldHolding, type HoldingLike } from "@/lib/portfolio-math";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type LedgerTransactionType = PortfolioTransaction["type"];
+
+export type LedgerHolding = HoldingLike &
+  Partial<Pick<PortfolioHolding, "soldDate" | "originalBuyPrice" | "totalQuantityOwned">>;
+
+export interface LedgerSource {
+  holdings?: LedgerHolding[];
+  sold?: LedgerHolding[];
+  createdAt?: string;
+}
+
+export interface LedgerEntry extends CreatePortfolioTransactionRequest {
+  id: string;
+  // Rebuilt from current holdings because nothing was recorded for the symbol
+  derived: boolean;
+}
+
+export interface LedgerPosition {
+  symbol: string;
+  quantity: number;
+  averagePrice: number;
+  investedValue: number;
+  realizedPnL: number;
+  firstBuyDate: string;
+  lastTradeDate: string;
+}
+
+export interface HoldingsDiffOptions {
+  date?: string;
+  // Market prices used for sells when the holdings carry no realized P&L
+  prices?: Record<string, number>;
+  note?: string;
+}
+
+export const LEDGER_TYPE_LABELS: Record<LedgerTransactionType, string> = {
+  buy: "Buy",
+  "addon-buy": "Add-on Buy",
+  "partial-sell": "Partial Sell",
+  sell: "Sell",
+};
+
+const DERIVED_OPENING_NOTE = "Opening position rebuilt from current holdings";
+const DERIVED_SALE_NOTE = "Sale rebuilt from sold holding";
+
+const ISO_DATE = /\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?/;
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const toDateOnly = (date: string): string => date.split("T")[0];
+
+const isBuy = (type: LedgerTransactionType): boolean => type === "buy" || type === "addon-buy";
+
+const quantityOf = (holding: LedgerHolding): number => holding.totalQuantityOwned || holding.quantity || 0;
+
+/**
+ * Splits a "Sold-Date-" symbol into the traded symbol and the sale date it
+ * carries. Other symbols are returned unchanged.
+ */
+export const parseSoldSymbol = (symbol: string): { symbol: string; date?: string } => {
+  if (!symbol.startsWith(SOLD_SYMBOL_PREFIX)) return { symbol };
+  const rest = symbol.slice(SOLD_SYMBOL_PREFIX.length);
+  const date = rest.match(ISO_DATE)?.[0];
+  const base = (date ? rest.replace(date, "") : rest).replace(/^-+|-+$/g, "");
+  return { symbol: base || rest, date };
+};
+
+/**
+ * Date a sold holding was sold on, from `soldDate`, the symbol or a
+ * timestamp status, whichever the backend set.
+ */
+const getSaleDate = (holding: LedgerHolding): string | undefined =>
+  holding.soldDate || parseSoldSymbol(holding.symbol).date || (holding.status || "").match(ISO_DATE)?.[0];
+
+const sortEntries = <T extends { date: string; symbol: string }>(entries: T[]): T[] =>
+  [...entries].sort((a, b) => a.date.localeCompare(b.date) || a.symbol.localeCompare(b.symbol));
+
+// =================================================================
+// RECORDING
+// =================================================================
+
+/**
+ * Transactions that turn one holdings snapshot into the next. Buy prices are
+ * recovered from the change in average cost; sell prices from the change in
+ * realized P&L, falling back to `prices` and then the average cost. Sold
+ * holdings count as zero quantity.
+ */
+export const diffHoldingsToTransactions = (
+  portfolioId: string,
+  before: LedgerHolding[],
+  after: LedgerHolding[],
+  options: HoldingsDiffOptions = {}
+): CreatePortfolioTransactionRequest[] => {
+  const date = options.date || new Date().toISOString();
+  const activeBefore = new Map(before.filter((holding) => !isSoldHolding(holding)).map((holding) => [holding.symbol, holding]));
+  const activeAfter = new Map<string, LedgerHolding>();
+  const soldAfter = new Map<string, LedgerHolding>();
+  after.forEach((holding) => {
+    const symbol = parseSoldSymbol(holding.symbol).symbol;
+    (isSoldHolding(holding) ? soldAfter : activeAfter).set(symbol, holding);
+  });
+
+  const symbols = Array.from(new Set([...activeBefore.keys(), ...activeAfter.keys()]));
+  return symbols.flatMap((symbol): CreatePortfolioTransactionRequest[] => {
+    const previous = activeBefore.get(symbol);
+    const next = activeAfter.get(symbol);
+    const previousQuantity = previous ? quantityOf(previous) : 0;
+    const nextQuantity = next ? quantityOf(next) : 0;
+    const traded = nextQuantity - previousQuantity;
+    if (traded === 0) return [];
+
+    const base = {
+      portfolio: portfolioId,
+      symbol,
+      date,
+      quantity: Math.abs(traded),
+      resultingQuantity: nextQuantity,
+      resultingWeight: next?.weight || 0,
+      ...(options.note ? { note: options.note } : {}),
+    };
+
+    if (traded > 0) {
+      const nextPrice = next?.buyPrice || 0;
+      const averaged = previous ? (nextQuantity * nextPrice - previousQuantity * (previous.buyPrice || 0)) / traded : nextPrice;
+      const price = round2(averaged > 0 ? averaged : nextPrice);
+      return [{ ...base, type: previousQuantity === 0 ? "buy" : "addon-buy", price, cashDelta: round2(-traded * price) }];
+    }
+
+    const averageCost = previous?.buyPrice || 0;
+    const record = next || soldAfter.get(symbol);
+    const realizedChange = record ? (record.realizedPnL || 0) - (previous?.realizedPnL || 0) : 0;
+    const price = round2(
+      realizedChange !== 0 ? averageCost + realizedChange / base.quantity : options.prices?.[symbol] || averageCost
+    );
+    return [
+      {
+        ...base,
+        type: nextQuantity === 0 ? "sell" : "partial-sell",
+        price,
+        cashDelta: round2(base.quantity * price),
+        realizedPnL: round2(base.quantity * (price - averageCost)),
+      },
+    ];
+  });
+};
+
+/**
+ * Records the trades between two holdings snapshots of a portfolio and
+ * returns how many were written.
+ */
+export const recordHoldingsChange = async (
+  portfolioId: string,
+  before: LedgerHolding[],
+  after: LedgerHolding[],
+  options: HoldingsDiffOptions = {}
+): Promise<number> => {
+  const transactions = diffHoldingsToTransactions(portfolioId, before, after, options);
+  if (transactions.length === 0) return 0;
+  await recordPortfolioTransactions(portfolioId, transactions);
+  return transactions.length;
+};
+
+// =================================================================
+// LEDGER
+// =================================================================
+
+/**
+ * Best-effort ledger for history recorded before the ledger existed: one
+ * opening buy per holding at its average price on the portfolio's creation
+ * date, plus a sale for every sold holding.
+ */
+export const deriveTransactionsFromHoldings = (portfolioId: string, source: LedgerSource): LedgerEntry[] => {
+  const openedAt = source.createdAt || new Date(0).toISOString();
+  const all = [...(source.holdings || []), ...(source.sold || [])];
+
+  return sortEntries(
+    all.flatMap((holding, index): LedgerEntry[] => {
+      const symbol = parseSoldSymbol(holding.symbol).symbol;
+      const quantity = quantityOf(holding);
+      const buyPrice = holding.originalBuyPrice || holding.buyPrice || 0;
+      if (quantity <= 0) return [];
+
+      const opening: LedgerEntry = {
+        id: `derived-${index}-buy`,
+        derived: true,
+        portfolio: portfolioId,
+        symbol,
+        type: "buy",
+        date: openedAt,
+        price: buyPrice,
+        quantity,
+        cashDelta: round2(-quantity * buyPrice),
+        resultingQuantity: quantity,
+        resultingWeight: holding.weight || 0,
+        note: DERIVED_OPENING_NOTE,
+      };
+      if (!isSoldHolding(holding)) return [opening];
+
+      const realized = holding.realizedPnL || 0;
+      const price = round2(buyPrice + realized / quantity);
+      return [
+        opening,
+        {
+          ...opening,
+          id: `derived-${index}-sell`,
+          type: "sell",
+          date: getSaleDate(holding) || openedAt,
+          price,
+          cashDelta: round2(quantity * price),
+          resultingQuantity: 0,
+          resultingWeight: 0,
+          realizedPnL: round2(realized),
+          note: DERIVED_SALE_NOTE,
+        },
+      ];
+    })
+  );
+};
+
+/**
+ * Opening buys for symbols held before the ledger existed and traded since:
+ * the current quantity minus the net of the recorded trades, dated just
+ * before the symbol's first recorded entry.
+ */
+const deriveOpeningBalances = (portfolioId: string, recorded: PortfolioTransaction[], source: LedgerSource): LedgerEntry[] => {
+  const active = (source.holdings || []).filter((holding) => !isSoldHolding(holding));
+  const all = [...(source.holdings || []), ...(source.sold || [])];
+
+  return Array.from(new Set(recorded.map((transaction) => transaction.symbol))).flatMap((symbol, index): LedgerEntry[] => {
+    const trades = sortEntries(recorded.filter((transaction) => transaction.symbol === symbol));
+    const held = active.filter((holding) => parseSoldSymbol(holding.symbol).symbol === symbol);
+    const net = trades.reduce((sum, trade) => sum + (isBuy(trade.type) ? trade.quantity : -trade.quantity), 0);
+    const quantity = held.reduce((sum, holding) => sum + quantityOf(holding), 0) - net;
+    if (quantity <= 0) return [];
+
+    const priced = all.find(
+      (holding) => parseSoldSymbol(holding.symbol).symbol === symbol && (holding.originalBuyPrice || holding.buyPrice)
+    );
+    const price = priced?.originalBuyPrice || priced?.buyPrice || trades.find((trade) => isBuy(trade.type))?.price || 0;
+    const firstTrade = new Date(trades[0].date).getTime();
+    const date =
+      source.createdAt && new Date(source.createdAt).getTime() < firstTrade
+        ? source.createdAt
+        : new Date(firstTrade - 1).toISOString();
+
+    return [
+      {
+        id: `derived-opening-${index}`,
+        derived: true,
+        portfolio: portfolioId,
+        symbol,
+        type: "buy",
+        date,
+        price,
+        quantity,
+        cashDelta: round2(-quantity * price),
+        resultingQuantity: quantity,
+        resultingWeight: held[0]?.weight || 0,
+        note: DERIVED_OPENING_NOTE,
+      },
+    ];
+  });
+};
+
+/**
+ * Recorded transactions, oldest first, completed with derived entries for
+ * symbols the recorded ledger has never seen and with an opening balance for
+ * symbols held before their first recorded trade.
+ */
+export const buildLedger = (portfolioId: string, recorded: PortfolioTransaction[], source: LedgerSource): LedgerEntry[] => {
+  const recordedSymbols = new Set(recorded.map((transaction) => transaction.symbol));
+  const derived = [
+    ...deriveTransactionsFromHoldings(portfolioId, source).filter((entry) => !recordedSymbols.has(entry.symbol)),
+    ...deriveOpeningBalances(portfolioId, recorded, source),
+  ];
+  const entries = recorded.map(
+    ({ _id, createdAt, ...transaction }, index): LedgerEntry => ({
+      ...transaction,
+      id: _id || `recorded-${index}-${createdAt || transaction.date}`,
+      derived: false,
+    })
+  );
+  return sortEntries([...entries, ...derived]);
+};
+
+/**
+ * Replays the ledger up to and including `asOf` (YYYY-MM-DD) to recover the
+ * positions held on that day, with average cost and P&L booked so far.
+ */
+export const reconstructHoldingsAsOf = (
+  entries: Array<Pick<LedgerEntry, "symbol" | "type" | "date" | "price" | "quantity">>,
+  asOf: string
+): LedgerPosition[] => {
+  const positions = new Map<string, LedgerPosition>();
+
+  sortEntries(entries)
+    .filter((entry) => toDateOnly(entry.date) <= asOf)
+    .forEach((entry) => {
+      const position = positions.get(entry.symbol) || {
+        symbol: entry.symbol,
+        quantity: 0,
+        averagePrice: 0,
+        investedValue: 0,
+        realizedPnL: 0,
+        firstBuyDate: entry.date,
+        lastTradeDate: entry.date,
+      };
+
+      if (isBuy(entry.type)) {
+        const quantity = position.quantity + entry.quantity;
+        position.averagePrice = quantity > 0 ? (position.averagePrice * position.quantity + entry.price * entry.quantity) / quantity : 0;
+        if (position.quantity === 0) position.firstBuyDate = entry.date;
+        position.quantity = quantity;
+      } else {
+        const sold = Math.min(entry.quantity, position.quantity);
+        position.realizedPnL += sold * (entry.price - position.averagePrice);
+        position.quantity -= sold;
+      }
+      position.investedValue = position.quantity * position.averagePrice;
+      position.lastTradeDate = entry.date;
+      positions.set(entry.symbol, position);
+    });
+
+  return Array.from(positions.values())
+    .filter((position) => position.quantity > 0)
+    .map((position) => ({
+      ...position,
+      averagePrice: round2(position.averagePrice),
+      investedValue: round2(position.investedValue),
+      realizedPnL: round2(position.realizedPnL),
+    }))
+    .sort((a, b) => a.symbol.localeCompare(b.symbol));
+};
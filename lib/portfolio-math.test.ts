@@ -0,0 +1,180 @@
+// lib/portfolio-math.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  calculateAdjustedMinInvestment,
+  calculateCashBalance,
+  calculateHoldingTotals,
+  calculateInvestmentDetails,
+  calculatePnL,
+  calculateSellProportion,
+  calculateUnrealizedPnL,
+  calculateWeight,
+  getActiveHoldings,
+  getInvestedValue,
+  getSoldHoldings,
+  getWeightageCalculationBase,
+  isSoldHolding,
+  type HoldingLike,
+} from "@/lib/portfolio-math";
+
+const holding = (overrides: Partial<HoldingLike>): HoldingLike => ({
+  symbol: "INFY",
+  status: "Hold",
+  weight: 0,
+  ...overrides,
+});
+
+describe("holding status", () => {
+  const holdings = [
+    holding({ symbol: "INFY", status: "Hold" }),
+    holding({ symbol: "TCS", status: "Fresh-Buy" }),
+    holding({ symbol: "WIPRO", status: "partial-sell" }),
+    holding({ symbol: "HDFCBANK", status: "Sold" }),
+    holding({ symbol: "ITC", status: "Sell" }),
+    holding({ symbol: "Sold-Date-2024-03-15-RELIANCE", status: "Hold" }),
+    holding({ symbol: "SBIN", status: "2024-05-01T10:30:00.000Z" }),
+  ];
+
+  it("treats Sold, Sell, Sold-Date- symbols and sale timestamps as sold", () => {
+    expect(holdings.map(isSoldHolding)).toEqual([false, false, false, true, true, true, true]);
+  });
+
+  it("keeps only unsold holdings as active", () => {
+    expect(getActiveHoldings(holdings).map((item) => item.symbol)).toEqual(["INFY", "TCS", "WIPRO"]);
+    expect(getSoldHoldings(holdings)).toHaveLength(4);
+  });
+
+  it("handles a missing holdings list", () => {
+    expect(getActiveHoldings()).toEqual([]);
+  });
+});
+
+describe("weights", () => {
+  it("rounds weights to two decimals", () => {
+    expect(calculateWeight(25000, 100000)).toBe(25);
+    expect(calculateWeight(10000, 30000)).toBe(33.33);
+  });
+
+  it("returns zero without a base", () => {
+    expect(calculateWeight(10000, 0)).toBe(0);
+  });
+});
+
+describe("calculateInvestmentDetails", () => {
+  it("buys whole shares and keeps the leftover", () => {
+    expect(calculateInvestmentDetails(10, 300, 100000)).toEqual({
+      allocatedAmount: 10000,
+      quantity: 33,
+      actualInvestmentAmount: 9900,
+      leftoverAmount: 100,
+    });
+  });
+
+  it("buys one more share when the gap is within 10% of the price", () => {
+    expect(calculateInvestmentDetails(10, 1010, 100000)).toEqual({
+      allocatedAmount: 10000,
+      quantity: 10,
+      actualInvestmentAmount: 10100,
+      leftoverAmount: -100,
+    });
+  });
+
+  it("buys nothing without a price", () => {
+    expect(calculateInvestmentDetails(10, 0, 100000)).toMatchObject({ quantity: 0, leftoverAmount: 10000 });
+  });
+});
+
+describe("totals and cash", () => {
+  const holdings = [
+    holding({ symbol: "INFY", weight: 20, minimumInvestmentValueStock: 20000, allocatedAmount: 20000, leftoverAmount: 100 }),
+    holding({ symbol: "TCS", weight: 30.5, minimumInvestmentValueStock: 30000, allocatedAmount: 30500, leftoverAmount: 50 }),
+    holding({ symbol: "ITC", status: "Sold", weight: 10, minimumInvestmentValueStock: 10000, allocatedAmount: 10000 }),
+  ];
+
+  it("sums only the active holdings", () => {
+    expect(calculateHoldingTotals(holdings)).toEqual({
+      totalWeight: 50.5,
+      totalInvestment: 50000,
+      totalAllocated: 50500,
+      totalLeftover: 150,
+      remainingWeight: 49.5,
+    });
+  });
+
+  it("leaves the uninvested part of the minimum investment as cash", () => {
+    expect(calculateCashBalance(100000, holdings)).toBe(50000);
+  });
+
+  it("raises the minimum investment with a 10% buffer only when something is invested", () => {
+    expect(calculateAdjustedMinInvestment(40000, 30000)).toBe(44000);
+    expect(calculateAdjustedMinInvestment(0, 30000)).toBe(30000);
+  });
+});
+
+describe("portfolio base", () => {
+  it("uses the minimum investment for new portfolios", () => {
+    const base = getWeightageCalculationBase({ minInvestment: 100000, holdingsCount: 0, isExistingPortfolio: false });
+    expect(base).toMatchObject({ baseAmount: 100000, isFirstTimeCreation: true });
+  });
+
+  it("uses cash plus holdings value for existing portfolios", () => {
+    const base = getWeightageCalculationBase({
+      minInvestment: 100000,
+      cashBalance: 20000,
+      holdingsValue: 130000,
+      holdingsCount: 3,
+      isExistingPortfolio: true,
+    });
+    expect(base).toMatchObject({ baseAmount: 150000, isFirstTimeCreation: false });
+  });
+
+  it("falls back to the minimum investment without a backend valuation", () => {
+    const base = getWeightageCalculationBase({ minInvestment: 100000, holdingsCount: 3, isExistingPortfolio: true });
+    expect(base.baseAmount).toBe(100000);
+  });
+
+  it("sizes tips from the invested value", () => {
+    expect(getInvestedValue({ currentValue: 150000, cashBalance: 20000 })).toBe(130000);
+    expect(getInvestedValue({ currentValue: 0, minInvestmentValue: 50000 })).toBe(50000);
+    expect(getInvestedValue(null)).toBe(100000);
+  });
+});
+
+describe("profit and loss", () => {
+  it("realizes P&L on the whole shares sold", () => {
+    expect(calculatePnL(10, 100, 150, 0.5)).toEqual({
+      quantitySold: 5,
+      saleValue: 750,
+      originalCost: 500,
+      profitLoss: 250,
+      profitLossPercent: 50,
+      remainingQuantity: 5,
+      remainingValue: 750,
+    });
+  });
+
+  it("rounds partial sells down and full sells to the owned shares", () => {
+    expect(calculatePnL(7, 100, 100, 0.5).quantitySold).toBe(3);
+    expect(calculatePnL(10.7, 100, 100, 1)).toMatchObject({ quantitySold: 10, remainingQuantity: 0 });
+  });
+
+  it("sells nothing for a zero proportion", () => {
+    expect(calculatePnL(10, 100, 150, 0)).toMatchObject({ quantitySold: 0, profitLoss: 0, profitLossPercent: 0 });
+  });
+
+  it("turns a weight reduction into a sell proportion between 0 and 1", () => {
+    expect(calculateSellProportion(20, 5)).toBe(0.25);
+    expect(calculateSellProportion(20, 30)).toBe(1);
+    expect(calculateSellProportion(20, -5)).toBe(0);
+    expect(calculateSellProportion(0, 5)).toBe(0);
+  });
+
+  it("values open positions at the market price", () => {
+    expect(calculateUnrealizedPnL(10, 100, 90)).toEqual({
+      costBasis: 1000,
+      marketValue: 900,
+      profitLoss: -100,
+      profitLossPercent: -10,
+    });
+  });
+});
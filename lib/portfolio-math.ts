@@ -0,0 +1,279 @@
+// lib/portfolio-math.ts
+import type { PortfolioHolding } from "@/lib/api";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+// Only the fields the math needs, so form state and API holdings both fit
+export type HoldingLike = Pick<PortfolioHolding, "symbol" | "status" | "weight"> &
+  Partial<Pick<PortfolioHolding, "quantity" | "buyPrice" | "minimumInvestmentValueStock" | "allocatedAmount" | "leftoverAmount" | "sector" | "realizedPnL">> & {
+    stockCapType?: string;
+  };
+
+export interface InvestmentDetails {
+  allocatedAmount: number;
+  quantity: number; // Whole shares
+  actualInvestmentAmount: number;
+  leftoverAmount: number;
+}
+
+export interface PnLCalculation {
+  quantitySold: number;
+  saleValue: number;
+  originalCost: number;
+  profitLoss: number;
+  profitLossPercent: number;
+  remainingQuantity: number;
+  remainingValue: number;
+}
+
+export interface UnrealizedPnL {
+  costBasis: number;
+  marketValue: number;
+  profitLoss: number;
+  profitLossPercent: number;
+}
+
+export interface HoldingTotals {
+  totalWeight: number;
+  totalInvestment: number;
+  totalAllocated: number;
+  totalLeftover: number;
+  remainingWeight: number;
+}
+
+export interface WeightageBase {
+  baseAmount: number;
+  isFirstTimeCreation: boolean;
+  context: string;
+  description: string;
+}
+
+export interface SectorAllocation {
+  weight: number;
+  value: number;
+  count: number;
+}
+
+// Sold positions are renamed with this prefix by the backend
+export const SOLD_SYMBOL_PREFIX = "Sold-Date-";
+
+// Weights are stored and displayed with two decimals everywhere
+export const WEIGHT_DECIMALS = 2;
+
+// If the gap to the next share is within this share of the price, one more share is bought
+const NEXT_SHARE_TOLERANCE = 0.1;
+
+// Headroom added when the minimum investment is raised to cover all holdings
+const MIN_INVESTMENT_BUFFER = 0.1;
+
+const DEFAULT_INVESTED_VALUE = 100000;
+
+const SOLD_TIMESTAMP_STATUS = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
+
+// =================================================================
+// HOLDING STATUS
+// =================================================================
+
+/**
+ * Whether a holding has been sold. Depending on how it was sold the backend
+ * marks it with a Sell/Sold status, a "Sold-Date-" symbol prefix or a sale
+ * timestamp in place of the status.
+ */
+export const isSoldHolding = (holding: Pick<PortfolioHolding, "symbol" | "status">): boolean =>
+  holding.status === "Sell" ||
+  holding.status === "Sold" ||
+  holding.symbol.startsWith(SOLD_SYMBOL_PREFIX) ||
+  SOLD_TIMESTAMP_STATUS.test(holding.status || "");
+
+export const getActiveHoldings = <T extends Pick<PortfolioHolding, "symbol" | "status">>(holdings: T[] = []): T[] =>
+  holdings.filter((holding) => !isSoldHolding(holding));
+
+export const getSoldHoldings = <T extends Pick<PortfolioHolding, "symbol" | "status">>(holdings: T[] = []): T[] =>
+  holdings.filter(isSoldHolding);
+
+// =================================================================
+// WEIGHTS AND ALLOCATION
+// =================================================================
+
+export const roundWeight = (weight: number): number => Number(weight.toFixed(WEIGHT_DECIMALS));
+
+/**
+ * Weight of an investment in a portfolio base, rounded the same way on every screen.
+ */
+export const calculateWeight = (investment: number, baseAmount: number): number =>
+  baseAmount > 0 ? roundWeight((investment / baseAmount) * 100) : 0;
+
+/**
+ * Splits the amount allocated to a weight into whole shares at `buyPrice`.
+ * When the leftover is within 10% of one more share, that share is bought
+ * and the leftover goes negative.
+ */
+export const calculateInvestmentDetails = (
+  weightPercent: number,
+  buyPrice: number,
+  totalInvestment: number
+): InvestmentDetails => {
+  const allocatedAmount = (weightPercent / 100) * totalInvestment;
+  let quantity = buyPrice > 0 ? Math.floor(allocatedAmount / buyPrice) : 0;
+  let actualInvestmentAmount = quantity * buyPrice;
+  let leftoverAmount = allocatedAmount - actualInvestmentAmount;
+
+  if (buyPrice > 0 && leftoverAmount >= 0 && buyPrice - leftoverAmount <= buyPrice * NEXT_SHARE_TOLERANCE) {
+    quantity += 1;
+    actualInvestmentAmount = quantity * buyPrice;
+    leftoverAmount = allocatedAmount - actualInvestmentAmount;
+  }
+
+  return { allocatedAmount, quantity, actualInvestmentAmount, leftoverAmount };
+};
+
+/**
+ * Totals over the active holdings. Sold holdings do not use any weight or cash.
+ */
+export const calculateHoldingTotals = (holdings: HoldingLike[]): HoldingTotals => {
+  const active = getActiveHoldings(holdings);
+  const sum = (pick: (holding: HoldingLike) => number | undefined) =>
+    active.reduce((total, holding) => total + (pick(holding) || 0), 0);
+  const totalWeight = sum((holding) => holding.weight);
+
+  return {
+    totalWeight,
+    totalInvestment: sum((holding) => holding.minimumInvestmentValueStock),
+    totalAllocated: sum((holding) => holding.allocatedAmount),
+    totalLeftover: sum((holding) => holding.leftoverAmount),
+    remainingWeight: 100 - totalWeight,
+  };
+};
+
+const groupAllocation = (holdings: HoldingLike[], groupOf: (holding: HoldingLike) => string): Record<string, SectorAllocation> =>
+  getActiveHoldings(holdings).reduce((acc, holding) => {
+    const group = groupOf(holding);
+    if (!acc[group]) acc[group] = { weight: 0, value: 0, count: 0 };
+    acc[group].weight += holding.weight;
+    acc[group].value += holding.minimumInvestmentValueStock || 0;
+    acc[group].count += 1;
+    return acc;
+  }, {} as Record<string, SectorAllocation>);
+
+export const calculateSectorBreakdown = (holdings: HoldingLike[]): Record<string, SectorAllocation> =>
+  groupAllocation(holdings, (holding) => holding.sector || "Other");
+
+export const calculateCapTypeBreakdown = (holdings: HoldingLike[]): Record<string, SectorAllocation> =>
+  groupAllocation(holdings, (holding) => holding.stockCapType || "Unclassified");
+
+// =================================================================
+// CASH AND PORTFOLIO BASE
+// =================================================================
+
+/**
+ * Cash left from the minimum investment after buying the active holdings.
+ */
+export const calculateCashBalance = (minInvestment: number, holdings: HoldingLike[]): number =>
+  (minInvestment || 0) - calculateHoldingTotals(holdings).totalInvestment;
+
+/**
+ * Amount that weights are taken from. New portfolios, and portfolios without
+ * holdings or backend valuations, use the minimum investment; everything
+ * else uses the current value (cash + holdings).
+ */
+export const getWeightageCalculationBase = (params: {
+  minInvestment: number;
+  cashBalance?: number;
+  holdingsValue?: number;
+  holdingsCount: number;
+  isExistingPortfolio: boolean;
+}): WeightageBase => {
+  const { minInvestment, cashBalance, holdingsValue, holdingsCount, isExistingPortfolio } = params;
+  const hasValuation = typeof cashBalance === "number" && typeof holdingsValue === "number";
+
+  if (!isExistingPortfolio || !hasValuation || holdingsCount === 0) {
+    return {
+      baseAmount: minInvestment,
+      isFirstTimeCreation: true,
+      context: "Using minimum investment as base",
+      description: `Using minimum investment (₹${minInvestment.toLocaleString()}) as weightage base`,
+    };
+  }
+
+  const currentValue = (Number.isNaN(cashBalance) ? 0 : cashBalance!) + (Number.isNaN(holdingsValue) ? 0 : holdingsValue!);
+  return {
+    baseAmount: currentValue,
+    isFirstTimeCreation: false,
+    context: "Using current portfolio value as base",
+    description: `Using current portfolio value (₹${currentValue.toLocaleString()}) as weightage base`,
+  };
+};
+
+/**
+ * Invested value (current value less cash), used to size tips. Falls back
+ * to the minimum investment, then ₹1,00,000, when nothing is invested yet.
+ */
+export const getInvestedValue = (portfolio?: {
+  currentValue?: number;
+  cashBalance?: number;
+  minInvestmentValue?: number;
+} | null): number => {
+  if (!portfolio) return DEFAULT_INVESTED_VALUE;
+  const invested = Math.max(0, (portfolio.currentValue || 0) - (portfolio.cashBalance || 0));
+  return invested > 0 ? invested : portfolio.minInvestmentValue || DEFAULT_INVESTED_VALUE;
+};
+
+/**
+ * Minimum investment raised to cover the holdings with a 10% buffer, or the
+ * current minimum when there is nothing invested.
+ */
+export const calculateAdjustedMinInvestment = (totalInvestment: number, minInvestment: number): number =>
+  totalInvestment > 0 ? Math.ceil(totalInvestment * (1 + MIN_INVESTMENT_BUFFER)) : minInvestment;
+
+// =================================================================
+// PROFIT AND LOSS
+// =================================================================
+
+/**
+ * Realized P&L of selling a proportion (0 to 1) of a position. Indian
+ * equities trade in whole shares, so the quantity sold is rounded down.
+ */
+export const calculatePnL = (
+  originalQuantity: number,
+  originalBuyPrice: number,
+  currentMarketPrice: number,
+  proportionToSell: number
+): PnLCalculation => {
+  const ownedQuantity = Math.floor(originalQuantity);
+  const quantitySold =
+    proportionToSell >= 1 ? ownedQuantity : proportionToSell > 0 ? Math.floor(originalQuantity * proportionToSell) : 0;
+  const saleValue = quantitySold * currentMarketPrice;
+  const originalCost = quantitySold * originalBuyPrice;
+  const profitLoss = saleValue - originalCost;
+  const remainingQuantity = ownedQuantity - quantitySold;
+
+  return {
+    quantitySold,
+    saleValue,
+    originalCost,
+    profitLoss,
+    profitLossPercent: originalCost > 0 ? (profitLoss / originalCost) * 100 : 0,
+    remainingQuantity,
+    remainingValue: remainingQuantity * currentMarketPrice,
+  };
+};
+
+/**
+ * Proportion of a position sold by reducing its weight by `weightReduction`.
+ */
+export const calculateSellProportion = (currentWeight: number, weightReduction: number): number =>
+  currentWeight > 0 ? Math.min(1, Math.max(0, weightReduction / currentWeight)) : 0;
+
+export const calculateUnrealizedPnL = (quantity: number, buyPrice: number, marketPrice: number): UnrealizedPnL => {
+  const costBasis = quantity * buyPrice;
+  const marketValue = quantity * marketPrice;
+  const profitLoss = marketValue - costBasis;
+  return {
+    costBasis,
+    marketValue,
+    profitLoss,
+    profitLossPercent: costBasis > 0 ? (profitLoss / costBasis) * 100 : 0,
+  };
+};
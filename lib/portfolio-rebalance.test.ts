@@ -0,0 +1,33 @@
+// lib/portfolio-rebalance.test.ts
+import { describe, expect, it } from "vitest";
+import { getRebalanceMonths, rollRebalanceDate } from "@/lib/portfolio-rebalance";
+
+describe("getRebalanceMonths", () => {
+  it.each([
+    ["Monthly", 1],
+    ["Bi-monthly", 2],
+    ["Quarterly", 3],
+    ["Every 6 months", 6],
+    ["Six-monthly", 6],
+    ["Half-yearly", 6],
+    ["Semi-annual", 6],
+    ["Every 12 months", 12],
+    ["Yearly", 12],
+    ["Annually", 12],
+    ["Every 2 years", 24],
+  ])("reads %s as %i months", (frequency, months) => {
+    expect(getRebalanceMonths(frequency)).toBe(months);
+  });
+
+  it("falls back to quarterly", () => {
+    expect(getRebalanceMonths(undefined)).toBe(3);
+    expect(getRebalanceMonths("As needed")).toBe(3);
+  });
+});
+
+describe("rollRebalanceDate", () => {
+  it("rolls forward by the frequency and clamps to the end of the month", () => {
+    expect(rollRebalanceDate("Every 6 months", new Date("2024-08-31T00:00:00.000Z"))).toBe("2025-02-28");
+    expect(rollRebalanceDate("Monthly", new Date("2024-01-31T00:00:00.000Z"))).toBe("2024-02-29");
+  });
+});
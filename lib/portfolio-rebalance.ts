@@ -0,0 +1,232 @@
+// lib/portfolio-rebalance.ts
+import type { PortfolioHolding } from "@/lib/api";
+import { addMonths } from "@/lib/portfolio-analytics";
+import { calculateWeight, getActiveHoldings } from "@/lib/portfolio-math";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type RebalanceAction = "Fresh-Buy" | "addon-buy" | "partial-sell" | "Sell" | "Hold";
+
+export interface RebalanceTarget {
+  symbol: string;
+  targetWeight: number; // Percentage of total portfolio value
+  price: number; // Current market price used for the trade
+  sector?: string;
+  stockCapType?: PortfolioHolding["stockCapType"];
+}
+
+export interface RebalanceTrade {
+  symbol: string;
+  action: RebalanceAction;
+  price: number;
+  currentQuantity: number;
+  targetQuantity: number;
+  quantityDelta: number; // Positive for buys, negative for sells
+  cashImpact: number; // Negative for buys, positive for sells
+  currentWeight: number;
+  targetWeight: number;
+  resultingWeight: number;
+  realizedPnL: number; // Profit or loss booked by a sell
+}
+
+export interface RebalancePlan {
+  trades: RebalanceTrade[];
+  totalValue: number;
+  currentCash: number;
+  resultingCash: number;
+  resultingCashWeight: number;
+  targetWeightTotal: number;
+  errors: string[];
+}
+
+// Most specific first: "Six-monthly" and "Bi-monthly" must not stop at the bare "month"
+const MONTHS_BY_FREQUENCY: Array<[RegExp, number]> = [
+  [/bi-?\s*month/i, 2],
+  [/half|semi|six|bi-?\s*annual/i, 6],
+  [/year|annual/i, 12],
+  [/quarter/i, 3],
+  [/month/i, 1],
+];
+
+// An explicit count such as "Every 6 months" or "every 2 years"
+const EXPLICIT_FREQUENCY = /(\d+)\s*-?\s*(month|year)/i;
+
+const DEFAULT_REBALANCE_MONTHS = 3;
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Months between rebalances for the portfolio's free-text frequency
+ * ("Monthly", "Quarterly", "Every 6 months", "Yearly"). An explicit count
+ * wins over the named periods; unrecognised frequencies fall back to quarterly.
+ */
+export const getRebalanceMonths = (rebalancing: string | undefined): number => {
+  const text = rebalancing || "";
+  const explicit = text.match(EXPLICIT_FREQUENCY);
+  if (explicit && Number(explicit[1]) > 0) {
+    return Number(explicit[1]) * (explicit[2].toLowerCase() === "year" ? 12 : 1);
+  }
+  return MONTHS_BY_FREQUENCY.find(([pattern]) => pattern.test(text))?.[1] ?? DEFAULT_REBALANCE_MONTHS;
+};
+
+/**
+ * Next rebalance date after `from`, using the portfolio's free-text
+ * rebalancing frequency.
+ */
+export const rollRebalanceDate = (rebalancing: string | undefined, from: Date = new Date()): string =>
+  addMonths(from, getRebalanceMonths(rebalancing)).toISOString().split("T")[0];
+
+const actionFor = (currentQuantity: number, targetQuantity: number): RebalanceAction => {
+  if (targetQuantity === currentQuantity) return "Hold";
+  if (targetQuantity > currentQuantity) return currentQuantity === 0 ? "Fresh-Buy" : "addon-buy";
+  return targetQuantity === 0 ? "Sell" : "partial-sell";
+};
+
+// =================================================================
+// PLANNING
+// =================================================================
+
+/**
+ * Builds the trade list that moves the active holdings to the target
+ * weights at the given prices. Quantities are whole shares, rounded down,
+ * and the portfolio value (holdings at market + cash) is held constant.
+ * Holdings without a target are sold in full.
+ */
+export const buildRebalancePlan = (
+  holdings: PortfolioHolding[],
+  targets: RebalanceTarget[],
+  cashBalance: number
+): RebalancePlan => {
+  const errors: string[] = [];
+  const active = getActiveHoldings(holdings);
+  const targetBySymbol = new Map(targets.map((target) => [target.symbol, target]));
+  const holdingBySymbol = new Map(active.map((holding) => [holding.symbol, holding]));
+
+  const priceOf = (symbol: string) => targetBySymbol.get(symbol)?.price || 0;
+  const holdingsValue = active.reduce((sum, holding) => sum + holding.quantity * priceOf(holding.symbol), 0);
+  const totalValue = holdingsValue + (cashBalance || 0);
+  const targetWeightTotal = targets.reduce((sum, target) => sum + (target.targetWeight || 0), 0);
+
+  if (targetWeightTotal > 100.0001) errors.push(`Target weights add up to ${targetWeightTotal.toFixed(2)}%, above 100%`);
+  targets.forEach((target) => {
+    if (!(target.price > 0)) errors.push(`${target.symbol}: no current price`);
+    if (target.targetWeight < 0) errors.push(`${target.symbol}: target weight cannot be negative`);
+  });
+  active.forEach((holding) => {
+    if (!targetBySymbol.has(holding.symbol)) errors.push(`${holding.symbol}: no target or price provided`);
+  });
+
+  const symbols = Array.from(new Set([...active.map((holding) => holding.symbol), ...targets.map((target) => target.symbol)]));
+  const trades = symbols.map((symbol) => {
+    const holding = holdingBySymbol.get(symbol);
+    const target = targetBySymbol.get(symbol);
+    const price = target?.price || 0;
+    const currentQuantity = holding?.quantity || 0;
+    const targetWeight = target?.targetWeight || 0;
+    const targetQuantity = price > 0 && totalValue > 0 ? Math.floor(((targetWeight / 100) * totalValue) / price) : currentQuantity;
+    const quantityDelta = targetQuantity - currentQuantity;
+    const averageCost = holding?.buyPrice || 0;
+
+    return {
+      symbol,
+      action: actionFor(currentQuantity, targetQuantity),
+      price,
+      currentQuantity,
+      targetQuantity,
+      quantityDelta,
+      cashImpact: -quantityDelta * price,
+      currentWeight: calculateWeight(currentQuantity * price, totalValue),
+      targetWeight,
+      resultingWeight: calculateWeight(targetQuantity * price, totalValue),
+      realizedPnL: quantityDelta < 0 ? -quantityDelta * (price - averageCost) : 0,
+    };
+  });
+
+  const resultingCash = (cashBalance || 0) + trades.reduce((sum, trade) => sum + trade.cashImpact, 0);
+  if (resultingCash < -0.01) errors.push(`Trades need ₹${Math.abs(resultingCash).toFixed(2)} more cash than available`);
+
+  return {
+    trades,
+    totalValue,
+    currentCash: cashBalance || 0,
+    resultingCash,
+    resultingCashWeight: totalValue > 0 ? (resultingCash / totalValue) * 100 : 0,
+    targetWeightTotal,
+    errors,
+  };
+};
+
+/**
+ * Applies a plan to the portfolio's holdings and returns the full holdings
+ * array to save in a single update. Buys average into the existing buy
+ * price; sold-out positions are kept with a Sell status and their booked
+ * profit in `realizedPnL`. Holdings that are already sold pass through.
+ */
+export const applyRebalancePlan = (
+  holdings: PortfolioHolding[],
+  plan: RebalancePlan,
+  targets: RebalanceTarget[]
+): PortfolioHolding[] => {
+  const tradeBySymbol = new Map(plan.trades.map((trade) => [trade.symbol, trade]));
+  const targetBySymbol = new Map(targets.map((target) => [target.symbol, target]));
+  const active = new Set(getActiveHoldings(holdings).map((holding) => holding.symbol));
+
+  const updated = holdings.map((holding): PortfolioHolding => {
+    const trade = tradeBySymbol.get(holding.symbol);
+    if (!active.has(holding.symbol) || !trade) return holding;
+
+    const buyPrice =
+      trade.quantityDelta > 0 && trade.targetQuantity > 0
+        ? (holding.quantity * holding.buyPrice + trade.quantityDelta * trade.price) / trade.targetQuantity
+        : holding.buyPrice;
+    const investment = trade.targetQuantity * buyPrice;
+
+    return {
+      ...holding,
+      status: trade.action,
+      weight: trade.resultingWeight,
+      quantity: trade.targetQuantity,
+      totalQuantityOwned: trade.targetQuantity,
+      buyPrice: round2(buyPrice),
+      originalBuyPrice: holding.originalBuyPrice || holding.buyPrice,
+      minimumInvestmentValueStock: round2(investment),
+      actualInvestmentAmount: round2(investment),
+      allocatedAmount: round2((trade.targetWeight / 100) * plan.totalValue),
+      leftoverAmount: round2(Math.max(0, (trade.targetWeight / 100) * plan.totalValue - trade.targetQuantity * trade.price)),
+      realizedPnL: round2((holding.realizedPnL || 0) + trade.realizedPnL),
+      ...(trade.action === "Sell" ? { soldDate: new Date().toISOString() } : {}),
+    };
+  });
+
+  const added = plan.trades
+    .filter((trade) => trade.action === "Fresh-Buy" && !active.has(trade.symbol))
+    .map((trade): PortfolioHolding => {
+      const target = targetBySymbol.get(trade.symbol);
+      const investment = trade.targetQuantity * trade.price;
+      const allocated = (trade.targetWeight / 100) * plan.totalValue;
+      return {
+        symbol: trade.symbol,
+        sector: target?.sector || "",
+        stockCapType: target?.stockCapType,
+        status: "Fresh-Buy",
+        weight: trade.resultingWeight,
+        buyPrice: trade.price,
+        originalBuyPrice: trade.price,
+        quantity: trade.targetQuantity,
+        totalQuantityOwned: trade.targetQuantity,
+        minimumInvestmentValueStock: round2(investment),
+        actualInvestmentAmount: round2(investment),
+        allocatedAmount: round2(allocated),
+        leftoverAmount: round2(Math.max(0, allocated - investment)),
+        realizedPnL: 0,
+      };
+    });
+
+  return [...updated, ...added];
+};
@@ -0,0 +1,127 @@
+// lib/portfolio-sandbox.ts
+import type { CreatePortfolioTransactionRequest, PortfolioHolding } from "@/lib/api";
+import { diffHoldingsToTransactions, type LedgerHolding } from "@/lib/portfolio-ledger";
+import {
+  calculateAdjustedMinInvestment,
+  calculateCapTypeBreakdown,
+  calculateHoldingTotals,
+  calculateSectorBreakdown,
+  getActiveHoldings,
+  type SectorAllocation,
+} from "@/lib/portfolio-math";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export interface PortfolioSnapshot {
+  holdingsCount: number;
+  totalWeight: number;
+  investedValue: number;
+  cashBalance: number;
+  sectors: Record<string, SectorAllocation>;
+  capTypes: Record<string, SectorAllocation>;
+  topSector?: { name: string; weight: number };
+  topCapType?: { name: string; weight: number };
+  requiredMinInvestment: number;
+}
+
+export interface SandboxProjection {
+  current: PortfolioSnapshot;
+  projected: PortfolioSnapshot;
+  trades: CreatePortfolioTransactionRequest[];
+  warnings: string[];
+}
+
+export interface SandboxContext {
+  portfolioId: string;
+  cashBalance: number;
+  minInvestment: number;
+  // Latest prices of staged trades, used to price sells
+  prices?: Record<string, number>;
+}
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const largestGroup = (groups: Record<string, SectorAllocation>): { name: string; weight: number } | undefined =>
+  Object.entries(groups)
+    .map(([name, allocation]) => ({ name, weight: allocation.weight }))
+    .sort((a, b) => b.weight - a.weight)[0];
+
+const snapshot = (holdings: LedgerHolding[], cashBalance: number, minInvestment: number): PortfolioSnapshot => {
+  const { totalWeight, totalInvestment } = calculateHoldingTotals(holdings);
+  const sectors = calculateSectorBreakdown(holdings);
+  const capTypes = calculateCapTypeBreakdown(holdings);
+  return {
+    holdingsCount: getActiveHoldings(holdings).length,
+    totalWeight,
+    investedValue: totalInvestment,
+    cashBalance: round2(cashBalance),
+    sectors,
+    capTypes,
+    topSector: largestGroup(sectors),
+    topCapType: largestGroup(capTypes),
+    requiredMinInvestment: calculateAdjustedMinInvestment(totalInvestment, minInvestment),
+  };
+};
+
+// =================================================================
+// STAGING
+// =================================================================
+
+/**
+ * Trade fields of a holding moved to `quantity` shares at `price`. Buys
+ * average into the buy price, sells book P&L against it and a full sell is
+ * stamped with its sale date.
+ */
+export const stageHoldingTrade = (
+  holding: LedgerHolding,
+  quantity: number,
+  price: number
+): Pick<PortfolioHolding, "buyPrice" | "totalQuantityOwned" | "realizedPnL" | "soldDate"> => {
+  const owned = holding.totalQuantityOwned || holding.quantity || 0;
+  const buyPrice = holding.buyPrice || 0;
+  if (quantity > owned) {
+    return {
+      buyPrice: round2(owned > 0 ? (owned * buyPrice + (quantity - owned) * price) / quantity : price),
+      totalQuantityOwned: quantity,
+      realizedPnL: holding.realizedPnL || 0,
+      soldDate: holding.soldDate,
+    };
+  }
+  return {
+    buyPrice,
+    totalQuantityOwned: quantity,
+    realizedPnL: round2((holding.realizedPnL || 0) + (owned - quantity) * (price - buyPrice)),
+    soldDate: quantity === 0 ? new Date().toISOString() : holding.soldDate,
+  };
+};
+
+/**
+ * Compares staged holdings with the saved ones: the trades the batch would
+ * record, the cash they move, and weight, sector, market-cap and minimum
+ * investment before and after.
+ */
+export const projectSandbox = (
+  baseline: LedgerHolding[],
+  staged: LedgerHolding[],
+  context: SandboxContext
+): SandboxProjection => {
+  const trades = diffHoldingsToTransactions(context.portfolioId, baseline, staged, { prices: context.prices });
+  const projectedCash = context.cashBalance + trades.reduce((sum, trade) => sum + trade.cashDelta, 0);
+  const current = snapshot(baseline, context.cashBalance, context.minInvestment);
+  const projected = snapshot(staged, projectedCash, context.minInvestment);
+
+  const warnings: string[] = [];
+  if (projected.totalWeight > 100) warnings.push(`Weights add up to ${projected.totalWeight.toFixed(2)}%, above 100%`);
+  if (projected.cashBalance < 0) warnings.push(`Cash balance would go negative (₹${projected.cashBalance.toLocaleString()})`);
+  if (projected.requiredMinInvestment > context.minInvestment) {
+    warnings.push(`Minimum investment would need to rise to ₹${projected.requiredMinInvestment.toLocaleString()}`);
+  }
+
+  return { current, projected, trades, warnings };
+};
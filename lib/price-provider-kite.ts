@@ -0,0 +1,168 @@
+// lib/price-provider-kite.ts
+import { KiteConnect, type Connect, type Exchanges, type Instrument } from "kiteconnect";
+import {
+  PriceProviderError,
+  toInstrumentKey,
+  type CandleInterval,
+  type InstrumentRecord,
+  type InstrumentRef,
+  type PriceCandle,
+  type PriceProvider,
+  type PriceQuote,
+} from "@/lib/price-provider";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export interface KitePriceProviderOptions {
+  apiKey: string;
+  accessToken: string;
+}
+
+// Kite accepts at most this many instruments per quote request
+const QUOTE_BATCH_SIZE = 500;
+// The instrument master changes once a day; refetch it after this long
+const INSTRUMENTS_TTL_MS = 6 * 60 * 60 * 1000;
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+const toUpstreamError = (error: unknown, action: string) => {
+  const message = error instanceof Error ? error.message : (error as { message?: string })?.message;
+  return new PriceProviderError(`Kite ${action} failed: ${message || "unknown error"}`, "upstream");
+};
+
+const inBatches = async <T>(
+  instruments: InstrumentRef[],
+  load: (keys: string[]) => Promise<Record<string, T>>
+): Promise<Record<string, T>> => {
+  const keys = Array.from(new Set(instruments.map(toInstrumentKey)));
+  const result: Record<string, T> = {};
+  for (let i = 0; i < keys.length; i += QUOTE_BATCH_SIZE) {
+    Object.assign(result, await load(keys.slice(i, i + QUOTE_BATCH_SIZE)));
+  }
+  return result;
+};
+
+// Candle times as IST wall-clock timestamps, so a daily candle's date is its
+// trading day rather than the previous day in UTC
+const toIstTimestamp = (date: Date) =>
+  new Date(date.getTime() + IST_OFFSET_MS).toISOString().replace("Z", "+05:30");
+
+const splitKey = (key: string): InstrumentRef => {
+  const [exchange, symbol] = key.split(":");
+  return { exchange, symbol };
+};
+
+const toInstrumentRecord = (instrument: Instrument): InstrumentRecord => ({
+  exchange: instrument.exchange,
+  symbol: instrument.tradingsymbol,
+  name: instrument.name,
+  instrumentToken: String(instrument.instrument_token),
+  instrumentType: instrument.instrument_type,
+  segment: instrument.segment,
+  tickSize: instrument.tick_size,
+  lotSize: instrument.lot_size,
+});
+
+// =================================================================
+// PROVIDER
+// =================================================================
+
+/**
+ * Market data from Zerodha Kite Connect. The access token is issued per
+ * trading day, so an expired token surfaces as an upstream error until the
+ * environment is updated.
+ */
+export const createKitePriceProvider = ({ apiKey, accessToken }: KitePriceProviderOptions): PriceProvider => {
+  const kite: Connect = new KiteConnect({ api_key: apiKey, access_token: accessToken });
+  const instrumentCache = new Map<string, { loadedAt: number; instruments: InstrumentRecord[] }>();
+
+  const getInstruments = async (exchange?: string): Promise<InstrumentRecord[]> => {
+    const cacheKey = exchange || "ALL";
+    const cached = instrumentCache.get(cacheKey);
+    if (cached && Date.now() - cached.loadedAt < INSTRUMENTS_TTL_MS) return cached.instruments;
+    try {
+      const instruments = (await kite.getInstruments(exchange as Exchanges | undefined)).map(toInstrumentRecord);
+      instrumentCache.set(cacheKey, { loadedAt: Date.now(), instruments });
+      return instruments;
+    } catch (error) {
+      throw toUpstreamError(error, "instrument master");
+    }
+  };
+
+  return {
+    name: "kite",
+
+    getQuotes: async (instruments) => {
+      try {
+        const quotes = await inBatches(instruments, (keys) => kite.getQuote(keys));
+        return Object.fromEntries(
+          Object.entries(quotes).map(([key, quote]): [string, PriceQuote] => [
+            key,
+            {
+              ...splitKey(key),
+              lastPrice: quote.last_price,
+              ohlc: quote.ohlc,
+              volume: quote.volume,
+              change: quote.net_change,
+              timestamp: quote.timestamp,
+            },
+          ])
+        );
+      } catch (error) {
+        throw toUpstreamError(error, "quote");
+      }
+    },
+
+    getLtp: async (instruments) => {
+      try {
+        const prices = await inBatches(instruments, (keys) => kite.getLTP(keys));
+        return Object.fromEntries(Object.entries(prices).map(([key, price]) => [key, price.last_price]));
+      } catch (error) {
+        throw toUpstreamError(error, "LTP");
+      }
+    },
+
+    getOhlc: async (instruments) => {
+      try {
+        const prices = await inBatches(instruments, (keys) => kite.getOHLC(keys));
+        return Object.fromEntries(
+          Object.entries(prices).map(([key, price]): [string, PriceQuote] => [
+            key,
+            { ...splitKey(key), lastPrice: price.last_price, ohlc: price.ohlc },
+          ])
+        );
+      } catch (error) {
+        throw toUpstreamError(error, "OHLC");
+      }
+    },
+
+    getHistoricalCandles: async (instrument: InstrumentRef, interval: CandleInterval, from: string, to: string) => {
+      // Historical data is requested by instrument token, not by symbol
+      const key = toInstrumentKey(instrument);
+      const listing = (await getInstruments(instrument.exchange)).find((record) => toInstrumentKey(record) === key);
+      if (!listing) throw new PriceProviderError(`${key} is not in the Kite instrument master`, "not_found");
+      try {
+        const candles = await kite.getHistoricalData(listing.instrumentToken, interval, from, to);
+        return candles.map(
+          (candle): PriceCandle => ({
+            date: toIstTimestamp(new Date(candle.date)),
+            open: candle.open,
+            high: candle.high,
+            low: candle.low,
+            close: candle.close,
+            volume: candle.volume,
+          })
+        );
+      } catch (error) {
+        throw toUpstreamError(error, "historical data");
+      }
+    },
+
+    getInstruments,
+  };
+};
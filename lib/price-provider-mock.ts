@@ -0,0 +1,99 @@
+// lib/price-provider-mock.ts
+import { readFileSync } from "fs";
+import bundledFixture from "@/lib/fixtures/price-provider.json";
+import {
+  PriceProviderError,
+  toInstrumentKey,
+  type InstrumentRecord,
+  type PriceCandle,
+  type PriceProvider,
+  type PriceQuote,
+} from "@/lib/price-provider";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+// Quotes and candles are keyed by "EXCHANGE:SYMBOL"
+export interface PriceFixture {
+  instruments: InstrumentRecord[];
+  quotes: Record<string, Omit<PriceQuote, "exchange" | "symbol">>;
+  candles: Record<string, PriceCandle[]>;
+}
+
+// =================================================================
+// FIXTURE
+// =================================================================
+
+/**
+ * Reads a fixture file, or the bundled sample when no path is given.
+ * Missing sections are treated as empty.
+ */
+export const loadPriceFixture = (path?: string): PriceFixture => {
+  let fixture: Partial<PriceFixture> = bundledFixture;
+  if (path) {
+    try {
+      fixture = JSON.parse(readFileSync(path, "utf8"));
+    } catch (error) {
+      throw new PriceProviderError(
+        `Cannot read price fixture ${path}: ${error instanceof Error ? error.message : "unknown error"}`,
+        "not_configured"
+      );
+    }
+  }
+  return {
+    instruments: fixture.instruments || [],
+    quotes: fixture.quotes || {},
+    candles: fixture.candles || {},
+  };
+};
+
+// =================================================================
+// PROVIDER
+// =================================================================
+
+/**
+ * Market data served from a fixture for local development and for checking
+ * screens against known prices. Candles are returned as stored whatever
+ * interval is asked for.
+ */
+export const createMockPriceProvider = (fixturePath?: string): PriceProvider => {
+  const fixture = loadPriceFixture(fixturePath);
+
+  const getQuotes = async (instruments: Parameters<PriceProvider["getQuotes"]>[0]) => {
+    const quotes: Record<string, PriceQuote> = {};
+    instruments.forEach((instrument) => {
+      const key = toInstrumentKey(instrument);
+      const quote = fixture.quotes[key];
+      if (quote) {
+        const [exchange, symbol] = key.split(":");
+        quotes[key] = { ...quote, exchange, symbol };
+      }
+    });
+    return quotes;
+  };
+
+  return {
+    name: "mock",
+    getQuotes,
+
+    getLtp: async (instruments) =>
+      Object.fromEntries(Object.entries(await getQuotes(instruments)).map(([key, quote]) => [key, quote.lastPrice])),
+
+    getOhlc: getQuotes,
+
+    getHistoricalCandles: async (instrument, _interval, from, to) => {
+      const key = toInstrumentKey(instrument);
+      const candles = fixture.candles[key];
+      if (!candles) throw new PriceProviderError(`${key} has no candles in the price fixture`, "not_found");
+      const fromDay = from.slice(0, 10);
+      const toDay = to.slice(0, 10);
+      return candles.filter((candle) => candle.date.slice(0, 10) >= fromDay && candle.date.slice(0, 10) <= toDay);
+    },
+
+    getInstruments: async (exchange) =>
+      exchange
+        ? fixture.instruments.filter((instrument) => instrument.exchange === exchange.toUpperCase())
+        : fixture.instruments,
+  };
+};
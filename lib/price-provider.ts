@@ -0,0 +1,105 @@
+// lib/price-provider.ts
+// Market data sources behind one interface. Providers run on the server with
+// credentials from the environment; see getPriceProvider in lib/market-data.ts
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type CandleInterval = "minute" | "5minute" | "15minute" | "30minute" | "60minute" | "day";
+
+// An exchange listing, e.g. { exchange: "NSE", symbol: "RELIANCE" }
+export interface InstrumentRef {
+  exchange: string;
+  symbol: string;
+}
+
+export interface PriceOhlc {
+  open: number;
+  high: number;
+  low: number;
+  // Previous session's close while the market is open
+  close: number;
+}
+
+export interface PriceQuote extends InstrumentRef {
+  lastPrice: number;
+  ohlc: PriceOhlc;
+  volume?: number;
+  change?: number;
+  timestamp?: string;
+}
+
+export interface PriceCandle {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface InstrumentRecord extends InstrumentRef {
+  name: string;
+  instrumentToken: string;
+  instrumentType: string;
+  segment: string;
+  tickSize: number;
+  lotSize: number;
+}
+
+/**
+ * A source of market data. Prices are keyed by "EXCHANGE:SYMBOL"; instruments
+ * a provider does not know are left out of the result rather than failing
+ * the whole request.
+ */
+export interface PriceProvider {
+  name: string;
+  getQuotes(instruments: InstrumentRef[]): Promise<Record<string, PriceQuote>>;
+  getLtp(instruments: InstrumentRef[]): Promise<Record<string, number>>;
+  getOhlc(instruments: InstrumentRef[]): Promise<Record<string, PriceQuote>>;
+  getHistoricalCandles(instrument: InstrumentRef, interval: CandleInterval, from: string, to: string): Promise<PriceCandle[]>;
+  getInstruments(exchange?: string): Promise<InstrumentRecord[]>;
+}
+
+// =================================================================
+// ERROR HANDLING
+// =================================================================
+
+export type PriceProviderErrorKind = "not_configured" | "not_found" | "upstream";
+
+export class PriceProviderError extends Error {
+  kind: PriceProviderErrorKind;
+
+  constructor(message: string, kind: PriceProviderErrorKind) {
+    super(message);
+    this.name = "PriceProviderError";
+    this.kind = kind;
+  }
+}
+
+// HTTP status the market data routes answer with for each kind of failure
+export const PRICE_PROVIDER_ERROR_STATUS: Record<PriceProviderErrorKind, number> = {
+  not_configured: 503,
+  not_found: 404,
+  upstream: 502,
+};
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+export const DEFAULT_EXCHANGE = "NSE";
+
+export const toInstrumentKey = ({ exchange, symbol }: InstrumentRef): string =>
+  `${(exchange || DEFAULT_EXCHANGE).toUpperCase()}:${symbol.toUpperCase()}`;
+
+/**
+ * Reads "NSE:RELIANCE" or a bare "RELIANCE" (taken as NSE).
+ */
+export const parseInstrumentKey = (key: string): InstrumentRef => {
+  const [first, second] = key.trim().split(":");
+  return second
+    ? { exchange: first.toUpperCase(), symbol: second.toUpperCase() }
+    : { exchange: DEFAULT_EXCHANGE, symbol: first.toUpperCase() };
+};
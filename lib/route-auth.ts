@@ -0,0 +1,72 @@
+// lib/route-auth.ts
+// Caller authentication for the app's own API routes. The server's
+// ADMIN_ACCESS_TOKEN is for the server's own jobs and never stands in for a caller
+import { getServerSession } from "next-auth";
+import { API_BASE_URL } from "@/lib/auth";
+import { authOptions } from "@/lib/auth-config";
+
+// =================================================================
+// TOKEN CHECKS
+// =================================================================
+
+// Admin-only backend endpoint that answers quickly for a valid token
+const TOKEN_CHECK_URL = `${API_BASE_URL}/api/admin/configs`;
+// A checked token is trusted this long, so polling clients do not hit the backend on every request
+const TOKEN_CHECK_TTL_MS = 60000;
+
+// Tokens the backend accepted, with when the check expires
+const checkedTokens = new Map<string, number>();
+
+const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * Whether the backend accepts the token for an admin request. Network
+ * failures count as rejections.
+ */
+const isValidAdminToken = async (token: string): Promise<boolean> => {
+  const now = Date.now();
+  if ((checkedTokens.get(token) ?? 0) > now) return true;
+
+  try {
+    const response = await fetch(TOKEN_CHECK_URL, {
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      checkedTokens.delete(token);
+      return false;
+    }
+  } catch (error) {
+    console.error("Admin token check failed:", error);
+    return false;
+  }
+
+  checkedTokens.forEach((expiresAt, key) => {
+    if (expiresAt <= now) checkedTokens.delete(key);
+  });
+  checkedTokens.set(token, now + TOKEN_CHECK_TTL_MS);
+  return true;
+};
+
+// =================================================================
+// REQUESTS
+// =================================================================
+
+/**
+ * The admin access token of whoever sent the request: the Bearer token the
+ * admin client sends, checked against the backend, or the token of a
+ * NextAuth session. Null when the caller is not signed in, in which case
+ * the route should answer 401.
+ */
+export const authenticateRequest = async (req: Request): Promise<string | null> => {
+  const token = getBearerToken(req);
+  if (token) return (await isValidAdminToken(token)) ? token : null;
+
+  const session = await getServerSession(authOptions);
+  if (!session) return null;
+  return session.accessToken || session.user.token || null;
+};
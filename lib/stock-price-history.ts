@@ -0,0 +1,237 @@
+// lib/stock-price-history.ts
+import type { Portfolio, PortfolioHolding } from "@/lib/api";
+import type { PricePoint, StockSymbol } from "@/lib/api-stock-symbols";
+import type { Tip } from "@/lib/api-tips";
+import { isSoldHolding } from "@/lib/portfolio-math";
+import { parseSoldSymbol } from "@/lib/portfolio-ledger";
+import { parseTipLevels, type TipLevels } from "@/lib/tip-monitor";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type PriceHistoryMode = "intraday" | "daily";
+
+export interface PriceBar {
+  timestamp: string;
+  date: string; // YYYY-MM-DD as stored
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+}
+
+export interface PriceRange {
+  low: number;
+  high: number;
+  // Where the current price sits in the range, 0 at the low and 100 at the high
+  position: number | null;
+}
+
+export interface StockPriceSummary {
+  current: number | null;
+  previous: number | null;
+  change: number | null;
+  changePercent: number | null;
+  dayRange: PriceRange | null;
+  yearRange: PriceRange | null;
+  volume: number | null;
+}
+
+export interface SymbolHoldingReference {
+  portfolioId: string;
+  portfolioName: string;
+  holding: PortfolioHolding;
+  sold: boolean;
+  // Unrealised return at the current price; null for sold holdings
+  returnPercent: number | null;
+}
+
+export interface SymbolTipReference {
+  tip: Tip;
+  levels: TipLevels;
+  // Move from the current price to each level, in percent
+  targetDistancePercent: number | null;
+  stopLossDistancePercent: number | null;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// =================================================================
+// SERIES
+// =================================================================
+
+const toNumber = (value?: string): number | null => {
+  const number = parseFloat(value ?? "");
+  return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+const percentChange = (from: number | null, to: number | null): number | null =>
+  from && to ? ((to - from) / from) * 100 : null;
+
+/**
+ * Price history as bars sorted by time. Points without OHLC use their price
+ * for every field; points without a usable price are dropped.
+ */
+export const toPriceBars = (history: PricePoint[] = []): PriceBar[] =>
+  history
+    .map((point): PriceBar | null => {
+      const close = toNumber(point.price);
+      if (!close) return null;
+      const open = toNumber(point.open) ?? close;
+      return {
+        timestamp: point.timestamp,
+        date: point.timestamp.slice(0, 10),
+        open,
+        high: Math.max(toNumber(point.high) ?? close, open, close),
+        low: Math.min(toNumber(point.low) ?? close, open, close),
+        close,
+        volume: point.volume ? parseFloat(point.volume) || null : null,
+      };
+    })
+    .filter((bar): bar is PriceBar => bar !== null)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+/**
+ * Bars of the latest day in the history, for the intraday chart.
+ */
+export const getIntradayBars = (bars: PriceBar[]): PriceBar[] => {
+  const latest = bars[bars.length - 1]?.date;
+  return latest ? bars.filter((bar) => bar.date === latest) : [];
+};
+
+/**
+ * One bar per day: the first open, the day's extremes and the last close.
+ * Volume is the last one recorded, since intraday quotes carry the running
+ * day total.
+ */
+export const getDailyBars = (bars: PriceBar[]): PriceBar[] => {
+  const days = new Map<string, PriceBar>();
+  bars.forEach((bar) => {
+    const day = days.get(bar.date);
+    days.set(
+      bar.date,
+      day
+        ? {
+            ...day,
+            timestamp: bar.timestamp,
+            high: Math.max(day.high, bar.high),
+            low: Math.min(day.low, bar.low),
+            close: bar.close,
+            volume: bar.volume ?? day.volume,
+          }
+        : { ...bar }
+    );
+  });
+  return Array.from(days.values());
+};
+
+// =================================================================
+// SUMMARY
+// =================================================================
+
+const toRange = (low: number, high: number, current: number | null): PriceRange => {
+  const lower = Math.min(low, current ?? low);
+  const upper = Math.max(high, current ?? high);
+  return {
+    low: lower,
+    high: upper,
+    position: current !== null && upper > lower ? ((current - lower) / (upper - lower)) * 100 : null,
+  };
+};
+
+/**
+ * Current price, change, day range and 52-week range of a stock. The day
+ * range comes from the stored session OHLC when there is one, otherwise from
+ * the latest day's history; the 52-week range looks back a year from the
+ * latest bar. Both include the current price.
+ */
+export const summarizeStockPrices = (stock: StockSymbol): StockPriceSummary => {
+  const current = toNumber(stock.currentPrice);
+  const previous = toNumber(stock.previousPrice);
+  const bars = toPriceBars(stock.priceHistory);
+  const latestDay = getIntradayBars(bars);
+
+  const sessionHigh = toNumber(stock.ohlc?.high);
+  const sessionLow = toNumber(stock.ohlc?.low);
+  let dayRange: PriceRange | null = null;
+  if (sessionHigh && sessionLow) {
+    dayRange = toRange(sessionLow, sessionHigh, current);
+  } else if (latestDay.length > 0) {
+    dayRange = toRange(Math.min(...latestDay.map((bar) => bar.low)), Math.max(...latestDay.map((bar) => bar.high)), current);
+  }
+
+  let yearRange: PriceRange | null = null;
+  if (bars.length > 0) {
+    const since = new Date(bars[bars.length - 1].timestamp).getTime() - YEAR_MS;
+    const year = bars.filter((bar) => new Date(bar.timestamp).getTime() >= since);
+    yearRange = toRange(Math.min(...year.map((bar) => bar.low)), Math.max(...year.map((bar) => bar.high)), current);
+  }
+
+  return {
+    current,
+    previous,
+    change: current && previous ? current - previous : null,
+    changePercent: percentChange(previous, current),
+    dayRange,
+    yearRange,
+    volume: stock.volume ? parseFloat(stock.volume) || null : latestDay[latestDay.length - 1]?.volume ?? null,
+  };
+};
+
+// =================================================================
+// REFERENCES
+// =================================================================
+
+const sameSymbol = (a?: string, b?: string) => !!a && !!b && a.trim().toUpperCase() === b.trim().toUpperCase();
+
+/**
+ * Every portfolio holding of the stock, open ones first, including the
+ * portfolio's sold list. Sold holdings are matched through the symbol inside
+ * their "Sold-Date-" name.
+ */
+export const findSymbolHoldings = (stock: StockSymbol, portfolios: Portfolio[]): SymbolHoldingReference[] => {
+  const current = toNumber(stock.currentPrice);
+  return portfolios
+    .flatMap((portfolio) =>
+      [...(portfolio.holdings || []), ...(portfolio.sold || [])]
+        .filter((holding) => sameSymbol(parseSoldSymbol(holding.symbol).symbol, stock.symbol))
+        .map((holding): SymbolHoldingReference => {
+          const sold = portfolio.sold?.includes(holding) || isSoldHolding(holding);
+          return {
+            portfolioId: portfolio._id || portfolio.id,
+            portfolioName: portfolio.name,
+            holding,
+            sold,
+            returnPercent: sold ? null : percentChange(holding.buyPrice || null, current),
+          };
+        })
+    )
+    .sort((a, b) => Number(a.sold) - Number(b.sold) || a.portfolioName.localeCompare(b.portfolioName));
+};
+
+/**
+ * Every tip on the stock, active ones first, with how far the current price
+ * is from its target and stop-loss. Tips reference stocks by ID or ticker.
+ */
+export const findSymbolTips = (stock: StockSymbol, tips: Tip[]): SymbolTipReference[] => {
+  const current = toNumber(stock.currentPrice);
+  const ids = [stock._id, stock.id].filter(Boolean);
+  return tips
+    .filter((tip) => ids.includes(tip.stockId) || sameSymbol(tip.stockId, stock.symbol) || sameSymbol(tip.stockSymbol, stock.symbol))
+    .map((tip): SymbolTipReference => {
+      const levels = parseTipLevels(tip);
+      return {
+        tip,
+        levels,
+        targetDistancePercent: percentChange(current, levels.target),
+        stopLossDistancePercent: percentChange(current, levels.stopLoss),
+      };
+    })
+    .sort(
+      (a, b) =>
+        Number(a.tip.status !== "Active") - Number(b.tip.status !== "Active") ||
+        (b.tip.createdAt || "").localeCompare(a.tip.createdAt || "")
+    );
+};
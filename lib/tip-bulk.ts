@@ -0,0 +1,134 @@
+// lib/tip-bulk.ts
+import { deleteTip, toCreateTipRequest, updateTip, type CreateTipRequest, type Tip } from "@/lib/api-tips";
+import { buildCloseProposal, buildCloseTipRequest, getTipPrice } from "@/lib/tip-monitor";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type TipBulkOperation =
+  | { type: "close" }
+  | { type: "category"; category: Tip["category"] }
+  | { type: "horizon"; horizon: string }
+  | { type: "portfolio"; portfolioId: string | null }
+  | { type: "delete" };
+
+export type TipBulkOperationType = TipBulkOperation["type"];
+
+// What one selected tip will go through, shown before anything is saved
+export interface TipBulkPreviewItem {
+  tip: Tip;
+  change: string;
+  // Full request for updates; absent for deletes and skipped tips
+  request?: CreateTipRequest;
+  skipReason?: string;
+}
+
+export interface TipBulkResult {
+  tip: Tip;
+  ok: boolean;
+  error?: string;
+  // Saved, but something after the save went wrong, such as recording the revision
+  warning?: string;
+}
+
+export const TIP_BULK_OPERATION_LABELS: Record<TipBulkOperationType, string> = {
+  close: "Close at Market Price",
+  category: "Change Category",
+  horizon: "Change Horizon",
+  portfolio: "Reassign Portfolio",
+  delete: "Delete",
+};
+
+// =================================================================
+// PREVIEW
+// =================================================================
+
+const previewTip = (
+  tip: Tip,
+  operation: TipBulkOperation,
+  prices: Map<string, number>,
+  getPortfolioName: (portfolioId?: string) => string
+): TipBulkPreviewItem => {
+  switch (operation.type) {
+    case "close": {
+      if (tip.status === "Closed") return { tip, change: "—", skipReason: "Already closed" };
+      const price = getTipPrice(tip, prices);
+      if (price === null) return { tip, change: "—", skipReason: "No market price for this stock" };
+      const proposal = buildCloseProposal(tip, price);
+      return {
+        tip,
+        change: `Close at ₹${proposal.exitedPrice} · ${proposal.exitStatus} ${proposal.exitStatusPercentage}`.trim(),
+        request: buildCloseTipRequest(tip, proposal),
+      };
+    }
+    case "category":
+      if (tip.category === operation.category) return { tip, change: "—", skipReason: "Already in this category" };
+      return {
+        tip,
+        change: `${tip.category} → ${operation.category}`,
+        request: { ...toCreateTipRequest(tip), category: operation.category },
+      };
+    case "horizon":
+      if (tip.horizon === operation.horizon) return { tip, change: "—", skipReason: "Already on this horizon" };
+      return {
+        tip,
+        change: `${tip.horizon || "—"} → ${operation.horizon.trim()}`,
+        request: { ...toCreateTipRequest(tip), horizon: operation.horizon },
+      };
+    case "portfolio":
+      if ((tip.portfolio || null) === operation.portfolioId) return { tip, change: "—", skipReason: "Already in this portfolio" };
+      return {
+        tip,
+        change: `${getPortfolioName(tip.portfolio)} → ${getPortfolioName(operation.portfolioId || undefined)}`,
+        request: { ...toCreateTipRequest(tip), portfolio: operation.portfolioId },
+      };
+    case "delete":
+      return { tip, change: "Delete permanently" };
+  }
+};
+
+/**
+ * What the operation will do to each selected tip. Tips it cannot or need
+ * not change are marked skipped rather than dropped, so the admin sees why.
+ */
+export const previewTipBulkOperation = (
+  tips: Tip[],
+  operation: TipBulkOperation,
+  prices: Map<string, number>,
+  getPortfolioName: (portfolioId?: string) => string
+): TipBulkPreviewItem[] => tips.map((tip) => previewTip(tip, operation, prices, getPortfolioName));
+
+// =================================================================
+// RUNNING
+// =================================================================
+
+/**
+ * Applies a previewed operation one tip at a time. A failure is recorded
+ * against its tip and the run carries on with the rest.
+ */
+export const runTipBulkOperation = async (
+  items: TipBulkPreviewItem[],
+  operation: TipBulkOperation,
+  onProgress?: (result: TipBulkResult) => void
+): Promise<TipBulkResult[]> => {
+  const results: TipBulkResult[] = [];
+  for (const item of items.filter((entry) => !entry.skipReason)) {
+    let result: TipBulkResult;
+    try {
+      let warning: string | undefined;
+      if (operation.type === "delete") {
+        await deleteTip(item.tip.id);
+      } else if (item.request) {
+        const updated = await updateTip(item.tip.id, item.request, { note: `Bulk: ${TIP_BULK_OPERATION_LABELS[operation.type]}` });
+        warning = updated.revisionError;
+      }
+      result = { tip: item.tip, ok: true, warning };
+    } catch (error) {
+      result = { tip: item.tip, ok: false, error: error instanceof Error ? error.message : "Failed to update tip" };
+    }
+    results.push(result);
+    onProgress?.(result);
+  }
+  return results;
+};
@@ -0,0 +1,191 @@
+// lib/tip-monitor.ts
+import { toCreateTipRequest, type CreateTipRequest, type Tip } from "@/lib/api-tips";
+import type { StockSymbol } from "@/lib/api-stock-symbols";
+import { getEntryPrice, getStopLossText, parsePriceLevelText, parseTipPriceLevels, resolvePriceLevel } from "@/lib/tip-price-levels";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type TipSignalType = "target_hit" | "stop_loss_hit" | "in_buy_range" | "add_more_hit";
+
+export interface PriceRange {
+  low: number;
+  high: number;
+}
+
+export interface TipLevels {
+  buyRange: PriceRange | null;
+  target: number | null;
+  stopLoss: number | null;
+  addMoreAt: number | null;
+  // Reference entry used for exit returns: the middle of the buy range
+  entry: number | null;
+}
+
+export interface TipCloseProposal {
+  exitedPrice: string;
+  exitStatus: "Profit Booked" | "Loss Booked";
+  exitStatusPercentage: string;
+}
+
+export interface TipSignal {
+  tip: Tip;
+  type: TipSignalType;
+  price: number;
+  level: string;
+  message: string;
+  // Only target and stop-loss hits propose closing the tip
+  proposal?: TipCloseProposal;
+}
+
+export const TIP_SIGNAL_LABELS: Record<TipSignalType, string> = {
+  target_hit: "Target hit",
+  stop_loss_hit: "Stop-loss hit",
+  in_buy_range: "In buy range",
+  add_more_hit: "Add-more level",
+};
+
+// =================================================================
+// PARSING
+// =================================================================
+
+/**
+ * Absolute price in a free-text level such as "₹1,250", "1250.50" or "Above 1250".
+ */
+export const parsePriceLevel = (value?: string): number | null => {
+  const { level } = parsePriceLevelText(value);
+  return level?.unit === "absolute" ? level.low : null;
+};
+
+// Sell tips profit when the price falls, so their levels are crossed from above
+const isSellTip = (tip: Tip): boolean => (tip.action || "").toLowerCase() === "sell";
+
+/**
+ * Monitored levels of a tip as absolute prices, from its structured price
+ * levels; percentage targets and stop-losses are measured from the entry.
+ */
+export const parseTipLevels = (tip: Tip): TipLevels => {
+  const levels = tip.priceLevels ?? parseTipPriceLevels(tip).levels;
+  const entry = getEntryPrice(levels);
+  const sell = isSellTip(tip);
+  return {
+    buyRange: levels.buyRange && entry ? { low: levels.buyRange.low, high: levels.buyRange.high } : null,
+    target: resolvePriceLevel(levels.targetPrice, entry, "favourable", sell),
+    stopLoss: resolvePriceLevel(levels.stopLoss, entry, "adverse", sell),
+    addMoreAt: levels.addMoreAt?.low ?? null,
+    entry,
+  };
+};
+
+// =================================================================
+// MONITORING
+// =================================================================
+
+/**
+ * Exit fields for closing a tip at `price`, with the return measured from the
+ * middle of the buy range. The status follows the level that was hit, or the
+ * sign of the return for a manual close; without a buy range there is no
+ * return to report, so the percentage is left empty.
+ */
+export const buildCloseProposal = (tip: Tip, price: number, hit?: "target" | "stop_loss"): TipCloseProposal => {
+  const { entry } = parseTipLevels(tip);
+  const move = entry ? ((price - entry) / entry) * 100 : null;
+  const percent = move !== null && isSellTip(tip) ? -move : move;
+  const loss = hit ? hit === "stop_loss" : percent !== null && percent < 0;
+  return {
+    exitedPrice: price.toFixed(2),
+    exitStatus: loss ? "Loss Booked" : "Profit Booked",
+    exitStatusPercentage: percent !== null ? `${percent.toFixed(2)}%` : "",
+  };
+};
+
+/**
+ * Signals for one active tip at the given price. A target or stop-loss hit
+ * is reported on its own; otherwise the buy range and add-more level are
+ * checked.
+ */
+export const evaluateTip = (tip: Tip, price: number): TipSignal[] => {
+  if (tip.status !== "Active" || !(price > 0)) return [];
+  const levels = parseTipLevels(tip);
+  const sell = isSellTip(tip);
+  const crossed = (level: number | null, upward: boolean) =>
+    level !== null && (upward !== sell ? price >= level : price <= level);
+
+  if (crossed(levels.target, true)) {
+    return [{
+      tip,
+      type: "target_hit",
+      price,
+      level: tip.targetPrice || "",
+      message: `Price ₹${price.toFixed(2)} reached the target of ${tip.targetPrice}`,
+      proposal: buildCloseProposal(tip, price, "target"),
+    }];
+  }
+  if (crossed(levels.stopLoss, false)) {
+    return [{
+      tip,
+      type: "stop_loss_hit",
+      price,
+      level: getStopLossText(tip) || "",
+      message: `Price ₹${price.toFixed(2)} breached the stop-loss of ${getStopLossText(tip)}`,
+      proposal: buildCloseProposal(tip, price, "stop_loss"),
+    }];
+  }
+
+  const signals: TipSignal[] = [];
+  if (levels.buyRange && price >= levels.buyRange.low && price <= levels.buyRange.high) {
+    signals.push({
+      tip,
+      type: "in_buy_range",
+      price,
+      level: tip.buyRange || "",
+      message: `Price ₹${price.toFixed(2)} is inside the buy range ${tip.buyRange}`,
+    });
+  }
+  if (crossed(levels.addMoreAt, false)) {
+    signals.push({
+      tip,
+      type: "add_more_hit",
+      price,
+      level: tip.addMoreAt || "",
+      message: `Price ₹${price.toFixed(2)} reached the add-more level ${tip.addMoreAt}`,
+    });
+  }
+  return signals;
+};
+
+/**
+ * Price lookup for tips from stock symbols, keyed by both stock ID and
+ * symbol since tips reference stocks either way.
+ */
+export const buildTipPriceIndex = (stocks: StockSymbol[]): Map<string, number> => {
+  const index = new Map<string, number>();
+  stocks.forEach((stock) => {
+    const price = parseFloat(stock.currentPrice);
+    if (!Number.isFinite(price) || price <= 0) return;
+    [stock._id, stock.id, stock.symbol].forEach((key) => key && index.set(key, price));
+  });
+  return index;
+};
+
+export const getTipPrice = (tip: Tip, prices: Map<string, number>): number | null =>
+  prices.get(tip.stockId) ?? (tip.stockSymbol ? prices.get(tip.stockSymbol) : undefined) ?? null;
+
+export const scanTips = (tips: Tip[], prices: Map<string, number>): TipSignal[] =>
+  tips.flatMap((tip) => {
+    const price = getTipPrice(tip, prices);
+    return price === null ? [] : evaluateTip(tip, price);
+  });
+
+/**
+ * Full update request that closes a tip with the confirmed exit fields.
+ */
+export const buildCloseTipRequest = (tip: Tip, proposal: TipCloseProposal): CreateTipRequest => ({
+  ...toCreateTipRequest(tip),
+  status: "Closed",
+  exitPrice: tip.exitPrice || proposal.exitedPrice,
+  exitedPrice: proposal.exitedPrice,
+  exitStatus: proposal.exitStatus,
+  exitStatusPercentage: proposal.exitStatusPercentage || undefined,
+});
@@ -0,0 +1,230 @@
+// lib/tip-performance.ts
+import type { Tip } from "@/lib/api-tips";
+import { parsePriceLevel, parseTipLevels } from "@/lib/tip-monitor";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type TipBreakdownDimension = "category" | "horizon" | "action" | "portfolio";
+
+export interface ClosedTipOutcome {
+  tip: Tip;
+  returnPercent: number | null; // Null when neither the exit % nor the prices give a return
+  isHit: boolean | null;
+  holdingDays: number;
+  closedAt: string;
+}
+
+export interface TipPerformanceStats {
+  closedCount: number;
+  scoredCount: number; // Closed tips with a known return
+  hits: number;
+  hitRate: number; // Percentage of scored tips
+  averageReturn: number;
+  medianReturn: number;
+  bestReturn: number | null;
+  worstReturn: number | null;
+  averageHoldingDays: number;
+}
+
+export interface TipBreakdownRow extends TipPerformanceStats {
+  group: string;
+}
+
+export interface ConfidenceCalibrationRow {
+  confidence: number;
+  count: number;
+  hitRate: number;
+  expectedHitRate: number; // A score of 7 claims a 70% hit rate
+  averageReturn: number;
+}
+
+export interface TipPerformanceReport {
+  activeCount: number;
+  overall: TipPerformanceStats;
+  breakdowns: Record<TipBreakdownDimension, TipBreakdownRow[]>;
+  calibration: ConfidenceCalibrationRow[];
+  outcomes: ClosedTipOutcome[];
+}
+
+export interface TipPerformanceOptions {
+  from?: string; // YYYY-MM-DD, inclusive, on the close date
+  to?: string;
+  portfolioNames?: Record<string, string>;
+}
+
+export const BREAKDOWN_LABELS: Record<TipBreakdownDimension, string> = {
+  category: "Category",
+  horizon: "Horizon",
+  action: "Action",
+  portfolio: "Portfolio",
+};
+
+const GENERAL_PORTFOLIO = "General (no portfolio)";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =================================================================
+// OUTCOMES
+// =================================================================
+
+const average = (values: number[]): number => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Return of a closed tip in percent. Uses `exitStatusPercentage` when set,
+ * signed by the exit status since analysts often enter losses unsigned, and
+ * otherwise the exit price against the middle of the buy range.
+ */
+export const getTipReturn = (tip: Tip): number | null => {
+  const isLoss = (tip.exitStatus || "").toLowerCase().includes("loss");
+  const stated = parseFloat((tip.exitStatusPercentage || "").replace(/[%\s,]/g, ""));
+  if (Number.isFinite(stated)) return isLoss ? -Math.abs(stated) : stated;
+
+  const exit = parsePriceLevel(tip.exitedPrice) ?? parsePriceLevel(tip.exitPrice);
+  const { entry } = parseTipLevels(tip);
+  if (exit === null || !entry) return null;
+  const move = ((exit - entry) / entry) * 100;
+  return (tip.action || "").toLowerCase() === "sell" ? -move : move;
+};
+
+/**
+ * Close date of a tip. Tips closed before `closedAt` was stamped, and not
+ * edited since, fall back to their last update.
+ */
+export const getTipClosedAt = (tip: Tip): string => tip.closedAt || tip.updatedAt || tip.createdAt;
+
+export const getTipOutcome = (tip: Tip): ClosedTipOutcome => {
+  const returnPercent = getTipReturn(tip);
+  const closedAt = getTipClosedAt(tip);
+  return {
+    tip,
+    returnPercent,
+    isHit: returnPercent === null ? null : returnPercent > 0,
+    holdingDays: Math.max(0, Math.round((new Date(closedAt).getTime() - new Date(tip.createdAt).getTime()) / DAY_MS)),
+    closedAt,
+  };
+};
+
+export const summarizeOutcomes = (outcomes: ClosedTipOutcome[]): TipPerformanceStats => {
+  const returns = outcomes.map((outcome) => outcome.returnPercent).filter((value): value is number => value !== null);
+  const hits = outcomes.filter((outcome) => outcome.isHit).length;
+  return {
+    closedCount: outcomes.length,
+    scoredCount: returns.length,
+    hits,
+    hitRate: returns.length ? (hits / returns.length) * 100 : 0,
+    averageReturn: average(returns),
+    medianReturn: median(returns),
+    bestReturn: returns.length ? Math.max(...returns) : null,
+    worstReturn: returns.length ? Math.min(...returns) : null,
+    averageHoldingDays: average(outcomes.map((outcome) => outcome.holdingDays)),
+  };
+};
+
+// =================================================================
+// REPORT
+// =================================================================
+
+const groupOf = (tip: Tip, dimension: TipBreakdownDimension, portfolioNames: Record<string, string>): string => {
+  switch (dimension) {
+    case "category":
+      return tip.category || "Unspecified";
+    case "horizon":
+      return (tip.horizon || "").trim() || "Unspecified";
+    case "action":
+      return tip.action || "Unspecified";
+    case "portfolio":
+      return tip.portfolio ? portfolioNames[tip.portfolio] || tip.portfolio : GENERAL_PORTFOLIO;
+  }
+};
+
+const breakdown = (
+  outcomes: ClosedTipOutcome[],
+  dimension: TipBreakdownDimension,
+  portfolioNames: Record<string, string>
+): TipBreakdownRow[] => {
+  const groups = new Map<string, ClosedTipOutcome[]>();
+  outcomes.forEach((outcome) => {
+    const group = groupOf(outcome.tip, dimension, portfolioNames);
+    groups.set(group, [...(groups.get(group) || []), outcome]);
+  });
+  return Array.from(groups.entries())
+    .map(([group, items]) => ({ group, ...summarizeOutcomes(items) }))
+    .sort((a, b) => b.closedCount - a.closedCount || a.group.localeCompare(b.group));
+};
+
+const calibrate = (outcomes: ClosedTipOutcome[]): ConfidenceCalibrationRow[] => {
+  const byScore = new Map<number, ClosedTipOutcome[]>();
+  outcomes.forEach((outcome) => {
+    const score = outcome.tip.analysistConfidence;
+    if (!score || outcome.returnPercent === null) return;
+    byScore.set(score, [...(byScore.get(score) || []), outcome]);
+  });
+  return Array.from(byScore.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([confidence, items]) => {
+      const stats = summarizeOutcomes(items);
+      return {
+        confidence,
+        count: stats.scoredCount,
+        hitRate: stats.hitRate,
+        expectedHitRate: confidence * 10,
+        averageReturn: stats.averageReturn,
+      };
+    });
+};
+
+/**
+ * Track record over the closed tips whose close date falls in the period.
+ */
+export const buildTipPerformanceReport = (tips: Tip[], options: TipPerformanceOptions = {}): TipPerformanceReport => {
+  const portfolioNames = options.portfolioNames || {};
+  const outcomes = tips
+    .filter((tip) => tip.status === "Closed")
+    .map(getTipOutcome)
+    .filter((outcome) => {
+      const date = outcome.closedAt.split("T")[0];
+      return (!options.from || date >= options.from) && (!options.to || date <= options.to);
+    })
+    .sort((a, b) => b.closedAt.localeCompare(a.closedAt));
+
+  return {
+    activeCount: tips.filter((tip) => tip.status === "Active").length,
+    overall: summarizeOutcomes(outcomes),
+    breakdowns: {
+      category: breakdown(outcomes, "category", portfolioNames),
+      horizon: breakdown(outcomes, "horizon", portfolioNames),
+      action: breakdown(outcomes, "action", portfolioNames),
+      portfolio: breakdown(outcomes, "portfolio", portfolioNames),
+    },
+    calibration: calibrate(outcomes),
+    outcomes,
+  };
+};
+
+/**
+ * Flat row per closed tip for the track-record export.
+ */
+export const toTrackRecordRow = (outcome: ClosedTipOutcome, portfolioNames: Record<string, string> = {}) => ({
+  title: outcome.tip.title,
+  stockSymbol: outcome.tip.stockSymbol || outcome.tip.stockId,
+  category: outcome.tip.category,
+  horizon: outcome.tip.horizon || "",
+  action: outcome.tip.action || "",
+  portfolio: groupOf(outcome.tip, "portfolio", portfolioNames),
+  analystConfidence: outcome.tip.analysistConfidence ?? "",
+  buyRange: outcome.tip.buyRange || "",
+  exitedPrice: outcome.tip.exitedPrice || outcome.tip.exitPrice || "",
+  exitStatus: outcome.tip.exitStatus || "",
+  returnPercent: outcome.returnPercent === null ? "" : outcome.returnPercent.toFixed(2),
+  holdingDays: outcome.holdingDays,
+  createdAt: outcome.tip.createdAt,
+  closedAt: outcome.closedAt,
+});
@@ -0,0 +1,227 @@
+// lib/tip-price-levels.ts
+import type { CreateTipRequest, TipContent } from "@/lib/api-tips";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type PriceLevelUnit = "absolute" | "percent";
+
+// A single value has low === high
+export interface PriceLevel {
+  unit: PriceLevelUnit;
+  low: number;
+  high: number;
+  // Words around the number that change its meaning, e.g. "Above" or "closing basis"
+  prefix?: string;
+  suffix?: string;
+}
+
+export interface TipPriceLevels {
+  buyRange: PriceLevel | null;
+  targetPrice: PriceLevel | null;
+  targetPercentage: PriceLevel | null;
+  stopLoss: PriceLevel | null;
+  addMoreAt: PriceLevel | null;
+  exitPrice: PriceLevel | null;
+}
+
+export type TipPriceField = keyof TipPriceLevels;
+
+export interface TipPriceIssue {
+  field: TipPriceField;
+  message: string;
+}
+
+export type TipPriceInput = Partial<Pick<CreateTipRequest, TipPriceField | "action">> & {
+  content?: TipContent[] | string;
+};
+
+export const TIP_PRICE_FIELDS: TipPriceField[] = [
+  "buyRange",
+  "targetPrice",
+  "targetPercentage",
+  "stopLoss",
+  "addMoreAt",
+  "exitPrice",
+];
+
+export const TIP_PRICE_FIELD_LABELS: Record<TipPriceField, string> = {
+  buyRange: "Buy range",
+  targetPrice: "Target price",
+  targetPercentage: "Target percentage",
+  stopLoss: "Stop loss",
+  addMoreAt: "Add more at",
+  exitPrice: "Exit price",
+};
+
+// Fields that must be absolute prices; the others also accept a percentage
+const ABSOLUTE_ONLY: TipPriceField[] = ["buyRange", "addMoreAt", "exitPrice"];
+
+// A buy range wider than this is almost always a typo such as "450-4200"
+export const MAX_RANGE_SPREAD_PERCENT = 25;
+
+// Optional words and currency before the number, "to" or a dash between the ends, "%" and words after
+const PRICE_LEVEL_PATTERN = /^([a-z.:₹\s]*?)(-?\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(?:rs\.?|₹)?\s*(-?\d+(?:\.\d+)?))?\s*(%)?\s*([a-z.\s]*)$/i;
+
+// Qualifier words with the currency and punctuation taken out; none when only those were there
+const toQualifier = (words: string): string | undefined => {
+  const cleaned = words.replace(/\brs\b\.?|₹|:/gi, " ").replace(/\s+/g, " ").trim();
+  return /[a-z]/i.test(cleaned) ? cleaned : undefined;
+};
+
+// =================================================================
+// PARSING
+// =================================================================
+
+/**
+ * Parses free text such as "450", "₹1,200 - 1,250", "Above 1250" or "8-10%"
+ * into a price level. Empty text is no level; anything else that does not read
+ * as a positive value or an increasing range is an error.
+ */
+export const parsePriceLevelText = (value?: string): { level: PriceLevel | null; error?: string } => {
+  const text = (value || "").replace(/,/g, "").trim();
+  if (!text) return { level: null };
+
+  const match = text.match(PRICE_LEVEL_PATTERN);
+  if (!match) return { level: null, error: `"${value}" is not a price or a price range` };
+
+  const unit: PriceLevelUnit = match[4] ? "percent" : "absolute";
+  const low = parseFloat(match[2]);
+  const high = match[3] !== undefined ? parseFloat(match[3]) : low;
+  if (unit === "absolute" && (low <= 0 || high <= 0)) {
+    return { level: null, error: "must be greater than zero" };
+  }
+  if (match[3] !== undefined && low >= high) {
+    return { level: null, error: `range low (${low}) must be below range high (${high})` };
+  }
+  const prefix = toQualifier(match[1]);
+  const suffix = toQualifier(match[5]);
+  return { level: { unit, low, high, ...(prefix ? { prefix } : {}), ...(suffix ? { suffix } : {}) } };
+};
+
+/**
+ * Canonical text for a level, as stored on the tip: "450", "450-470" or "8%",
+ * keeping its qualifier words as in "Above 1250" or "430 closing basis".
+ */
+export const formatPriceLevel = (level: PriceLevel | null): string => {
+  if (!level) return "";
+  const range = level.low === level.high ? `${level.low}` : `${level.low}-${level.high}`;
+  const value = level.unit === "percent" ? `${range}%` : range;
+  return [level.prefix, value, level.suffix].filter(Boolean).join(" ");
+};
+
+/**
+ * Canonical form of free-text price input, or the text unchanged when it does not parse.
+ */
+export const normalizePriceText = (value?: string): string | undefined => {
+  const { level } = parsePriceLevelText(value);
+  return level ? formatPriceLevel(level) : value;
+};
+
+/**
+ * Stop-loss text of a tip. The tip form stores it in the "stop-loss" content
+ * entry and older tips only have the `stopLoss` field.
+ */
+export const getStopLossText = (data: Pick<TipPriceInput, "stopLoss" | "content">): string | undefined =>
+  (Array.isArray(data.content) ? data.content.find((item) => item.key === "stop-loss")?.value : undefined) || data.stopLoss;
+
+export const getEntryPrice = (levels: Pick<TipPriceLevels, "buyRange">): number | null =>
+  levels.buyRange?.unit === "absolute" ? (levels.buyRange.low + levels.buyRange.high) / 2 : null;
+
+/**
+ * Absolute price of a target or stop-loss level. Percentages are distances
+ * from the entry in the level's own direction, so a 10% stop-loss on a buy
+ * sits 10% below the entry.
+ */
+export const resolvePriceLevel = (
+  level: PriceLevel | null,
+  entry: number | null,
+  direction: "favourable" | "adverse",
+  isSell = false
+): number | null => {
+  if (!level) return null;
+  if (level.unit === "absolute") return level.low;
+  if (!entry) return null;
+  const up = (direction === "favourable") !== isSell;
+  const distance = Math.abs(level.low) / 100;
+  return entry * (up ? 1 + distance : 1 - distance);
+};
+
+// =================================================================
+// VALIDATION
+// =================================================================
+
+/**
+ * Parses every price field of a tip and checks them against each other:
+ * the buy range must be a tight increasing range, and for buys the target
+ * sits above and the stop-loss below the entry (reversed for sells).
+ */
+export const parseTipPriceLevels = (data: TipPriceInput): { levels: TipPriceLevels; issues: TipPriceIssue[] } => {
+  const issues: TipPriceIssue[] = [];
+  const texts: Record<TipPriceField, string | undefined> = {
+    buyRange: data.buyRange,
+    targetPrice: data.targetPrice,
+    targetPercentage: data.targetPercentage,
+    stopLoss: getStopLossText(data),
+    addMoreAt: data.addMoreAt,
+    exitPrice: data.exitPrice,
+  };
+
+  const levels = {} as TipPriceLevels;
+  TIP_PRICE_FIELDS.forEach((field) => {
+    const { level, error } = parsePriceLevelText(texts[field]);
+    levels[field] = level;
+    if (error) {
+      issues.push({ field, message: `${TIP_PRICE_FIELD_LABELS[field]}: ${error}` });
+    } else if (level?.unit === "percent" && ABSOLUTE_ONLY.includes(field)) {
+      levels[field] = null;
+      issues.push({ field, message: `${TIP_PRICE_FIELD_LABELS[field]} must be a price, not a percentage` });
+    }
+  });
+
+  const { buyRange } = levels;
+  if (buyRange && buyRange.high > buyRange.low * (1 + MAX_RANGE_SPREAD_PERCENT / 100)) {
+    issues.push({
+      field: "buyRange",
+      message: `Buy range ${formatPriceLevel(buyRange)} is wider than ${MAX_RANGE_SPREAD_PERCENT}%; check for a typo`,
+    });
+  }
+
+  const entry = getEntryPrice(levels);
+  const isSell = (data.action || "").toLowerCase() === "sell";
+  if (buyRange && entry) {
+    const target = resolvePriceLevel(levels.targetPrice, entry, "favourable", isSell);
+    if (target !== null && (isSell ? target >= buyRange.low : target <= buyRange.high)) {
+      issues.push({
+        field: "targetPrice",
+        message: `Target price ${formatPriceLevel(levels.targetPrice)} must be ${isSell ? "below" : "above"} the buy range ${formatPriceLevel(buyRange)}`,
+      });
+    }
+    const stopLoss = resolvePriceLevel(levels.stopLoss, entry, "adverse", isSell);
+    if (stopLoss !== null && (isSell ? stopLoss <= buyRange.high : stopLoss >= buyRange.low)) {
+      issues.push({
+        field: "stopLoss",
+        message: `Stop loss ${formatPriceLevel(levels.stopLoss)} must be ${isSell ? "above" : "below"} the buy range ${formatPriceLevel(buyRange)}`,
+      });
+    }
+  }
+
+  return { levels, issues };
+};
+
+// =================================================================
+// LEGACY DATA
+// =================================================================
+
+/**
+ * Brings a tip read from the API onto the structured model: the stop-loss
+ * is copied out of the content entry into `stopLoss` and the parsed levels
+ * are attached. The stored text is never rewritten on read, so a later save
+ * keeps it exactly as the analyst wrote it.
+ */
+export const migrateTipPriceFields = <T extends TipPriceInput>(tip: T): T & { priceLevels: TipPriceLevels } => ({
+  ...tip,
+  stopLoss: getStopLossText(tip),
+  priceLevels: parseTipPriceLevels(tip).levels,
+});
@@ -0,0 +1,164 @@
+// lib/tip-query.ts
+import type { Tip, TipPublishState } from "@/lib/api-tips";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export type TipSortField = "createdAt" | "updatedAt" | "title" | "stockSymbol" | "status";
+export type TipSortDirection = "asc" | "desc";
+
+// Query for GET /api/tips. Every filter is optional; "general" as the
+// portfolio means tips that belong to no portfolio
+export interface TipQuery {
+  status?: string;
+  action?: string;
+  category?: string;
+  portfolio?: string;
+  publishState?: TipPublishState[];
+  from?: string;
+  to?: string;
+  search?: string;
+  sortBy?: TipSortField;
+  sortDir?: TipSortDirection;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface TipPage {
+  tips: Tip[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export const DEFAULT_TIP_PAGE_SIZE = 25;
+export const MAX_TIP_PAGE_SIZE = 500;
+
+const SORT_FIELDS: TipSortField[] = ["createdAt", "updatedAt", "title", "stockSymbol", "status"];
+const PUBLISH_STATES: TipPublishState[] = ["draft", "scheduled", "published"];
+
+// =================================================================
+// URL PARAMETERS
+// =================================================================
+
+const positiveInt = (value: string | null, fallback: number, max = Infinity) => {
+  const parsed = parseInt(value || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+};
+
+/**
+ * Reads a tip query from URL parameters. Unknown sort fields and
+ * out-of-range pages fall back to the defaults instead of failing.
+ */
+export const parseTipQuery = (params: URLSearchParams): TipQuery => {
+  const sortBy = params.get("sortBy") as TipSortField | null;
+  const publishState = (params.get("publishState") || "")
+    .split(",")
+    .filter((state): state is TipPublishState => PUBLISH_STATES.includes(state as TipPublishState));
+  return {
+    status: params.get("status") || undefined,
+    action: params.get("action") || undefined,
+    category: params.get("category") || undefined,
+    portfolio: params.get("portfolio") || undefined,
+    publishState: publishState.length > 0 ? publishState : undefined,
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+    search: params.get("search")?.trim() || undefined,
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : "createdAt",
+    sortDir: params.get("sortDir") === "asc" ? "asc" : "desc",
+    page: positiveInt(params.get("page"), 1),
+    pageSize: positiveInt(params.get("pageSize"), DEFAULT_TIP_PAGE_SIZE, MAX_TIP_PAGE_SIZE),
+  };
+};
+
+/**
+ * URL parameters for a tip query, leaving out filters set to "all" or empty.
+ */
+export const toTipQueryParams = (query: TipQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === "" || value === "all") return;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(","));
+      return;
+    }
+    params.set(key, String(value));
+  });
+  return params;
+};
+
+// =================================================================
+// FILTERING
+// =================================================================
+
+/**
+ * Whether a tip matches free text in its title, stock, description or any
+ * content entry's value.
+ */
+export const matchesTipSearch = (tip: Tip, search: string): boolean => {
+  const term = search.toLowerCase();
+  return [
+    tip.title,
+    tip.stockId,
+    tip.stockSymbol,
+    tip.stockName,
+    tip.description,
+    ...(tip.content || []).map((entry) => entry.value),
+  ].some((text) => text?.toLowerCase().includes(term));
+};
+
+const matchesTip = (tip: Tip, query: TipQuery): boolean => {
+  if (query.status && query.status !== "all" && tip.status?.toLowerCase() !== query.status.toLowerCase()) return false;
+  if (query.action && query.action !== "all" && tip.action?.toLowerCase() !== query.action.toLowerCase()) return false;
+  if (query.category && query.category !== "all" && tip.category !== query.category) return false;
+  if (query.portfolio && query.portfolio !== "all") {
+    if (query.portfolio === "general" ? !!tip.portfolio : tip.portfolio !== query.portfolio) return false;
+  }
+  if (query.publishState && !query.publishState.includes(tip.publishState || "published")) return false;
+  // Dates are compared by day, so "to" includes tips created on that day
+  const createdDay = tip.createdAt?.slice(0, 10) || "";
+  if (query.from && createdDay < query.from) return false;
+  if (query.to && createdDay > query.to) return false;
+  if (query.search && !matchesTipSearch(tip, query.search)) return false;
+  return true;
+};
+
+const compareTips = (a: Tip, b: Tip, sortBy: TipSortField): number => {
+  switch (sortBy) {
+    case "title":
+      return a.title.localeCompare(b.title);
+    case "stockSymbol":
+      return (a.stockSymbol || a.stockId).localeCompare(b.stockSymbol || b.stockId);
+    case "status":
+      return a.status.localeCompare(b.status);
+    case "updatedAt":
+      return new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
+    default:
+      return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  }
+};
+
+/**
+ * One page of the tips matching a query, in the requested order. A page
+ * past the end is clamped to the last page.
+ */
+export const queryTips = (tips: Tip[], query: TipQuery): TipPage => {
+  const sortBy = query.sortBy || "createdAt";
+  const direction = query.sortDir === "asc" ? 1 : -1;
+  const matching = tips
+    .filter((tip) => matchesTip(tip, query))
+    .sort((a, b) => compareTips(a, b, sortBy) * direction);
+
+  const pageSize = query.pageSize || DEFAULT_TIP_PAGE_SIZE;
+  const totalPages = Math.max(1, Math.ceil(matching.length / pageSize));
+  const page = Math.min(query.page || 1, totalPages);
+  return {
+    tips: matching.slice((page - 1) * pageSize, page * pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+    totalPages,
+  };
+};
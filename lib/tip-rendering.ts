@@ -0,0 +1,204 @@
+// lib/tip-rendering.ts
+import DOMPurify from "isomorphic-dompurify";
+import type { CreateTipRequest } from "@/lib/api-tips";
+import { DISCLAIMER_CONTENT_KEY, FORM_CONTENT_KEYS } from "@/lib/tip-templates";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+// The tip fields subscribers see; saved tips and tip form values both fit
+export type TipRenderSource = Pick<
+  CreateTipRequest,
+  | "title"
+  | "stockId"
+  | "stockSymbol"
+  | "stockName"
+  | "action"
+  | "buyRange"
+  | "targetPrice"
+  | "stopLoss"
+  | "horizon"
+  | "description"
+  | "content"
+  | "downloadLinks"
+>;
+
+export interface TipLevel {
+  label: string;
+  value: string;
+}
+
+export interface TipSection {
+  label: string;
+  html: string;
+}
+
+export interface TipEmail {
+  subject: string;
+  message: string;
+}
+
+export interface TelegramMessage {
+  text: string;
+  // Characters Telegram counts: the text after its HTML tags are parsed
+  length: number;
+  warnings: string[];
+}
+
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+export const TELEGRAM_CAPTION_LIMIT = 1024;
+
+// The only tags Telegram's HTML parse mode accepts
+const TELEGRAM_TAGS = ["b", "strong", "i", "em", "u", "ins", "s", "strike", "del", "a", "code", "pre", "blockquote", "tg-spoiler"];
+
+// =================================================================
+// SANITISATION
+// =================================================================
+
+/**
+ * The one sanitiser for analyst-written HTML. The web card, the email body
+ * and the Telegram message all pass through it, so what the preview shows is
+ * what every channel keeps.
+ */
+export const sanitizeHtml = (html: string): string =>
+  DOMPurify.sanitize(html || "", { USE_PROFILES: { html: true }, FORBID_TAGS: ["style", "form", "input", "button"] });
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// =================================================================
+// TIP PARTS
+// =================================================================
+
+/** "BUY RELIANCE" style headline shared by every channel. */
+export const getTipHeadline = (tip: TipRenderSource): string =>
+  `${(tip.action || "Call").toUpperCase()} ${tip.stockSymbol || tip.stockName || tip.stockId}`.trim();
+
+export const getTipLevels = (tip: TipRenderSource): TipLevel[] =>
+  [
+    { label: "Buy range", value: tip.buyRange },
+    { label: "Target", value: tip.targetPrice },
+    { label: "Stop loss", value: tip.stopLoss },
+    { label: "Horizon", value: tip.horizon },
+  ].filter((level): level is TipLevel => !!level.value?.trim());
+
+const toSectionLabel = (key: string) => {
+  const label = key.replace(/[-_]+/g, " ").trim();
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+/**
+ * Content entries shown under the description. Entries the form builds from
+ * its own price fields are already in the levels, an entry repeating the
+ * description is not shown twice, and the disclaimer is shown last on its own.
+ */
+export const getTipSections = (tip: TipRenderSource): TipSection[] =>
+  (tip.content || [])
+    .filter(
+      (entry) =>
+        entry.value?.trim() &&
+        entry.value !== tip.description &&
+        entry.key !== DISCLAIMER_CONTENT_KEY &&
+        !FORM_CONTENT_KEYS.includes(entry.key)
+    )
+    .map((entry) => ({ label: toSectionLabel(entry.key), html: sanitizeHtml(entry.value) }));
+
+export const getTipDisclaimer = (tip: TipRenderSource): string =>
+  sanitizeHtml(tip.content?.find((entry) => entry.key === DISCLAIMER_CONTENT_KEY)?.value || "");
+
+/**
+ * The tip as one HTML document body: headline, levels, description,
+ * sections, links and disclaimer. Email sends it as is; Telegram reduces it
+ * to the tags it supports.
+ */
+const buildTipHtml = (tip: TipRenderSource): string => {
+  const levels = getTipLevels(tip);
+  const links = (tip.downloadLinks || []).filter((link) => link.url?.trim());
+  const disclaimer = getTipDisclaimer(tip);
+  return sanitizeHtml(
+    [
+      `<p><strong>${escapeHtml(getTipHeadline(tip))}</strong><br>${escapeHtml(tip.title || "")}</p>`,
+      levels.length > 0 &&
+        `<p>${levels.map((level) => `${level.label}: ${escapeHtml(level.value)}`).join("<br>")}</p>`,
+      tip.description,
+      ...getTipSections(tip).map((section) => `<h4>${escapeHtml(section.label)}</h4>${section.html}`),
+      links.length > 0 &&
+        `<p>${links.map((link) => `<a href="${escapeHtml(link.url)}">${escapeHtml(link.name || link.url)}</a>`).join("<br>")}</p>`,
+      disclaimer && `<p><em>${disclaimer}</em></p>`,
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+};
+
+// =================================================================
+// CHANNELS
+// =================================================================
+
+/**
+ * The notification mailed to a portfolio's subscribers when a tip goes
+ * live. The message is the HTML email body.
+ */
+export const renderTipEmail = (tip: TipRenderSource): TipEmail => ({
+  subject: `New tip: ${tip.title}`,
+  message: buildTipHtml(tip),
+});
+
+const decodeTelegramEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+
+/**
+ * Reduces sanitised HTML to Telegram's subset. Block elements become line
+ * breaks, list items become bullets and headings become bold lines; any
+ * other tag is dropped but its text is kept.
+ */
+export const toTelegramHtml = (html: string): string => {
+  const blocks = sanitizeHtml(html)
+    // Source line breaks mean nothing in HTML, but Telegram would show them
+    .replace(/\s+/g, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<h[1-6][^>]*>/gi, "<b>")
+    .replace(/<\/h[1-6]>/gi, "</b>\n")
+    .replace(/<li[^>]*>/gi, "• ")
+    .replace(/<\/li>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, " ")
+    .replace(/<\/(p|div|ul|ol|table|tr|blockquote)>/gi, (tag) => `${tag}\n\n`);
+  return DOMPurify.sanitize(blocks, { ALLOWED_TAGS: TELEGRAM_TAGS, ALLOWED_ATTR: ["href"] })
+    // Telegram rejects a link whose unsafe href the sanitiser removed
+    .replace(/<a>([\s\S]*?)<\/a>/g, "$1")
+    .replace(/&nbsp;/g, " ")
+    .replace(/[ \t]*\n[ \t]*/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+/**
+ * The tip as a Telegram message in HTML parse mode, with its length as
+ * Telegram counts it and warnings for anything that will not post as
+ * written.
+ */
+export const renderTipTelegram = (tip: TipRenderSource): TelegramMessage => {
+  const html = buildTipHtml(tip);
+  const text = toTelegramHtml(html);
+  const length = decodeTelegramEntities(text.replace(/<[^>]*>/g, "")).length;
+
+  const warnings: string[] = [];
+  if (length > TELEGRAM_MESSAGE_LIMIT) {
+    warnings.push(
+      `${length - TELEGRAM_MESSAGE_LIMIT} characters over Telegram's ${TELEGRAM_MESSAGE_LIMIT}-character message limit; the post will be rejected.`
+    );
+  } else if (length > TELEGRAM_CAPTION_LIMIT) {
+    warnings.push(
+      `Longer than the ${TELEGRAM_CAPTION_LIMIT}-character caption limit, so it cannot be posted as the caption of an attached report.`
+    );
+  }
+  if (/<img\b/i.test(html)) warnings.push("Images are not shown in Telegram.");
+  if (/<table\b/i.test(html)) warnings.push("Tables lose their layout in Telegram; each cell is shown as plain text.");
+  return { text, length, warnings };
+};
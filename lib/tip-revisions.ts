@@ -0,0 +1,113 @@
+// lib/tip-revisions.ts
+import type { CreateTipRequest, TipFieldChange, TipRevision } from "@/lib/api-tips";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+type TrackedTipField = Exclude<keyof CreateTipRequest, "stockId">;
+
+// Fields compared between revisions, in display order
+const TRACKED_FIELDS: TrackedTipField[] = [
+  "portfolio",
+  "title",
+  "stockSymbol",
+  "stockName",
+  "category",
+  "status",
+  "action",
+  "buyRange",
+  "targetPrice",
+  "targetPercentage",
+  "stopLoss",
+  "addMoreAt",
+  "exitPrice",
+  "exitedPrice",
+  "exitStatus",
+  "exitStatusPercentage",
+  "horizon",
+  "analysistConfidence",
+  "mpWeightage",
+  "description",
+  "content",
+  "tipUrl",
+  "downloadLinks",
+  "publishState",
+  "publishAt",
+];
+
+export const TIP_FIELD_LABELS: Record<string, string> = {
+  portfolio: "Portfolio",
+  title: "Title",
+  stockSymbol: "Stock Symbol",
+  stockName: "Stock Name",
+  category: "Category",
+  status: "Status",
+  action: "Action",
+  buyRange: "Buy Range",
+  targetPrice: "Target Price",
+  targetPercentage: "Target %",
+  stopLoss: "Stop Loss",
+  addMoreAt: "Add More At",
+  exitPrice: "Exit Price",
+  exitedPrice: "Exited Price",
+  exitStatus: "Exit Status",
+  exitStatusPercentage: "Exit %",
+  horizon: "Horizon",
+  analysistConfidence: "Confidence",
+  mpWeightage: "MP Weightage",
+  description: "Description",
+  content: "Content",
+  tipUrl: "PDF Link",
+  downloadLinks: "Download Links",
+  publishState: "Publishing",
+  publishAt: "Publish At",
+};
+
+// Changes to these reach subscribers as advice, so the timeline highlights them
+export const MATERIAL_TIP_FIELDS = ["action", "buyRange", "targetPrice", "targetPercentage", "stopLoss", "addMoreAt", "exitPrice", "status"];
+
+// =================================================================
+// DIFFING
+// =================================================================
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value).trim();
+};
+
+/**
+ * Field-level changes from one version of a tip to the next. Values are
+ * compared as text so "450" and 450 count as the same.
+ */
+export const diffTipRequests = (before: CreateTipRequest, after: CreateTipRequest): TipFieldChange[] =>
+  TRACKED_FIELDS.flatMap((field) => {
+    const from = toText(before[field]);
+    const to = toText(after[field]);
+    return from === to ? [] : [{ field, before: from, after: to }];
+  });
+
+export const isMaterialChange = (change: TipFieldChange): boolean => MATERIAL_TIP_FIELDS.includes(change.field);
+
+// =================================================================
+// RESTORING
+// =================================================================
+
+const fromText = (field: string, text: string): unknown => {
+  // A general tip has no portfolio, which the API is told with null
+  if (!text) return field === "portfolio" ? null : undefined;
+  if (field === "analysistConfidence") return Number(text);
+  if (field === "content" || field === "downloadLinks") return JSON.parse(text);
+  return text;
+};
+
+/**
+ * The tip as it was before a revision: its snapshot with every changed field
+ * put back to its earlier value. Used to restore the original of the oldest revision.
+ */
+export const getTipBeforeRevision = (revision: TipRevision): CreateTipRequest =>
+  revision.changes.reduce<CreateTipRequest>(
+    (tip, change) => ({ ...tip, [change.field]: fromText(change.field, change.before) }),
+    { ...revision.snapshot }
+  );
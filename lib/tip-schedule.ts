@@ -0,0 +1,195 @@
+// lib/tip-schedule.ts
+import { fetchAllTips, fetchTipById, toCreateTipRequest, updateTip, type Tip, type TipPublishState } from "@/lib/api-tips";
+import { sendNotification } from "@/lib/api-notifications";
+import { renderTipEmail } from "@/lib/tip-rendering";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+export interface PublishTipResult {
+  tip: Tip;
+  // False when another run had already published the tip
+  published: boolean;
+  notified: boolean;
+  notificationError?: string;
+  // The publish went through but its revision was not recorded
+  revisionError?: string;
+}
+
+export interface PublishDueResult {
+  published: Tip[];
+  notified: number;
+  failed: Array<{ tip: Tip; error: string }>;
+  // Published, but subscribers are still to be notified on a later run
+  notificationFailed: Array<{ tip: Tip; error: string }>;
+}
+
+// NSE/BSE open at 09:15 IST, which is 03:45 UTC all year (IST has no DST)
+const MARKET_OPEN_UTC = { hours: 3, minutes: 45 };
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+// =================================================================
+// SCHEDULE
+// =================================================================
+
+export const getTipPublishState = (tip: Pick<Tip, "publishState">): TipPublishState => tip.publishState || "published";
+
+export const isTipDue = (tip: Tip, now: Date = new Date()): boolean =>
+  getTipPublishState(tip) === "scheduled" && !!tip.publishAt && new Date(tip.publishAt).getTime() <= now.getTime();
+
+/**
+ * Scheduled tips in publishing order, soonest first.
+ */
+export const getScheduledQueue = (tips: Tip[]): Tip[] =>
+  tips
+    .filter((tip) => getTipPublishState(tip) === "scheduled")
+    .sort((a, b) => new Date(a.publishAt || 0).getTime() - new Date(b.publishAt || 0).getTime());
+
+/**
+ * Next 09:15 IST market open after `from` on a weekday. Exchange holidays are
+ * not known here, so a holiday open has to be picked by hand.
+ */
+export const getNextMarketOpen = (from: Date = new Date()): Date => {
+  const open = new Date(from);
+  open.setUTCHours(MARKET_OPEN_UTC.hours, MARKET_OPEN_UTC.minutes, 0, 0);
+  if (open.getTime() <= from.getTime()) open.setUTCDate(open.getUTCDate() + 1);
+  // 03:45 UTC is the same calendar day in IST, so the UTC weekday is the trading weekday
+  while (open.getUTCDay() === 0 || open.getUTCDay() === 6) open.setUTCDate(open.getUTCDate() + 1);
+  return open;
+};
+
+/**
+ * "15 Oct, 09:15 IST" style label for a publish time, independent of the viewer's timezone.
+ */
+export const formatIstTime = (iso: string): string => {
+  const ist = new Date(new Date(iso).getTime() + IST_OFFSET_MS);
+  const date = ist.toLocaleDateString("en-IN", { day: "numeric", month: "short", timeZone: "UTC" });
+  const time = ist.toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit", hour12: false, timeZone: "UTC" });
+  return `${date}, ${time} IST`;
+};
+
+/**
+ * Value for a datetime-local input, in the browser's timezone.
+ */
+export const toDateTimeLocalValue = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+// =================================================================
+// PUBLISHING
+// =================================================================
+
+/**
+ * Whether a published portfolio tip still has to notify its subscribers,
+ * because sending failed after the tip went live.
+ */
+export const isNotificationPending = (tip: Tip): boolean =>
+  getTipPublishState(tip) === "published" && !!tip.notificationPending && !!tip.portfolio;
+
+/**
+ * Sends a published tip to its portfolio's subscribers and clears its
+ * pending flag.
+ */
+export const notifyTipSubscribers = async (tip: Tip): Promise<Tip> => {
+  if (!tip.portfolio) return tip;
+  await sendNotification({ portfolioId: tip.portfolio, ...renderTipEmail(tip) });
+  return updateTip(tip.id || tip._id, { ...toCreateTipRequest(tip), notificationPending: false });
+};
+
+/**
+ * Publishes one tip now and notifies its portfolio's subscribers. General
+ * tips have no subscriber list to mail, so only portfolio tips notify. The
+ * tip is re-read first and left alone if another run already published it.
+ * A failed notification does not undo the publish: the tip keeps its
+ * pending flag and the scheduler sends it again on its next run.
+ */
+export const publishTip = async (tip: Tip): Promise<PublishTipResult> => {
+  const current = await fetchTipById(tip.id || tip._id);
+  if (getTipPublishState(current) === "published") return { tip: current, published: false, notified: false };
+
+  const published = await updateTip(current.id, {
+    ...toCreateTipRequest(current),
+    publishState: "published",
+    publishAt: new Date().toISOString(),
+    notificationPending: !!current.portfolio,
+  });
+  const { revisionError } = published;
+  if (!published.portfolio) return { tip: published, published: true, notified: false, revisionError };
+
+  try {
+    return { tip: await notifyTipSubscribers(published), published: true, notified: true, revisionError };
+  } catch (error) {
+    const notificationError = error instanceof Error ? error.message : "Failed to notify subscribers";
+    return { tip: published, published: true, notified: false, notificationError, revisionError };
+  }
+};
+
+/**
+ * Publishes every scheduled tip whose time has come and retries the
+ * notifications of earlier runs that failed. Failures are collected so one
+ * bad tip does not hold back the rest of the queue.
+ */
+export const publishDueTips = async (tips: Tip[], now: Date = new Date()): Promise<PublishDueResult> => {
+  const result: PublishDueResult = { published: [], notified: 0, failed: [], notificationFailed: [] };
+  for (const tip of tips.filter((item) => isTipDue(item, now))) {
+    try {
+      const { tip: published, published: didPublish, notified, notificationError } = await publishTip(tip);
+      if (!didPublish) continue;
+      result.published.push(published);
+      if (notified) result.notified++;
+      if (notificationError) result.notificationFailed.push({ tip: published, error: notificationError });
+    } catch (error) {
+      result.failed.push({ tip, error: error instanceof Error ? error.message : "Failed to publish tip" });
+    }
+  }
+  for (const tip of tips.filter(isNotificationPending)) {
+    try {
+      await notifyTipSubscribers(tip);
+      result.notified++;
+    } catch (error) {
+      result.notificationFailed.push({ tip, error: error instanceof Error ? error.message : "Failed to notify subscribers" });
+    }
+  }
+  return result;
+};
+
+// =================================================================
+// SERVER SCHEDULER
+// =================================================================
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let isPublishing = false;
+
+const runScheduledPublish = async () => {
+  if (isPublishing) return;
+  isPublishing = true;
+  try {
+    const { failed, notificationFailed } = await publishDueTips(await fetchAllTips());
+    failed.forEach(({ tip, error }) => console.error(`Tip scheduler failed to publish "${tip.title}":`, error));
+    notificationFailed.forEach(({ tip, error }) => console.error(`Tip scheduler failed to notify for "${tip.title}":`, error));
+  } catch (error) {
+    console.error("Tip scheduler run failed:", error);
+  } finally {
+    isPublishing = false;
+  }
+};
+
+/**
+ * Checks for due tips every minute on the Next.js server. Only runs where
+ * TIP_SCHEDULER_ENABLED is "true": set it on exactly one instance, or leave
+ * it off everywhere and call /api/tips/publish-due from a single cron, so a
+ * due tip is not published and notified once per instance. Needs
+ * ADMIN_ACCESS_TOKEN, which server-side API calls authenticate with.
+ */
+export const startTipScheduler = (): void => {
+  if (schedulerTimer || process.env.TIP_SCHEDULER_ENABLED !== "true") return;
+  if (!process.env.ADMIN_ACCESS_TOKEN) {
+    console.warn("Tip scheduler not started: ADMIN_ACCESS_TOKEN is not set");
+    return;
+  }
+  schedulerTimer = setInterval(runScheduledPublish, SCHEDULER_INTERVAL_MS);
+  runScheduledPublish();
+};
@@ -0,0 +1,133 @@
+// lib/tip-templates.ts
+import {
+  createTip,
+  toCreateTipRequest,
+  type CreateTipRequest,
+  type Tip,
+  type TipContent,
+  type TipTemplate,
+} from "@/lib/api-tips";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+// Fields a template fills in on a new tip
+export interface TipTemplateFields {
+  category?: TipTemplate["category"];
+  description: string;
+  content: TipContent[];
+  downloadLinks: Array<{ name: string; url: string }>;
+}
+
+export interface PortfolioCloneTarget {
+  portfolioId: string;
+  mpWeightage: string;
+}
+
+export interface PortfolioCloneResult {
+  portfolioId: string;
+  ok: boolean;
+  tip?: Tip;
+  error?: string;
+}
+
+// The disclaimer travels with the tip as a content entry under this key
+export const DISCLAIMER_CONTENT_KEY = "disclaimer";
+
+// Content entries and the download link the tip forms build from their own fields
+export const FORM_CONTENT_KEYS = ["stop-loss", "exit-range"];
+const FORM_LINK_NAME = "Analysis Report";
+
+// =================================================================
+// TEMPLATES
+// =================================================================
+
+/**
+ * What a new tip starts with when created from a template. Entries with no
+ * key are dropped; an empty disclaimer adds no entry.
+ */
+export const applyTipTemplate = (template: TipTemplate): TipTemplateFields => ({
+  category: template.category,
+  description: template.description,
+  content: [
+    ...template.content.filter((entry) => entry.key.trim() && !FORM_CONTENT_KEYS.includes(entry.key)),
+    ...(template.disclaimer.trim() ? [{ key: DISCLAIMER_CONTENT_KEY, value: template.disclaimer }] : []),
+  ],
+  downloadLinks: template.downloadLinks,
+});
+
+/**
+ * Content for a tip form submit: the entries the form built, followed by any
+ * other entries the tip already had (from its template or earlier saves) so
+ * a form that does not show them does not drop them.
+ */
+export const mergeTipContent = (formEntries: TipContent[], otherEntries: TipContent[] = []): TipContent[] => {
+  const formKeys = new Set(formEntries.map((entry) => entry.key));
+  return [
+    ...formEntries,
+    ...otherEntries.filter((entry) => !formKeys.has(entry.key) && !FORM_CONTENT_KEYS.includes(entry.key)),
+  ];
+};
+
+/**
+ * Download links for a tip form submit: the form's analysis report link
+ * first, then the other links without repeating a URL.
+ */
+export const mergeDownloadLinks = (
+  formLinks: Array<{ name: string; url: string }>,
+  otherLinks: Array<{ name: string; url: string }> = []
+): Array<{ name: string; url: string }> => {
+  const urls = new Set(formLinks.map((link) => link.url));
+  return [
+    ...formLinks,
+    ...otherLinks
+      .filter((link) => link.name !== FORM_LINK_NAME && !urls.has(link.url))
+      .map(({ name, url }) => ({ name, url })),
+  ];
+};
+
+// =================================================================
+// CLONING ACROSS PORTFOLIOS
+// =================================================================
+
+/**
+ * A copy of a tip for another portfolio with that portfolio's weightage.
+ * The copy is published as a new tip, so publish time and exit fields of
+ * the original are not carried over.
+ */
+export const buildPortfolioClone = (tip: Tip, target: PortfolioCloneTarget): CreateTipRequest => ({
+  ...toCreateTipRequest(tip),
+  portfolio: target.portfolioId,
+  mpWeightage: target.mpWeightage || undefined,
+  status: "Active",
+  exitedPrice: undefined,
+  exitStatus: undefined,
+  exitStatusPercentage: undefined,
+  publishState: "published",
+  publishAt: new Date().toISOString(),
+});
+
+/**
+ * Creates a copy of the tip in each target portfolio. Failures are reported
+ * per portfolio so one rejected copy does not stop the others.
+ */
+export const cloneTipToPortfolios = async (
+  tip: Tip,
+  targets: PortfolioCloneTarget[]
+): Promise<PortfolioCloneResult[]> => {
+  const results: PortfolioCloneResult[] = [];
+  for (const target of targets) {
+    try {
+      const created = await createTip(target.portfolioId, buildPortfolioClone(tip, target));
+      results.push({ portfolioId: target.portfolioId, ok: true, tip: created });
+    } catch (error) {
+      results.push({
+        portfolioId: target.portfolioId,
+        ok: false,
+        error: error instanceof Error ? error.message : "Failed to create tip",
+      });
+    }
+  }
+  return results;
+};